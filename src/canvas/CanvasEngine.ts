@@ -4,6 +4,7 @@ import { CANVAS_DEFAULTS, ZOOM } from '@/constants';
 import {
   clamp,
   applyPostLoadVisualState,
+  layerManager,
   CANVAS_OBJECT_PROPS,
 } from '@/utils';
 
@@ -11,6 +12,27 @@ type EventCallback<T extends CanvasEventType> = (
   data: CanvasEngineEvents[T]
 ) => void;
 
+/**
+ * Renders each object at its layer's opacity on top of its own, which also
+ * covers image exports and previews rendered through the canvas.
+ */
+class LayeredCanvas extends Canvas {
+  _renderObjects(ctx: CanvasRenderingContext2D, objects: FabricObject[]): void {
+    for (const obj of objects) {
+      if (!obj) continue;
+      const opacity = layerManager.getObjectOpacity(obj);
+      if (opacity >= 1) {
+        obj.render(ctx);
+        continue;
+      }
+      ctx.save();
+      ctx.globalAlpha *= opacity;
+      obj.render(ctx);
+      ctx.restore();
+    }
+  }
+}
+
 export class CanvasEngine {
   private static instance: CanvasEngine | null = null;
   private canvas: Canvas | null = null;
@@ -47,7 +69,7 @@ export class CanvasEngine {
 
     const { width, height } = container.getBoundingClientRect();
 
-    this.canvas = new Canvas(canvasEl, {
+    this.canvas = new LayeredCanvas(canvasEl, {
       width,
       height,
       backgroundColor: config?.backgroundColor ?? '', // grid is CSS on the container
@@ -223,6 +245,7 @@ export class CanvasEngine {
     if (!this.canvas) return;
     await this.canvas.loadFromJSON(json);
     applyPostLoadVisualState(this.canvas);
+    layerManager.applyToCanvas();
   }
 
   toDataURL(options?: { format?: 'png' | 'jpeg'; quality?: number; multiplier?: number }): string {
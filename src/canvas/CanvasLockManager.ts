@@ -1,8 +1,18 @@
-import type { Canvas, FabricImage } from 'fabric';
-import type { LockedCanvasState } from '@/types';
+import type { Canvas, FabricImage, FabricObject } from 'fabric';
+import type { GeoTransform, LockedCanvasState, MapScale } from '@/types';
+import { rescaleMapScale } from '@/utils/units';
+import { cloneGeoTransform, imageToWorld, rescaleGeoTransform, worldToImage } from '@/utils/georeference';
 
 type LockChangeCallback = (state: LockedCanvasState) => void;
 
+/**
+ * Whether an object belongs in image/PDF exports. Tool overlays (isHelper) and
+ * objects excluded from serialization are left out.
+ */
+export function isExportableObject(obj: Pick<FabricObject, 'excludeFromExport'>): boolean {
+  return !(obj as any).isHelper && !obj.excludeFromExport;
+}
+
 class CanvasLockManagerClass {
   private canvas: Canvas | null = null;
   private state: LockedCanvasState = {
@@ -11,8 +21,12 @@ class CanvasLockManagerClass {
     height: 0,
     imageId: null,
     offsetX: 0,
-    offsetY: 0
+    offsetY: 0,
+    scale: null,
+    georeference: null
   };
+  // Scale and georeference of the most recently unlocked image, reapplied if the same image is relocked
+  private detached: { imageId: string; scale: MapScale | null; georeference: GeoTransform | null } | null = null;
   private listeners: Set<LockChangeCallback> = new Set();
   private autoLockEnabled: boolean = false;
 
@@ -37,7 +51,12 @@ class CanvasLockManagerClass {
     return id;
   }
 
-  lockToImage(image: FabricImage): void {
+  /**
+   * Lock the canvas to an image. When no scale or georeference is passed, the
+   * one previously set for the same image is kept and adjusted to the image's
+   * current size.
+   */
+  lockToImage(image: FabricImage, scale?: MapScale | null, georeference?: GeoTransform | null): void {
     if (!this.canvas) return;
 
     const imageId = this.ensureImageId(image);
@@ -66,36 +85,114 @@ class CanvasLockManagerClass {
       offsetY = top - imgHeight;
     }
 
+    const previous =
+      this.state.imageId === imageId
+        ? { scale: this.state.scale ?? null, georeference: this.state.georeference ?? null }
+        : this.detached?.imageId === imageId
+          ? this.detached
+          : null;
+    const nextScale = scale === undefined ? previous?.scale ?? null : scale;
+    const nextGeoreference = georeference === undefined ? previous?.georeference ?? null : georeference;
+
     this.state = {
       locked: true,
       width: imgWidth,
       height: imgHeight,
       imageId,
       offsetX,
-      offsetY
+      offsetY,
+      scale: nextScale ? rescaleMapScale(nextScale, imgWidth, imgHeight) : null,
+      georeference: nextGeoreference ? rescaleGeoTransform(nextGeoreference, imgWidth, imgHeight) : null
     };
+    this.detached = null;
 
     this.notifyListeners();
   }
 
   unlock(): void {
+    if (this.state.imageId && (this.state.scale || this.state.georeference)) {
+      this.detached = {
+        imageId: this.state.imageId,
+        scale: this.state.scale ?? null,
+        georeference: this.state.georeference ?? null
+      };
+    }
+
     this.state = {
       locked: false,
       width: 0,
       height: 0,
       imageId: null,
       offsetX: 0,
-      offsetY: 0
+      offsetY: 0,
+      scale: null,
+      georeference: null
     };
     this.notifyListeners();
   }
 
+  /**
+   * Set or clear the real-world scale of the locked image
+   */
+  setScale(scale: MapScale | null): boolean {
+    if (!this.state.locked) return false;
+
+    this.state = { ...this.state, scale: scale ? { ...scale } : null };
+    this.notifyListeners();
+    return true;
+  }
+
+  getScale(): MapScale | null {
+    return this.state.scale ? { ...this.state.scale } : null;
+  }
+
+  /**
+   * Set or clear the georeference of the locked image
+   */
+  setGeoreference(georeference: GeoTransform | null): boolean {
+    if (!this.state.locked) return false;
+
+    this.state = { ...this.state, georeference: georeference ? cloneGeoTransform(georeference) : null };
+    this.notifyListeners();
+    return true;
+  }
+
+  getGeoreference(): GeoTransform | null {
+    return this.state.georeference ? cloneGeoTransform(this.state.georeference) : null;
+  }
+
+  /**
+   * Convert a canvas point to world coordinates, or null when not georeferenced
+   */
+  canvasToWorld(point: { x: number; y: number }): { x: number; y: number } | null {
+    const georeference = this.state.georeference;
+    if (!this.state.locked || !georeference) return null;
+    return imageToWorld(georeference, {
+      x: point.x - this.state.offsetX,
+      y: point.y - this.state.offsetY
+    });
+  }
+
+  worldToCanvas(world: { x: number; y: number }): { x: number; y: number } | null {
+    const georeference = this.state.georeference;
+    if (!this.state.locked || !georeference) return null;
+    const image = worldToImage(georeference, world);
+    if (!image) return null;
+    return { x: image.x + this.state.offsetX, y: image.y + this.state.offsetY };
+  }
+
   isLocked(): boolean {
     return this.state.locked;
   }
 
+  /** Whether `obj` is the image the canvas is locked to */
+  isLockedImage(obj: FabricObject): boolean {
+    const imageId = (obj as FabricObject & { __elsImageId?: string }).__elsImageId;
+    return this.state.locked && imageId !== undefined && imageId === this.state.imageId;
+  }
+
   getLockedState(): LockedCanvasState {
-    return { ...this.state };
+    return { ...this.state, scale: this.getScale(), georeference: this.getGeoreference() };
   }
 
   /**
@@ -124,7 +221,8 @@ class CanvasLockManagerClass {
       return this.canvas.toDataURL({
         format: options?.format ?? 'png',
         quality: options?.quality ?? 1,
-        multiplier: options?.multiplier ?? 1
+        multiplier: options?.multiplier ?? 1,
+        filter: isExportableObject
       });
     }
 
@@ -145,7 +243,8 @@ class CanvasLockManagerClass {
       left: exportOpts.left,
       top: exportOpts.top,
       width: exportOpts.width,
-      height: exportOpts.height
+      height: exportOpts.height,
+      filter: isExportableObject
     });
 
     // Restore original viewport transform
@@ -4,12 +4,13 @@ import { ZOOM } from '@/constants';
 
 type StateChangeCallback = (state: CanvasState) => void;
 
+/**
+ * View state of the canvas: zoom, pan, selection and unsaved changes. Undo and
+ * redo live in HistoryManager.
+ */
 export class CanvasStateManager {
   private state: CanvasState;
   private listeners: Set<StateChangeCallback> = new Set();
-  private undoStack: object[] = [];
-  private redoStack: object[] = [];
-  private maxHistorySize = 50;
 
   constructor() {
     this.state = {
@@ -44,39 +45,6 @@ export class CanvasStateManager {
     this.notifyListeners();
   }
 
-  pushToHistory(canvasState: object): void {
-    this.undoStack.push(canvasState);
-    if (this.undoStack.length > this.maxHistorySize) {
-      this.undoStack.shift();
-    }
-    this.redoStack = [];
-    this.setDirty(true);
-  }
-
-  undo(): object | null {
-    if (this.undoStack.length === 0) return null;
-
-    const state = this.undoStack.pop()!;
-    this.redoStack.push(state);
-    return this.undoStack[this.undoStack.length - 1] ?? null;
-  }
-
-  redo(): object | null {
-    if (this.redoStack.length === 0) return null;
-
-    const state = this.redoStack.pop()!;
-    this.undoStack.push(state);
-    return state;
-  }
-
-  canUndo(): boolean {
-    return this.undoStack.length > 0;
-  }
-
-  canRedo(): boolean {
-    return this.redoStack.length > 0;
-  }
-
   subscribe(callback: StateChangeCallback): () => void {
     this.listeners.add(callback);
     return () => this.listeners.delete(callback);
@@ -94,8 +62,6 @@ export class CanvasStateManager {
       selectedObjects: [],
       isDirty: false
     };
-    this.undoStack = [];
-    this.redoStack = [];
     this.notifyListeners();
   }
 }
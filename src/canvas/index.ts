@@ -1,3 +1,3 @@
 export { CanvasEngine } from './CanvasEngine';
 export { CanvasStateManager } from './CanvasState';
-export { canvasLockManager } from './CanvasLockManager';
+export { canvasLockManager, isExportableObject } from './CanvasLockManager';
@@ -1,27 +1,46 @@
-import { Point, FabricImage, type Group } from 'fabric';
+import { Point, FabricImage, FabricText, Line, Circle, Path, Polygon, Polyline, ActiveSelection, type FabricObject, type Group } from 'fabric';
 import northPointerImg from '@/assets/icons/north_pointer.png';
-import { jsPDF } from 'jspdf';
-import { CanvasEngine, canvasLockManager } from '@/canvas';
-import { ToolManager, type ToolManagerCallbacks } from '@/tools';
+import { CanvasEngine, canvasLockManager, isExportableObject } from '@/canvas';
+import { ToolManager, PolylineTool, type ToolManagerCallbacks } from '@/tools';
 import { ToolType } from '@/types';
-import { historyManager, snapManager, settingsManager, detectCanvasColors, createLegendGroup } from '@/utils';
+import { historyManager, ProjectVersionError, renderCanvasSnapshots, snapManager, settingsManager, detectCanvasColors, createLegendGroup, createMapScale, formatMapScale, distance, formatDistance, formatPrecision, placeTraverseShape, formatGeoTransform, formatWorldCoordinate, getMetresPerPixel, printLayoutManager, layerManager, getObjectPathShape, joinPathShapes, buildPathString, getStrokeStyle, copyCanvasObjectProps, getObjectRings, combineShapes, buildRegionPathString, offsetPathShape, type BooleanOperation, type OffsetOptions } from '@/utils';
 import { MainLayout } from './layout/MainLayout';
-import { DesktopSidebar, type FileActionCallbacks, type StrokeColorCallbacks, type EditActionCallbacks, type CanvasLockCallbacks, type SettingsCallbacks, type LegendCallbacks, type NorthPointerCallbacks } from './layout/DesktopSidebar';
+import { DesktopSidebar, type FileActionCallbacks, type StrokeColorCallbacks, type EditActionCallbacks, type CanvasLockCallbacks, type SettingsCallbacks, type LegendCallbacks, type NorthPointerCallbacks, type ScaleCallbacks, type BearingsCallbacks, type GeoreferenceCallbacks } from './layout/DesktopSidebar';
 import { SettingsModal } from './layout/SettingsModal';
 import { PropertiesPanel, type ProjectCallbacks } from './layout/PropertiesPanel';
 import { CanvasContainer } from './canvas/CanvasContainer';
-import { ImportManager, ClipboardManager } from '@/import';
+import { ImportManager, ClipboardManager, type VectorImportResult } from '@/import';
 import type { ImportColorOptions } from '@/import';
-import { ExportManager } from '@/export';
-import { StorageManager } from '@/storage';
-import { ExportFormat, type ExportOptions } from '@/types';
+import { ExportManager, JSONExporter, LayoutExporter, getExportRegion } from '@/export';
+import { StorageManager, diskFileStore, type DiskFile, type SaveKind } from '@/storage';
+import { ExportFormat, type ExportOptions, type PrintLayout } from '@/types';
 import { ConfirmModal } from './controls/ConfirmModal';
 import { ToastManager } from './controls/ToastManager';
 import { UnsavedChangesModal, type UnsavedChoice } from './controls/UnsavedChangesModal';
 import { TextInputModal } from './controls/TextInputModal';
 import { LegendModal, type LegendConfig } from './controls/LegendModal';
 import { ImportOptionsModal } from './controls/ImportOptionsModal';
+import { ScaleCalibrationModal } from './controls/ScaleCalibrationModal';
+import { MetesAndBoundsModal } from './controls/MetesAndBoundsModal';
+import { SVGExportModal } from './controls/SVGExportModal';
+import { PDFExportModal } from './controls/PDFExportModal';
+import { PrintLayoutComposer } from './controls/PrintLayoutComposer';
+import { GeoreferenceModal, type GeoreferenceDraft } from './controls/GeoreferenceModal';
 import { RichTextToolbar } from './controls/RichTextToolbar';
+import { HistoryPanel } from './controls/HistoryPanel';
+import { ProjectVersionsModal } from './controls/ProjectVersionsModal';
+import { StorageModal } from './controls/StorageModal';
+
+// Longer side of the version previews, in pixels
+const VERSION_PREVIEW_SIZE = 1200;
+
+// History labels for combining shapes
+const COMBINE_LABELS: Record<BooleanOperation, string> = {
+  union: 'Merged shapes',
+  difference: 'Subtracted shapes',
+  intersection: 'Intersected shapes',
+  exclusion: 'Excluded shape overlap'
+};
 
 export class App {
   private container: HTMLElement;
@@ -39,11 +58,25 @@ export class App {
   private renameModal: TextInputModal | null = null;
   private legendModal: LegendModal | null = null;
   private importOptionsModal: ImportOptionsModal | null = null;
+  private scaleCalibrationModal: ScaleCalibrationModal | null = null;
+  private metesAndBoundsModal: MetesAndBoundsModal | null = null;
+  private metesAndBoundsOpen: boolean = false;
+  private georeferenceModal: GeoreferenceModal | null = null;
+  private svgExportModal: SVGExportModal | null = null;
+  private pdfExportModal: PDFExportModal | null = null;
+  private printLayoutComposer: PrintLayoutComposer | null = null;
+  private historyPanel: HistoryPanel | null = null;
+  private projectVersionsModal: ProjectVersionsModal | null = null;
+  private storageModal: StorageModal | null = null;
+  private georeferenceHelpers: Array<Circle | FabricText> = [];
   private richTextToolbar: RichTextToolbar | null = null;
 
   private legendStampPreview: Group | null = null;
   private legendStampConfig: LegendConfig | null = null;
   private northPointerPreview: FabricImage | null = null;
+  private calibrationPoints: Point[] = [];
+  private calibrationHelpers: Array<Line | Circle> = [];
+  private calibrationLine: Line | null = null;
 
   private importManager: ImportManager;
   private exportManager: ExportManager;
@@ -53,6 +86,8 @@ export class App {
   private spacePanning: boolean = false;
   private panStartPoint: Point | null = null;
   private currentProjectId: string | null = null;
+  // The file on disk the project was opened from or saved to, if any
+  private currentFileHandle: FileSystemFileHandle | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -70,6 +105,15 @@ export class App {
     this.renameModal = new TextInputModal(this.layout.getElement());
     this.legendModal = new LegendModal(this.layout.getElement());
     this.importOptionsModal = new ImportOptionsModal(this.layout.getElement());
+    this.scaleCalibrationModal = new ScaleCalibrationModal(this.layout.getElement());
+    this.metesAndBoundsModal = new MetesAndBoundsModal(this.layout.getElement());
+    this.georeferenceModal = new GeoreferenceModal(this.layout.getElement());
+    this.svgExportModal = new SVGExportModal(this.layout.getElement());
+    this.pdfExportModal = new PDFExportModal(this.layout.getElement());
+    this.printLayoutComposer = new PrintLayoutComposer(this.layout.getElement());
+    this.historyPanel = new HistoryPanel(this.layout.getElement(), this.renameModal, this.confirmModal);
+    this.projectVersionsModal = new ProjectVersionsModal(this.layout.getElement());
+    this.storageModal = new StorageModal(this.layout.getElement());
 
     // Set up import options callback for ImportManager and ClipboardManager
     const importOptionsCallback = async (): Promise<ImportColorOptions | null> => {
@@ -92,7 +136,17 @@ export class App {
       this.clipboardManager.setCanvas(canvas);
       historyManager.setCanvas(canvas);
       canvasLockManager.setCanvas(canvas);
+      layerManager.setCanvas(canvas);
       await this.storageManager.init(canvas);
+      this.storageManager.onQuotaExceeded((kind) => this.showStorageFullToast(kind));
+      const openError = this.storageManager.getOpenError();
+      if (openError) {
+        this.toastManager?.showToast({
+          title: 'Saved projects unavailable',
+          subtitle: openError.message,
+          duration: 12000
+        });
+      }
 
       // Check for autosave and offer to restore
       const hasAutosave = await this.storageManager.hasAutosave();
@@ -107,7 +161,7 @@ export class App {
           : confirm('Found an autosaved session. Would you like to restore it?');
 
         if (restore) {
-          await this.storageManager.loadAutosave();
+          await this.loadAutosave();
         }
       }
 
@@ -127,7 +181,8 @@ export class App {
     const callbacks: ToolManagerCallbacks = {
       showActionButton: () => {},
       hideActionButton: () => {},
-      updateReticle: () => {}
+      updateReticle: () => {},
+      openMetesAndBounds: () => void this.handleMetesAndBounds()
     };
 
     this.toolManager = new ToolManager(callbacks);
@@ -310,6 +365,12 @@ export class App {
     });
 
     window.addEventListener('keydown', (e) => {
+      // Ctrl/Cmd+S saves, even from a text field, instead of saving the page
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        void this.handleSaveShortcut(e.shiftKey);
+        return;
+      }
       // While editing text (or typing into a DOM input), let Fabric/the browser
       // handle keys natively. This is what stops Backspace/Delete from deleting
       // the entire text box instead of a character, and prevents undo/redo from
@@ -339,6 +400,12 @@ export class App {
         });
         return;
       }
+      // Ctrl/Cmd+J joins the selected lines, with Shift closing the result
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'j') {
+        e.preventDefault();
+        this.joinSelectedPaths(e.shiftKey);
+        return;
+      }
       // Handle Ctrl/Cmd+V for paste
       if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
         e.preventDefault();
@@ -379,6 +446,10 @@ export class App {
       onExportPNG: () => this.handleExportPNG(),
       onExportJPG: () => this.handleExportJPG(),
       onExportPDF: () => this.handleExportPDF(),
+      onExportGeoJSON: () => this.handleExportGeoJSON(),
+      onExportSVG: () => this.handleExportSVG(),
+      onExportProject: () => this.handleExportProject(),
+      onOpenLayout: () => this.handleOpenLayout(),
       onCopyToClipboard: () => this.handleCopyToClipboard()
     };
 
@@ -415,6 +486,11 @@ export class App {
     // Subscribe to canvas lock changes
     canvasLockManager.subscribe((state) => {
       this.desktopSidebar?.updateCanvasLockStatus(state.locked);
+      this.desktopSidebar?.updateScaleStatus(state.scale ? formatMapScale(state.scale) : null);
+      this.desktopSidebar?.updateGeoreferenceStatus(
+        state.georeference ? `Georeferenced: ${formatGeoTransform(state.georeference)}` : null
+      );
+      this.propertiesPanel?.refreshMeasurements();
     });
 
     // Set up edit action callbacks
@@ -439,6 +515,9 @@ export class App {
           );
         }
       },
+      onToggleHistory: () => {
+        this.historyPanel?.toggle();
+      },
       onClearAll: async () => {
         const confirmed = this.confirmModal
           ? await this.confirmModal.open({
@@ -462,6 +541,11 @@ export class App {
     };
 
     this.desktopSidebar.setEditCallbacks(editCallbacks);
+    this.historyPanel?.setOnOpenChange((open) => this.desktopSidebar?.setHistoryOpen(open));
+    // Steps can also be recorded by tools or jumped to from the history panel
+    historyManager.subscribe(() => {
+      this.desktopSidebar?.updateUndoRedoButtons(historyManager.canUndo(), historyManager.canRedo());
+    });
 
     // Set up settings callbacks
     this.settingsModal = new SettingsModal(this.layout.getElement());
@@ -479,6 +563,10 @@ export class App {
       onDefaultFontChange: (font) => {
         // Update the current font to match the new default
         this.toolManager?.setConfig({ fontFamily: font });
+      },
+      onManageStorage: () => {
+        this.settingsModal?.close();
+        void this.showStorageManager();
       }
     });
     const settingsCallbacks: SettingsCallbacks = {
@@ -498,6 +586,24 @@ export class App {
     };
     this.desktopSidebar.setNorthPointerCallbacks(northPointerCallbacks);
 
+    // Set up scale calibration callbacks
+    const scaleCallbacks: ScaleCallbacks = {
+      onCalibrateScale: () => this.handleCalibrateScale()
+    };
+    this.desktopSidebar.setScaleCallbacks(scaleCallbacks);
+
+    // Set up bearings & distances callbacks
+    const bearingsCallbacks: BearingsCallbacks = {
+      onEnterBearings: () => void this.handleMetesAndBounds()
+    };
+    this.desktopSidebar.setBearingsCallbacks(bearingsCallbacks);
+
+    // Set up georeference callbacks
+    const georeferenceCallbacks: GeoreferenceCallbacks = {
+      onGeoreference: () => void this.handleGeoreference()
+    };
+    this.desktopSidebar.setGeoreferenceCallbacks(georeferenceCallbacks);
+
     // Initialize tool manager with default settings
     const defaultSettings = settingsManager.getSettings();
     this.toolManager?.setConfig({
@@ -534,6 +640,15 @@ export class App {
       },
       onLockCanvasToImage: () => {
         this.lockCanvasToSelectedImage();
+      },
+      onJoinPaths: (close: boolean) => {
+        this.joinSelectedPaths(close);
+      },
+      onCombineShapes: (operation: BooleanOperation) => {
+        this.combineSelectedShapes(operation);
+      },
+      onOffsetPath: (options: OffsetOptions) => {
+        this.offsetSelectedPath(options);
       }
     };
 
@@ -568,20 +683,31 @@ export class App {
       onLoadAutosave: async () => {
         const proceed = await this.handleUnsavedBeforeOpen();
         if (!proceed) return false;
-        const success = await this.storageManager.loadAutosave();
+        const success = await this.loadAutosave();
         if (success) {
           this.currentProjectId = null;
-          historyManager.clear();
+          this.currentFileHandle = null;
         }
         return success;
       },
       getAutosaveInfo: () => this.storageManager.getAutosaveInfo(),
       onDeleteProject: (id: string) => this.deleteProject(id),
       onListProjects: () => this.listProjects(),
-      getCurrentProjectId: () => this.getCurrentProjectId()
+      getCurrentProjectId: () => this.getCurrentProjectId(),
+      onShowVersions: (id: string) => this.showProjectVersions(id),
+      onSaveToFile: () => this.saveToFile(),
+      onOpenFile: () => this.openFromFile(),
+      onListRecentFiles: () => diskFileStore.listRecent(),
+      onOpenRecentFile: (id: string) => this.openFromFile(id),
+      onRemoveRecentFile: (id: string) => diskFileStore.removeRecent(id)
     };
     this.propertiesPanel.setProjectCallbacks(projectCallbacks);
 
+    this.propertiesPanel.setLayerCallbacks({
+      onLayersChange: () => historyManager.markDirty(),
+      onMoveSelectionToLayer: (layerId: string) => this.moveSelectionToLayer(layerId)
+    });
+
     this.toolManager.on('tool:changed', (tool) => {
       this.desktopSidebar?.setActiveTool(tool.type);
     });
@@ -593,7 +719,7 @@ export class App {
 
     this.engine?.on('selection:changed', (objects) => {
       const selectedObject = objects[0] ?? null;
-      this.propertiesPanel?.updateContent(selectedObject);
+      this.propertiesPanel?.updateContent(selectedObject, objects);
     });
 
     // Floating rich-text formatting toolbar for Textbox objects.
@@ -605,10 +731,16 @@ export class App {
     // Commit a discrete history state once text editing finishes so an edited or
     // accidentally deleted box can be brought back with undo.
     canvas.on('text:editing:exited', () => this.commitHistory());
+
+    // Keep length/area readouts current while shapes are resized or their nodes edited.
+    const refreshMeasurements = () => this.propertiesPanel?.refreshMeasurements();
+    canvas.on('object:scaling', refreshMeasurements);
+    canvas.on('object:modified', refreshMeasurements);
+    canvas.on('mouse:up', refreshMeasurements);
   }
 
-  private commitHistory(): void {
-    historyManager.saveState();
+  private commitHistory(label?: string): void {
+    historyManager.saveState({ label });
     this.desktopSidebar?.updateUndoRedoButtons(
       historyManager.canUndo(),
       historyManager.canRedo()
@@ -623,7 +755,7 @@ export class App {
     // Create file input element
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*,.json,.pdf,application/pdf';
+    input.accept = 'image/*,.json,.elmap,.geojson,.kml,.pdf,application/pdf';
     
     input.onchange = async (e: Event) => {
       const files = (e.target as HTMLInputElement).files;
@@ -638,8 +770,19 @@ export class App {
         if (result.success) {
           console.log('Import successful');
           canvas.requestRenderAll();
+          if (result.vectorImport) {
+            this.showVectorImportToast(result.vectorImport);
+          }
         } else {
           console.error('Import failed');
+          if (result.error) {
+            this.toastManager?.showToast({ title: 'Import failed', subtitle: result.error, duration: 8000 });
+          } else if (/\.(geojson|kml)$/i.test(file.name)) {
+            this.toastManager?.showToast({
+              title: 'Import failed',
+              subtitle: 'No lines or polygons could be read from the file'
+            });
+          }
         }
       } catch (error) {
         console.error('Import error:', error);
@@ -649,6 +792,21 @@ export class App {
     input.click();
   };
 
+  private showVectorImportToast(result: VectorImportResult): void {
+    const title = `Imported ${result.count} ${result.count === 1 ? 'shape' : 'shapes'}`;
+    let subtitle: string;
+    if (result.placement === 'georeferenced') {
+      subtitle = 'Placed using the base map georeference';
+    } else if (result.placement === 'pixels') {
+      subtitle = 'Placed at their base image pixel positions';
+    } else if (canvasLockManager.getGeoreference()) {
+      subtitle = 'Fitted to the view: the file coordinates do not match the georeference';
+    } else {
+      subtitle = 'Fitted to the view: georeference the base map to place them exactly';
+    }
+    this.toastManager?.showToast({ title, subtitle });
+  }
+
   private handleExportPNG = async (): Promise<void> => {
     const canvas = this.engine?.getCanvas();
     if (!canvas) return;
@@ -669,6 +827,68 @@ export class App {
     await this.exportManager.export(canvas, options, 'elmap-export');
   };
 
+  private handleExportGeoJSON = async (): Promise<void> => {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const options: ExportOptions = {
+      format: ExportFormat.GEOJSON,
+      flattenTolerance: settingsManager.getCurveTolerance()
+    };
+
+    const result = await this.exportManager.export(canvas, options, 'elmap-export');
+    if (!result.success) {
+      this.toastManager?.showToast({
+        title: 'GeoJSON export failed',
+        subtitle: result.error
+      });
+    } else if (!canvasLockManager.getGeoreference()) {
+      this.toastManager?.showToast({
+        title: 'Exported in image pixels',
+        subtitle: 'Georeference the base map to export world coordinates'
+      });
+    }
+  };
+
+  private handleExportProject = async (): Promise<void> => {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const project = this.currentProjectId
+      ? (await this.storageManager.listProjects()).find((p) => p.id === this.currentProjectId)
+      : undefined;
+    const result = await this.exportManager.export(canvas, { format: ExportFormat.BUNDLE }, project?.name ?? 'elmap-export');
+    if (!result.success) {
+      this.toastManager?.showToast({
+        title: 'Project export failed',
+        subtitle: result.error
+      });
+    }
+  };
+
+  private handleExportSVG = async (): Promise<void> => {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas || !this.svgExportModal) return;
+
+    const hasBaseMap = canvas.getObjects().some((obj) => layerManager.isBaseMap(obj) && isExportableObject(obj));
+    const choice = await this.svgExportModal.open({ hasBaseMap });
+    if (!choice) return;
+
+    const options: ExportOptions = {
+      format: ExportFormat.SVG,
+      includeBaseMap: choice.includeBaseMap,
+      svgGrouping: choice.grouping
+    };
+
+    const result = await this.exportManager.export(canvas, options, 'elmap-export');
+    if (!result.success) {
+      this.toastManager?.showToast({
+        title: 'SVG export failed',
+        subtitle: result.error
+      });
+    }
+  };
+
   private handleExportJPG = async (): Promise<void> => {
     const canvas = this.engine?.getCanvas();
     if (!canvas) return;
@@ -691,46 +911,85 @@ export class App {
 
   private handleExportPDF = async (): Promise<void> => {
     const canvas = this.engine?.getCanvas();
-    if (!canvas) return;
-
-    // Use locked region if canvas is locked
-    if (canvasLockManager.isLocked()) {
-      const lockedState = canvasLockManager.getLockedState();
-      const dataUrl = canvasLockManager.toDataURL({ format: 'png', quality: 1, multiplier: 2 });
-
-      const width = lockedState.width;
-      const height = lockedState.height;
-      const orientation = width > height ? 'landscape' : 'portrait';
+    if (!canvas || !this.pdfExportModal) return;
 
-      const pdf = new jsPDF({
-        orientation,
-        unit: 'px',
-        format: [width, height]
-      });
-
-      pdf.addImage(dataUrl, 'PNG', 0, 0, width, height);
-      const blob = pdf.output('blob');
-
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'elmap-export.pdf';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+    const objects = canvas.getObjects().filter((obj) => isExportableObject(obj) && layerManager.isObjectVisible(obj));
+    if (objects.length === 0) {
+      this.toastManager?.showToast({ title: 'Nothing to export' });
       return;
     }
 
+    const region = getExportRegion(objects);
+    const choice = await this.pdfExportModal.open({
+      regionWidth: region.width,
+      regionHeight: region.height,
+      metresPerPixel: getMetresPerPixel(canvasLockManager.getScale())
+    });
+    if (!choice) return;
+
     const options: ExportOptions = {
       format: ExportFormat.PDF,
-      quality: 1,
-      scale: 2
+      ...choice
     };
 
-    await this.exportManager.export(canvas, options, 'elmap-export');
+    const result = await this.exportManager.export(canvas, options, 'elmap-export');
+    if (!result.success) {
+      this.toastManager?.showToast({
+        title: 'PDF export failed',
+        subtitle: result.error
+      });
+    }
+  };
+
+  private handleOpenLayout = async (): Promise<void> => {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas || !this.printLayoutComposer) return;
+
+    let layout = printLayoutManager.getOrCreateLayout();
+    for (;;) {
+      const result = await this.printLayoutComposer.open({
+        layout,
+        renderPreview: (sheet, dpi) => this.exportManager.renderLayoutPreview(canvas, sheet, dpi),
+        metresPerPixel: getMetresPerPixel(canvasLockManager.getScale()),
+        getMaxRasterDpi: (sheet) => LayoutExporter.getMaxRasterDpi(sheet)
+      });
+      layout = result.layout;
+      this.storePrintLayout(layout);
+
+      if (result.action === 'close') return;
+
+      if (result.action === 'edit-legend') {
+        const legend = await this.legendModal?.open(detectCanvasColors(canvas));
+        if (legend?.confirmed) {
+          layout = { ...layout, legend: legend.config.items.length > 0 ? legend.config : null };
+          this.storePrintLayout(layout);
+        }
+        continue;
+      }
+
+      const format = result.format === 'pdf' ? ExportFormat.PDF : ExportFormat.PNG;
+      const exported = await this.exportManager.exportLayout(canvas, layout, format, 'elmap-layout');
+      if (!exported.success) {
+        this.toastManager?.showToast({
+          title: 'Layout export failed',
+          subtitle: exported.error
+        });
+      }
+      return;
+    }
   };
 
+  /**
+   * Keep the layout with the project, marking it unsaved only when something changed.
+   */
+  private storePrintLayout(layout: PrintLayout): void {
+    const current = printLayoutManager.getLayout();
+    if (current && JSON.stringify(current) === JSON.stringify(layout)) return;
+    if (!current && JSON.stringify(layout) === JSON.stringify(printLayoutManager.getOrCreateLayout())) return;
+    printLayoutManager.setLayout(layout);
+    historyManager.markDirty();
+  }
+
   private handleCopyToClipboard = async (): Promise<void> => {
     try {
       const canvas = this.engine?.getCanvas();
@@ -742,7 +1001,8 @@ export class App {
         : canvas.toDataURL({
             format: 'png',
             quality: 1,
-            multiplier: 4
+            multiplier: 4,
+            filter: isExportableObject
           });
 
       // Convert data URL to blob synchronously to avoid focus issues
@@ -790,6 +1050,168 @@ export class App {
       obj.set(property as keyof typeof obj, value);
     });
     canvas.requestRenderAll();
+    // Sliders fire on every step; keep one undo step per property being dragged
+    if (activeObjects.length > 0) {
+      historyManager.saveState({ coalesceKey: `property:${property}`, objects: activeObjects });
+    }
+  }
+
+  private moveSelectionToLayer(layerId: string): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const activeObjects = canvas.getActiveObjects();
+    if (activeObjects.length === 0) {
+      this.toastManager?.showToast({ title: 'Nothing selected', subtitle: 'Select objects to move them to this layer' });
+      return;
+    }
+
+    canvas.discardActiveObject();
+    layerManager.moveObjectsToLayer(activeObjects, layerId);
+    this.commitHistory();
+    this.toastManager?.showToast({
+      title: `Moved to ${layerManager.getLayer(layerId)?.name ?? 'layer'}`,
+      subtitle: `${activeObjects.length} object${activeObjects.length === 1 ? '' : 's'}`
+    });
+  }
+
+  /**
+   * Replace the selected lines with one line through all of them, styled
+   * like the first one and taking its place, layer and attributes.
+   */
+  private joinSelectedPaths(close: boolean): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const lines = canvas.getActiveObjects().filter(
+      (obj): obj is Path | Polyline => obj instanceof Path || obj instanceof Polyline
+    );
+    if (lines.length < 2) {
+      this.toastManager?.showToast({ title: 'Nothing to join', subtitle: 'Select two or more lines' });
+      return;
+    }
+
+    // Canvas coordinates, even while the lines sit in the active selection
+    const shapes = lines.map((obj) => getObjectPathShape(obj));
+    if (shapes.some((shape) => !shape || shape.closed)) {
+      this.toastManager?.showToast({ title: "Closed shapes can't be joined", subtitle: 'Open them with the Scissors tool first' });
+      return;
+    }
+
+    const result = joinPathShapes(shapes.map((shape) => shape!.shape), {
+      tolerance: settingsManager.getJoinTolerance(),
+      close
+    });
+    if ('error' in result) {
+      this.toastManager?.showToast({ title: 'Lines not joined', subtitle: `${result.error}. Raise the tolerance in Settings to bridge it.` });
+      return;
+    }
+
+    const [first] = lines;
+    const { shape } = result;
+    const options = { ...getStrokeStyle(first), selectable: true, evented: true };
+    let joined: Path | Polyline;
+    if (lines.every((obj) => obj instanceof Polyline)) {
+      // Only straight segments: stay a polyline so the points stay simple to edit
+      const points = [shape.start, ...shape.segments.map((seg) => seg.end)];
+      joined = result.closed ? new Polygon(points.slice(0, -1), options) : new Polyline(points, options);
+    } else {
+      joined = new Path(buildPathString(shape) + (result.closed ? ' Z' : ''), options);
+    }
+    copyCanvasObjectProps(first, joined);
+
+    canvas.discardActiveObject();
+    const index = canvas.getObjects().filter((obj) => obj === first || !lines.includes(obj as Path | Polyline)).indexOf(first);
+    lines.forEach((obj) => canvas.remove(obj));
+    canvas.insertAt(index, joined);
+    canvas.setActiveObject(joined);
+    canvas.requestRenderAll();
+
+    this.commitHistory(result.closed ? 'Joined lines into a shape' : 'Joined lines');
+  }
+
+  /**
+   * Replace the selected closed shapes with the result of a boolean
+   * operation. The shape at the back is the first operand: the result takes
+   * its place, style, layer and attributes, and the others are e.g.
+   * subtracted from it.
+   */
+  private combineSelectedShapes(operation: BooleanOperation): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const stack = canvas.getObjects();
+    const shapes = canvas.getActiveObjects()
+      .map((obj) => ({ obj, rings: getObjectRings(obj) }))
+      .filter((entry): entry is { obj: FabricObject; rings: NonNullable<typeof entry.rings> } => entry.rings !== null)
+      .sort((a, b) => stack.indexOf(a.obj) - stack.indexOf(b.obj));
+    if (shapes.length < 2) {
+      this.toastManager?.showToast({ title: 'Nothing to combine', subtitle: 'Select two or more closed shapes' });
+      return;
+    }
+
+    const regions = combineShapes(shapes.map((entry) => entry.rings), operation);
+    if (regions.length === 0) {
+      this.toastManager?.showToast({ title: 'Nothing left', subtitle: 'The result of combining these shapes is empty' });
+      return;
+    }
+
+    const [first] = shapes;
+    const options = { ...getStrokeStyle(first.obj), fillRule: 'evenodd' as const, selectable: true, evented: true };
+    const results = regions.map((region, index) => {
+      const path = new Path(buildRegionPathString(region), options);
+      // Only one piece can keep the original's id
+      copyCanvasObjectProps(first.obj, path, index === 0);
+      return path;
+    });
+
+    const operands = shapes.map((entry) => entry.obj);
+    canvas.discardActiveObject();
+    const index = stack.filter((obj) => obj === first.obj || !operands.includes(obj)).indexOf(first.obj);
+    operands.forEach((obj) => canvas.remove(obj));
+    canvas.insertAt(index, ...results);
+    canvas.setActiveObject(results.length === 1 ? results[0] : new ActiveSelection(results, { canvas }));
+    canvas.requestRenderAll();
+
+    this.commitHistory(COMBINE_LABELS[operation]);
+  }
+
+  /**
+   * Add a parallel copy of the selected line above it, styled like it and on
+   * its layer. Straight-cornered copies of polylines stay polylines.
+   */
+  private offsetSelectedPath(options: OffsetOptions): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const source = canvas.getActiveObject();
+    if (!(source instanceof Path || source instanceof Polyline)) return;
+
+    const outline = getObjectPathShape(source);
+    const result = outline ? offsetPathShape(outline.shape, outline.closed, options) : null;
+    if (!result) {
+      this.toastManager?.showToast({ title: 'Nothing to offset', subtitle: 'The line has no length' });
+      return;
+    }
+
+    const style = { ...getStrokeStyle(source), selectable: true, evented: true };
+    const [ring] = result.rings;
+    let offset: Path | Polyline;
+    if (source instanceof Polyline && options.join !== 'round' && result.rings.length === 1) {
+      const points = [ring.start, ...ring.segments.map((seg) => seg.end)];
+      offset = result.closed ? new Polygon(points.slice(0, -1), style) : new Polyline(points, style);
+    } else if (result.closed) {
+      offset = new Path(buildRegionPathString(result.rings), { ...style, fillRule: 'evenodd' });
+    } else {
+      offset = new Path(buildPathString(ring), style);
+    }
+    copyCanvasObjectProps(source, offset, false);
+
+    canvas.insertAt(canvas.getObjects().indexOf(source) + 1, offset);
+    canvas.setActiveObject(offset);
+    canvas.requestRenderAll();
+
+    this.commitHistory(options.side === 'both' ? 'Added offset strip' : 'Added offset line');
   }
 
   private updateSelectedObjectLock(locked: boolean): void {
@@ -831,13 +1253,14 @@ export class App {
     this.layout?.destroy();
     this.desktopSidebar?.destroy();
     this.propertiesPanel?.destroy();
+    this.historyPanel?.destroy();
     this.settingsModal?.destroy();
   }
 
   // Project management methods
-  async saveProject(name: string): Promise<boolean> {
+  async saveProject(name: string, comment?: string): Promise<boolean> {
     const id = this.currentProjectId ?? `project-${Date.now()}`;
-    const success = await this.storageManager.saveProject(id, name);
+    const success = await this.storageManager.saveProject(id, name, comment);
     if (success) {
       this.currentProjectId = id;
       historyManager.markClean();
@@ -846,12 +1269,31 @@ export class App {
   }
 
   async loadProject(id: string): Promise<boolean> {
-    const success = await this.storageManager.loadProject(id);
-    if (success) {
-      this.currentProjectId = id;
-      historyManager.clear();
+    try {
+      const success = await this.storageManager.loadProject(id);
+      if (success) {
+        this.currentProjectId = id;
+        this.currentFileHandle = null;
+      }
+      return success;
+    } catch (error) {
+      this.showProjectVersionError(error);
+      return false;
     }
-    return success;
+  }
+
+  private async loadAutosave(): Promise<boolean> {
+    try {
+      return await this.storageManager.loadAutosave();
+    } catch (error) {
+      this.showProjectVersionError(error);
+      return false;
+    }
+  }
+
+  private showProjectVersionError(error: unknown): void {
+    if (!(error instanceof ProjectVersionError)) throw error;
+    this.toastManager?.showToast({ title: "Can't open project", subtitle: error.message, duration: 8000 });
   }
 
   async listProjects(): Promise<Array<{ id: string; name: string; modifiedAt: number }>> {
@@ -870,12 +1312,246 @@ export class App {
     return this.storageManager.renameProject(id, name);
   }
 
+  /**
+   * Browse a project's versions, then save, restore or fork as chosen.
+   * Restoring another project's version opens that project first.
+   */
+  private async showProjectVersions(projectId: string): Promise<void> {
+    if (!this.projectVersionsModal) return;
+
+    const project = (await this.storageManager.listProjects()).find((p) => p.id === projectId);
+    if (!project) return;
+    const versions = await this.storageManager.listVersions(projectId);
+
+    const result = await this.projectVersionsModal.open({
+      projectName: project.name,
+      versions,
+      canSaveVersion: projectId === this.currentProjectId,
+      renderPreviews: async (versionIds) => {
+        const snapshots = await Promise.all(
+          versionIds.map((versionId) => this.storageManager.getVersionCanvas(projectId, versionId))
+        );
+        return renderCanvasSnapshots(snapshots.map((json) => json ?? {}), VERSION_PREVIEW_SIZE);
+      }
+    });
+    if (!result) return;
+
+    if (result.action === 'save') {
+      const success = await this.saveProject(project.name, result.comment || undefined);
+      // A full storage already has its own toast
+      if (!success && this.storageManager.isStorageFull()) return;
+      this.toastManager?.showToast({
+        title: success ? 'Version saved' : 'Save failed',
+        subtitle: success ? result.comment || undefined : undefined
+      });
+      return;
+    }
+
+    const savedAt = new Date(result.version.savedAt).toLocaleString();
+
+    if (result.action === 'restore') {
+      if (projectId !== this.currentProjectId) {
+        const proceed = await this.handleUnsavedBeforeOpen();
+        if (!proceed || !(await this.loadProject(projectId))) return;
+      }
+      const success = await this.storageManager.restoreVersion(projectId, result.version.id);
+      this.toastManager?.showToast({
+        title: success ? 'Version restored' : 'Restore failed',
+        subtitle: success ? `From ${savedAt}. Save to keep it; undo to go back.` : undefined
+      });
+      return;
+    }
+
+    const fallback = `${project.name} (${new Date(result.version.savedAt).toLocaleDateString()})`;
+    const name = this.renameModal
+      ? await this.renameModal.open({
+          title: 'Fork version',
+          message: `Start a new project from the version saved ${savedAt}.`,
+          placeholder: 'Project name',
+          initialValue: fallback,
+          confirmLabel: 'Fork',
+          cancelLabel: 'Cancel'
+        })
+      : prompt('New project name:', fallback);
+    const trimmed = name?.trim();
+    if (!trimmed) return;
+
+    const proceed = await this.handleUnsavedBeforeOpen();
+    if (!proceed) return;
+    const forkId = await this.storageManager.forkVersion(projectId, result.version.id, trimmed);
+    const success = forkId !== null && (await this.loadProject(forkId));
+    this.toastManager?.showToast({
+      title: success ? 'Version forked' : 'Fork failed',
+      subtitle: success ? `Opened as "${trimmed}"` : undefined
+    });
+  }
+
+  /**
+   * Write the project to the file it came from, or to a file the user picks
+   * the first time or when `saveAs` is set. Browsers without file access
+   * download a copy instead.
+   */
+  async saveToFile(saveAs: boolean = false): Promise<boolean> {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return false;
+
+    const result = new JSONExporter().export(canvas, await this.getCurrentProjectName());
+    if (!result.success || !(result.data instanceof Blob)) {
+      this.toastManager?.showToast({ title: 'Save to file failed', subtitle: result.error });
+      return false;
+    }
+
+    try {
+      const target = saveAs ? null : this.currentFileHandle;
+      const handle = await diskFileStore.save(result.data, target?.name ?? result.filename, target);
+      if (handle === undefined) return false;
+
+      this.currentFileHandle = handle;
+      historyManager.markClean();
+      this.toastManager?.showToast(
+        handle
+          ? { title: 'Saved to file', subtitle: handle.name }
+          : { title: 'Project downloaded', subtitle: `This browser can't save back to ${result.filename}` }
+      );
+      this.propertiesPanel?.refreshProjects();
+      return true;
+    } catch (error) {
+      console.error('Save to file failed:', error);
+      this.toastManager?.showToast({
+        title: 'Save to file failed',
+        subtitle: error instanceof Error ? error.message : undefined
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Replace the canvas with a project file from disk: one the user picks, or
+   * the recent file `recentId`. Saving then writes back to that file.
+   */
+  private async openFromFile(recentId?: string): Promise<boolean> {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return false;
+
+    const proceed = await this.handleUnsavedBeforeOpen();
+    if (!proceed) return false;
+
+    let diskFile: DiskFile | null;
+    try {
+      diskFile = recentId ? await diskFileStore.reopen(recentId) : await diskFileStore.open();
+    } catch (error) {
+      console.error('Open file failed:', error);
+      this.toastManager?.showToast({
+        title: "Couldn't open file",
+        subtitle: error instanceof Error ? error.message : undefined
+      });
+      return false;
+    }
+    if (!diskFile) return false;
+
+    const result = await this.importManager.import(canvas, diskFile.file);
+    if (!result.success || !result.projectData) {
+      this.toastManager?.showToast({
+        title: "Couldn't open file",
+        subtitle: result.error ?? `${diskFile.file.name} is not an Els Maps project`
+      });
+      return false;
+    }
+
+    // Only files that opened as projects go in the recent list
+    if (diskFile.handle) {
+      await diskFileStore.remember(diskFile.handle).catch((error) => console.warn('Could not update recent files:', error));
+    }
+    historyManager.clear();
+    this.currentProjectId = null;
+    this.currentFileHandle = diskFile.handle;
+    canvas.requestRenderAll();
+    return true;
+  }
+
+  private async handleSaveShortcut(saveAs: boolean): Promise<void> {
+    // A project only kept in the browser stays there; anything else goes to disk
+    if (!saveAs && !this.currentFileHandle && this.currentProjectId) {
+      const success = await this.saveCurrentProjectForPrompt();
+      if (success) {
+        this.toastManager?.showToast({ title: 'Project saved' });
+        this.propertiesPanel?.refreshProjects();
+      } else if (!this.storageManager.isStorageFull()) {
+        this.toastManager?.showToast({ title: 'Save failed' });
+      }
+      return;
+    }
+    await this.saveToFile(saveAs);
+  }
+
+  private async getCurrentProjectName(): Promise<string> {
+    if (this.currentFileHandle) {
+      return this.currentFileHandle.name.replace(/(\.elmap)?\.json$/i, '');
+    }
+    if (this.currentProjectId) {
+      const project = (await this.storageManager.listProjects()).find((p) => p.id === this.currentProjectId);
+      if (project) return project.name;
+    }
+    return 'Untitled Project';
+  }
+
+  private showStorageFullToast(kind: SaveKind): void {
+    this.toastManager?.showToast({
+      title: kind === 'autosave' ? 'Autosave failed: storage is full' : 'Save failed: storage is full',
+      subtitle: 'Free space in browser storage, or export the project to keep your work.',
+      duration: 12000,
+      actions: [
+        { label: 'Manage storage', onClick: () => void this.showStorageManager() },
+        { label: 'Export .elmap', onClick: () => void this.handleExportProject() }
+      ]
+    });
+  }
+
+  /**
+   * Show what is using browser storage, with tools to free some.
+   */
+  private async showStorageManager(): Promise<void> {
+    if (!this.storageModal) return;
+
+    await this.storageModal.open({
+      loadReport: () => this.storageManager.getStorageReport(),
+      storageFull: this.storageManager.isStorageFull(),
+      compressPreviews: async () => {
+        const saved = await this.storageManager.compressPreviews();
+        return saved > 0
+          ? `Previews compressed, about ${Math.round(saved / 1024)} KB freed`
+          : 'Previews are already compressed';
+      },
+      purgeVersions: async (keep) => {
+        const removed = await this.storageManager.purgeVersions(keep);
+        return removed > 0
+          ? `${removed} old version${removed === 1 ? '' : 's'} deleted`
+          : 'No project has more versions than that';
+      },
+      removeUnusedSources: async () => {
+        const removed = await this.storageManager.removeUnusedSources();
+        return removed > 0
+          ? `${removed} unused original file${removed === 1 ? '' : 's'} deleted`
+          : 'Every original file is still in use';
+      },
+      requestPersistence: async () => {
+        const persisted = await this.storageManager.requestPersistentStorage();
+        return persisted
+          ? 'Storage is now persistent'
+          : 'The browser declined. Installing the app or bookmarking it can help.';
+      }
+    });
+  }
+
   async newProject(): Promise<void> {
     const canvas = this.engine?.getCanvas();
     if (canvas) {
       canvas.clear();
       historyManager.clear();
+      printLayoutManager.setLayout(null);
+      layerManager.restore(null);
       this.currentProjectId = null;
+      this.currentFileHandle = null;
       await this.storageManager.clearAutosave();
     }
   }
@@ -1084,7 +1760,9 @@ export class App {
       left: pointer.x,
       top: pointer.y,
       originX: 'center',
-      originY: 'center'
+      originY: 'center',
+      // Part of the drawing, not the bottom layer other images go to as base maps
+      __elsLayer: layerManager.getActiveLayerId()
     });
 
     canvas.add(img);
@@ -1126,6 +1804,416 @@ export class App {
     canvas?.requestRenderAll();
   }
 
+  // Scale calibration from two points on the locked base image
+  private handleCalibrateScale(): void {
+    const canvas = this.engine?.getCanvas();
+    const canvasEl = this.canvasContainer?.getElement();
+    if (!canvas || !canvasEl) return;
+
+    if (!canvasLockManager.isLocked()) {
+      this.toastManager?.showToast({
+        title: 'Lock the canvas to a base image first',
+        subtitle: 'Select the map image and lock the canvas to it'
+      });
+      return;
+    }
+
+    this.exitScaleCalibrationMode();
+    this.toolManager?.setActiveTool(ToolType.SELECT);
+    canvas.discardActiveObject();
+    canvas.selection = false;
+    canvas.skipTargetFind = true;
+
+    // Change cursor
+    canvasEl.style.cursor = 'crosshair';
+
+    canvasEl.addEventListener('mousemove', this.handleCalibrationMove);
+    canvasEl.addEventListener('mousedown', this.handleCalibrationPlace);
+    window.addEventListener('keydown', this.handleCalibrationCancel);
+
+    this.toastManager?.showToast({
+      title: 'Click two points a known distance apart',
+      subtitle: 'Press Escape to cancel'
+    });
+  }
+
+  private handleCalibrationMove = (e: MouseEvent): void => {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas || !this.calibrationLine) return;
+
+    const pointer = canvas.getPointer(e);
+    this.calibrationLine.set({ x2: pointer.x, y2: pointer.y });
+    canvas.requestRenderAll();
+  };
+
+  private handleCalibrationPlace = (e: MouseEvent): void => {
+    if (e.button !== 0) return; // Left click only
+
+    const canvas = this.engine?.getCanvas();
+    const bounds = canvasLockManager.getExportOptions();
+    if (!canvas || !bounds) return;
+
+    const pointer = canvas.getPointer(e);
+    if (!this.isInsideLockBounds(pointer)) {
+      this.toastManager?.showToast({
+        title: 'Click inside the base map',
+        subtitle: 'Calibration points must be on the locked image'
+      });
+      return;
+    }
+
+    const point = new Point(pointer.x, pointer.y);
+    this.calibrationPoints.push(point);
+    this.addCalibrationMarker(point);
+
+    if (this.calibrationPoints.length === 1) {
+      const zoom = canvas.getZoom();
+      this.calibrationLine = new Line([point.x, point.y, point.x, point.y], {
+        stroke: '#c47c28',
+        strokeWidth: 2 / zoom,
+        strokeDashArray: [5 / zoom, 5 / zoom],
+        selectable: false,
+        evented: false,
+        excludeFromExport: true
+      });
+      (this.calibrationLine as any).isHelper = true;
+      this.calibrationHelpers.push(this.calibrationLine);
+      canvas.add(this.calibrationLine);
+      canvas.requestRenderAll();
+      return;
+    }
+
+    const [start, end] = this.calibrationPoints;
+    const pixelDistance = distance(start.x, start.y, end.x, end.y);
+    this.exitScaleCalibrationMode();
+
+    if (pixelDistance < 1) {
+      this.toastManager?.showToast({
+        title: 'Points are too close together',
+        subtitle: 'Pick two points further apart'
+      });
+      return;
+    }
+
+    void this.completeScaleCalibration(pixelDistance);
+  };
+
+  private addCalibrationMarker(point: Point): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    const zoom = canvas.getZoom();
+    const marker = new Circle({
+      left: point.x,
+      top: point.y,
+      radius: 5 / zoom,
+      fill: '#c47c28',
+      stroke: '#000000',
+      strokeWidth: 1 / zoom,
+      selectable: false,
+      evented: false,
+      excludeFromExport: true,
+      originX: 'center',
+      originY: 'center'
+    });
+    (marker as any).isHelper = true;
+
+    this.calibrationHelpers.push(marker);
+    canvas.add(marker);
+    canvas.requestRenderAll();
+  }
+
+  private async completeScaleCalibration(pixelDistance: number): Promise<void> {
+    if (!this.scaleCalibrationModal) return;
+
+    const current = canvasLockManager.getScale();
+    const result = await this.scaleCalibrationModal.open({
+      pixelDistance,
+      initialUnit: current?.unit,
+      initialDistance: current ? Number((pixelDistance / current.pixelsPerUnit).toFixed(2)) : undefined
+    });
+    if (!result) return;
+
+    const lockedState = canvasLockManager.getLockedState();
+    const scale = createMapScale(
+      pixelDistance,
+      result.distance,
+      result.unit,
+      lockedState.width,
+      lockedState.height
+    );
+    if (!scale || !canvasLockManager.setScale(scale)) {
+      this.toastManager?.showToast({
+        title: 'Scale not set',
+        subtitle: 'The canvas is no longer locked to a base image'
+      });
+      return;
+    }
+
+    this.commitHistory();
+    this.toastManager?.showToast({
+      title: 'Scale set',
+      subtitle: formatMapScale(scale)
+    });
+  }
+
+  private isInsideLockBounds(point: { x: number; y: number }): boolean {
+    const bounds = canvasLockManager.getExportOptions();
+    if (!bounds) return false;
+    return (
+      point.x >= bounds.left &&
+      point.x <= bounds.left + bounds.width &&
+      point.y >= bounds.top &&
+      point.y <= bounds.top + bounds.height
+    );
+  }
+
+  private handleCalibrationCancel = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.exitScaleCalibrationMode();
+    }
+  };
+
+  private exitScaleCalibrationMode(): void {
+    const canvas = this.engine?.getCanvas();
+    const canvasEl = this.canvasContainer?.getElement();
+
+    if (canvas) {
+      this.calibrationHelpers.forEach((helper) => canvas.remove(helper));
+      canvas.selection = true;
+      canvas.skipTargetFind = false;
+    }
+    this.calibrationHelpers = [];
+    this.calibrationLine = null;
+    this.calibrationPoints = [];
+
+    if (canvasEl) {
+      canvasEl.style.cursor = '';
+      canvasEl.removeEventListener('mousemove', this.handleCalibrationMove);
+      canvasEl.removeEventListener('mousedown', this.handleCalibrationPlace);
+    }
+    window.removeEventListener('keydown', this.handleCalibrationCancel);
+
+    canvas?.requestRenderAll();
+  }
+
+  // Georeferencing the locked base image from control points
+  private async handleGeoreference(): Promise<void> {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas || !this.georeferenceModal) return;
+
+    const lockedState = canvasLockManager.getLockedState();
+    if (!lockedState.locked) {
+      this.toastManager?.showToast({
+        title: 'Lock the canvas to a base image first',
+        subtitle: 'Select the map image and lock the canvas to it'
+      });
+      return;
+    }
+
+    this.exitScaleCalibrationMode();
+    this.toolManager?.setActiveTool(ToolType.SELECT);
+    canvas.discardActiveObject();
+
+    const existing = lockedState.georeference ?? null;
+    let draft: GeoreferenceDraft = existing
+      ? {
+          kind: existing.kind,
+          mode: existing.mode,
+          crs: existing.crs ?? '',
+          points: existing.controlPoints.map((pt) => ({
+            image: { ...pt.image },
+            worldX: formatWorldCoordinate(pt.world.x, existing.mode),
+            worldY: formatWorldCoordinate(pt.world.y, existing.mode)
+          }))
+        }
+      : { kind: 'affine', mode: 'projected', crs: '', points: [] };
+
+    try {
+      for (;;) {
+        this.showGeoreferenceMarkers(draft);
+        const result = await this.georeferenceModal.open({
+          draft,
+          imageWidth: lockedState.width,
+          imageHeight: lockedState.height,
+          hasGeoreference: existing !== null
+        });
+        if (!result) return;
+
+        if (result.action === 'add-point') {
+          draft = result.draft;
+          const point = await this.pickGeoreferencePoint();
+          if (point) {
+            draft.points.push({
+              image: { x: point.x - lockedState.offsetX, y: point.y - lockedState.offsetY },
+              worldX: '',
+              worldY: ''
+            });
+          }
+          continue;
+        }
+
+        if (result.action === 'remove') {
+          canvasLockManager.setGeoreference(null);
+          this.commitHistory();
+          this.toastManager?.showToast({ title: 'Georeference removed' });
+          return;
+        }
+
+        canvasLockManager.setGeoreference(result.transform);
+        this.commitHistory();
+        this.toastManager?.showToast({
+          title: 'Georeference set',
+          subtitle: formatGeoTransform(result.transform)
+        });
+        return;
+      }
+    } finally {
+      this.clearGeoreferenceMarkers();
+    }
+  }
+
+  /**
+   * Wait for a click on the locked base image. Resolves null on Escape.
+   */
+  private pickGeoreferencePoint(): Promise<Point | null> {
+    const canvas = this.engine?.getCanvas();
+    const canvasEl = this.canvasContainer?.getElement();
+    if (!canvas || !canvasEl) return Promise.resolve(null);
+
+    canvas.selection = false;
+    canvas.skipTargetFind = true;
+    canvasEl.style.cursor = 'crosshair';
+
+    this.toastManager?.showToast({
+      title: 'Click a control point on the base map',
+      subtitle: 'Press Escape to go back'
+    });
+
+    return new Promise((resolve) => {
+      const finish = (point: Point | null): void => {
+        canvasEl.removeEventListener('mousedown', handleMouseDown);
+        window.removeEventListener('keydown', handleKeyDown);
+        canvasEl.style.cursor = '';
+        canvas.selection = true;
+        canvas.skipTargetFind = false;
+        resolve(point);
+      };
+
+      const handleMouseDown = (e: MouseEvent): void => {
+        if (e.button !== 0) return;
+        const pointer = canvas.getPointer(e);
+        if (!this.isInsideLockBounds(pointer)) {
+          this.toastManager?.showToast({
+            title: 'Click inside the base map',
+            subtitle: 'Control points must be on the locked image'
+          });
+          return;
+        }
+        finish(new Point(pointer.x, pointer.y));
+      };
+
+      const handleKeyDown = (e: KeyboardEvent): void => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          finish(null);
+        }
+      };
+
+      canvasEl.addEventListener('mousedown', handleMouseDown);
+      window.addEventListener('keydown', handleKeyDown);
+    });
+  }
+
+  private showGeoreferenceMarkers(draft: GeoreferenceDraft): void {
+    const canvas = this.engine?.getCanvas();
+    if (!canvas) return;
+
+    this.clearGeoreferenceMarkers();
+    const { offsetX, offsetY } = canvasLockManager.getLockedState();
+    const zoom = canvas.getZoom();
+
+    draft.points.forEach((pt, index) => {
+      const x = pt.image.x + offsetX;
+      const y = pt.image.y + offsetY;
+      const marker = new Circle({
+        left: x,
+        top: y,
+        radius: 5 / zoom,
+        fill: '#c47c28',
+        stroke: '#000000',
+        strokeWidth: 1 / zoom,
+        originX: 'center',
+        originY: 'center'
+      });
+      const label = new FabricText(String(index + 1), {
+        left: x + 8 / zoom,
+        top: y - 8 / zoom,
+        originX: 'left',
+        originY: 'bottom',
+        fontSize: 12 / zoom,
+        fill: '#ffffff',
+        textBackgroundColor: 'rgba(0, 0, 0, 0.65)'
+      });
+
+      [marker, label].forEach((helper) => {
+        helper.set({ selectable: false, evented: false, excludeFromExport: true });
+        (helper as any).isHelper = true;
+        this.georeferenceHelpers.push(helper);
+        canvas.add(helper);
+      });
+    });
+
+    canvas.requestRenderAll();
+  }
+
+  private clearGeoreferenceMarkers(): void {
+    const canvas = this.engine?.getCanvas();
+    if (canvas) {
+      this.georeferenceHelpers.forEach((helper) => canvas.remove(helper));
+      canvas.requestRenderAll();
+    }
+    this.georeferenceHelpers = [];
+  }
+
+  // Boundary entry from bearing/distance calls, drawn by the Polyline tool
+  private async handleMetesAndBounds(): Promise<void> {
+    if (!this.toolManager || !this.metesAndBoundsModal || this.metesAndBoundsOpen) return;
+
+    if (this.toolManager.getActiveToolType() !== ToolType.POLYLINE) {
+      this.toolManager.setActiveTool(ToolType.POLYLINE);
+    }
+
+    const scale = canvasLockManager.getScale();
+    this.metesAndBoundsOpen = true;
+    const traverse = await this.metesAndBoundsModal.open({
+      unit: scale?.unit ?? 'm',
+      hasScale: scale !== null
+    });
+    this.metesAndBoundsOpen = false;
+    if (!traverse) return;
+
+    const tool = this.toolManager.getActiveTool();
+    if (!(tool instanceof PolylineTool)) return;
+
+    // Without a scale the calls are drawn one unit per pixel
+    const pixelsPerUnit = scale?.pixelsPerUnit ?? 1;
+    const shape = placeTraverseShape(traverse.shape, pixelsPerUnit, new Point(0, 0));
+    const placed = tool.placeTraverse(shape);
+
+    const closure = scale
+      ? formatDistance(traverse.closureError, traverse.unit)
+      : `${traverse.closureError.toFixed(1)} px`;
+    const report = `Closure error ${closure}, precision ${formatPrecision(traverse.precision)}`;
+
+    this.toastManager?.showToast(
+      placed
+        ? { title: 'Boundary drawn', subtitle: report }
+        : { title: 'Click to place the point of beginning', subtitle: `${report}. Press Escape to cancel` }
+    );
+  }
+
   private async handleUnsavedBeforeOpen(): Promise<boolean> {
     if (!historyManager.getIsDirty()) return true;
     if (this.isCanvasEmpty()) return true;
@@ -1150,6 +2238,10 @@ export class App {
   }
 
   private async saveCurrentProjectForPrompt(): Promise<boolean> {
+    if (this.currentFileHandle) {
+      return this.saveToFile();
+    }
+
     const currentId = this.currentProjectId;
     let name = 'Untitled Project';
 
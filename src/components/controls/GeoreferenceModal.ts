@@ -0,0 +1,314 @@
+import type { GeoControlPoint, GeoCoordinateMode, GeoTransform, GeoTransformKind } from '@/types';
+import {
+  GEO_COORDINATE_MODES,
+  GEO_TRANSFORM_KINDS,
+  MIN_CONTROL_POINTS,
+  solveGeoTransform,
+  getControlPointResiduals,
+  getRmsError,
+  getGeoPixelSize,
+  getResidualUnitLabel
+} from '@/utils/georeference';
+
+export interface GeoreferenceDraftPoint {
+  image: { x: number; y: number };
+  /** Raw text of the world coordinate inputs so partly entered rows survive */
+  worldX: string;
+  worldY: string;
+}
+
+export interface GeoreferenceDraft {
+  kind: GeoTransformKind;
+  mode: GeoCoordinateMode;
+  crs: string;
+  points: GeoreferenceDraftPoint[];
+}
+
+export interface GeoreferenceOptions {
+  draft: GeoreferenceDraft;
+  imageWidth: number;
+  imageHeight: number;
+  hasGeoreference: boolean;
+}
+
+export type GeoreferenceModalResult =
+  | { action: 'add-point'; draft: GeoreferenceDraft }
+  | { action: 'apply'; transform: GeoTransform }
+  | { action: 'remove' }
+  | null;
+
+export class GeoreferenceModal {
+  private overlay: HTMLDivElement;
+  private kindSelect: HTMLSelectElement;
+  private modeSelect: HTMLSelectElement;
+  private crsInput: HTMLInputElement;
+  private tableBody: HTMLElement;
+  private headX: HTMLElement;
+  private headY: HTMLElement;
+  private summaryEl: HTMLElement;
+  private errorEl: HTMLElement;
+  private removeBtn: HTMLButtonElement;
+  private addPointBtn: HTMLButtonElement;
+  private cancelBtn: HTMLButtonElement;
+  private confirmBtn: HTMLButtonElement;
+  private draft: GeoreferenceDraft | null = null;
+  private imageSize = { width: 0, height: 0 };
+  private transform: GeoTransform | null = null;
+  private resolve: ((value: GeoreferenceModalResult) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(620px, 94vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Georeference Base Map</h3>
+        </div>
+        <div class="app-modal-body">
+          <p class="app-modal-message">Add at least ${MIN_CONTROL_POINTS} control points on the base image and enter their world coordinates.</p>
+          <div style="display: flex; gap: 8px; margin-bottom: 8px;">
+            <select class="app-modal-input geo-kind-select" style="flex: 1;"></select>
+            <select class="app-modal-input geo-mode-select" style="flex: 1;"></select>
+            <input class="app-modal-input geo-crs-input" type="text" placeholder="CRS (optional)" style="width: 130px;" />
+          </div>
+          <div style="max-height: 240px; overflow-y: auto;">
+            <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+              <thead>
+                <tr style="color: var(--text-muted); text-align: left;">
+                  <th style="padding: 4px;">#</th>
+                  <th style="padding: 4px;">Image (px)</th>
+                  <th class="geo-head-x" style="padding: 4px;"></th>
+                  <th class="geo-head-y" style="padding: 4px;"></th>
+                  <th style="padding: 4px;">Residual</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody class="geo-points"></tbody>
+            </table>
+          </div>
+          <p class="geo-summary" style="margin-top: 8px; font-size: 12px; color: var(--text-muted);"></p>
+          <p class="geo-error" style="display: none; margin-top: 8px; color: var(--danger); font-size: 12px;"></p>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost geo-remove" type="button" style="margin-right: auto; color: var(--danger);">Remove</button>
+          <button class="app-modal-btn app-modal-btn-ghost geo-add" type="button">Add Point</button>
+          <button class="app-modal-btn app-modal-btn-ghost geo-cancel" type="button">Cancel</button>
+          <button class="app-modal-btn app-modal-btn-primary geo-apply" type="button">Apply</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.kindSelect = this.overlay.querySelector('.geo-kind-select') as HTMLSelectElement;
+    this.modeSelect = this.overlay.querySelector('.geo-mode-select') as HTMLSelectElement;
+    this.crsInput = this.overlay.querySelector('.geo-crs-input') as HTMLInputElement;
+    this.tableBody = this.overlay.querySelector('.geo-points') as HTMLElement;
+    this.headX = this.overlay.querySelector('.geo-head-x') as HTMLElement;
+    this.headY = this.overlay.querySelector('.geo-head-y') as HTMLElement;
+    this.summaryEl = this.overlay.querySelector('.geo-summary') as HTMLElement;
+    this.errorEl = this.overlay.querySelector('.geo-error') as HTMLElement;
+    this.removeBtn = this.overlay.querySelector('.geo-remove') as HTMLButtonElement;
+    this.addPointBtn = this.overlay.querySelector('.geo-add') as HTMLButtonElement;
+    this.cancelBtn = this.overlay.querySelector('.geo-cancel') as HTMLButtonElement;
+    this.confirmBtn = this.overlay.querySelector('.geo-apply') as HTMLButtonElement;
+
+    GEO_TRANSFORM_KINDS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.kindSelect.appendChild(option);
+    });
+    GEO_COORDINATE_MODES.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.modeSelect.appendChild(option);
+    });
+
+    this.kindSelect.addEventListener('change', () => {
+      if (!this.draft) return;
+      this.draft.kind = this.kindSelect.value as GeoTransformKind;
+      this.updateSolution();
+    });
+    this.modeSelect.addEventListener('change', () => {
+      if (!this.draft) return;
+      this.draft.mode = this.modeSelect.value as GeoCoordinateMode;
+      this.renderPoints();
+    });
+    this.crsInput.addEventListener('input', () => {
+      if (this.draft) this.draft.crs = this.crsInput.value;
+    });
+
+    this.removeBtn.addEventListener('click', () => this.close({ action: 'remove' }));
+    this.addPointBtn.addEventListener('click', () => {
+      if (this.draft) this.close({ action: 'add-point', draft: this.draft });
+    });
+    this.cancelBtn.addEventListener('click', () => this.close(null));
+    this.confirmBtn.addEventListener('click', () => this.submit());
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: GeoreferenceOptions): Promise<GeoreferenceModalResult> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    this.draft = {
+      ...options.draft,
+      points: options.draft.points.map((pt) => ({ ...pt, image: { ...pt.image } }))
+    };
+    this.imageSize = { width: options.imageWidth, height: options.imageHeight };
+    this.kindSelect.value = this.draft.kind;
+    this.modeSelect.value = this.draft.mode;
+    this.crsInput.value = this.draft.crs;
+    this.removeBtn.style.display = options.hasGeoreference ? '' : 'none';
+    this.renderPoints();
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    const result = await new Promise<GeoreferenceModalResult>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      const emptyInput = Array.from(this.tableBody.querySelectorAll('input')).find((input) => !input.value);
+      (emptyInput ?? this.addPointBtn).focus();
+    });
+
+    return result;
+  }
+
+  private renderPoints(): void {
+    if (!this.draft) return;
+
+    const axes = GEO_COORDINATE_MODES.find((m) => m.value === this.draft!.mode)?.axes ?? ['X', 'Y'];
+    this.headX.textContent = axes[0];
+    this.headY.textContent = axes[1];
+    this.tableBody.innerHTML = '';
+
+    if (this.draft.points.length === 0) {
+      const row = document.createElement('tr');
+      row.innerHTML = `<td colspan="6" style="padding: 8px 4px; color: var(--text-muted);">No control points yet. Click Add Point, then click a known location on the base map.</td>`;
+      this.tableBody.appendChild(row);
+    }
+
+    this.draft.points.forEach((pt, index) => {
+      const row = document.createElement('tr');
+      row.innerHTML = `
+        <td style="padding: 4px;">${index + 1}</td>
+        <td style="padding: 4px; white-space: nowrap;">${pt.image.x.toFixed(1)}, ${pt.image.y.toFixed(1)}</td>
+        <td style="padding: 4px;"><input class="app-modal-input geo-world-x" type="text" inputmode="decimal" style="width: 100%;" /></td>
+        <td style="padding: 4px;"><input class="app-modal-input geo-world-y" type="text" inputmode="decimal" style="width: 100%;" /></td>
+        <td class="geo-residual" style="padding: 4px; white-space: nowrap;">–</td>
+        <td style="padding: 4px;"><button class="app-modal-btn app-modal-btn-ghost" type="button" title="Remove point" style="padding: 2px 8px;">×</button></td>
+      `;
+
+      const xInput = row.querySelector('.geo-world-x') as HTMLInputElement;
+      const yInput = row.querySelector('.geo-world-y') as HTMLInputElement;
+      xInput.value = pt.worldX;
+      yInput.value = pt.worldY;
+      xInput.addEventListener('input', () => {
+        pt.worldX = xInput.value;
+        this.updateSolution();
+      });
+      yInput.addEventListener('input', () => {
+        pt.worldY = yInput.value;
+        this.updateSolution();
+      });
+      row.querySelector('button')?.addEventListener('click', () => {
+        this.draft?.points.splice(index, 1);
+        this.renderPoints();
+      });
+
+      this.tableBody.appendChild(row);
+    });
+
+    this.updateSolution();
+  }
+
+  /**
+   * Re-solve from the complete rows and refresh residuals and the summary.
+   */
+  private updateSolution(): void {
+    if (!this.draft) return;
+
+    const complete: Array<{ index: number; point: GeoControlPoint }> = [];
+    this.draft.points.forEach((pt, index) => {
+      const x = parseFloat(pt.worldX);
+      const y = parseFloat(pt.worldY);
+      if (Number.isFinite(x) && Number.isFinite(y)) {
+        complete.push({ index, point: { image: pt.image, world: { x, y } } });
+      }
+    });
+
+    this.transform = solveGeoTransform(
+      complete.map((c) => c.point),
+      this.draft.kind,
+      this.draft.mode,
+      this.imageSize.width,
+      this.imageSize.height,
+      this.draft.crs.trim() || undefined
+    );
+
+    const residualCells = this.tableBody.querySelectorAll('.geo-residual');
+    residualCells.forEach((cell) => (cell.textContent = '–'));
+    this.errorEl.style.display = 'none';
+
+    if (!this.transform) {
+      this.summaryEl.textContent = '';
+      this.confirmBtn.disabled = true;
+      if (complete.length >= MIN_CONTROL_POINTS) {
+        this.errorEl.textContent = 'These control points do not define a transform. Spread them out so they are not all on one line.';
+        this.errorEl.style.display = 'block';
+      } else {
+        this.summaryEl.textContent = `${complete.length} of ${MIN_CONTROL_POINTS} control points entered.`;
+      }
+      return;
+    }
+
+    const unit = getResidualUnitLabel(this.draft.mode);
+    const residuals = getControlPointResiduals(this.transform);
+    residuals.forEach((residual, i) => {
+      const cell = residualCells[complete[i].index];
+      if (cell) cell.textContent = `${residual.error.toFixed(3)} ${unit}`;
+    });
+
+    this.summaryEl.textContent =
+      `RMS error ${getRmsError(residuals).toFixed(3)} ${unit} · ` +
+      `pixel size ${getGeoPixelSize(this.transform).toPrecision(4)} ${unit}`;
+    this.confirmBtn.disabled = false;
+  }
+
+  private submit(): void {
+    if (!this.transform) return;
+    this.close({ action: 'apply', transform: this.transform });
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      this.submit();
+    }
+  };
+
+  private close(result: GeoreferenceModalResult): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
@@ -0,0 +1,260 @@
+import { LAYOUT } from '@/constants';
+import { historyManager, type HistoryCheckpoint, type HistoryStep } from '@/utils';
+import type { ConfirmModal } from './ConfirmModal';
+import type { TextInputModal } from './TextInputModal';
+
+const PIN_ICON = '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 17v5"/><path d="M9 10.76V4h6v6.76l2.5 3.74H6.5Z"/><path d="M7 4h10"/></svg>';
+const CLEAR_ICON = '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 6h18"/><path d="M8 6V4h8v2"/><path d="M19 6l-1 14H6L5 6"/></svg>';
+const REMOVE_ICON = '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Floating list of undo steps beside the sidebar. Clicking a step jumps the
+ * canvas there; steps can be pinned as named checkpoints, which stay listed
+ * after the step itself falls out of the history. History is saved with the
+ * project and only goes away when cleared here.
+ */
+export class HistoryPanel {
+  private el: HTMLDivElement;
+  private stepsEl: HTMLDivElement;
+  private checkpointsEl: HTMLDivElement;
+  private renameModal: TextInputModal | null;
+  private confirmModal: ConfirmModal | null;
+  private unsubscribe: (() => void) | null = null;
+  private isBusy = false;
+  private onOpenChange: ((open: boolean) => void) | null = null;
+
+  constructor(parent: HTMLElement, renameModal: TextInputModal | null = null, confirmModal: ConfirmModal | null = null) {
+    this.renameModal = renameModal;
+    this.confirmModal = confirmModal;
+
+    this.el = document.createElement('div');
+    this.el.className = 'history-panel';
+    this.el.style.left = `${LAYOUT.sidebarWidth + 8}px`;
+    this.el.setAttribute('aria-hidden', 'true');
+    this.el.innerHTML = `
+      <div class="history-panel-header">
+        <span class="section-label" style="margin:0;">History</span>
+        <div class="flex items-center gap-1">
+          <button class="layer-btn" data-action="clear" title="Clear history">${CLEAR_ICON}</button>
+          <button class="layer-btn" data-action="close" title="Close history">${REMOVE_ICON}</button>
+        </div>
+      </div>
+      <div class="history-panel-body">
+        <div data-role="checkpoints"></div>
+        <div data-role="steps"></div>
+      </div>
+    `;
+    this.stepsEl = this.el.querySelector('[data-role="steps"]') as HTMLDivElement;
+    this.checkpointsEl = this.el.querySelector('[data-role="checkpoints"]') as HTMLDivElement;
+    this.el.querySelector('[data-action="close"]')?.addEventListener('click', () => this.close());
+    this.el.querySelector('[data-action="clear"]')?.addEventListener('click', () => void this.clearHistory());
+
+    parent.appendChild(this.el);
+  }
+
+  setOnOpenChange(callback: (open: boolean) => void): void {
+    this.onOpenChange = callback;
+  }
+
+  isOpen(): boolean {
+    return this.el.classList.contains('is-open');
+  }
+
+  open(): void {
+    if (this.isOpen()) return;
+    this.el.classList.add('is-open');
+    this.el.setAttribute('aria-hidden', 'false');
+    this.unsubscribe = historyManager.subscribe(() => this.render());
+    this.render();
+    this.onOpenChange?.(true);
+  }
+
+  close(): void {
+    if (!this.isOpen()) return;
+    this.el.classList.remove('is-open');
+    this.el.setAttribute('aria-hidden', 'true');
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.onOpenChange?.(false);
+  }
+
+  toggle(): void {
+    if (this.isOpen()) this.close();
+    else this.open();
+  }
+
+  destroy(): void {
+    this.unsubscribe?.();
+    this.el.remove();
+  }
+
+  private render(): void {
+    this.renderCheckpoints(historyManager.getCheckpoints());
+
+    const position = historyManager.getPosition();
+    this.stepsEl.innerHTML = '';
+    const steps = historyManager.getSteps();
+
+    // Newest first, like the undo stack reads from the top
+    [...steps].reverse().forEach((step) => {
+      this.stepsEl.appendChild(this.createStepRow(step, position));
+    });
+
+    this.stepsEl.querySelector('.is-current')?.scrollIntoView({ block: 'nearest' });
+  }
+
+  private createStepRow(step: HistoryStep, position: number): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'project-row history-row';
+    if (step.position === position) row.classList.add('is-active', 'is-current');
+    if (step.position > position) row.classList.add('is-undone');
+    row.title = step.position === position ? 'Current state' : 'Jump to this step';
+
+    if (step.thumbnail) {
+      const thumb = document.createElement('img');
+      thumb.className = 'history-thumb';
+      thumb.src = step.thumbnail;
+      thumb.alt = '';
+      row.appendChild(thumb);
+    }
+
+    const info = document.createElement('div');
+    info.className = 'flex-1 min-w-0';
+
+    const name = document.createElement('div');
+    name.className = 'project-row-name';
+    name.textContent = step.label;
+    info.appendChild(name);
+
+    const meta = document.createElement('div');
+    meta.className = 'project-row-date';
+    meta.textContent = step.checkpointName ? `${formatTime(step.timestamp)} · ${step.checkpointName}` : formatTime(step.timestamp);
+    info.appendChild(meta);
+    row.appendChild(info);
+
+    const pinBtn = document.createElement('button');
+    pinBtn.className = `layer-btn${step.checkpointName ? ' is-on' : ''}`;
+    pinBtn.title = step.checkpointName ? `Pinned as "${step.checkpointName}"` : 'Pin as checkpoint';
+    pinBtn.innerHTML = PIN_ICON;
+    pinBtn.disabled = Boolean(step.checkpointName);
+    pinBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      void this.pinStep(step);
+    });
+    row.appendChild(pinBtn);
+
+    row.addEventListener('click', () => {
+      void this.runExclusive(() => historyManager.goTo(step.position));
+    });
+    return row;
+  }
+
+  private renderCheckpoints(checkpoints: HistoryCheckpoint[]): void {
+    this.checkpointsEl.innerHTML = '';
+    if (checkpoints.length === 0) return;
+
+    const label = document.createElement('div');
+    label.className = 'history-group-label';
+    label.textContent = 'Checkpoints';
+    this.checkpointsEl.appendChild(label);
+
+    [...checkpoints].reverse().forEach((checkpoint) => {
+      const row = document.createElement('div');
+      row.className = 'project-row history-row';
+      row.title = 'Restore this checkpoint';
+
+      if (checkpoint.thumbnail) {
+        const thumb = document.createElement('img');
+        thumb.className = 'history-thumb';
+        thumb.src = checkpoint.thumbnail;
+        thumb.alt = '';
+        row.appendChild(thumb);
+      }
+
+      const info = document.createElement('div');
+      info.className = 'flex-1 min-w-0';
+      const name = document.createElement('div');
+      name.className = 'project-row-name';
+      name.textContent = checkpoint.name;
+      info.appendChild(name);
+      const date = document.createElement('div');
+      date.className = 'project-row-date';
+      date.textContent = formatTime(checkpoint.createdAt);
+      info.appendChild(date);
+      row.appendChild(info);
+
+      const removeBtn = document.createElement('button');
+      removeBtn.className = 'layer-btn';
+      removeBtn.title = 'Remove checkpoint';
+      removeBtn.innerHTML = REMOVE_ICON;
+      removeBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        historyManager.removeCheckpoint(checkpoint.id);
+      });
+      row.appendChild(removeBtn);
+
+      row.addEventListener('click', () => {
+        void this.runExclusive(() => historyManager.restoreCheckpoint(checkpoint.id));
+      });
+      this.checkpointsEl.appendChild(row);
+    });
+
+    const divider = document.createElement('div');
+    divider.className = 'history-group-label';
+    divider.textContent = 'Steps';
+    this.checkpointsEl.appendChild(divider);
+  }
+
+  private async pinStep(step: HistoryStep): Promise<void> {
+    const fallback = `Checkpoint ${historyManager.getCheckpoints().length + 1}`;
+    const name = this.renameModal
+      ? await this.renameModal.open({
+          title: 'Pin checkpoint',
+          message: `Keep "${step.label}" as a named checkpoint.`,
+          placeholder: 'Checkpoint name',
+          initialValue: fallback,
+          confirmLabel: 'Pin',
+          cancelLabel: 'Cancel'
+        })
+      : prompt('Checkpoint name:', fallback);
+
+    const trimmed = name?.trim();
+    if (!trimmed) return;
+    await this.runExclusive(() => historyManager.pinCheckpoint(step.position, trimmed));
+  }
+
+  private async clearHistory(): Promise<void> {
+    const confirmed = this.confirmModal
+      ? await this.confirmModal.open({
+          title: 'Clear history?',
+          message: 'All undo steps and checkpoints for this project will be discarded. The drawing stays as it is.',
+          confirmLabel: 'Clear history',
+          cancelLabel: 'Cancel',
+          tone: 'danger'
+        })
+      : confirm('Clear undo history and checkpoints for this project?');
+
+    if (!confirmed) return;
+    // Clearing history doesn't save the drawing; keep any unsaved-changes flag
+    const isDirty = historyManager.getIsDirty();
+    historyManager.clear();
+    if (isDirty) historyManager.markDirty();
+  }
+
+  /**
+   * Jumps run several undo/redo steps; ignore clicks until one finishes.
+   */
+  private async runExclusive(action: () => Promise<unknown>): Promise<void> {
+    if (this.isBusy) return;
+    this.isBusy = true;
+    try {
+      await action();
+    } finally {
+      this.isBusy = false;
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import type { MeasurementUnit } from '@/types';
+import { MEASUREMENT_UNITS, formatDistance } from '@/utils/units';
+import { formatBearing } from '@/utils/bearing';
+import {
+  parseMetesAndBounds,
+  computeTraverse,
+  formatPrecision,
+  type TraverseResult
+} from '@/utils/metesAndBounds';
+
+export interface MetesAndBoundsOptions {
+  unit: MeasurementUnit;
+  /** False when the project has no scale and distances will be drawn as pixels */
+  hasScale: boolean;
+}
+
+const PLACEHOLDER = [
+  "N 45°30' E 120.5 ft",
+  'S 44-30-00 E 80',
+  "C R=50 L=78.54 CB=S 45°30' W RIGHT",
+  'N 89 30 W 95.2'
+].join('\n');
+
+export class MetesAndBoundsModal {
+  private overlay: HTMLDivElement;
+  private messageEl: HTMLElement;
+  private callsInput: HTMLTextAreaElement;
+  private unitSelect: HTMLSelectElement;
+  private summaryEl: HTMLElement;
+  private errorEl: HTMLElement;
+  private confirmBtn: HTMLButtonElement;
+  private cancelBtn: HTMLButtonElement;
+  private hasScale: boolean = false;
+  private traverse: TraverseResult | null = null;
+  private resolve: ((value: TraverseResult | null) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(520px, 92vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Bearings & Distances</h3>
+        </div>
+        <div class="app-modal-body">
+          <p class="app-modal-message"></p>
+          <textarea class="app-modal-input metes-calls-input" rows="8" spellcheck="false" style="font-family: monospace; resize: vertical;"></textarea>
+          <div style="display: flex; gap: 8px; align-items: center; margin-top: 8px;">
+            <label style="font-size: 12px; color: var(--text-muted);">Distances in</label>
+            <select class="app-modal-input metes-unit-select" style="width: 130px;"></select>
+          </div>
+          <p class="metes-summary" style="margin-top: 8px; font-size: 12px; color: var(--text-muted); white-space: pre-line;"></p>
+          <p class="metes-error" style="display: none; margin-top: 8px; color: var(--danger); font-size: 12px; white-space: pre-line;"></p>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost" type="button">Cancel</button>
+          <button class="app-modal-btn app-modal-btn-primary" type="button">Draw Boundary</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.messageEl = this.overlay.querySelector('.app-modal-message') as HTMLElement;
+    this.callsInput = this.overlay.querySelector('.metes-calls-input') as HTMLTextAreaElement;
+    this.unitSelect = this.overlay.querySelector('.metes-unit-select') as HTMLSelectElement;
+    this.summaryEl = this.overlay.querySelector('.metes-summary') as HTMLElement;
+    this.errorEl = this.overlay.querySelector('.metes-error') as HTMLElement;
+    const buttons = this.overlay.querySelectorAll('.app-modal-actions button');
+    this.cancelBtn = buttons[0] as HTMLButtonElement;
+    this.confirmBtn = buttons[1] as HTMLButtonElement;
+
+    this.callsInput.placeholder = PLACEHOLDER;
+
+    MEASUREMENT_UNITS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.unitSelect.appendChild(option);
+    });
+
+    this.cancelBtn.addEventListener('click', () => this.close(null));
+    this.confirmBtn.addEventListener('click', () => this.submit());
+    this.callsInput.addEventListener('input', () => this.updatePreview());
+    this.unitSelect.addEventListener('change', () => this.updatePreview());
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: MetesAndBoundsOptions): Promise<TraverseResult | null> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    this.hasScale = options.hasScale;
+    this.messageEl.textContent = options.hasScale
+      ? 'Enter one call per line from the point of beginning. Curves start with C and take R, L (or DELTA), CB and LEFT/RIGHT. Press Ctrl+Enter to draw.'
+      : 'No map scale is set, so distances will be drawn as pixels. Calibrate the scale first to draw at real-world size.';
+    this.unitSelect.value = options.unit;
+    this.unitSelect.disabled = !options.hasScale;
+    // Keep previously entered calls so a traverse can be corrected and redrawn
+    this.updatePreview();
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    const result = await new Promise<TraverseResult | null>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      this.callsInput.focus();
+    });
+
+    return result;
+  }
+
+  private updatePreview(): void {
+    const unit = this.unitSelect.value as MeasurementUnit;
+    const { calls, errors } = parseMetesAndBounds(this.callsInput.value, unit);
+
+    if (errors.length > 0) {
+      this.errorEl.textContent = errors.map((err) => `Line ${err.line}: ${err.message}`).join('\n');
+      this.errorEl.style.display = 'block';
+    } else {
+      this.errorEl.style.display = 'none';
+    }
+
+    if (calls.length === 0) {
+      this.traverse = null;
+      this.summaryEl.textContent = '';
+      this.confirmBtn.disabled = true;
+      return;
+    }
+
+    this.traverse = computeTraverse(calls, unit);
+    this.summaryEl.textContent = this.describeTraverse(this.traverse, calls.length);
+    this.confirmBtn.disabled = errors.length > 0;
+  }
+
+  private describeTraverse(traverse: TraverseResult, callCount: number): string {
+    const format = (value: number) =>
+      this.hasScale ? formatDistance(value, traverse.unit) : `${value.toFixed(1)} px`;
+
+    const closure =
+      traverse.closureAzimuth === null
+        ? 'Closure error: none'
+        : `Closure error: ${format(traverse.closureError)} ${formatBearing(traverse.closureAzimuth)}`;
+
+    return [
+      `${callCount} call${callCount === 1 ? '' : 's'}, total length ${format(traverse.totalLength)}`,
+      closure,
+      `Precision: ${formatPrecision(traverse.precision)}`
+    ].join('\n');
+  }
+
+  private submit(): void {
+    if (!this.traverse || this.confirmBtn.disabled) {
+      this.callsInput.focus();
+      return;
+    }
+    this.close(this.traverse);
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      // Plain Enter adds a new line in the calls list
+      e.preventDefault();
+      this.submit();
+    }
+  };
+
+  private close(result: TraverseResult | null): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
@@ -0,0 +1,207 @@
+import type { PaperOrientation, PaperSize } from '@/types';
+import {
+  PAPER_SIZES,
+  PRINT_SCALE_PRESETS,
+  formatScaleRatio,
+  getMmPerPixelAtScale,
+  getPaperDimensions,
+  getPrintArea,
+  getScaleDenominator
+} from '@/utils/paper';
+
+export interface PDFExportChoice {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  marginMm: number;
+  /** Null fits the map to the page */
+  scaleDenominator: number | null;
+}
+
+export interface PDFExportModalOptions {
+  /** Size of the exported canvas region in pixels */
+  regionWidth: number;
+  regionHeight: number;
+  /** Null when the project has no calibrated scale */
+  metresPerPixel: number | null;
+}
+
+export class PDFExportModal {
+  private overlay: HTMLDivElement;
+  private paperSelect: HTMLSelectElement;
+  private orientationSelect: HTMLSelectElement;
+  private marginInput: HTMLInputElement;
+  private scaleInput: HTMLInputElement;
+  private summaryEl: HTMLElement;
+  private confirmBtn: HTMLButtonElement;
+  private cancelBtn: HTMLButtonElement;
+  private options: PDFExportModalOptions | null = null;
+  private orientationChosen: boolean = false;
+  private resolve: ((value: PDFExportChoice | null) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(380px, 92vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Export PDF</h3>
+        </div>
+        <div class="app-modal-body">
+          <p class="app-modal-message">Lines, shapes and text are written as vectors over the base map.</p>
+          <div style="display: grid; grid-template-columns: auto 1fr; gap: 8px 12px; align-items: center; margin-top: 8px;">
+            <label style="font-size: 12px; color: var(--text-muted);">Paper</label>
+            <select class="app-modal-input pdf-paper-select"></select>
+            <label style="font-size: 12px; color: var(--text-muted);">Orientation</label>
+            <select class="app-modal-input pdf-orientation-select">
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+            <label style="font-size: 12px; color: var(--text-muted);">Margins (mm)</label>
+            <input class="app-modal-input pdf-margin-input" type="number" min="0" max="50" step="1" value="10" />
+            <label style="font-size: 12px; color: var(--text-muted);">Scale 1:</label>
+            <input class="app-modal-input pdf-scale-input" type="number" min="1" step="1" list="pdf-scale-presets" placeholder="Fit to page" />
+          </div>
+          <datalist id="pdf-scale-presets"></datalist>
+          <p class="pdf-summary" style="margin-top: 10px; font-size: 12px; color: var(--text-muted); white-space: pre-line;"></p>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost" type="button">Cancel</button>
+          <button class="app-modal-btn app-modal-btn-primary" type="button">Export</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.paperSelect = this.overlay.querySelector('.pdf-paper-select') as HTMLSelectElement;
+    this.orientationSelect = this.overlay.querySelector('.pdf-orientation-select') as HTMLSelectElement;
+    this.marginInput = this.overlay.querySelector('.pdf-margin-input') as HTMLInputElement;
+    this.scaleInput = this.overlay.querySelector('.pdf-scale-input') as HTMLInputElement;
+    this.summaryEl = this.overlay.querySelector('.pdf-summary') as HTMLElement;
+    const buttons = this.overlay.querySelectorAll('.app-modal-actions button');
+    this.cancelBtn = buttons[0] as HTMLButtonElement;
+    this.confirmBtn = buttons[1] as HTMLButtonElement;
+
+    PAPER_SIZES.forEach(({ value, label, width, height }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = `${label} (${width} × ${height} mm)`;
+      this.paperSelect.appendChild(option);
+    });
+
+    const presets = this.overlay.querySelector('#pdf-scale-presets') as HTMLDataListElement;
+    PRINT_SCALE_PRESETS.forEach((denominator) => {
+      const option = document.createElement('option');
+      option.value = String(denominator);
+      presets.appendChild(option);
+    });
+
+    this.cancelBtn.addEventListener('click', () => this.close(null));
+    this.confirmBtn.addEventListener('click', () => this.submit());
+    this.orientationSelect.addEventListener('change', () => {
+      this.orientationChosen = true;
+      this.updateSummary();
+    });
+    [this.paperSelect, this.marginInput, this.scaleInput].forEach((el) =>
+      el.addEventListener('input', () => this.updateSummary())
+    );
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: PDFExportModalOptions): Promise<PDFExportChoice | null> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    this.options = options;
+    // Follow the map's shape until the user picks an orientation themselves
+    if (!this.orientationChosen) {
+      this.orientationSelect.value = options.regionWidth > options.regionHeight ? 'landscape' : 'portrait';
+    }
+    this.scaleInput.disabled = options.metresPerPixel === null;
+    if (options.metresPerPixel === null) {
+      this.scaleInput.value = '';
+    }
+    this.updateSummary();
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    const result = await new Promise<PDFExportChoice | null>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      this.paperSelect.focus();
+    });
+
+    return result;
+  }
+
+  private getChoice(): PDFExportChoice {
+    const margin = parseFloat(this.marginInput.value);
+    const scale = parseFloat(this.scaleInput.value);
+    return {
+      paperSize: this.paperSelect.value as PaperSize,
+      orientation: this.orientationSelect.value as PaperOrientation,
+      marginMm: Number.isFinite(margin) ? Math.max(0, margin) : 10,
+      scaleDenominator: !this.scaleInput.disabled && Number.isFinite(scale) && scale > 0 ? scale : null
+    };
+  }
+
+  private updateSummary(): void {
+    if (!this.options) return;
+    const { regionWidth, regionHeight, metresPerPixel } = this.options;
+    const choice = this.getChoice();
+    const area = getPrintArea(getPaperDimensions(choice.paperSize, choice.orientation), choice.marginMm);
+    const size = (w: number, h: number) => `${Math.round(w)} × ${Math.round(h)} mm`;
+
+    if (choice.scaleDenominator && metresPerPixel) {
+      const mmPerPixel = getMmPerPixelAtScale(metresPerPixel, choice.scaleDenominator);
+      const mapWidth = regionWidth * mmPerPixel;
+      const mapHeight = regionHeight * mmPerPixel;
+      const cropped = mapWidth > area.width + 0.5 || mapHeight > area.height + 0.5;
+      this.summaryEl.textContent = cropped
+        ? `At ${formatScaleRatio(choice.scaleDenominator)} the map needs ${size(mapWidth, mapHeight)}.\n` +
+          `Only the central ${size(area.width, area.height)} fits inside the margins and will be printed.`
+        : `The map prints at ${size(mapWidth, mapHeight)} at ${formatScaleRatio(choice.scaleDenominator)}.`;
+      return;
+    }
+
+    const mmPerPixel = Math.min(area.width / regionWidth, area.height / regionHeight);
+    const fitted = size(regionWidth * mmPerPixel, regionHeight * mmPerPixel);
+    this.summaryEl.textContent = metresPerPixel
+      ? `Fitted to the page at ${fitted}, about ${formatScaleRatio(getScaleDenominator(metresPerPixel, mmPerPixel))}.`
+      : `Fitted to the page at ${fitted}. Calibrate the map scale to print at a true scale.`;
+  }
+
+  private submit(): void {
+    this.close(this.getChoice());
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter' && !(e.target instanceof HTMLSelectElement)) {
+      e.preventDefault();
+      this.submit();
+    }
+  };
+
+  private close(result: PDFExportChoice | null): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
@@ -0,0 +1,440 @@
+import type { LayoutElement, PaperOrientation, PaperSize, PrintLayout } from '@/types';
+import { PAPER_SIZES, PRINT_SCALE_PRESETS, getPaperDimensions, MM_PER_INCH } from '@/utils/paper';
+import {
+  LAYOUT_DPI_OPTIONS,
+  LAYOUT_ELEMENT_LABELS,
+  createDefaultPrintLayout,
+  resizePrintLayout
+} from '@/utils/PrintLayoutManager';
+
+export interface PrintLayoutComposerOptions {
+  layout: PrintLayout;
+  /** Render the sheet at the given DPI for the on-screen preview */
+  renderPreview: (layout: PrintLayout, dpi: number) => HTMLCanvasElement;
+  /** Null when the project has no calibrated scale */
+  metresPerPixel: number | null;
+  /** Highest DPI a PNG of this sheet can be rendered at */
+  getMaxRasterDpi: (layout: PrintLayout) => number;
+}
+
+export type PrintLayoutComposerResult =
+  | { action: 'export'; format: 'pdf' | 'png'; layout: PrintLayout }
+  | { action: 'edit-legend'; layout: PrintLayout }
+  | { action: 'close'; layout: PrintLayout };
+
+// Smallest box, in millimetres, an element can be resized to
+const MIN_ELEMENT_MM = 8;
+
+interface DragState {
+  element: LayoutElement;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: { x: number; y: number; width: number; height: number };
+}
+
+export class PrintLayoutComposer {
+  private overlay: HTMLDivElement;
+  private stage: HTMLElement;
+  private sheet: HTMLElement;
+  private previewImg: HTMLImageElement;
+  private boxes: HTMLElement;
+  private paperSelect: HTMLSelectElement;
+  private orientationSelect: HTMLSelectElement;
+  private scaleInput: HTMLInputElement;
+  private dpiSelect: HTMLSelectElement;
+  private titleInput: HTMLInputElement;
+  private subtitleInput: HTMLInputElement;
+  private drawnByInput: HTMLInputElement;
+  private dateInput: HTMLInputElement;
+  private notesInput: HTMLTextAreaElement;
+  private elementToggles: HTMLElement;
+  private dpiNote: HTMLElement;
+  private options: PrintLayoutComposerOptions | null = null;
+  private layout: PrintLayout | null = null;
+  private drag: DragState | null = null;
+  private previewTimer: number | null = null;
+  private resolve: ((value: PrintLayoutComposerResult) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    const label = 'font-size: 12px; color: var(--text-muted);';
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(1120px, 96vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Print Layout</h3>
+        </div>
+        <div class="app-modal-body" style="display: flex; gap: 16px; height: min(640px, 74vh);">
+          <div class="layout-stage" style="flex: 1; min-width: 0; display: flex; align-items: center; justify-content: center; background: var(--bg); border: 1px solid var(--border); border-radius: 8px; overflow: hidden;">
+            <div class="layout-sheet" style="position: relative; background: #ffffff; box-shadow: 0 4px 16px rgba(0,0,0,0.35);">
+              <img class="layout-preview" alt="" draggable="false" style="position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none;" />
+              <div class="layout-boxes" style="position: absolute; inset: 0;"></div>
+            </div>
+          </div>
+          <div style="width: 260px; flex-shrink: 0; overflow-y: auto; display: grid; grid-template-columns: auto 1fr; gap: 8px 10px; align-content: start; align-items: center;">
+            <label style="${label}">Paper</label>
+            <select class="app-modal-input layout-paper-select"></select>
+            <label style="${label}">Orientation</label>
+            <select class="app-modal-input layout-orientation-select">
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+            <label style="${label}">Scale 1:</label>
+            <input class="app-modal-input layout-scale-input" type="number" min="1" step="1" list="layout-scale-presets" placeholder="Fit to frame" />
+            <label style="${label}">DPI</label>
+            <select class="app-modal-input layout-dpi-select"></select>
+            <p class="layout-dpi-note" style="grid-column: 1 / -1; margin: -4px 0 0; font-size: 11px; color: var(--text-subtle);"></p>
+            <label style="${label}">Title</label>
+            <input class="app-modal-input layout-title-input" type="text" />
+            <label style="${label}">Subtitle</label>
+            <input class="app-modal-input layout-subtitle-input" type="text" />
+            <label style="${label}">Drawn by</label>
+            <input class="app-modal-input layout-drawn-by-input" type="text" />
+            <label style="${label}">Date</label>
+            <input class="app-modal-input layout-date-input" type="text" />
+            <label style="${label} align-self: start; padding-top: 9px;">Notes</label>
+            <textarea class="app-modal-input layout-notes-input" rows="4" style="resize: vertical;"></textarea>
+            <div class="layout-element-toggles" style="grid-column: 1 / -1; display: grid; grid-template-columns: 1fr 1fr; gap: 4px 8px; margin-top: 4px; font-size: 13px;"></div>
+            <div style="grid-column: 1 / -1; display: flex; gap: 8px; margin-top: 4px;">
+              <button class="app-modal-btn app-modal-btn-ghost layout-legend-btn" type="button" style="flex: 1;">Edit Legend</button>
+              <button class="app-modal-btn app-modal-btn-ghost layout-reset-btn" type="button" style="flex: 1;">Reset Layout</button>
+            </div>
+          </div>
+          <datalist id="layout-scale-presets"></datalist>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost layout-close-btn" type="button" style="margin-right: auto;">Close</button>
+          <button class="app-modal-btn app-modal-btn-ghost layout-png-btn" type="button">Export PNG</button>
+          <button class="app-modal-btn app-modal-btn-primary layout-pdf-btn" type="button">Export PDF</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.stage = this.overlay.querySelector('.layout-stage') as HTMLElement;
+    this.sheet = this.overlay.querySelector('.layout-sheet') as HTMLElement;
+    this.previewImg = this.overlay.querySelector('.layout-preview') as HTMLImageElement;
+    this.boxes = this.overlay.querySelector('.layout-boxes') as HTMLElement;
+    this.paperSelect = this.overlay.querySelector('.layout-paper-select') as HTMLSelectElement;
+    this.orientationSelect = this.overlay.querySelector('.layout-orientation-select') as HTMLSelectElement;
+    this.scaleInput = this.overlay.querySelector('.layout-scale-input') as HTMLInputElement;
+    this.dpiSelect = this.overlay.querySelector('.layout-dpi-select') as HTMLSelectElement;
+    this.dpiNote = this.overlay.querySelector('.layout-dpi-note') as HTMLElement;
+    this.titleInput = this.overlay.querySelector('.layout-title-input') as HTMLInputElement;
+    this.subtitleInput = this.overlay.querySelector('.layout-subtitle-input') as HTMLInputElement;
+    this.drawnByInput = this.overlay.querySelector('.layout-drawn-by-input') as HTMLInputElement;
+    this.dateInput = this.overlay.querySelector('.layout-date-input') as HTMLInputElement;
+    this.notesInput = this.overlay.querySelector('.layout-notes-input') as HTMLTextAreaElement;
+    this.elementToggles = this.overlay.querySelector('.layout-element-toggles') as HTMLElement;
+
+    PAPER_SIZES.forEach(({ value, label: paperLabel, width, height }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = `${paperLabel} (${width} × ${height} mm)`;
+      this.paperSelect.appendChild(option);
+    });
+    LAYOUT_DPI_OPTIONS.forEach((dpi) => {
+      const option = document.createElement('option');
+      option.value = String(dpi);
+      option.textContent = `${dpi} dpi`;
+      this.dpiSelect.appendChild(option);
+    });
+    const presets = this.overlay.querySelector('#layout-scale-presets') as HTMLDataListElement;
+    PRINT_SCALE_PRESETS.forEach((denominator) => {
+      const option = document.createElement('option');
+      option.value = String(denominator);
+      presets.appendChild(option);
+    });
+
+    const sheetChange = () => {
+      if (!this.layout) return;
+      this.layout = resizePrintLayout(
+        this.layout,
+        this.paperSelect.value as PaperSize,
+        this.orientationSelect.value as PaperOrientation
+      );
+      this.render();
+    };
+    this.paperSelect.addEventListener('change', sheetChange);
+    this.orientationSelect.addEventListener('change', sheetChange);
+
+    this.scaleInput.addEventListener('change', () => {
+      if (!this.layout) return;
+      const scale = parseFloat(this.scaleInput.value);
+      this.layout.scaleDenominator = Number.isFinite(scale) && scale > 0 ? scale : null;
+      this.schedulePreview();
+    });
+    this.dpiSelect.addEventListener('change', () => {
+      if (!this.layout) return;
+      this.layout.dpi = parseInt(this.dpiSelect.value, 10);
+      this.updateDpiNote();
+    });
+
+    const textFields: Array<[HTMLInputElement | HTMLTextAreaElement, 'title' | 'subtitle' | 'drawnBy' | 'date' | 'notes']> = [
+      [this.titleInput, 'title'],
+      [this.subtitleInput, 'subtitle'],
+      [this.drawnByInput, 'drawnBy'],
+      [this.dateInput, 'date'],
+      [this.notesInput, 'notes']
+    ];
+    textFields.forEach(([input, key]) =>
+      input.addEventListener('input', () => {
+        if (!this.layout) return;
+        this.layout[key] = input.value;
+        this.schedulePreview();
+      })
+    );
+
+    (this.overlay.querySelector('.layout-legend-btn') as HTMLButtonElement).addEventListener('click', () => {
+      if (this.layout) this.close({ action: 'edit-legend', layout: this.layout });
+    });
+    (this.overlay.querySelector('.layout-reset-btn') as HTMLButtonElement).addEventListener('click', () => {
+      if (!this.layout) return;
+      const fresh = createDefaultPrintLayout(this.layout.paperSize, this.layout.orientation);
+      // Keep what the user typed; only the boxes go back to their defaults
+      this.layout = { ...this.layout, elements: fresh.elements };
+      this.render();
+    });
+    (this.overlay.querySelector('.layout-close-btn') as HTMLButtonElement).addEventListener('click', () => this.dismiss());
+    (this.overlay.querySelector('.layout-png-btn') as HTMLButtonElement).addEventListener('click', () => {
+      if (this.layout) this.close({ action: 'export', format: 'png', layout: this.layout });
+    });
+    (this.overlay.querySelector('.layout-pdf-btn') as HTMLButtonElement).addEventListener('click', () => {
+      if (this.layout) this.close({ action: 'export', format: 'pdf', layout: this.layout });
+    });
+
+    this.boxes.addEventListener('pointermove', this.handlePointerMove);
+    this.boxes.addEventListener('pointerup', this.handlePointerUp);
+    this.boxes.addEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  async open(options: PrintLayoutComposerOptions): Promise<PrintLayoutComposerResult> {
+    if (this.resolve) {
+      this.dismiss();
+    }
+
+    this.options = options;
+    this.layout = JSON.parse(JSON.stringify(options.layout));
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+    this.scaleInput.disabled = options.metresPerPixel === null;
+    this.scaleInput.title = options.metresPerPixel === null ? 'Calibrate the map scale to print at a true scale' : '';
+    this.render();
+
+    return new Promise<PrintLayoutComposerResult>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      window.addEventListener('resize', this.handleResize);
+    });
+  }
+
+  /**
+   * Sync the form and boxes with the layout and redraw the preview.
+   */
+  private render(): void {
+    if (!this.layout) return;
+    const layout = this.layout;
+
+    this.paperSelect.value = layout.paperSize;
+    this.orientationSelect.value = layout.orientation;
+    this.scaleInput.value = layout.scaleDenominator && !this.scaleInput.disabled ? String(layout.scaleDenominator) : '';
+    this.dpiSelect.value = String(layout.dpi);
+    this.titleInput.value = layout.title;
+    this.subtitleInput.value = layout.subtitle;
+    this.drawnByInput.value = layout.drawnBy;
+    this.dateInput.value = layout.date;
+    this.notesInput.value = layout.notes;
+    this.updateDpiNote();
+    this.renderToggles();
+    this.layoutSheet();
+    this.renderPreview();
+  }
+
+  private renderToggles(): void {
+    if (!this.layout) return;
+    this.elementToggles.innerHTML = '';
+    this.layout.elements.forEach((el) => {
+      const row = document.createElement('label');
+      row.style.cssText = 'display: flex; gap: 6px; align-items: center; color: var(--text);';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = el.visible;
+      checkbox.addEventListener('change', () => {
+        el.visible = checkbox.checked;
+        this.renderBoxes();
+        this.renderPreview();
+      });
+      const text = document.createElement('span');
+      text.textContent = LAYOUT_ELEMENT_LABELS[el.kind];
+      row.append(checkbox, text);
+      this.elementToggles.appendChild(row);
+    });
+  }
+
+  /**
+   * Size the sheet to fit the stage, keeping the paper's proportions.
+   */
+  private layoutSheet(): void {
+    if (!this.layout) return;
+    const paper = getPaperDimensions(this.layout.paperSize, this.layout.orientation);
+    const available = this.stage.getBoundingClientRect();
+    const pxPerMm = Math.max(0.1, Math.min((available.width - 32) / paper.width, (available.height - 32) / paper.height));
+    this.sheet.style.width = `${paper.width * pxPerMm}px`;
+    this.sheet.style.height = `${paper.height * pxPerMm}px`;
+    this.renderBoxes();
+  }
+
+  private getPxPerMm(): number {
+    if (!this.layout) return 1;
+    const paper = getPaperDimensions(this.layout.paperSize, this.layout.orientation);
+    return this.sheet.getBoundingClientRect().width / paper.width || 1;
+  }
+
+  private renderBoxes(): void {
+    if (!this.layout) return;
+    const pxPerMm = this.getPxPerMm();
+    this.boxes.innerHTML = '';
+
+    this.layout.elements.forEach((el) => {
+      if (!el.visible) return;
+      const box = document.createElement('div');
+      box.title = LAYOUT_ELEMENT_LABELS[el.kind];
+      box.style.cssText = `
+        position: absolute; left: ${el.x * pxPerMm}px; top: ${el.y * pxPerMm}px;
+        width: ${el.width * pxPerMm}px; height: ${el.height * pxPerMm}px;
+        outline: 1px dashed var(--accent); cursor: move; touch-action: none;
+      `;
+      box.addEventListener('pointerdown', (e) => this.startDrag(e, el, 'move'));
+
+      const tag = document.createElement('span');
+      tag.textContent = LAYOUT_ELEMENT_LABELS[el.kind];
+      tag.style.cssText = `
+        position: absolute; left: 0; top: 0; padding: 1px 4px; font-size: 10px;
+        background: var(--accent); color: #ffffff; pointer-events: none; white-space: nowrap;
+      `;
+
+      const handle = document.createElement('div');
+      handle.style.cssText = `
+        position: absolute; right: -5px; bottom: -5px; width: 10px; height: 10px;
+        background: var(--accent); border: 1px solid #ffffff; cursor: nwse-resize;
+      `;
+      handle.addEventListener('pointerdown', (e) => {
+        e.stopPropagation();
+        this.startDrag(e, el, 'resize');
+      });
+
+      box.append(tag, handle);
+      this.boxes.appendChild(box);
+    });
+  }
+
+  private startDrag(e: PointerEvent, element: LayoutElement, mode: DragState['mode']): void {
+    e.preventDefault();
+    this.boxes.setPointerCapture(e.pointerId);
+    this.drag = {
+      element,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: { x: element.x, y: element.y, width: element.width, height: element.height }
+    };
+  }
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (!this.drag || !this.layout) return;
+    const paper = getPaperDimensions(this.layout.paperSize, this.layout.orientation);
+    const pxPerMm = this.getPxPerMm();
+    const dx = (e.clientX - this.drag.startX) / pxPerMm;
+    const dy = (e.clientY - this.drag.startY) / pxPerMm;
+    const { element, origin } = this.drag;
+
+    if (this.drag.mode === 'move') {
+      element.x = Math.min(Math.max(0, origin.x + dx), paper.width - origin.width);
+      element.y = Math.min(Math.max(0, origin.y + dy), paper.height - origin.height);
+    } else {
+      element.width = Math.min(Math.max(MIN_ELEMENT_MM, origin.width + dx), paper.width - origin.x);
+      element.height = Math.min(Math.max(MIN_ELEMENT_MM, origin.height + dy), paper.height - origin.y);
+    }
+    this.renderBoxes();
+  };
+
+  private handlePointerUp = (e: PointerEvent): void => {
+    if (!this.drag) return;
+    this.drag = null;
+    if (this.boxes.hasPointerCapture(e.pointerId)) {
+      this.boxes.releasePointerCapture(e.pointerId);
+    }
+    this.renderPreview();
+  };
+
+  /**
+   * Debounce previews while typing; rendering the map is the slow part.
+   */
+  private schedulePreview(): void {
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+    }
+    this.previewTimer = window.setTimeout(() => {
+      this.previewTimer = null;
+      this.renderPreview();
+    }, 300);
+  }
+
+  private renderPreview(): void {
+    if (!this.layout || !this.options) return;
+    const dpi = this.getPxPerMm() * MM_PER_INCH * (window.devicePixelRatio || 1);
+    try {
+      this.previewImg.src = this.options.renderPreview(this.layout, Math.min(dpi, 150)).toDataURL('image/png');
+    } catch (error) {
+      console.error('Failed to render layout preview:', error);
+    }
+  }
+
+  private updateDpiNote(): void {
+    if (!this.layout || !this.options) return;
+    const maxDpi = this.options.getMaxRasterDpi(this.layout);
+    this.dpiNote.textContent =
+      this.layout.dpi > maxDpi
+        ? `PNG exports of this sheet are limited to ${maxDpi} dpi.`
+        : 'Used for the PNG and for images inside the PDF.';
+  }
+
+  private handleResize = (): void => {
+    this.layoutSheet();
+    this.schedulePreview();
+  };
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.dismiss();
+    }
+  };
+
+  private dismiss(): void {
+    if (this.layout) this.close({ action: 'close', layout: this.layout });
+  }
+
+  private close(result: PrintLayoutComposerResult): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+      this.previewTimer = null;
+    }
+    this.drag = null;
+    window.removeEventListener('keydown', this.handleKeydown);
+    window.removeEventListener('resize', this.handleResize);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
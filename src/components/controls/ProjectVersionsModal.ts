@@ -0,0 +1,287 @@
+import type { ProjectVersion } from '@/types';
+
+export interface ProjectVersionsModalOptions {
+  projectName: string;
+  /** Newest first */
+  versions: ProjectVersion[];
+  /** Render versions in a shared frame, so they line up when overlaid */
+  renderPreviews: (versionIds: string[]) => Promise<HTMLCanvasElement[]>;
+  /** The project is the one on the canvas, so a new version can be saved */
+  canSaveVersion: boolean;
+}
+
+export type ProjectVersionsResult =
+  | { action: 'save'; comment: string }
+  | { action: 'restore'; version: ProjectVersion }
+  | { action: 'fork'; version: ProjectVersion }
+  | null;
+
+function formatSavedAt(version: ProjectVersion): string {
+  return new Date(version.savedAt).toLocaleString();
+}
+
+function getVersionTitle(version: ProjectVersion): string {
+  return version.comment || 'Saved version';
+}
+
+/**
+ * Browse a project's saved versions: preview one, lay another over it to see
+ * what changed, and restore or fork it.
+ */
+export class ProjectVersionsModal {
+  private overlay: HTMLDivElement;
+  private titleEl: HTMLElement;
+  private saveRow: HTMLElement;
+  private commentInput: HTMLInputElement;
+  private listEl: HTMLElement;
+  private stageEl: HTMLElement;
+  private captionEl: HTMLElement;
+  private compareSelect: HTMLSelectElement;
+  private modeSelect: HTMLSelectElement;
+  private opacityInput: HTMLInputElement;
+  private restoreBtn: HTMLButtonElement;
+  private forkBtn: HTMLButtonElement;
+  private options: ProjectVersionsModalOptions | null = null;
+  private selected: ProjectVersion | null = null;
+  private renderToken = 0;
+  private resolve: ((value: ProjectVersionsResult) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    const label = 'font-size: 12px; color: var(--text-muted);';
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(1040px, 96vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title versions-title">Versions</h3>
+        </div>
+        <div class="app-modal-body" style="display: flex; gap: 16px; height: min(600px, 72vh);">
+          <div style="width: 260px; flex-shrink: 0; display: flex; flex-direction: column; gap: 8px; min-height: 0;">
+            <div class="versions-save-row" style="display: flex; gap: 6px;">
+              <input class="app-modal-input versions-comment-input" type="text" placeholder="Comment, e.g. Sent to client" style="flex: 1; min-width: 0;" />
+              <button class="app-modal-btn app-modal-btn-ghost versions-save-btn" type="button">Save</button>
+            </div>
+            <div class="versions-list" style="flex: 1; overflow-y: auto; display: flex; flex-direction: column; gap: 4px;"></div>
+          </div>
+          <div style="flex: 1; min-width: 0; display: flex; flex-direction: column; gap: 8px;">
+            <div class="versions-stage" style="flex: 1; min-height: 0; display: flex; align-items: center; justify-content: center; background: var(--bg); border: 1px solid var(--border); border-radius: 8px; overflow: hidden;"></div>
+            <div class="versions-caption" style="${label}"></div>
+            <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+              <label style="${label}">Compare with</label>
+              <select class="app-modal-input versions-compare-select" style="width: 220px;"></select>
+              <select class="app-modal-input versions-mode-select" style="width: 120px;">
+                <option value="overlay">Overlay</option>
+                <option value="difference">Difference</option>
+              </select>
+              <input class="versions-opacity-input" type="range" min="0" max="100" value="50" title="Overlay opacity" style="width: 120px;" />
+            </div>
+          </div>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="close">Close</button>
+          <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="fork">Fork as New Project</button>
+          <button class="app-modal-btn app-modal-btn-primary" type="button" data-action="restore">Restore</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.titleEl = this.overlay.querySelector('.versions-title') as HTMLElement;
+    this.saveRow = this.overlay.querySelector('.versions-save-row') as HTMLElement;
+    this.commentInput = this.overlay.querySelector('.versions-comment-input') as HTMLInputElement;
+    this.listEl = this.overlay.querySelector('.versions-list') as HTMLElement;
+    this.stageEl = this.overlay.querySelector('.versions-stage') as HTMLElement;
+    this.captionEl = this.overlay.querySelector('.versions-caption') as HTMLElement;
+    this.compareSelect = this.overlay.querySelector('.versions-compare-select') as HTMLSelectElement;
+    this.modeSelect = this.overlay.querySelector('.versions-mode-select') as HTMLSelectElement;
+    this.opacityInput = this.overlay.querySelector('.versions-opacity-input') as HTMLInputElement;
+    this.restoreBtn = this.overlay.querySelector('[data-action="restore"]') as HTMLButtonElement;
+    this.forkBtn = this.overlay.querySelector('[data-action="fork"]') as HTMLButtonElement;
+
+    this.overlay.querySelector('.versions-save-btn')?.addEventListener('click', () => this.saveVersion());
+    this.overlay.querySelector('[data-action="close"]')?.addEventListener('click', () => this.close(null));
+    this.restoreBtn.addEventListener('click', () => {
+      if (this.selected) this.close({ action: 'restore', version: this.selected });
+    });
+    this.forkBtn.addEventListener('click', () => {
+      if (this.selected) this.close({ action: 'fork', version: this.selected });
+    });
+    this.compareSelect.addEventListener('change', () => void this.renderStage());
+    this.modeSelect.addEventListener('change', () => {
+      // Differences only read clearly with the overlay fully opaque
+      if (this.modeSelect.value === 'difference') this.opacityInput.value = '100';
+      this.applyOverlayStyle();
+    });
+    this.opacityInput.addEventListener('input', () => this.applyOverlayStyle());
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: ProjectVersionsModalOptions): Promise<ProjectVersionsResult> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    this.options = options;
+    this.selected = options.versions[0] ?? null;
+    this.titleEl.textContent = `Versions of "${options.projectName}"`;
+    this.saveRow.style.display = options.canSaveVersion ? 'flex' : 'none';
+    this.commentInput.value = '';
+    this.compareSelect.value = '';
+    this.renderList();
+    void this.renderStage();
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    return new Promise<ProjectVersionsResult>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+    });
+  }
+
+  private saveVersion(): void {
+    this.close({ action: 'save', comment: this.commentInput.value.trim() });
+  }
+
+  private renderList(): void {
+    const versions = this.options?.versions ?? [];
+    this.listEl.innerHTML = '';
+    this.restoreBtn.disabled = !this.selected;
+    this.forkBtn.disabled = !this.selected;
+
+    if (versions.length === 0) {
+      this.listEl.innerHTML = '<p class="text-xs text-textMuted">No versions yet. Each save adds one.</p>';
+    }
+
+    versions.forEach((version) => {
+      const row = document.createElement('div');
+      row.className = `project-row history-row${version === this.selected ? ' is-active' : ''}`;
+
+      if (version.preview) {
+        const thumb = document.createElement('img');
+        thumb.className = 'history-thumb';
+        thumb.src = version.preview;
+        thumb.alt = '';
+        row.appendChild(thumb);
+      }
+
+      const info = document.createElement('div');
+      info.className = 'flex-1 min-w-0';
+      const name = document.createElement('div');
+      name.className = 'project-row-name';
+      name.textContent = getVersionTitle(version);
+      name.title = getVersionTitle(version);
+      info.appendChild(name);
+      const date = document.createElement('div');
+      date.className = 'project-row-date';
+      date.textContent = formatSavedAt(version);
+      info.appendChild(date);
+      row.appendChild(info);
+
+      row.addEventListener('click', () => {
+        if (this.selected === version) return;
+        this.selected = version;
+        this.renderList();
+        void this.renderStage();
+      });
+      this.listEl.appendChild(row);
+    });
+
+    // Every other version can be laid over the selected one
+    const compareId = this.compareSelect.value;
+    this.compareSelect.innerHTML = '<option value="">Nothing</option>';
+    versions
+      .filter((version) => version !== this.selected)
+      .forEach((version) => {
+        const option = document.createElement('option');
+        option.value = version.id;
+        option.textContent = `${getVersionTitle(version)} · ${formatSavedAt(version)}`;
+        this.compareSelect.appendChild(option);
+      });
+    this.compareSelect.value = compareId !== this.selected?.id ? compareId : '';
+  }
+
+  private async renderStage(): Promise<void> {
+    const token = ++this.renderToken;
+    const selected = this.selected;
+    const compare = this.options?.versions.find((v) => v.id === this.compareSelect.value) ?? null;
+    const comparing = compare !== null;
+
+    this.modeSelect.disabled = !comparing;
+    this.opacityInput.disabled = !comparing;
+    this.stageEl.innerHTML = '';
+    this.captionEl.textContent = '';
+    if (!this.options || !selected) return;
+
+    this.stageEl.innerHTML = '<span class="text-textMuted text-xs">Rendering preview…</span>';
+    let previews: HTMLCanvasElement[];
+    try {
+      previews = await this.options.renderPreviews(compare ? [selected.id, compare.id] : [selected.id]);
+    } catch (error) {
+      console.error('Version preview failed:', error);
+      if (token === this.renderToken) {
+        this.stageEl.innerHTML = '<span class="text-textMuted text-xs">Preview unavailable</span>';
+      }
+      return;
+    }
+    // A newer selection started rendering while this one was in progress
+    if (token !== this.renderToken) return;
+
+    const frame = document.createElement('div');
+    frame.style.cssText = 'position: relative; max-width: 100%; max-height: 100%;';
+    previews.forEach((preview, index) => {
+      preview.className = index === 0 ? 'versions-base' : 'versions-overlay';
+      preview.style.cssText =
+        index === 0
+          ? 'display: block; max-width: 100%; max-height: min(520px, 60vh);'
+          : 'position: absolute; inset: 0; width: 100%; height: 100%;';
+      frame.appendChild(preview);
+    });
+    this.stageEl.innerHTML = '';
+    this.stageEl.appendChild(frame);
+    this.applyOverlayStyle();
+
+    this.captionEl.textContent = compare
+      ? `${getVersionTitle(selected)} (${formatSavedAt(selected)}) with ${getVersionTitle(compare)} (${formatSavedAt(compare)}) on top`
+      : `${getVersionTitle(selected)} · ${formatSavedAt(selected)}`;
+  }
+
+  private applyOverlayStyle(): void {
+    const overlay = this.stageEl.querySelector<HTMLCanvasElement>('.versions-overlay');
+    if (!overlay) return;
+    overlay.style.opacity = String(Number(this.opacityInput.value) / 100);
+    overlay.style.mixBlendMode = this.modeSelect.value === 'difference' ? 'difference' : 'normal';
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter' && e.target === this.commentInput) {
+      e.preventDefault();
+      this.saveVersion();
+    }
+  };
+
+  private close(result: ProjectVersionsResult): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+    this.renderToken += 1;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    this.stageEl.innerHTML = '';
+    this.options = null;
+    resolve(result);
+  }
+}
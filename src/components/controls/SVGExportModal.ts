@@ -0,0 +1,122 @@
+import type { SVGGrouping } from '@/types';
+
+export interface SVGExportChoice {
+  includeBaseMap: boolean;
+  grouping: SVGGrouping;
+}
+
+const GROUPING_OPTIONS: Array<{ value: SVGGrouping; label: string }> = [
+  { value: 'layer', label: 'Layer' },
+  { value: 'color', label: 'Color' },
+  { value: 'none', label: 'None (single group)' }
+];
+
+export class SVGExportModal {
+  private overlay: HTMLDivElement;
+  private baseMapInput: HTMLInputElement;
+  private groupingSelect: HTMLSelectElement;
+  private confirmBtn: HTMLButtonElement;
+  private cancelBtn: HTMLButtonElement;
+  private resolve: ((value: SVGExportChoice | null) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="max-width: 340px;">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Export SVG</h3>
+        </div>
+        <div class="app-modal-body">
+          <p class="app-modal-message">Lines, shapes and text are exported as editable vectors, cropped to the locked map when there is one.</p>
+          <label style="display: flex; gap: 8px; align-items: center; margin-top: 8px; font-size: 13px;">
+            <input type="checkbox" class="svg-base-map-input" checked />
+            <span>Include base map image</span>
+          </label>
+          <div style="display: flex; gap: 8px; align-items: center; margin-top: 12px;">
+            <label style="font-size: 12px; color: var(--text-muted);">Group by</label>
+            <select class="app-modal-input svg-grouping-select" style="width: 170px;"></select>
+          </div>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost" type="button">Cancel</button>
+          <button class="app-modal-btn app-modal-btn-primary" type="button">Export</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.baseMapInput = this.overlay.querySelector('.svg-base-map-input') as HTMLInputElement;
+    this.groupingSelect = this.overlay.querySelector('.svg-grouping-select') as HTMLSelectElement;
+    const buttons = this.overlay.querySelectorAll('.app-modal-actions button');
+    this.cancelBtn = buttons[0] as HTMLButtonElement;
+    this.confirmBtn = buttons[1] as HTMLButtonElement;
+
+    GROUPING_OPTIONS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.groupingSelect.appendChild(option);
+    });
+
+    this.cancelBtn.addEventListener('click', () => this.close(null));
+    this.confirmBtn.addEventListener('click', () => this.submit());
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: { hasBaseMap: boolean }): Promise<SVGExportChoice | null> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    // Previous choices are kept between exports
+    this.baseMapInput.disabled = !options.hasBaseMap;
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    const result = await new Promise<SVGExportChoice | null>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      this.confirmBtn.focus();
+    });
+
+    return result;
+  }
+
+  private submit(): void {
+    this.close({
+      includeBaseMap: this.baseMapInput.checked && !this.baseMapInput.disabled,
+      grouping: this.groupingSelect.value as SVGGrouping
+    });
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter' && !(e.target instanceof HTMLSelectElement)) {
+      e.preventDefault();
+      this.submit();
+    }
+  };
+
+  private close(result: SVGExportChoice | null): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
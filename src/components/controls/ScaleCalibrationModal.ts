@@ -0,0 +1,139 @@
+import type { MeasurementUnit } from '@/types';
+import { MEASUREMENT_UNITS } from '@/utils/units';
+
+export interface ScaleCalibrationOptions {
+  pixelDistance: number;
+  initialUnit?: MeasurementUnit;
+  initialDistance?: number;
+}
+
+export interface ScaleCalibrationResult {
+  distance: number;
+  unit: MeasurementUnit;
+}
+
+export class ScaleCalibrationModal {
+  private overlay: HTMLDivElement;
+  private messageEl: HTMLElement;
+  private distanceInput: HTMLInputElement;
+  private unitSelect: HTMLSelectElement;
+  private errorEl: HTMLElement;
+  private confirmBtn: HTMLButtonElement;
+  private cancelBtn: HTMLButtonElement;
+  private resolve: ((value: ScaleCalibrationResult | null) => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Calibrate Scale</h3>
+        </div>
+        <div class="app-modal-body">
+          <p class="app-modal-message"></p>
+          <div style="display: flex; gap: 8px;">
+            <input class="app-modal-input scale-distance-input" type="number" min="0" step="any" placeholder="Distance" style="flex: 1;" />
+            <select class="app-modal-input scale-unit-select" style="width: 130px;"></select>
+          </div>
+          <p class="scale-error" style="display: none; margin-top: 8px; color: var(--danger); font-size: 12px;"></p>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-ghost" type="button">Cancel</button>
+          <button class="app-modal-btn app-modal-btn-primary" type="button">Set Scale</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.messageEl = this.overlay.querySelector('.app-modal-message') as HTMLElement;
+    this.distanceInput = this.overlay.querySelector('.scale-distance-input') as HTMLInputElement;
+    this.unitSelect = this.overlay.querySelector('.scale-unit-select') as HTMLSelectElement;
+    this.errorEl = this.overlay.querySelector('.scale-error') as HTMLElement;
+    const buttons = this.overlay.querySelectorAll('.app-modal-actions button');
+    this.cancelBtn = buttons[0] as HTMLButtonElement;
+    this.confirmBtn = buttons[1] as HTMLButtonElement;
+
+    MEASUREMENT_UNITS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.unitSelect.appendChild(option);
+    });
+
+    this.cancelBtn.addEventListener('click', () => this.close(null));
+    this.confirmBtn.addEventListener('click', () => this.submit());
+    this.distanceInput.addEventListener('input', () => {
+      this.errorEl.style.display = 'none';
+    });
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close(null);
+      }
+    });
+  }
+
+  async open(options: ScaleCalibrationOptions): Promise<ScaleCalibrationResult | null> {
+    if (this.resolve) {
+      this.close(null);
+    }
+
+    this.messageEl.textContent =
+      `The two points are ${options.pixelDistance.toFixed(1)} px apart. Enter the real-world distance between them.`;
+    this.distanceInput.value = options.initialDistance ? String(options.initialDistance) : '';
+    this.unitSelect.value = options.initialUnit ?? 'm';
+    this.errorEl.style.display = 'none';
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    const result = await new Promise<ScaleCalibrationResult | null>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+      this.distanceInput.focus();
+      this.distanceInput.select();
+    });
+
+    return result;
+  }
+
+  private submit(): void {
+    const distance = parseFloat(this.distanceInput.value);
+    if (!Number.isFinite(distance) || distance <= 0) {
+      this.errorEl.textContent = 'Enter a distance greater than zero.';
+      this.errorEl.style.display = 'block';
+      this.distanceInput.focus();
+      return;
+    }
+
+    this.close({
+      distance,
+      unit: this.unitSelect.value as MeasurementUnit
+    });
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close(null);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      this.submit();
+    }
+  };
+
+  private close(result: ScaleCalibrationResult | null): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    resolve(result);
+  }
+}
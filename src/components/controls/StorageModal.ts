@@ -0,0 +1,314 @@
+import type { ProjectStorageUsage, StorageReport } from '@/types';
+
+export interface StorageModalOptions {
+  loadReport: () => Promise<StorageReport>;
+  /** The last save failed for lack of space */
+  storageFull: boolean;
+  /** Each action resolves a message describing what it did */
+  compressPreviews: () => Promise<string>;
+  purgeVersions: (keep: number) => Promise<string>;
+  removeUnusedSources: () => Promise<string>;
+  requestPersistence: () => Promise<string>;
+}
+
+const DEFAULT_VERSIONS_TO_KEEP = 5;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+function getProjectTotal(project: ProjectStorageUsage): number {
+  return project.projectBytes + project.historyBytes + project.versionsBytes;
+}
+
+/**
+ * Shows what is using browser storage and offers ways to free some: smaller
+ * previews, fewer versions, dropping original files nothing uses, and asking
+ * the browser to keep our data.
+ */
+export class StorageModal {
+  private overlay: HTMLDivElement;
+  private usageEl: HTMLElement;
+  private barEl: HTMLElement;
+  private warningEl: HTMLElement;
+  private statusEl: HTMLElement;
+  private projectsEl: HTMLElement;
+  private imagesEl: HTMLElement;
+  private keepInput: HTMLInputElement;
+  private purgeBtn: HTMLButtonElement;
+  private persistBtn: HTMLButtonElement;
+  private actionButtons: HTMLButtonElement[];
+  private options: StorageModalOptions | null = null;
+  private loadToken = 0;
+  // Deleting versions can't be undone, so the button asks for a second click
+  private confirmingPurge = false;
+  private resolve: (() => void) | null = null;
+
+  constructor(parent: HTMLElement) {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'app-modal-overlay';
+    this.overlay.setAttribute('aria-hidden', 'true');
+
+    const heading = 'font-size: 12px; font-weight: 600; color: var(--text); margin: 0 0 6px;';
+    const list = 'display: flex; flex-direction: column; gap: 4px; max-height: 180px; overflow-y: auto;';
+    this.overlay.innerHTML = `
+      <div class="app-modal-card" role="dialog" aria-modal="true" style="width: min(640px, 94vw);">
+        <div class="app-modal-header">
+          <h3 class="app-modal-title">Storage</h3>
+        </div>
+        <div class="app-modal-body" style="display: flex; flex-direction: column; gap: 14px; max-height: 70vh; overflow-y: auto;">
+          <div class="storage-warning app-modal-message" style="display: none; color: var(--danger);">
+            The last save failed because browser storage is full. Free some space below, or export the project as an .elmap file to keep it safe.
+          </div>
+          <div>
+            <div class="storage-usage app-modal-message"></div>
+            <div style="height: 6px; border-radius: 3px; background: var(--border); overflow: hidden;">
+              <div class="storage-bar" style="height: 100%; width: 0; background: var(--accent);"></div>
+            </div>
+          </div>
+          <div>
+            <h4 style="${heading}">Projects</h4>
+            <div class="storage-projects" style="${list}"></div>
+          </div>
+          <div>
+            <h4 style="${heading}">Images</h4>
+            <div class="storage-images" style="${list}"></div>
+          </div>
+          <div style="display: flex; flex-wrap: wrap; gap: 8px; align-items: center;">
+            <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="compress">Compress Previews</button>
+            <span style="display: inline-flex; gap: 6px; align-items: center;">
+              <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="purge">Keep Newest</button>
+              <input class="app-modal-input storage-keep-input" type="number" min="0" step="1" value="${DEFAULT_VERSIONS_TO_KEEP}" style="width: 64px;" />
+              <span>versions</span>
+            </span>
+            <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="sources">Remove Unused Originals</button>
+            <button class="app-modal-btn app-modal-btn-ghost" type="button" data-action="persist">Request Persistent Storage</button>
+          </div>
+          <div class="storage-status app-modal-message"></div>
+        </div>
+        <div class="app-modal-actions">
+          <button class="app-modal-btn app-modal-btn-primary" type="button" data-action="close">Done</button>
+        </div>
+      </div>
+    `;
+
+    parent.appendChild(this.overlay);
+
+    this.usageEl = this.overlay.querySelector('.storage-usage') as HTMLElement;
+    this.barEl = this.overlay.querySelector('.storage-bar') as HTMLElement;
+    this.warningEl = this.overlay.querySelector('.storage-warning') as HTMLElement;
+    this.statusEl = this.overlay.querySelector('.storage-status') as HTMLElement;
+    this.projectsEl = this.overlay.querySelector('.storage-projects') as HTMLElement;
+    this.imagesEl = this.overlay.querySelector('.storage-images') as HTMLElement;
+    this.keepInput = this.overlay.querySelector('.storage-keep-input') as HTMLInputElement;
+    this.purgeBtn = this.overlay.querySelector('[data-action="purge"]') as HTMLButtonElement;
+    this.persistBtn = this.overlay.querySelector('[data-action="persist"]') as HTMLButtonElement;
+    this.actionButtons = Array.from(
+      this.overlay.querySelectorAll<HTMLButtonElement>('[data-action="compress"], [data-action="purge"], [data-action="sources"], [data-action="persist"]')
+    );
+
+    this.overlay.querySelector('[data-action="compress"]')?.addEventListener('click', () => {
+      void this.runAction((options) => options.compressPreviews());
+    });
+    this.purgeBtn.addEventListener('click', () => {
+      const keep = Math.max(0, Math.floor(Number(this.keepInput.value) || 0));
+      if (!this.confirmingPurge) {
+        this.setConfirmingPurge(true);
+        this.statusEl.textContent = `Click again to delete all but the ${keep} newest version${keep === 1 ? '' : 's'} of every project. This can’t be undone.`;
+        return;
+      }
+      this.setConfirmingPurge(false);
+      void this.runAction((options) => options.purgeVersions(keep));
+    });
+    this.keepInput.addEventListener('input', () => this.setConfirmingPurge(false));
+    this.overlay.querySelector('[data-action="sources"]')?.addEventListener('click', () => {
+      void this.runAction((options) => options.removeUnusedSources());
+    });
+    this.persistBtn.addEventListener('click', () => {
+      void this.runAction((options) => options.requestPersistence());
+    });
+    this.overlay.querySelector('[data-action="close"]')?.addEventListener('click', () => this.close());
+    this.overlay.addEventListener('click', (e) => {
+      if (e.target === this.overlay) {
+        this.close();
+      }
+    });
+  }
+
+  async open(options: StorageModalOptions): Promise<void> {
+    if (this.resolve) {
+      this.close();
+    }
+
+    this.options = options;
+    this.warningEl.style.display = options.storageFull ? 'block' : 'none';
+    this.statusEl.textContent = '';
+    this.setConfirmingPurge(false);
+    void this.refresh();
+
+    this.overlay.classList.add('is-open');
+    this.overlay.setAttribute('aria-hidden', 'false');
+
+    return new Promise<void>((resolve) => {
+      this.resolve = resolve;
+      window.addEventListener('keydown', this.handleKeydown);
+    });
+  }
+
+  private setConfirmingPurge(confirming: boolean): void {
+    this.confirmingPurge = confirming;
+    this.purgeBtn.textContent = confirming ? 'Delete Older Than Newest' : 'Keep Newest';
+    this.purgeBtn.classList.toggle('app-modal-btn-danger', confirming);
+    this.purgeBtn.classList.toggle('app-modal-btn-ghost', !confirming);
+  }
+
+  private async runAction(action: (options: StorageModalOptions) => Promise<string>): Promise<void> {
+    if (!this.options) return;
+    this.setConfirmingPurge(false);
+    this.actionButtons.forEach((button) => (button.disabled = true));
+    try {
+      this.statusEl.textContent = await action(this.options);
+      await this.refresh();
+    } catch (error) {
+      console.error('Storage action failed:', error);
+      this.statusEl.textContent = 'That didn’t work. See the console for details.';
+    } finally {
+      this.actionButtons.forEach((button) => (button.disabled = false));
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const token = ++this.loadToken;
+    if (!this.options) return;
+
+    this.usageEl.textContent = 'Measuring…';
+    let report: StorageReport;
+    try {
+      report = await this.options.loadReport();
+    } catch (error) {
+      console.error('Storage report failed:', error);
+      if (token === this.loadToken) this.usageEl.textContent = 'Storage usage unavailable';
+      return;
+    }
+    if (token !== this.loadToken) return;
+
+    this.renderUsage(report);
+    this.renderProjects(report);
+    this.renderImages(report);
+  }
+
+  private renderUsage(report: StorageReport): void {
+    const parts: string[] = [];
+    if (report.usage !== null && report.quota) {
+      const percent = (report.usage / report.quota) * 100;
+      parts.push(`${formatBytes(report.usage)} of ${formatBytes(report.quota)} used (${percent.toFixed(percent < 10 ? 1 : 0)}%)`);
+      this.barEl.style.width = `${Math.min(percent, 100)}%`;
+      this.barEl.style.background = percent > 90 ? 'var(--danger)' : 'var(--accent)';
+    } else {
+      parts.push('This browser doesn’t report storage usage');
+      this.barEl.style.width = '0';
+    }
+
+    if (report.persisted === true) {
+      parts.push('Persistent: the browser won’t clear it when space runs low');
+    } else if (report.persisted === false) {
+      parts.push('Not persistent: the browser may clear it when space runs low');
+    }
+    this.persistBtn.style.display = report.persisted === false ? '' : 'none';
+
+    if (report.sourcesBytes > 0) {
+      parts.push(`Original files: ${formatBytes(report.sourcesBytes)}`);
+    }
+    if (report.backupsBytes > 0) {
+      parts.push(`Pre-upgrade backups: ${formatBytes(report.backupsBytes)}`);
+    }
+    this.usageEl.textContent = parts.join(' · ');
+  }
+
+  private renderProjects(report: StorageReport): void {
+    this.projectsEl.innerHTML = '';
+    if (report.autosaveBytes > 0) {
+      this.projectsEl.appendChild(this.createRow('Autosave', formatBytes(report.autosaveBytes), ''));
+    }
+    report.projects.forEach((project) => {
+      const details = [
+        `drawing ${formatBytes(project.projectBytes)}`,
+        `history ${formatBytes(project.historyBytes)}`,
+        `${project.versionCount} version${project.versionCount === 1 ? '' : 's'} ${formatBytes(project.versionsBytes)}`,
+        `previews ${formatBytes(project.previewBytes)}`
+      ].join(' · ');
+      this.projectsEl.appendChild(this.createRow(project.name, formatBytes(getProjectTotal(project)), details));
+    });
+    if (!this.projectsEl.hasChildNodes()) {
+      this.projectsEl.innerHTML = '<p class="text-xs text-textMuted">No saved projects</p>';
+    }
+  }
+
+  private renderImages(report: StorageReport): void {
+    this.imagesEl.innerHTML = '';
+    report.images.forEach((image) => {
+      const type = image.mimeType.replace(/^image\//, '').toUpperCase();
+      const usedBy = image.usedBy.length > 0 ? `Used by ${image.usedBy.join(', ')}` : 'Unused';
+      this.imagesEl.appendChild(this.createRow(`${type} image`, formatBytes(image.bytes), usedBy));
+    });
+    if (report.images.length === 0) {
+      this.imagesEl.innerHTML = '<p class="text-xs text-textMuted">No stored images</p>';
+    }
+  }
+
+  private createRow(title: string, size: string, details: string): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'project-row';
+
+    const info = document.createElement('div');
+    info.className = 'flex-1 min-w-0';
+    const name = document.createElement('div');
+    name.className = 'project-row-name';
+    name.textContent = title;
+    name.title = title;
+    info.appendChild(name);
+    if (details) {
+      const detail = document.createElement('div');
+      detail.className = 'project-row-date';
+      detail.textContent = details;
+      info.appendChild(detail);
+    }
+    row.appendChild(info);
+
+    const sizeEl = document.createElement('div');
+    sizeEl.className = 'project-row-date';
+    sizeEl.style.flexShrink = '0';
+    sizeEl.textContent = size;
+    row.appendChild(sizeEl);
+    return row;
+  }
+
+  private handleKeydown = (e: KeyboardEvent): void => {
+    if (!this.resolve) return;
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    }
+  };
+
+  private close(): void {
+    if (!this.resolve) return;
+    const resolve = this.resolve;
+    this.resolve = null;
+    this.loadToken += 1;
+
+    window.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.classList.remove('is-open');
+    this.overlay.setAttribute('aria-hidden', 'true');
+    this.options = null;
+    resolve();
+  }
+}
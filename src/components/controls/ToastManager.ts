@@ -3,6 +3,13 @@ export interface ToastOptions {
   subtitle?: string;
   previewUrl?: string;
   duration?: number;
+  /** Buttons shown under the text; clicking one also dismisses the toast */
+  actions?: ToastAction[];
+}
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 export class ToastManager {
@@ -43,6 +50,20 @@ export class ToastManager {
       </div>
     `;
 
+    if (options.actions?.length) {
+      const actions = document.createElement('div');
+      actions.className = 'app-toast-actions';
+      options.actions.forEach((action) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'app-toast-action';
+        button.textContent = action.label;
+        button.addEventListener('click', () => action.onClick());
+        actions.appendChild(button);
+      });
+      toast.querySelector('.app-toast-body')?.appendChild(actions);
+    }
+
     this.container.appendChild(toast);
     this.activeToast = toast;
 
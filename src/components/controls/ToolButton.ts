@@ -87,6 +87,15 @@ export class ToolButton {
         <rect x="2" y="16" width="4" height="4" fill="currentColor" stroke="currentColor"/>
         <rect x="18" y="16" width="4" height="4" fill="currentColor" stroke="currentColor"/>
         <circle cx="12" cy="10" r="3" fill="none" stroke="currentColor"/>
+      </svg>`,
+      ruler: `<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <path d="M21.3 8.7 8.7 21.3a1 1 0 0 1-1.4 0l-4.6-4.6a1 1 0 0 1 0-1.4L15.3 2.7a1 1 0 0 1 1.4 0l4.6 4.6a1 1 0 0 1 0 1.4z"/>
+        <path d="M7.5 10.5l2 2M10.5 7.5l2 2M13.5 4.5l2 2M4.5 13.5l2 2"/>
+      </svg>`,
+      scissors: `<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+        <circle cx="6" cy="6" r="3"/>
+        <circle cx="6" cy="18" r="3"/>
+        <path d="M20 4 8.12 15.88M14.47 14.48 20 20M8.12 8.12 12 12"/>
       </svg>`
     };
 
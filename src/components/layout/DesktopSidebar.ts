@@ -10,12 +10,17 @@ export interface FileActionCallbacks {
   onExportPNG: () => void;
   onExportJPG: () => void;
   onExportPDF: () => void;
+  onExportGeoJSON: () => void;
+  onExportSVG: () => void;
+  onExportProject: () => void;
+  onOpenLayout: () => void;
   onCopyToClipboard: () => void;
 }
 
 export interface EditActionCallbacks {
   onUndo: () => void;
   onRedo: () => void;
+  onToggleHistory: () => void;
   onClearAll: () => void;
 }
 
@@ -45,6 +50,18 @@ export interface NorthPointerCallbacks {
   onAddNorthPointer: () => void;
 }
 
+export interface ScaleCallbacks {
+  onCalibrateScale: () => void;
+}
+
+export interface BearingsCallbacks {
+  onEnterBearings: () => void;
+}
+
+export interface GeoreferenceCallbacks {
+  onGeoreference: () => void;
+}
+
 export class DesktopSidebar {
   private element: HTMLElement;
   private toolButtons: Map<ToolType, ToolButton> = new Map();
@@ -57,12 +74,18 @@ export class DesktopSidebar {
   private settingsCallbacks: SettingsCallbacks | null = null;
   private legendCallbacks: LegendCallbacks | null = null;
   private northPointerCallbacks: NorthPointerCallbacks | null = null;
+  private scaleCallbacks: ScaleCallbacks | null = null;
+  private bearingsCallbacks: BearingsCallbacks | null = null;
+  private georeferenceCallbacks: GeoreferenceCallbacks | null = null;
   private snapEnabled: boolean = true;
   private strokeDashed: boolean = false;
   private undoBtn: HTMLButtonElement | null = null;
   private redoBtn: HTMLButtonElement | null = null;
+  private historyBtn: HTMLButtonElement | null = null;
   private strokeColorPicker: ColorPalettePickerInstance | null = null;
   private lockStatusEl: HTMLElement | null = null;
+  private scaleStatusEl: HTMLElement | null = null;
+  private georeferenceStatusEl: HTMLElement | null = null;
 
   constructor(parent: HTMLElement, tools: ITool[], onToolSelect: (type: ToolType) => void) {
     this.onToolSelect = onToolSelect;
@@ -97,6 +120,15 @@ export class DesktopSidebar {
     this.redoBtn.addEventListener('click', () => this.editCallbacks?.onRedo());
     headerActions.appendChild(this.redoBtn);
 
+    this.historyBtn = document.createElement('button');
+    this.historyBtn.className = 'icon-btn';
+    this.historyBtn.setAttribute('aria-label', 'History');
+    this.historyBtn.setAttribute('aria-pressed', 'false');
+    this.historyBtn.title = 'History';
+    this.historyBtn.innerHTML = `<svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 12a9 9 0 1 0 3-6.7L3 8"/><path d="M3 3v5h5"/><path d="M12 7v5l3 2"/></svg>`;
+    this.historyBtn.addEventListener('click', () => this.editCallbacks?.onToggleHistory());
+    headerActions.appendChild(this.historyBtn);
+
     const settingsBtn = document.createElement('button');
     settingsBtn.className = 'icon-btn';
     settingsBtn.setAttribute('aria-label', 'Settings');
@@ -246,6 +278,18 @@ export class DesktopSidebar {
     northBtn.addEventListener('click', () => this.northPointerCallbacks?.onAddNorthPointer());
     col.appendChild(northBtn);
 
+    const scaleBtn = this.createActionBtn('Calibrate Scale', rulerIcon());
+    scaleBtn.addEventListener('click', () => this.scaleCallbacks?.onCalibrateScale());
+    col.appendChild(scaleBtn);
+
+    const georeferenceBtn = this.createActionBtn('Georeference', globeIcon());
+    georeferenceBtn.addEventListener('click', () => this.georeferenceCallbacks?.onGeoreference());
+    col.appendChild(georeferenceBtn);
+
+    const bearingsBtn = this.createActionBtn('Bearings & Distances', bearingsIcon());
+    bearingsBtn.addEventListener('click', () => this.bearingsCallbacks?.onEnterBearings());
+    col.appendChild(bearingsBtn);
+
     section.appendChild(col);
     wrap.appendChild(section);
     return wrap;
@@ -379,6 +423,14 @@ export class DesktopSidebar {
     });
     col.appendChild(this.lockStatusEl);
 
+    this.scaleStatusEl = document.createElement('div');
+    this.scaleStatusEl.style.cssText = 'display: none; padding: 0 10px 4px; font-size: 11px; color: var(--text-muted);';
+    col.appendChild(this.scaleStatusEl);
+
+    this.georeferenceStatusEl = document.createElement('div');
+    this.georeferenceStatusEl.style.cssText = 'display: none; padding: 0 10px 4px; font-size: 11px; color: var(--text-muted);';
+    col.appendChild(this.georeferenceStatusEl);
+
     const exportRow = document.createElement('div');
     exportRow.className = 'btn-row';
 
@@ -396,6 +448,28 @@ export class DesktopSidebar {
 
     col.appendChild(exportRow);
 
+    const vectorRow = document.createElement('div');
+    vectorRow.className = 'btn-row';
+
+    const exportGeoJsonBtn = this.createActionBtn('GeoJSON', exportIcon());
+    exportGeoJsonBtn.addEventListener('click', () => this.fileCallbacks?.onExportGeoJSON());
+    vectorRow.appendChild(exportGeoJsonBtn);
+
+    const exportSvgBtn = this.createActionBtn('SVG', exportIcon());
+    exportSvgBtn.addEventListener('click', () => this.fileCallbacks?.onExportSVG());
+    vectorRow.appendChild(exportSvgBtn);
+
+    const exportProjectBtn = this.createActionBtn('.elmap', exportIcon());
+    exportProjectBtn.title = 'Export the project with its images as an .elmap bundle';
+    exportProjectBtn.addEventListener('click', () => this.fileCallbacks?.onExportProject());
+    vectorRow.appendChild(exportProjectBtn);
+
+    col.appendChild(vectorRow);
+
+    const layoutBtn = this.createActionBtn('Print Layout', layoutIcon());
+    layoutBtn.addEventListener('click', () => this.fileCallbacks?.onOpenLayout());
+    col.appendChild(layoutBtn);
+
     const copyBtn = this.createActionBtn('Copy to Clipboard', copyIcon());
     copyBtn.addEventListener('click', () => this.fileCallbacks?.onCopyToClipboard());
     col.appendChild(copyBtn);
@@ -449,6 +523,18 @@ export class DesktopSidebar {
     this.northPointerCallbacks = callbacks;
   }
 
+  setScaleCallbacks(callbacks: ScaleCallbacks): void {
+    this.scaleCallbacks = callbacks;
+  }
+
+  setBearingsCallbacks(callbacks: BearingsCallbacks): void {
+    this.bearingsCallbacks = callbacks;
+  }
+
+  setGeoreferenceCallbacks(callbacks: GeoreferenceCallbacks): void {
+    this.georeferenceCallbacks = callbacks;
+  }
+
   setSnapEnabled(enabled: boolean): void {
     this.snapEnabled = enabled;
     const input = this.element.querySelector('#global-snap-toggle') as HTMLInputElement | null;
@@ -478,6 +564,20 @@ export class DesktopSidebar {
     }
   }
 
+  updateScaleStatus(label: string | null): void {
+    if (this.scaleStatusEl) {
+      this.scaleStatusEl.textContent = label ?? '';
+      this.scaleStatusEl.style.display = label ? 'block' : 'none';
+    }
+  }
+
+  updateGeoreferenceStatus(label: string | null): void {
+    if (this.georeferenceStatusEl) {
+      this.georeferenceStatusEl.textContent = label ?? '';
+      this.georeferenceStatusEl.style.display = label ? 'block' : 'none';
+    }
+  }
+
   updateUndoRedoButtons(canUndo: boolean, canRedo: boolean): void {
     if (this.undoBtn) {
       this.undoBtn.disabled = !canUndo;
@@ -487,6 +587,12 @@ export class DesktopSidebar {
     }
   }
 
+  setHistoryOpen(open: boolean): void {
+    if (!this.historyBtn) return;
+    this.historyBtn.setAttribute('aria-pressed', String(open));
+    this.historyBtn.style.color = open ? 'var(--accent)' : '';
+  }
+
   private handleToolClick = (type: ToolType): void => {
     this.onToolSelect(type);
   };
@@ -534,3 +640,19 @@ function exportIcon() {
 function copyIcon() {
   return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>`;
 }
+
+function bearingsIcon() {
+  return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M4 20 8 6l9 3 3 11z"/><circle cx="4" cy="20" r="1.5"/><path d="M12 3v3"/><path d="m10.5 4.5 1.5-1.5 1.5 1.5"/></svg>`;
+}
+
+function globeIcon() {
+  return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><path d="M2 12h20"/><path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/></svg>`;
+}
+
+function rulerIcon() {
+  return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.3 8.7 8.7 21.3a1 1 0 0 1-1.4 0l-4.6-4.6a1 1 0 0 1 0-1.4L15.3 2.7a1 1 0 0 1 1.4 0l4.6 4.6a1 1 0 0 1 0 1.4z"/><path d="m7.5 10.5 2 2"/><path d="m10.5 7.5 2 2"/><path d="m13.5 4.5 2 2"/><path d="m4.5 13.5 2 2"/></svg>`;
+}
+
+function layoutIcon() {
+  return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"/><path d="M15 3v18"/><path d="M15 15h6"/><path d="M15 9h6"/></svg>`;
+}
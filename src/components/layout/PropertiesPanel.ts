@@ -1,5 +1,25 @@
+import { Path, Polyline } from 'fabric';
 import type { FabricObject } from 'fabric';
 import { LAYOUT } from '@/constants';
+import { canvasLockManager } from '@/canvas';
+import {
+  measureObject,
+  getObjectRings,
+  settingsManager,
+  pixelsToUnits,
+  unitsToPixels,
+  pixelAreaToUnits,
+  formatDistance,
+  formatArea,
+  isAreaUnit,
+  AREA_UNITS,
+  layerManager,
+  type BooleanOperation,
+  type OffsetJoin,
+  type OffsetOptions,
+  type OffsetSide
+} from '@/utils';
+import type { LayerState, MapLayer } from '@/types';
 import type { ToastManager } from '@/components/controls/ToastManager';
 import type { ConfirmModal } from '@/components/controls/ConfirmModal';
 import type { TextInputModal } from '@/components/controls/TextInputModal';
@@ -14,6 +34,12 @@ export interface PropertiesPanelCallbacks {
   onFontFamilyChange: (fontFamily: string) => void;
   onImageLockChange: (locked: boolean) => void;
   onLockCanvasToImage: () => void;
+  /** Join the selected lines end to end, optionally closing the result */
+  onJoinPaths?: (close: boolean) => void;
+  /** Combine the selected closed shapes into new ones */
+  onCombineShapes?: (operation: BooleanOperation) => void;
+  /** Add a parallel copy of the selected line, with the distance in canvas pixels */
+  onOffsetPath?: (options: OffsetOptions) => void;
 }
 
 export interface ProjectCallbacks {
@@ -26,11 +52,41 @@ export interface ProjectCallbacks {
   getCurrentProjectId: () => string | null;
   onLoadAutosave?: () => Promise<boolean>;
   getAutosaveInfo?: () => Promise<{ savedAt: number; preview?: string } | null>;
+  /** Open the saved versions of a project */
+  onShowVersions?: (id: string) => Promise<void>;
+  /** Write the project to its file on disk, or a new one */
+  onSaveToFile?: () => Promise<boolean>;
+  onOpenFile?: () => Promise<boolean>;
+  onListRecentFiles?: () => Promise<Array<{ id: string; name: string; openedAt: number }>>;
+  onOpenRecentFile?: (id: string) => Promise<boolean>;
+  onRemoveRecentFile?: (id: string) => Promise<void>;
 }
 
+export interface LayerCallbacks {
+  /** A layer was added, removed, renamed, reordered or restyled */
+  onLayersChange: () => void;
+  onMoveSelectionToLayer: (layerId: string) => void;
+}
+
+const LAYER_ICONS = {
+  visible: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8Z"/><circle cx="12" cy="12" r="3"/></svg>',
+  hidden: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17.94 17.94A10.1 10.1 0 0 1 12 20C5 20 1 12 1 12a18.5 18.5 0 0 1 5.06-5.94"/><path d="M9.9 4.24A9.1 9.1 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19"/><path d="M1 1l22 22"/></svg>',
+  locked: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>',
+  unlocked: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="11" width="18" height="11" rx="2"/><path d="M7 11V7a5 5 0 0 1 9.9-1"/></svg>',
+  up: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="18 15 12 9 6 15"/></svg>',
+  down: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="6 9 12 15 18 9"/></svg>',
+  remove: '<svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/></svg>'
+};
+
 export class PropertiesPanel {
   private element: HTMLElement;
   private contentEl: HTMLElement;
+  private layersEl: HTMLElement;
+  private layersListEl: HTMLElement | null = null;
+  private layerOpacityInput: HTMLInputElement | null = null;
+  private layerOpacityValue: HTMLElement | null = null;
+  private layerCallbacks: LayerCallbacks | null = null;
+  private unsubscribeLayers: (() => void) | null = null;
   private projectsEl: HTMLElement;
   private shortcutsEl: HTMLElement;
   private callbacks: PropertiesPanelCallbacks;
@@ -38,6 +94,13 @@ export class PropertiesPanel {
   private toastManager: ToastManager | null = null;
   private confirmModal: ConfirmModal | null = null;
   private renameModal: TextInputModal | null = null;
+  private selectedObject: FabricObject | null = null;
+  private measurementEl: HTMLElement | null = null;
+  private joinClose = false;
+  // Distance in map units once the map is scaled, otherwise pixels
+  private offsetDistance = 10;
+  private offsetSide: OffsetSide = 'left';
+  private offsetJoin: OffsetJoin = 'miter';
 
   constructor(parent: HTMLElement, callbacks: PropertiesPanelCallbacks) {
     this.callbacks = callbacks;
@@ -56,6 +119,12 @@ export class PropertiesPanel {
     this.updateContent(null);
     this.element.appendChild(this.contentEl);
 
+    // Add layers section
+    this.layersEl = this.createLayersSection();
+    this.element.appendChild(this.layersEl);
+    this.unsubscribeLayers = layerManager.subscribe((state) => this.renderLayers(state));
+    this.renderLayers(layerManager.getState());
+
     // Add projects section
     this.projectsEl = this.createProjectsSection();
     this.element.appendChild(this.projectsEl);
@@ -72,6 +141,15 @@ export class PropertiesPanel {
     this.refreshProjectsList();
   }
 
+  /** Re-read saved projects and recent files, e.g. after saving from a shortcut */
+  refreshProjects(): void {
+    this.refreshProjectsList();
+  }
+
+  setLayerCallbacks(callbacks: LayerCallbacks): void {
+    this.layerCallbacks = callbacks;
+  }
+
   setToastManager(toastManager: ToastManager): void {
     this.toastManager = toastManager;
   }
@@ -84,6 +162,188 @@ export class PropertiesPanel {
     this.renameModal = renameModal;
   }
 
+  private createLayersSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'p-4 border-t border-border';
+
+    const header = document.createElement('div');
+    header.className = 'flex justify-between items-center mb-3';
+
+    const label = document.createElement('h2');
+    label.className = 'section-label';
+    label.textContent = 'Layers';
+    header.appendChild(label);
+
+    const addBtn = document.createElement('button');
+    addBtn.className = 'icon-btn';
+    addBtn.title = 'Add layer';
+    addBtn.innerHTML = `
+      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M12 5v14M5 12h14"/>
+      </svg>
+    `;
+    addBtn.addEventListener('click', () => {
+      layerManager.addLayer(`Layer ${layerManager.getLayers().length + 1}`);
+      this.layerCallbacks?.onLayersChange();
+    });
+    header.appendChild(addBtn);
+    section.appendChild(header);
+
+    this.layersListEl = document.createElement('div');
+    this.layersListEl.className = 'max-h-48 overflow-y-auto space-y-1';
+    // Listen on the list: the first click re-renders the rows when it changes the active layer
+    this.layersListEl.addEventListener('dblclick', (e) => {
+      const target = e.target as HTMLElement;
+      if (!target.closest('.project-row-name')) return;
+      const layer = layerManager.getLayer(target.closest<HTMLElement>('.layer-row')?.dataset.layerId);
+      if (layer) void this.renameLayer(layer);
+    });
+    section.appendChild(this.layersListEl);
+
+    const opacityRow = document.createElement('div');
+    opacityRow.style.cssText = 'display:flex;align-items:center;gap:8px;margin-top:10px;';
+    opacityRow.innerHTML = `
+      <label class="prop-label" for="layer-opacity" style="margin:0;">Opacity</label>
+      <input type="range" min="0" max="100" value="100" id="layer-opacity" style="flex:1;"/>
+      <span class="mono-val" id="layer-opacity-value">100%</span>
+    `;
+    section.appendChild(opacityRow);
+
+    this.layerOpacityInput = opacityRow.querySelector('#layer-opacity') as HTMLInputElement;
+    this.layerOpacityValue = opacityRow.querySelector('#layer-opacity-value') as HTMLElement;
+    this.layerOpacityInput.addEventListener('input', () => {
+      const value = Number(this.layerOpacityInput!.value);
+      layerManager.setLayerOpacity(layerManager.getActiveLayerId(), value / 100);
+    });
+    this.layerOpacityInput.addEventListener('change', () => this.layerCallbacks?.onLayersChange());
+
+    const moveBtn = document.createElement('button');
+    moveBtn.className = 'action-btn';
+    moveBtn.style.cssText = 'margin-top:10px;justify-content:center;';
+    moveBtn.textContent = 'Move Selection to Layer';
+    moveBtn.addEventListener('click', () => {
+      this.layerCallbacks?.onMoveSelectionToLayer(layerManager.getActiveLayerId());
+    });
+    section.appendChild(moveBtn);
+
+    return section;
+  }
+
+  /**
+   * List layers top-most first, matching how they stack on the canvas.
+   */
+  private renderLayers(state: LayerState): void {
+    if (!this.layersListEl) return;
+    this.layersListEl.innerHTML = '';
+
+    const count = state.layers.length;
+    [...state.layers].reverse().forEach((layer) => {
+      const index = state.layers.indexOf(layer);
+      const row = document.createElement('div');
+      row.className = `project-row layer-row${layer.id === state.activeLayerId ? ' is-active' : ''}`;
+      row.title = 'Draw into this layer';
+      row.dataset.layerId = layer.id;
+
+      const visibleBtn = this.createLayerButton(
+        layer.visible ? LAYER_ICONS.visible : LAYER_ICONS.hidden,
+        layer.visible ? 'Hide layer' : 'Show layer',
+        () => layerManager.setLayerVisible(layer.id, !layer.visible)
+      );
+      if (!layer.visible) visibleBtn.classList.add('is-off');
+      row.appendChild(visibleBtn);
+
+      const lockBtn = this.createLayerButton(
+        layer.locked ? LAYER_ICONS.locked : LAYER_ICONS.unlocked,
+        layer.locked ? 'Unlock layer' : 'Lock layer',
+        () => layerManager.setLayerLocked(layer.id, !layer.locked)
+      );
+      if (layer.locked) lockBtn.classList.add('is-on');
+      row.appendChild(lockBtn);
+
+      const name = document.createElement('div');
+      name.className = 'project-row-name';
+      name.textContent = layer.name;
+      name.title = 'Double-click to rename';
+      row.appendChild(name);
+
+      const upBtn = this.createLayerButton(LAYER_ICONS.up, 'Move layer up', () => layerManager.moveLayer(layer.id, 1));
+      upBtn.disabled = index === count - 1;
+      row.appendChild(upBtn);
+
+      const downBtn = this.createLayerButton(LAYER_ICONS.down, 'Move layer down', () => layerManager.moveLayer(layer.id, -1));
+      downBtn.disabled = index === 0;
+      row.appendChild(downBtn);
+
+      const removeBtn = document.createElement('button');
+      removeBtn.className = 'layer-btn';
+      removeBtn.title = 'Remove layer';
+      removeBtn.innerHTML = LAYER_ICONS.remove;
+      removeBtn.disabled = count <= 1;
+      removeBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        void this.removeLayer(layer);
+      });
+      row.appendChild(removeBtn);
+
+      row.addEventListener('click', () => layerManager.setActiveLayer(layer.id));
+      this.layersListEl!.appendChild(row);
+    });
+
+    const active = state.layers.find((layer) => layer.id === state.activeLayerId);
+    const percent = Math.round((active?.opacity ?? 1) * 100);
+    if (this.layerOpacityInput && document.activeElement !== this.layerOpacityInput) {
+      this.layerOpacityInput.value = String(percent);
+    }
+    if (this.layerOpacityValue) this.layerOpacityValue.textContent = `${percent}%`;
+  }
+
+  private createLayerButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'layer-btn';
+    button.title = title;
+    button.innerHTML = icon;
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+      this.layerCallbacks?.onLayersChange();
+    });
+    return button;
+  }
+
+  private async renameLayer(layer: MapLayer): Promise<void> {
+    const nextName = this.renameModal
+      ? await this.renameModal.open({
+          title: 'Rename layer',
+          message: 'Update the layer name.',
+          placeholder: 'Layer name',
+          initialValue: layer.name,
+          confirmLabel: 'Save',
+          cancelLabel: 'Cancel'
+        })
+      : prompt('Rename layer:', layer.name);
+
+    const trimmed = nextName?.trim();
+    if (!trimmed || trimmed === layer.name) return;
+    layerManager.renameLayer(layer.id, trimmed);
+    this.layerCallbacks?.onLayersChange();
+  }
+
+  private async removeLayer(layer: MapLayer): Promise<void> {
+    const confirmed = this.confirmModal
+      ? await this.confirmModal.open({
+          title: 'Remove layer?',
+          message: `Remove "${layer.name}"? Its objects move to the adjacent layer.`,
+          confirmLabel: 'Remove',
+          cancelLabel: 'Cancel',
+          tone: 'danger'
+        })
+      : confirm(`Remove "${layer.name}"?`);
+    if (!confirmed) return;
+    if (layerManager.removeLayer(layer.id)) {
+      this.layerCallbacks?.onLayersChange();
+    }
+  }
+
   private createProjectsSection(): HTMLElement {
     const section = document.createElement('div');
     section.className = 'p-4 border-t border-border';
@@ -161,6 +421,36 @@ export class PropertiesPanel {
 
     section.appendChild(actionsRow);
 
+    // Files on disk, e.g. on a shared drive
+    const fileRow = document.createElement('div');
+    fileRow.className = 'flex gap-2 mb-3';
+
+    const saveFileBtn = document.createElement('button');
+    saveFileBtn.className = 'action-btn';
+    saveFileBtn.style.cssText = 'flex: 1; width: auto;';
+    saveFileBtn.textContent = 'Save to File';
+    saveFileBtn.title = 'Save as a .elmap.json file on disk (Ctrl+S saves back to it)';
+    saveFileBtn.addEventListener('click', async () => {
+      if (await this.projectCallbacks?.onSaveToFile?.()) {
+        this.refreshProjectsList();
+      }
+    });
+    fileRow.appendChild(saveFileBtn);
+
+    const openFileBtn = document.createElement('button');
+    openFileBtn.className = 'action-btn';
+    openFileBtn.style.cssText = 'flex: 1; width: auto;';
+    openFileBtn.textContent = 'Open File';
+    openFileBtn.addEventListener('click', async () => {
+      if (await this.projectCallbacks?.onOpenFile?.()) {
+        this.showToast('File opened!');
+        this.refreshProjectsList();
+      }
+    });
+    fileRow.appendChild(openFileBtn);
+
+    section.appendChild(fileRow);
+
     // Projects list
     const listContainer = document.createElement('div');
     listContainer.id = 'projects-list';
@@ -168,6 +458,11 @@ export class PropertiesPanel {
     listContainer.innerHTML = '<p class="text-xs text-textMuted">No saved projects</p>';
     section.appendChild(listContainer);
 
+    const recentContainer = document.createElement('div');
+    recentContainer.id = 'recent-files-list';
+    recentContainer.className = 'space-y-1 mt-3';
+    section.appendChild(recentContainer);
+
     return section;
   }
 
@@ -175,6 +470,8 @@ export class PropertiesPanel {
     const listContainer = this.projectsEl.querySelector('#projects-list');
     if (!listContainer || !this.projectCallbacks) return;
 
+    void this.refreshRecentFiles();
+
     const projects = await this.projectCallbacks.onListProjects();
     const currentId = this.projectCallbacks.getCurrentProjectId();
     const autosaveInfo = await this.projectCallbacks.getAutosaveInfo?.();
@@ -311,6 +608,66 @@ export class PropertiesPanel {
     });
   }
 
+  private async refreshRecentFiles(): Promise<void> {
+    const container = this.projectsEl.querySelector('#recent-files-list');
+    if (!container || !this.projectCallbacks?.onListRecentFiles) return;
+
+    const files = await this.projectCallbacks.onListRecentFiles();
+    container.innerHTML = '';
+    if (files.length === 0) return;
+
+    const label = document.createElement('div');
+    label.className = 'project-row-date';
+    label.textContent = 'Recent files';
+    container.appendChild(label);
+
+    files.forEach((file) => {
+      const row = document.createElement('div');
+      row.className = 'project-row';
+      row.title = 'Open this file again';
+
+      const info = document.createElement('div');
+      info.className = 'flex-1 min-w-0';
+
+      const name = document.createElement('div');
+      name.className = 'project-row-name';
+      name.textContent = file.name;
+      info.appendChild(name);
+
+      const date = document.createElement('div');
+      date.className = 'project-row-date';
+      date.textContent = new Date(file.openedAt).toLocaleDateString();
+      info.appendChild(date);
+
+      row.appendChild(info);
+
+      const removeBtn = document.createElement('button');
+      removeBtn.className = 'delete-btn p-1 text-textMuted hover:text-foreground transition-colors';
+      removeBtn.title = 'Remove from recent files (the file is kept)';
+      removeBtn.innerHTML = `
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+          <path d="M18 6L6 18M6 6l12 12"/>
+        </svg>
+      `;
+      removeBtn.addEventListener('click', async (e) => {
+        e.stopPropagation();
+        await this.projectCallbacks?.onRemoveRecentFile?.(file.id);
+        this.refreshRecentFiles();
+      });
+      row.appendChild(removeBtn);
+
+      row.addEventListener('click', async () => {
+        const success = await this.projectCallbacks?.onOpenRecentFile?.(file.id);
+        if (success) {
+          this.showToast('File opened!');
+          this.refreshProjectsList();
+        }
+      });
+
+      container.appendChild(row);
+    });
+  }
+
   private showToast(message: string): void {
     if (this.toastManager) {
       this.toastManager.showToast({ title: message });
@@ -490,6 +847,26 @@ export class PropertiesPanel {
           this.refreshProjectsList();
         });
         actions.appendChild(deleteBtn);
+
+        if (this.projectCallbacks?.onShowVersions) {
+          const versionsBtn = document.createElement('button');
+          versionsBtn.className = 'versions-btn p-1 rounded bg-surface/80 border border-border text-textMuted hover:text-foreground transition-colors';
+          versionsBtn.title = 'Versions';
+          versionsBtn.innerHTML = `
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+              <path d="M3 12a9 9 0 1 0 3-6.7L3 8"/>
+              <path d="M3 3v5h5"/>
+              <path d="M12 7v5l3 2"/>
+            </svg>
+          `;
+          versionsBtn.addEventListener('click', async (e) => {
+            e.stopPropagation();
+            modal.remove();
+            await this.projectCallbacks?.onShowVersions?.(project.id);
+            this.refreshProjectsList();
+          });
+          actions.insertBefore(versionsBtn, editBtn);
+        }
         card.appendChild(actions);
 
         const preview = document.createElement('div');
@@ -551,6 +928,9 @@ export class PropertiesPanel {
       { key: 'Ctrl+Z', action: 'Undo' },
       { key: 'Ctrl+Shift+Z', action: 'Redo' },
       { key: 'Ctrl+V', action: 'Paste image' },
+      { key: 'Ctrl+S', action: 'Save' },
+      { key: 'Ctrl+Shift+S', action: 'Save to new file' },
+      { key: 'Ctrl+J', action: 'Join selected lines' },
       { key: 'Delete', action: 'Delete selected' },
       { key: 'Escape', action: 'Cancel / Deselect' },
       { key: 'Enter', action: 'Finish drawing' },
@@ -586,11 +966,15 @@ export class PropertiesPanel {
     if (!this.projectsEl) return;
     const list = this.projectsEl.querySelector('#projects-list') as HTMLElement | null;
     if (list) list.style.display = collapsed ? 'none' : '';
+    const recent = this.projectsEl.querySelector('#recent-files-list') as HTMLElement | null;
+    if (recent) recent.style.display = collapsed ? 'none' : '';
     this.contentEl.style.flex = collapsed ? '1 1 auto' : '';
   }
 
-  updateContent(selectedObject: FabricObject | null): void {
+  updateContent(selectedObject: FabricObject | null, selection: FabricObject[] = selectedObject ? [selectedObject] : []): void {
     this.setProjectsCollapsed(!!selectedObject);
+    this.selectedObject = selectedObject;
+    this.measurementEl = null;
 
     if (!selectedObject) {
       this.contentEl.innerHTML = `
@@ -716,6 +1100,27 @@ export class PropertiesPanel {
       dashInput?.addEventListener('change', (e) => {
         this.callbacks.onStrokeDashChange((e.target as HTMLInputElement).checked);
       });
+
+      if (measureObject(selectedObject)) {
+        this.measurementEl = document.createElement('div');
+        container.appendChild(this.measurementEl);
+        this.renderMeasurements();
+      }
+    }
+
+    const lineCount = selection.filter((obj) => obj instanceof Path || obj instanceof Polyline).length;
+    if (lineCount >= 2 && this.callbacks.onJoinPaths) {
+      container.appendChild(this.createJoinSection(lineCount));
+    }
+
+    const isLine = selectedObject instanceof Path || selectedObject instanceof Polyline;
+    if (selection.length === 1 && isLine && this.callbacks.onOffsetPath) {
+      container.appendChild(this.createOffsetSection());
+    }
+
+    const shapeCount = selection.filter((obj) => getObjectRings(obj)).length;
+    if (shapeCount >= 2 && this.callbacks.onCombineShapes) {
+      container.appendChild(this.createCombineSection());
     }
 
     if (isImage) {
@@ -746,11 +1151,205 @@ export class PropertiesPanel {
     this.contentEl.appendChild(container);
   }
 
+  private createJoinSection(lineCount: number): HTMLElement {
+    const section = document.createElement('div');
+    section.innerHTML = `
+      <label class="prop-label">Join</label>
+      <button id="join-paths" class="action-btn" style="margin-top:6px;justify-content:center;" title="Ctrl+J, or Ctrl+Shift+J to close">
+        Join ${lineCount} Lines
+      </button>
+      <div class="flex items-center gap-3 pt-2">
+        <input type="checkbox" id="join-close" class="modern-checkbox" ${this.joinClose ? 'checked' : ''}/>
+        <label for="join-close" class="toggle-label">Close into a shape</label>
+      </div>
+    `;
+
+    const closeInput = section.querySelector('#join-close') as HTMLInputElement;
+    closeInput?.addEventListener('change', () => {
+      this.joinClose = closeInput.checked;
+    });
+
+    section.querySelector('#join-paths')?.addEventListener('click', () => {
+      this.callbacks.onJoinPaths?.(this.joinClose);
+    });
+    return section;
+  }
+
+  private createOffsetSection(): HTMLElement {
+    const scale = canvasLockManager.getScale();
+    const selectStyle = 'flex:1;background:var(--bg);border:1px solid var(--border-subtle);border-radius:5px;padding:3px 6px;color:var(--text);font-size:11px;outline:none;';
+    const rowStyle = 'display:flex;align-items:center;justify-content:space-between;gap:8px;';
+    const option = (value: string, label: string, current: string) =>
+      `<option value="${value}" ${value === current ? 'selected' : ''}>${label}</option>`;
+
+    const section = document.createElement('div');
+    section.innerHTML = `
+      <label class="prop-label">Offset</label>
+      <div style="display:flex;flex-direction:column;gap:6px;margin-top:6px;font-size:12px;color:var(--text-muted);">
+        <div style="${rowStyle}">
+          <span>Distance</span>
+          <span style="display:flex;align-items:center;gap:6px;">
+            <input type="number" id="offset-distance" min="0" step="any" value="${this.offsetDistance}" style="width:72px;background:var(--bg);border:1px solid var(--border-subtle);border-radius:5px;padding:3px 6px;color:var(--text);font-size:11px;outline:none;"/>
+            <span>${scale ? scale.unit : 'px'}</span>
+          </span>
+        </div>
+        <div style="${rowStyle}">
+          <span>Side</span>
+          <select id="offset-side" style="${selectStyle}" title="Relative to the direction the line was drawn in">
+            ${option('left', 'Left', this.offsetSide)}
+            ${option('right', 'Right', this.offsetSide)}
+            ${option('both', 'Both sides (strip)', this.offsetSide)}
+          </select>
+        </div>
+        <div style="${rowStyle}">
+          <span>Corners</span>
+          <select id="offset-join" style="${selectStyle}">
+            ${option('miter', 'Mitre', this.offsetJoin)}
+            ${option('round', 'Round', this.offsetJoin)}
+            ${option('bevel', 'Bevel', this.offsetJoin)}
+          </select>
+        </div>
+      </div>
+      <button id="offset-path" class="action-btn" style="margin-top:8px;justify-content:center;">Create Offset</button>
+    `;
+
+    const distanceInput = section.querySelector('#offset-distance') as HTMLInputElement;
+    distanceInput?.addEventListener('change', () => {
+      const value = Number(distanceInput.value);
+      if (Number.isFinite(value) && value > 0) {
+        this.offsetDistance = value;
+      }
+    });
+
+    const sideSelect = section.querySelector('#offset-side') as HTMLSelectElement;
+    sideSelect?.addEventListener('change', () => {
+      this.offsetSide = sideSelect.value as OffsetSide;
+    });
+
+    const joinSelect = section.querySelector('#offset-join') as HTMLSelectElement;
+    joinSelect?.addEventListener('change', () => {
+      this.offsetJoin = joinSelect.value as OffsetJoin;
+    });
+
+    section.querySelector('#offset-path')?.addEventListener('click', () => {
+      const value = Number(distanceInput.value);
+      if (!Number.isFinite(value) || value <= 0) {
+        this.toastManager?.showToast({ title: 'Enter an offset distance', subtitle: 'The distance must be more than zero' });
+        return;
+      }
+      this.offsetDistance = value;
+      const current = canvasLockManager.getScale();
+      this.callbacks.onOffsetPath?.({
+        distance: current ? unitsToPixels(value, current) : value,
+        side: this.offsetSide,
+        join: this.offsetJoin
+      });
+    });
+    return section;
+  }
+
+  private createCombineSection(): HTMLElement {
+    const operations: Array<{ operation: BooleanOperation; label: string; title: string }> = [
+      { operation: 'union', label: 'Union', title: 'Merge the shapes into one' },
+      { operation: 'difference', label: 'Subtract', title: 'Cut the shapes in front out of the one at the back' },
+      { operation: 'intersection', label: 'Intersect', title: 'Keep only where all the shapes overlap' },
+      { operation: 'exclusion', label: 'Exclude', title: 'Keep only where the shapes don\'t overlap' }
+    ];
+
+    const section = document.createElement('div');
+    section.innerHTML = `
+      <label class="prop-label">Combine Shapes</label>
+      <div style="display:grid;grid-template-columns:1fr 1fr;gap:6px;margin-top:6px;">
+        ${operations.map(({ operation, label, title }) => `
+          <button class="action-btn" data-operation="${operation}" style="justify-content:center;" title="${title}">${label}</button>
+        `).join('')}
+      </div>
+    `;
+
+    section.querySelectorAll<HTMLButtonElement>('[data-operation]').forEach((button) => {
+      button.addEventListener('click', () => {
+        this.callbacks.onCombineShapes?.(button.dataset.operation as BooleanOperation);
+      });
+    });
+    return section;
+  }
+
+  /**
+   * Recalculate the length/area readout for the selected object, e.g. after it
+   * was edited or the map scale changed.
+   */
+  refreshMeasurements(): void {
+    this.renderMeasurements();
+  }
+
+  private renderMeasurements(): void {
+    if (!this.measurementEl || !this.selectedObject) return;
+
+    const measurement = measureObject(this.selectedObject);
+    if (!measurement) {
+      this.measurementEl.innerHTML = '';
+      return;
+    }
+
+    const scale = canvasLockManager.getScale();
+    const areaUnit = settingsManager.getAreaUnit();
+    const rowStyle = 'display:flex;align-items:center;justify-content:space-between;gap:8px;';
+    const valueStyle = "font-family:'JetBrains Mono',monospace;font-size:11px;color:var(--text);";
+
+    const lengthText = scale
+      ? formatDistance(pixelsToUnits(measurement.length, scale), scale.unit)
+      : `${measurement.length.toFixed(1)} px`;
+
+    let areaRow = '';
+    if (measurement.area !== null) {
+      const areaText = scale
+        ? formatArea(pixelAreaToUnits(measurement.area, scale, areaUnit), areaUnit)
+        : `${Math.round(measurement.area).toLocaleString()} px²`;
+      const unitOptions = AREA_UNITS.map(
+        (unit) => `<option value="${unit.value}" ${unit.value === areaUnit ? 'selected' : ''}>${unit.symbol}</option>`
+      ).join('');
+      areaRow = `
+        <div style="${rowStyle}">
+          <span>Area</span>
+          <span style="${valueStyle}">${areaText}</span>
+        </div>
+        ${scale ? `
+        <div style="${rowStyle}">
+          <span>Area units</span>
+          <select id="area-unit" style="background:var(--bg);border:1px solid var(--border-subtle);border-radius:5px;padding:3px 6px;color:var(--text);font-size:11px;outline:none;">
+            ${unitOptions}
+          </select>
+        </div>` : ''}
+      `;
+    }
+
+    this.measurementEl.innerHTML = `
+      <label class="prop-label">Measurements</label>
+      <div style="display:flex;flex-direction:column;gap:6px;margin-top:6px;font-size:12px;color:var(--text-muted);">
+        <div style="${rowStyle}">
+          <span>${measurement.closed ? 'Perimeter' : 'Length'}</span>
+          <span style="${valueStyle}">${lengthText}</span>
+        </div>
+        ${areaRow}
+      </div>
+      ${scale ? '' : '<p style="font-size:10px;color:var(--text-muted);margin-top:6px;line-height:1.4;">Calibrate the map scale to see real-world units</p>'}
+    `;
+
+    const areaSelect = this.measurementEl.querySelector('#area-unit') as HTMLSelectElement | null;
+    areaSelect?.addEventListener('change', (e) => {
+      const value = (e.target as HTMLSelectElement).value;
+      if (!isAreaUnit(value)) return;
+      settingsManager.setAreaUnit(value);
+      this.renderMeasurements();
+    });
+  }
+
   getElement(): HTMLElement {
     return this.element;
   }
 
   destroy(): void {
+    this.unsubscribeLayers?.();
     this.element.remove();
   }
 }
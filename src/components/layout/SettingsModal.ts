@@ -5,6 +5,7 @@ export interface SettingsModalCallbacks {
   onDefaultStrokeColorChange?: (color: string) => void;
   onDefaultStrokeWidthChange?: (width: number) => void;
   onDefaultFontChange?: (font: FontFamily) => void;
+  onManageStorage?: () => void;
 }
 
 export class SettingsModal {
@@ -124,6 +125,61 @@ export class SettingsModal {
           </div>
         </div>
 
+        <div class="pt-4 border-t border-border space-y-4">
+          <h3 class="text-sm font-medium text-foreground">Editing</h3>
+
+          <div class="space-y-2">
+            <label class="block text-xs text-muted" for="join-tolerance">Join Gap Tolerance</label>
+            <div class="flex items-center gap-3">
+              <input
+                type="number"
+                id="join-tolerance"
+                min="0"
+                max="500"
+                step="1"
+                value="${settings.joinTolerance}"
+                class="flex-1 bg-charcoal border border-border rounded px-3 py-2 text-foreground text-sm"
+              />
+              <span class="text-sm text-muted">px</span>
+            </div>
+            <p class="text-xs text-muted">Joining lines bridges gaps up to this wide with a straight segment.</p>
+          </div>
+        </div>
+
+        <div class="pt-4 border-t border-border space-y-4">
+          <h3 class="text-sm font-medium text-foreground">Export</h3>
+
+          <div class="space-y-2">
+            <label class="block text-xs text-muted" for="curve-tolerance">Curve Flattening Tolerance (GeoJSON)</label>
+            <div class="flex items-center gap-3">
+              <input
+                type="number"
+                id="curve-tolerance"
+                min="0.05"
+                max="10"
+                step="0.05"
+                value="${settings.curveTolerance}"
+                class="flex-1 bg-charcoal border border-border rounded px-3 py-2 text-foreground text-sm"
+              />
+              <span class="text-sm text-muted">px</span>
+            </div>
+            <p class="text-xs text-muted">Smaller values follow curves more closely but produce more vertices.</p>
+          </div>
+        </div>
+
+        <div class="pt-4 border-t border-border flex items-center justify-between">
+          <div>
+            <h3 class="text-sm font-medium text-foreground">Storage</h3>
+            <p class="text-xs text-muted">See what projects, versions and images use, and free space</p>
+          </div>
+          <button
+            id="manage-storage"
+            class="px-3 py-1.5 rounded text-sm bg-charcoal text-foreground hover:bg-surface transition-colors"
+          >
+            Manage
+          </button>
+        </div>
+
         <div class="pt-4 border-t border-border">
           <h3 class="text-sm font-medium text-foreground mb-2">Keyboard Shortcuts</h3>
           <div class="space-y-1.5 text-xs">
@@ -201,6 +257,30 @@ export class SettingsModal {
       this.callbacks.onDefaultFontChange?.(font);
     });
 
+    // Curve flattening tolerance
+    const toleranceInput = this.modal.querySelector('#curve-tolerance') as HTMLInputElement;
+    toleranceInput?.addEventListener('change', () => {
+      const tolerance = parseFloat(toleranceInput.value);
+      if (Number.isFinite(tolerance)) {
+        settingsManager.setCurveTolerance(tolerance);
+      }
+      toleranceInput.value = String(settingsManager.getCurveTolerance());
+    });
+
+    // Join gap tolerance
+    const joinToleranceInput = this.modal.querySelector('#join-tolerance') as HTMLInputElement;
+    joinToleranceInput?.addEventListener('change', () => {
+      const tolerance = parseFloat(joinToleranceInput.value);
+      if (Number.isFinite(tolerance)) {
+        settingsManager.setJoinTolerance(tolerance);
+      }
+      joinToleranceInput.value = String(settingsManager.getJoinTolerance());
+    });
+
+    this.modal.querySelector('#manage-storage')?.addEventListener('click', () => {
+      this.callbacks.onManageStorage?.();
+    });
+
     // Subscribe to theme changes
     this.unsubscribe = themeManager.subscribe(() => {
       this.updateThemeButtons();
@@ -0,0 +1,110 @@
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import type { Canvas } from 'fabric';
+import type { ExportResult, ProjectBundleManifest } from '@/types';
+import { isExportableObject } from '@/canvas';
+import { sourceStore } from '@/storage';
+import {
+  BUNDLE_EXTENSION,
+  BUNDLE_FORMAT,
+  BUNDLE_MANIFEST_PATH,
+  BUNDLE_MEDIA_PREFIX,
+  BUNDLE_VERSION,
+  dataUrlToBytes,
+  forEachImageJSON,
+  getExtensionForMimeType,
+  hashBytes,
+  isDataUrl
+} from '@/utils';
+import { createProjectData } from './JSONExporter';
+
+const SCENE_PATH = 'scene.json';
+const PREVIEW_PATH = 'preview.png';
+
+/**
+ * Writes a project as an `.elmap` zip. Images are stored as binary entries
+ * named by their content hash, so a base map used twice, or identical to its
+ * original file, is stored once.
+ */
+export class BundleExporter {
+  async export(canvas: Canvas, projectName: string = 'Untitled'): Promise<ExportResult> {
+    try {
+      const projectData = createProjectData(canvas, projectName);
+      const files: Zippable = {};
+      const media = new Map<string, ProjectBundleManifest['media'][number]>();
+
+      const addMedia = async (bytes: Uint8Array, mimeType: string): Promise<string> => {
+        const path = `media/${await hashBytes(bytes)}.${getExtensionForMimeType(mimeType)}`;
+        if (!media.has(path)) {
+          // Images and PDFs are already compressed
+          files[path] = [bytes, { level: 0 }];
+          media.set(path, { path, mimeType, size: bytes.length });
+        }
+        return path;
+      };
+
+      const images: Array<Record<string, any>> = [];
+      forEachImageJSON(projectData.canvas, (json) => images.push(json));
+
+      const sources: ProjectBundleManifest['sources'] = [];
+      for (const json of images) {
+        if (isDataUrl(json.src)) {
+          const { bytes, mimeType } = dataUrlToBytes(json.src);
+          json.src = BUNDLE_MEDIA_PREFIX + (await addMedia(bytes, mimeType));
+        }
+
+        const sourceId = json.__elsSource?.id;
+        if (typeof sourceId !== 'string' || sources.some((s) => s.id === sourceId)) continue;
+        const source = await sourceStore.get(sourceId);
+        if (!source) continue;
+        const path = await addMedia(new Uint8Array(await source.data.arrayBuffer()), source.mimeType);
+        sources.push({ id: sourceId, path, name: source.name, mimeType: source.mimeType });
+      }
+
+      const preview = this.createPreview(canvas);
+      if (preview) {
+        files[PREVIEW_PATH] = [preview, { level: 0 }];
+      }
+
+      const manifest: ProjectBundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        name: projectName,
+        createdAt: new Date().toISOString(),
+        scene: SCENE_PATH,
+        ...(preview ? { preview: PREVIEW_PATH } : {}),
+        media: Array.from(media.values()),
+        sources
+      };
+      files[SCENE_PATH] = strToU8(JSON.stringify(projectData));
+      files[BUNDLE_MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+      const zipped = zipSync(files);
+      const blob = new Blob([zipped], { type: 'application/zip' });
+
+      return {
+        success: true,
+        data: blob,
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}${BUNDLE_EXTENSION}`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'Project bundle export failed'
+      };
+    }
+  }
+
+  private createPreview(canvas: Canvas): Uint8Array | null {
+    try {
+      const dataUrl = canvas.toDataURL({
+        format: 'png',
+        multiplier: 0.25,
+        filter: isExportableObject
+      });
+      return dataUrlToBytes(dataUrl).bytes;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,18 +1,30 @@
 import type { Canvas } from 'fabric';
-import { ExportFormat, type ExportOptions, type ExportResult } from '@/types';
+import { ExportFormat, type ExportOptions, type ExportResult, type PrintLayout } from '@/types';
 import { ImageExporter } from './ImageExporter';
 import { PDFExporter } from './PDFExporter';
 import { JSONExporter } from './JSONExporter';
+import { BundleExporter } from './BundleExporter';
+import { GeoJSONExporter } from './GeoJSONExporter';
+import { SVGExporter } from './SVGExporter';
+import { LayoutExporter } from './LayoutExporter';
 
 export class ExportManager {
   private imageExporter: ImageExporter;
   private pdfExporter: PDFExporter;
   private jsonExporter: JSONExporter;
+  private bundleExporter: BundleExporter;
+  private geoJsonExporter: GeoJSONExporter;
+  private svgExporter: SVGExporter;
+  private layoutExporter: LayoutExporter;
 
   constructor() {
     this.imageExporter = new ImageExporter();
     this.pdfExporter = new PDFExporter();
     this.jsonExporter = new JSONExporter();
+    this.bundleExporter = new BundleExporter();
+    this.geoJsonExporter = new GeoJSONExporter();
+    this.svgExporter = new SVGExporter();
+    this.layoutExporter = new LayoutExporter();
   }
 
   async export(
@@ -28,11 +40,20 @@ export class ExportManager {
         result = await this.imageExporter.export(canvas, options);
         break;
       case ExportFormat.PDF:
-        result = await this.pdfExporter.export(canvas, options);
+        result = await this.pdfExporter.export(canvas, options, projectName);
         break;
       case ExportFormat.JSON:
         result = this.jsonExporter.export(canvas, projectName);
         break;
+      case ExportFormat.BUNDLE:
+        result = await this.bundleExporter.export(canvas, projectName);
+        break;
+      case ExportFormat.GEOJSON:
+        result = this.geoJsonExporter.export(canvas, projectName, options.flattenTolerance);
+        break;
+      case ExportFormat.SVG:
+        result = this.svgExporter.export(canvas, options, projectName);
+        break;
       default:
         return {
           success: false,
@@ -48,6 +69,33 @@ export class ExportManager {
     return result;
   }
 
+  /**
+   * Export a print layout sheet as a PDF or a PNG at the layout's DPI.
+   */
+  async exportLayout(
+    canvas: Canvas,
+    layout: PrintLayout,
+    format: ExportFormat.PDF | ExportFormat.PNG,
+    projectName?: string
+  ): Promise<ExportResult> {
+    const result = format === ExportFormat.PDF
+      ? await this.layoutExporter.exportPDF(canvas, layout, projectName)
+      : await this.layoutExporter.exportPNG(canvas, layout, projectName);
+
+    if (result.success && result.data instanceof Blob) {
+      this.downloadFile(result.data, result.filename);
+    }
+
+    return result;
+  }
+
+  /**
+   * Render a print layout sheet for on-screen previews.
+   */
+  renderLayoutPreview(canvas: Canvas, layout: PrintLayout, dpi: number): HTMLCanvasElement {
+    return this.layoutExporter.renderSheet(canvas, layout, dpi);
+  }
+
   private downloadFile(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -0,0 +1,192 @@
+import type { Canvas, FabricObject, FabricText, Point } from 'fabric';
+import type { ExportResult, GeoTransform } from '@/types';
+import { canvasLockManager, isExportableObject } from '@/canvas';
+import { getObjectAttributes, getObjectOutline, isLegendGroup, isPointInPolygon, layerManager, DEFAULT_FLATTEN_TOLERANCE } from '@/utils';
+
+type Position = [number, number];
+
+type Geometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] };
+
+interface Feature {
+  type: 'Feature';
+  geometry: Geometry;
+  properties: Record<string, unknown>;
+}
+
+const TEXT_TYPES = new Set(['text', 'i-text', 'textbox']);
+
+export class GeoJSONExporter {
+  export(canvas: Canvas, projectName: string = 'Untitled', tolerance: number = DEFAULT_FLATTEN_TOLERANCE): ExportResult {
+    try {
+      const georeference = canvasLockManager.getGeoreference();
+      const toPosition = this.createProjection(georeference);
+      const baseProperties: Record<string, unknown> = georeference
+        ? { coordinateSpace: 'world' }
+        : {
+            coordinateSpace: 'pixels',
+            note: 'Coordinates are base image pixels (x right, y down); the project is not georeferenced'
+          };
+
+      const objects = canvas
+        .getObjects()
+        .filter((obj) => isExportableObject(obj) && layerManager.isObjectVisible(obj) && !isLegendGroup(obj));
+      const texts = objects.filter((obj) => TEXT_TYPES.has(obj.type)) as FabricText[];
+
+      const features: Feature[] = [];
+      for (const obj of objects) {
+        if (TEXT_TYPES.has(obj.type)) continue;
+
+        const outline = getObjectOutline(obj, tolerance);
+        if (!outline || outline.points.length < 2) continue;
+
+        const label = outline.closed ? this.findLabel(outline.points, outline.holes, texts) : null;
+        const geometry = outline.closed
+          ? this.toPolygon(outline.points, outline.holes, toPosition)
+          : { type: 'LineString' as const, coordinates: outline.points.map(toPosition) };
+
+        features.push({
+          type: 'Feature',
+          geometry,
+          properties: {
+            ...this.getStyleProperties(obj),
+            ...(label ? { label } : {}),
+            ...getObjectAttributes(obj),
+            ...baseProperties
+          }
+        });
+      }
+
+      for (const text of texts) {
+        const content = (text.text ?? '').trim();
+        if (!content) continue;
+        features.push({
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: toPosition(text.getCenterPoint()) },
+          properties: {
+            kind: 'label',
+            text: content,
+            color: typeof text.fill === 'string' ? text.fill : null,
+            fontSize: text.fontSize ?? null,
+            ...getObjectAttributes(text),
+            ...baseProperties
+          }
+        });
+      }
+
+      if (features.length === 0) {
+        return { success: false, filename: '', error: 'There are no lines or shapes to export' };
+      }
+
+      const collection = {
+        type: 'FeatureCollection',
+        name: projectName,
+        ...this.getCrsMember(georeference),
+        features
+      };
+
+      const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' });
+      return {
+        success: true,
+        data: blob,
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}.geojson`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'GeoJSON export failed'
+      };
+    }
+  }
+
+  /**
+   * Map canvas points to world coordinates when georeferenced, otherwise to
+   * pixels on the locked base image (or the raw canvas when unlocked).
+   */
+  private createProjection(georeference: GeoTransform | null): (pt: { x: number; y: number }) => Position {
+    const digits = georeference?.mode === 'geographic' ? 8 : 3;
+    const round = (value: number) => Number(value.toFixed(digits));
+
+    if (georeference) {
+      return (pt) => {
+        const world = canvasLockManager.canvasToWorld(pt) ?? pt;
+        return [round(world.x), round(world.y)];
+      };
+    }
+
+    const lock = canvasLockManager.getLockedState();
+    const offsetX = lock.locked ? lock.offsetX : 0;
+    const offsetY = lock.locked ? lock.offsetY : 0;
+    return (pt) => [round(pt.x - offsetX), round(pt.y - offsetY)];
+  }
+
+  /**
+   * Polygon with the exterior wound counter-clockwise and holes clockwise,
+   * as RFC 7946 asks.
+   */
+  private toPolygon(points: Point[], holes: Point[][], toPosition: (pt: Point) => Position): Geometry {
+    return {
+      type: 'Polygon',
+      coordinates: [
+        this.toRing(points, toPosition, true),
+        ...holes.map((hole) => this.toRing(hole, toPosition, false))
+      ]
+    };
+  }
+
+  private toRing(points: Point[], toPosition: (pt: Point) => Position, counterClockwise: boolean): Position[] {
+    const ring = points.map(toPosition);
+    let signedArea = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const [x1, y1] = ring[i];
+      const [x2, y2] = ring[(i + 1) % ring.length];
+      signedArea += x1 * y2 - x2 * y1;
+    }
+    if ((signedArea < 0) === counterClockwise) {
+      ring.reverse();
+    }
+    ring.push([...ring[0]] as Position);
+    return ring;
+  }
+
+  /**
+   * Text placed inside a closed shape, and not in one of its holes, labels
+   * it, e.g. a parcel number.
+   */
+  private findLabel(polygon: Point[], holes: Point[][], texts: FabricText[]): string | null {
+    const labels = texts
+      .filter((text) => {
+        const center = text.getCenterPoint();
+        return isPointInPolygon(center, polygon) && !holes.some((hole) => isPointInPolygon(center, hole));
+      })
+      .map((text) => (text.text ?? '').trim())
+      .filter((content) => content.length > 0);
+    return labels.length > 0 ? labels.join('; ') : null;
+  }
+
+  private getStyleProperties(obj: FabricObject): Record<string, unknown> {
+    const fill = typeof obj.fill === 'string' && obj.fill !== 'transparent' && obj.fill !== '' ? obj.fill : null;
+    return {
+      kind: 'boundary',
+      shape: obj.type,
+      stroke: typeof obj.stroke === 'string' ? obj.stroke : null,
+      strokeWidth: obj.strokeWidth ?? null,
+      dashed: Array.isArray(obj.strokeDashArray) && obj.strokeDashArray.length > 0,
+      fill
+    };
+  }
+
+  /**
+   * Named CRS member (GeoJSON 2008) for projected coordinates with an EPSG
+   * code, which QGIS and GDAL still honour. Geographic output is WGS84 lon/lat.
+   */
+  private getCrsMember(georeference: GeoTransform | null): Record<string, unknown> {
+    if (!georeference || georeference.mode !== 'projected' || !georeference.crs) return {};
+    const match = georeference.crs.trim().match(/^EPSG:(\d+)$/i);
+    if (!match) return {};
+    return { crs: { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${match[1]}` } } };
+  }
+}
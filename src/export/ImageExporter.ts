@@ -1,4 +1,5 @@
 import type { Canvas } from 'fabric';
+import { isExportableObject } from '@/canvas';
 import { ExportFormat, type ExportOptions, type ExportResult } from '@/types';
 
 export class ImageExporter {
@@ -11,7 +12,8 @@ export class ImageExporter {
       const dataUrl = canvas.toDataURL({
         format,
         quality,
-        multiplier
+        multiplier,
+        filter: isExportableObject
       });
 
       const blob = await this.dataUrlToBlob(dataUrl);
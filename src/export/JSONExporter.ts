@@ -1,23 +1,32 @@
 import type { Canvas } from 'fabric';
 import type { ExportResult, ProjectData } from '@/types';
 import { canvasLockManager } from '@/canvas';
-import { CANVAS_OBJECT_PROPS } from '@/utils';
+import { CANVAS_OBJECT_PROPS, PROJECT_VERSION, printLayoutManager, layerManager } from '@/utils';
+
+/**
+ * Everything a project file holds, shared by the JSON and bundle formats.
+ */
+export function createProjectData(canvas: Canvas, projectName: string): ProjectData {
+  return {
+    version: PROJECT_VERSION,
+    canvas: canvas.toObject([...CANVAS_OBJECT_PROPS]),
+    lockState: canvasLockManager.getLockedState(),
+    scale: canvasLockManager.getScale(),
+    georeference: canvasLockManager.getGeoreference(),
+    layout: printLayoutManager.getLayout(),
+    layers: layerManager.getState(),
+    metadata: {
+      createdAt: new Date().toISOString(),
+      modifiedAt: new Date().toISOString(),
+      name: projectName
+    }
+  };
+}
 
 export class JSONExporter {
   export(canvas: Canvas, projectName: string = 'Untitled'): ExportResult {
     try {
-      const canvasData = canvas.toObject([...CANVAS_OBJECT_PROPS]);
-
-      const projectData: ProjectData = {
-        version: '1.0.0',
-        canvas: canvasData,
-        lockState: canvasLockManager.getLockedState(),
-        metadata: {
-          createdAt: new Date().toISOString(),
-          modifiedAt: new Date().toISOString(),
-          name: projectName
-        }
-      };
+      const projectData = createProjectData(canvas, projectName);
 
       const jsonString = JSON.stringify(projectData, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
@@ -0,0 +1,460 @@
+import type { Canvas, FabricObject, Group } from 'fabric';
+import { jsPDF } from 'jspdf';
+import { canvasLockManager, isExportableObject } from '@/canvas';
+import type { LegendConfig } from '@/components/controls/LegendModal';
+import type { ExportResult, LayoutElement, MapScale, PrintLayout } from '@/types';
+import {
+  createLegendGroup,
+  detectCanvasColors,
+  formatScaleRatio,
+  getLegendConfig,
+  getMetresPerPixel,
+  getMmPerPixelAtScale,
+  getPaperDimensions,
+  getScaleDenominator,
+  isLegendGroup,
+  layerManager,
+  MM_PER_INCH,
+  PAPER_SIZES
+} from '@/utils';
+import { getExportRegion, type ExportRegion } from './exportRegion';
+import { CanvasSheetPainter, PDFSheetPainter, type SheetPainter, type SheetTextStyle } from './layoutPainters';
+import { PDFVectorRenderer, type PageRect } from './PDFVectorRenderer';
+
+// Browsers refuse to allocate canvases much beyond this many pixels
+const MAX_SHEET_PIXELS = 120_000_000;
+const BOX_LINE_MM = 0.35;
+const BOX_PADDING_MM = 3;
+const TEXT_COLOR = '#000000';
+const MUTED_TEXT_COLOR = '#555555';
+
+interface LayoutContext {
+  canvas: Canvas;
+  objects: FabricObject[];
+  /** Null when there is nothing on the canvas to put in the map frame */
+  region: ExportRegion | null;
+  scale: MapScale | null;
+  metresPerPixel: number | null;
+  /** Millimetres per canvas pixel inside the map frame */
+  mmPerPixel: number | null;
+  /** Clockwise angle of grid north from the top of the sheet, in degrees */
+  northAngle: number;
+  legend: Group | null;
+}
+
+/**
+ * Renders print layouts: the map frame plus the title block, legend, north
+ * arrow, scale bar and notes boxes, to PDF, PNG or a preview canvas.
+ */
+export class LayoutExporter {
+  async exportPDF(canvas: Canvas, layout: PrintLayout, projectName: string = 'Untitled'): Promise<ExportResult> {
+    try {
+      const paper = getPaperDimensions(layout.paperSize, layout.orientation);
+      const pdf = new jsPDF({
+        orientation: layout.orientation,
+        unit: 'mm',
+        format: [paper.width, paper.height]
+      });
+      pdf.setProperties({ title: layout.title || projectName });
+
+      this.drawLayout(new PDFSheetPainter(pdf, layout.dpi), layout, this.createContext(canvas, layout));
+
+      return {
+        success: true,
+        data: pdf.output('blob'),
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}.pdf`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'Layout export failed'
+      };
+    }
+  }
+
+  async exportPNG(canvas: Canvas, layout: PrintLayout, projectName: string = 'Untitled'): Promise<ExportResult> {
+    try {
+      const sheet = this.renderSheet(canvas, layout, Math.min(layout.dpi, LayoutExporter.getMaxRasterDpi(layout)));
+      const blob = await new Promise<Blob | null>((resolve) => sheet.toBlob(resolve, 'image/png'));
+      if (!blob) {
+        return { success: false, filename: '', error: 'The sheet is too large to render as PNG' };
+      }
+
+      return {
+        success: true,
+        data: blob,
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}.png`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'Layout export failed'
+      };
+    }
+  }
+
+  /**
+   * Render the sheet to a canvas element, used for PNG export and previews.
+   */
+  renderSheet(canvas: Canvas, layout: PrintLayout, dpi: number): HTMLCanvasElement {
+    const paper = getPaperDimensions(layout.paperSize, layout.orientation);
+    const pxPerMm = dpi / MM_PER_INCH;
+    const element = document.createElement('canvas');
+    element.width = Math.max(1, Math.round(paper.width * pxPerMm));
+    element.height = Math.max(1, Math.round(paper.height * pxPerMm));
+
+    const ctx = element.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, element.width, element.height);
+
+    this.drawLayout(new CanvasSheetPainter(ctx, pxPerMm), layout, this.createContext(canvas, layout));
+    return element;
+  }
+
+  /**
+   * Highest DPI at which the whole sheet still fits in a browser canvas.
+   */
+  static getMaxRasterDpi(layout: PrintLayout): number {
+    const paper = getPaperDimensions(layout.paperSize, layout.orientation);
+    const squareInches = (paper.width / MM_PER_INCH) * (paper.height / MM_PER_INCH);
+    return Math.floor(Math.sqrt(MAX_SHEET_PIXELS / squareInches));
+  }
+
+  private createContext(canvas: Canvas, layout: PrintLayout): LayoutContext {
+    const objects = canvas
+      .getObjects()
+      .filter((obj) => isExportableObject(obj) && layerManager.isObjectVisible(obj) && !isLegendGroup(obj));
+    const region = objects.length > 0 || canvasLockManager.isLocked() ? getExportRegion(objects) : null;
+    const scale = canvasLockManager.getScale();
+    const metresPerPixel = getMetresPerPixel(scale);
+
+    let mmPerPixel: number | null = null;
+    const frame = layout.elements.find((el) => el.kind === 'map');
+    if (region && frame) {
+      mmPerPixel =
+        metresPerPixel && layout.scaleDenominator
+          ? getMmPerPixelAtScale(metresPerPixel, layout.scaleDenominator)
+          : Math.min(frame.width / region.width, frame.height / region.height);
+    }
+
+    return {
+      canvas,
+      objects,
+      region,
+      scale,
+      metresPerPixel,
+      mmPerPixel,
+      northAngle: region ? this.getNorthAngle(region) : 0,
+      legend: this.createLegend(canvas, layout)
+    };
+  }
+
+  /**
+   * Grid north from the georeference, or straight up when there is none.
+   */
+  private getNorthAngle(region: ExportRegion): number {
+    const centre = { x: region.left + region.width / 2, y: region.top + region.height / 2 };
+    const world = canvasLockManager.canvasToWorld(centre);
+    const above = canvasLockManager.canvasToWorld({ x: centre.x, y: centre.y - 100 });
+    if (!world || !above) return 0;
+
+    const step = Math.hypot(above.x - world.x, above.y - world.y);
+    const north = canvasLockManager.worldToCanvas({ x: world.x, y: world.y + step });
+    if (!north || step === 0) return 0;
+
+    return (Math.atan2(north.x - centre.x, centre.y - north.y) * 180) / Math.PI;
+  }
+
+  private createLegend(canvas: Canvas, layout: PrintLayout): Group | null {
+    const canvasLegend = canvas.getObjects().find(isLegendGroup);
+    let config: LegendConfig | null = layout.legend ?? (canvasLegend ? getLegendConfig(canvasLegend) : null);
+
+    if (!config) {
+      const colors = detectCanvasColors(canvas);
+      if (colors.length === 0) return null;
+      config = {
+        items: colors.map((c, i) => ({ id: `layout-legend-${i}`, color: c.color, label: c.label })),
+        fontSize: 14,
+        fontFamily: 'Helvetica',
+        borderWidth: 0,
+        borderColor: TEXT_COLOR,
+        backgroundOpacity: 0,
+        title: 'Legend',
+        showTitle: true
+      };
+    }
+    if (config.items.length === 0) return null;
+
+    // The legend sits in its own box on white paper, so drop the on-screen
+    // frame and print the labels in black
+    return createLegendGroup({ ...config, borderWidth: 0, borderColor: TEXT_COLOR, backgroundOpacity: 0 });
+  }
+
+  private drawLayout(painter: SheetPainter, layout: PrintLayout, context: LayoutContext): void {
+    const ordered = [...layout.elements].sort((a, b) => Number(b.kind === 'map') - Number(a.kind === 'map'));
+
+    ordered.forEach((el) => {
+      if (!el.visible || el.width <= 0 || el.height <= 0) return;
+      switch (el.kind) {
+        case 'map':
+          this.drawMapFrame(painter, el, context);
+          break;
+        case 'title':
+          this.drawTitleBlock(painter, el, layout, context);
+          break;
+        case 'legend':
+          this.drawLegend(painter, el, context);
+          break;
+        case 'northArrow':
+          this.drawNorthArrow(painter, el, context);
+          break;
+        case 'scaleBar':
+          this.drawScaleBar(painter, el, context);
+          break;
+        case 'notes':
+          this.drawNotes(painter, el, layout);
+          break;
+      }
+    });
+  }
+
+  private drawMapFrame(painter: SheetPainter, el: LayoutElement, context: LayoutContext): void {
+    const { region, mmPerPixel } = context;
+    if (region && mmPerPixel) {
+      const mapping = PDFVectorRenderer.createMapping(region, el, mmPerPixel);
+      // Only the part of the frame the map covers, so the paper stays white
+      // around a map that is smaller than its frame
+      const left = Math.max(el.x, region.left * mmPerPixel + mapping.offsetX);
+      const top = Math.max(el.y, region.top * mmPerPixel + mapping.offsetY);
+      const right = Math.min(el.x + el.width, (region.left + region.width) * mmPerPixel + mapping.offsetX);
+      const bottom = Math.min(el.y + el.height, (region.top + region.height) * mmPerPixel + mapping.offsetY);
+      if (right > left && bottom > top) {
+        const clip: PageRect = { x: left, y: top, width: right - left, height: bottom - top };
+        painter.drawMap(context.canvas, context.objects, mapping, clip);
+      }
+    } else {
+      this.drawPlaceholder(painter, el, 'Nothing on the map yet');
+    }
+    painter.rect(el, { stroke: TEXT_COLOR, lineWidth: BOX_LINE_MM });
+  }
+
+  private drawTitleBlock(painter: SheetPainter, el: LayoutElement, layout: PrintLayout, context: LayoutContext): void {
+    painter.rect(el, { stroke: TEXT_COLOR, lineWidth: BOX_LINE_MM });
+
+    const x = el.x + BOX_PADDING_MM;
+    const width = el.width - BOX_PADDING_MM * 2;
+    const titleSize = Math.min(7, el.height * 0.16);
+    const bodySize = Math.min(3.2, titleSize * 0.55);
+    let y = el.y + BOX_PADDING_MM;
+
+    if (layout.title) {
+      const style = this.fitText(painter, layout.title, width, { size: titleSize, bold: true, baseline: 'top' });
+      painter.text(layout.title, x, y, style);
+      y += style.size * 1.3;
+    }
+    if (layout.subtitle) {
+      const style = this.fitText(painter, layout.subtitle, width, { size: bodySize * 1.2, baseline: 'top' });
+      painter.text(layout.subtitle, x, y, style);
+      y += style.size * 1.5;
+    }
+
+    const paperLabel = PAPER_SIZES.find((p) => p.value === layout.paperSize)?.label ?? layout.paperSize;
+    const denominator = this.getEffectiveDenominator(context);
+    const rows: Array<[string, string]> = [
+      ['Drawn by', layout.drawnBy],
+      ['Date', layout.date],
+      ['Scale', denominator ? `${formatScaleRatio(denominator)} at ${paperLabel}` : 'Not to scale']
+    ];
+
+    // Rows are laid out from the bottom edge up so they stay aligned however
+    // long the title is
+    const rowHeight = bodySize * 1.7;
+    let rowY = el.y + el.height - BOX_PADDING_MM - rowHeight * rows.length;
+    if (rowY < y) rowY = y;
+    const labelWidth = Math.max(...rows.map(([label]) => painter.measureText(label, { size: bodySize }))) + 3;
+
+    rows.forEach(([label, value]) => {
+      if (rowY + bodySize > el.y + el.height) return;
+      painter.text(label, x, rowY, { size: bodySize, color: MUTED_TEXT_COLOR, baseline: 'top' });
+      if (value) {
+        const style = this.fitText(painter, value, width - labelWidth, { size: bodySize, baseline: 'top' });
+        painter.text(value, x + labelWidth, rowY, style);
+      }
+      rowY += rowHeight;
+    });
+  }
+
+  private drawLegend(painter: SheetPainter, el: LayoutElement, context: LayoutContext): void {
+    if (!context.legend) {
+      this.drawPlaceholder(painter, el, 'No legend items');
+      return;
+    }
+
+    const bounds = context.legend.getBoundingRect();
+    const inner: PageRect = {
+      x: el.x + BOX_PADDING_MM,
+      y: el.y + BOX_PADDING_MM,
+      width: el.width - BOX_PADDING_MM * 2,
+      height: el.height - BOX_PADDING_MM * 2
+    };
+    // Legend font sizes are in screen pixels; print them at roughly 0.26 mm
+    // per pixel (96 dpi) unless the box is too small for that
+    const scale = Math.min(MM_PER_INCH / 96, inner.width / bounds.width, inner.height / bounds.height);
+    if (!(scale > 0)) return;
+
+    painter.drawGroup(
+      context.legend,
+      {
+        scale,
+        offsetX: inner.x - bounds.left * scale,
+        offsetY: inner.y - bounds.top * scale
+      },
+      el
+    );
+  }
+
+  private drawNorthArrow(painter: SheetPainter, el: LayoutElement, context: LayoutContext): void {
+    const labelSize = Math.min(5, el.height * 0.22);
+    const arrowHeight = el.height - labelSize * 1.4;
+    const cx = el.x + el.width / 2;
+    const cy = el.y + labelSize * 1.4 + arrowHeight / 2;
+    const radius = Math.max(1, Math.min(el.width, arrowHeight) * 0.45);
+    const angle = (context.northAngle * Math.PI) / 180;
+    const rotate = (dx: number, dy: number) => ({
+      x: cx + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: cy + dx * Math.sin(angle) + dy * Math.cos(angle)
+    });
+
+    const tip = rotate(0, -radius);
+    const notch = rotate(0, radius * 0.45);
+    const leftWing = rotate(-radius * 0.5, radius);
+    const rightWing = rotate(radius * 0.5, radius);
+
+    painter.polygon([tip, notch, leftWing], { fill: TEXT_COLOR, stroke: TEXT_COLOR, lineWidth: 0.2 });
+    painter.polygon([tip, rightWing, notch], { fill: '#ffffff', stroke: TEXT_COLOR, lineWidth: 0.2 });
+
+    const label = rotate(0, -radius - labelSize * 0.25);
+    painter.text('N', label.x, label.y, { size: labelSize, bold: true, align: 'center', baseline: 'bottom' });
+  }
+
+  private drawScaleBar(painter: SheetPainter, el: LayoutElement, context: LayoutContext): void {
+    const { scale, mmPerPixel } = context;
+    const textSize = Math.min(3, el.height * 0.22);
+    if (!scale || !mmPerPixel) {
+      this.drawPlaceholder(painter, el, 'Calibrate the map scale to show a scale bar');
+      return;
+    }
+
+    const mmPerUnit = scale.pixelsPerUnit * mmPerPixel;
+    const maxLength = el.width - BOX_PADDING_MM * 2 - painter.measureText(`0000 ${scale.unit}`, { size: textSize }) / 2;
+    const units = this.getNiceLength(maxLength / mmPerUnit);
+    if (!(units > 0)) return;
+
+    const segments = 4;
+    const barWidth = units * mmPerUnit;
+    const barHeight = Math.min(2.5, el.height * 0.18);
+    const x = el.x + BOX_PADDING_MM;
+    const y = el.y + el.height / 2 - barHeight / 2;
+
+    for (let i = 0; i < segments; i++) {
+      painter.rect(
+        { x: x + (barWidth / segments) * i, y, width: barWidth / segments, height: barHeight },
+        { fill: i % 2 === 0 ? TEXT_COLOR : '#ffffff', stroke: TEXT_COLOR, lineWidth: 0.2 }
+      );
+    }
+
+    const labelY = y - textSize * 0.4;
+    const format = (value: number) => Number(value.toPrecision(6)).toString();
+    painter.text('0', x, labelY, { size: textSize, align: 'center', baseline: 'bottom' });
+    painter.text(format(units / 2), x + barWidth / 2, labelY, { size: textSize, align: 'center', baseline: 'bottom' });
+    painter.text(`${format(units)} ${scale.unit}`, x + barWidth, labelY, {
+      size: textSize,
+      align: 'center',
+      baseline: 'bottom'
+    });
+
+    const denominator = this.getEffectiveDenominator(context);
+    if (denominator) {
+      painter.text(formatScaleRatio(denominator), x, y + barHeight + textSize * 0.5, {
+        size: textSize,
+        color: MUTED_TEXT_COLOR,
+        baseline: 'top'
+      });
+    }
+  }
+
+  private drawNotes(painter: SheetPainter, el: LayoutElement, layout: PrintLayout): void {
+    painter.rect(el, { stroke: TEXT_COLOR, lineWidth: BOX_LINE_MM });
+
+    const x = el.x + BOX_PADDING_MM;
+    const width = el.width - BOX_PADDING_MM * 2;
+    const headingSize = Math.min(3.5, el.height * 0.2);
+    const bodySize = headingSize * 0.85;
+    const bottom = el.y + el.height - BOX_PADDING_MM;
+    let y = el.y + BOX_PADDING_MM;
+
+    painter.text('Notes', x, y, { size: headingSize, bold: true, baseline: 'top' });
+    y += headingSize * 1.6;
+
+    const style: SheetTextStyle = { size: bodySize, baseline: 'top' };
+    for (const line of this.wrapText(painter, layout.notes, width, style)) {
+      if (y + bodySize > bottom) break;
+      painter.text(line, x, y, style);
+      y += bodySize * 1.35;
+    }
+  }
+
+  private drawPlaceholder(painter: SheetPainter, el: LayoutElement, message: string): void {
+    const style = this.fitText(painter, message, el.width - BOX_PADDING_MM * 2, {
+      size: Math.min(3, el.height * 0.3),
+      color: MUTED_TEXT_COLOR,
+      align: 'center',
+      baseline: 'middle'
+    });
+    painter.text(message, el.x + el.width / 2, el.y + el.height / 2, style);
+  }
+
+  private getEffectiveDenominator(context: LayoutContext): number | null {
+    const { metresPerPixel, mmPerPixel } = context;
+    if (!metresPerPixel || !mmPerPixel) return null;
+    return getScaleDenominator(metresPerPixel, mmPerPixel);
+  }
+
+  /**
+   * Largest 1, 2 or 5 × 10ⁿ length that doesn't exceed `max`.
+   */
+  private getNiceLength(max: number): number {
+    if (!(max > 0) || !Number.isFinite(max)) return 0;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(max)));
+    const leading = max / magnitude;
+    const nice = leading >= 5 ? 5 : leading >= 2 ? 2 : 1;
+    return nice * magnitude;
+  }
+
+  private fitText(painter: SheetPainter, text: string, width: number, style: SheetTextStyle): SheetTextStyle {
+    const measured = painter.measureText(text, style);
+    if (measured <= width || measured === 0) return style;
+    return { ...style, size: Math.max(1, (style.size * width) / measured) };
+  }
+
+  private wrapText(painter: SheetPainter, text: string, width: number, style: SheetTextStyle): string[] {
+    const lines: string[] = [];
+    text.split(/\r?\n/).forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && painter.measureText(candidate, style) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+}
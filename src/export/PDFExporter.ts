@@ -1,36 +1,78 @@
 import type { Canvas } from 'fabric';
+import { canvasLockManager, isExportableObject } from '@/canvas';
 import { jsPDF } from 'jspdf';
 import type { ExportOptions, ExportResult } from '@/types';
+import {
+  formatScaleRatio,
+  getMetresPerPixel,
+  getMmPerPixelAtScale,
+  getPaperDimensions,
+  getPrintArea,
+  layerManager,
+  PAPER_SIZES
+} from '@/utils';
+import { getExportRegion } from './exportRegion';
+import { PDFVectorRenderer, type PageRect } from './PDFVectorRenderer';
+
+export const DEFAULT_PDF_MARGIN_MM = 10;
 
 export class PDFExporter {
-  async export(canvas: Canvas, options: ExportOptions): Promise<ExportResult> {
+  async export(canvas: Canvas, options: ExportOptions, projectName: string = 'Untitled'): Promise<ExportResult> {
     try {
-      const multiplier = options.scale ?? 2;
+      const objects = canvas.getObjects().filter((obj) => isExportableObject(obj) && layerManager.isObjectVisible(obj));
+      if (objects.length === 0) {
+        return { success: false, filename: '', error: 'There is nothing to export' };
+      }
 
-      const dataUrl = canvas.toDataURL({
-        format: 'png',
-        multiplier
-      });
+      const region = getExportRegion(objects);
+      const paperSize = options.paperSize ?? 'a4';
+      const orientation = options.orientation ?? (region.width > region.height ? 'landscape' : 'portrait');
+      const paper = getPaperDimensions(paperSize, orientation);
+      const area = getPrintArea(paper, options.marginMm ?? DEFAULT_PDF_MARGIN_MM);
 
-      const width = canvas.getWidth();
-      const height = canvas.getHeight();
+      const metresPerPixel = getMetresPerPixel(canvasLockManager.getScale());
+      const denominator = metresPerPixel && options.scaleDenominator ? options.scaleDenominator : null;
+      const mmPerPixel = denominator
+        ? getMmPerPixelAtScale(metresPerPixel!, denominator)
+        : Math.min(area.width / region.width, area.height / region.height);
 
-      const orientation = width > height ? 'landscape' : 'portrait';
+      // The map frame is centred on the sheet and cropped to the margins when
+      // the chosen scale makes the map larger than the paper
+      const frameWidth = Math.min(region.width * mmPerPixel, area.width);
+      const frameHeight = Math.min(region.height * mmPerPixel, area.height);
+      const frame: PageRect = {
+        x: area.x + (area.width - frameWidth) / 2,
+        y: area.y + (area.height - frameHeight) / 2,
+        width: frameWidth,
+        height: frameHeight
+      };
 
       const pdf = new jsPDF({
         orientation,
-        unit: 'px',
-        format: [width, height]
+        unit: 'mm',
+        format: [paper.width, paper.height]
       });
+      pdf.setProperties({ title: projectName });
+
+      const renderer = new PDFVectorRenderer(pdf, PDFVectorRenderer.createMapping(region, frame, mmPerPixel));
+      renderer.drawObjects(objects, frame);
 
-      pdf.addImage(dataUrl, 'PNG', 0, 0, width, height);
+      if (denominator && area.y >= 5) {
+        const paperLabel = PAPER_SIZES.find((p) => p.value === paperSize)?.label ?? paperSize;
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(7);
+        pdf.setTextColor(80, 80, 80);
+        pdf.text(`Scale ${formatScaleRatio(denominator)} at ${paperLabel}`, area.x, paper.height - area.y / 2, {
+          baseline: 'middle'
+        });
+      }
 
       const blob = pdf.output('blob');
 
       return {
         success: true,
         data: blob,
-        filename: 'els-maps-export.pdf'
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}.pdf`
       };
     } catch (error) {
       return {
@@ -0,0 +1,383 @@
+import { Circle, Color, Ellipse, FabricImage, FabricText, Group, Line, Path, Point, Polyline, Rect, util } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { GState, type jsPDF } from 'jspdf';
+import { getRectCorners, layerManager, MM_PER_INCH } from '@/utils';
+import type { ExportRegion } from './exportRegion';
+
+/**
+ * Maps canvas coordinates onto the page: page = canvas · scale + offset, in
+ * millimetres with y pointing down as jsPDF expects.
+ */
+export interface PageMapping {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type PathOp =
+  | { op: 'M' | 'L'; to: Point }
+  | { op: 'C'; cp1: Point; cp2: Point; to: Point }
+  | { op: 'Z' };
+
+interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Cubic handle length for a quarter ellipse
+const KAPPA = 0.5522847498;
+// Share of a line's height fabric places below the baseline
+const FONT_SIZE_FRACTION = 0.222;
+const PT_PER_MM = 72 / MM_PER_INCH;
+const MAX_RASTER_PIXELS = 40_000_000;
+
+/**
+ * Draws fabric objects into a jsPDF page as vector paths and text. Images,
+ * and anything without a vector equivalent, are embedded as rasters.
+ */
+export class PDFVectorRenderer {
+  constructor(
+    private pdf: jsPDF,
+    private mapping: PageMapping,
+    private rasterDpi: number = 200
+  ) {}
+
+  /**
+   * Draw objects clipped to `frame` on the page.
+   */
+  drawObjects(objects: FabricObject[], frame: PageRect): void {
+    this.pdf.saveGraphicsState();
+    this.pdf.rect(frame.x, frame.y, frame.width, frame.height, null);
+    this.pdf.clip();
+    this.pdf.discardPath();
+
+    for (const obj of objects) {
+      this.drawObject(obj);
+    }
+
+    this.pdf.restoreGraphicsState();
+  }
+
+  /**
+   * Mapping that centres `region` in `frame` at `scale` millimetres per canvas pixel.
+   */
+  static createMapping(region: ExportRegion, frame: PageRect, scale: number): PageMapping {
+    return {
+      scale,
+      offsetX: frame.x + frame.width / 2 - (region.left + region.width / 2) * scale,
+      offsetY: frame.y + frame.height / 2 - (region.top + region.height / 2) * scale
+    };
+  }
+
+  private drawObject(obj: FabricObject): void {
+    if (obj.visible === false) return;
+
+    if (obj instanceof Group) {
+      obj.getObjects().forEach((child) => this.drawObject(child));
+      return;
+    }
+    if (obj instanceof FabricText) {
+      this.drawText(obj);
+      return;
+    }
+    if (obj instanceof FabricImage) {
+      this.drawRaster(obj);
+      return;
+    }
+
+    const ops = this.getPathOps(obj);
+    if (ops) {
+      this.drawPath(obj, ops);
+    } else {
+      this.drawRaster(obj);
+    }
+  }
+
+  // --- Geometry ---
+
+  private getPathOps(obj: FabricObject): PathOp[] | null {
+    const matrix = obj.calcTransformMatrix();
+    const toCanvas = (x: number, y: number) => util.transformPoint(new Point(x, y), matrix);
+
+    if (obj instanceof Path) {
+      return this.getPathCommandOps(obj, toCanvas);
+    }
+    if (obj instanceof Polyline) {
+      const offset = obj.pathOffset;
+      const ops: PathOp[] = obj.points.map((pt, i) => ({
+        op: i === 0 ? 'M' : 'L',
+        to: toCanvas(pt.x - offset.x, pt.y - offset.y)
+      }));
+      // Polygon extends Polyline and is always closed
+      if (obj.type === 'polygon') ops.push({ op: 'Z' });
+      return ops;
+    }
+    if (obj instanceof Line) {
+      const { x1, y1, x2, y2 } = obj.calcLinePoints();
+      return [
+        { op: 'M', to: toCanvas(x1, y1) },
+        { op: 'L', to: toCanvas(x2, y2) }
+      ];
+    }
+    if (obj instanceof Rect) {
+      const corners = getRectCorners(obj);
+      return [
+        ...corners.map((to, i): PathOp => ({ op: i === 0 ? 'M' : 'L', to })),
+        { op: 'Z' }
+      ];
+    }
+    if (obj instanceof Ellipse || obj instanceof Circle) {
+      const rx = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).rx ?? 0;
+      const ry = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).ry ?? 0;
+      const kx = rx * KAPPA;
+      const ky = ry * KAPPA;
+      return [
+        { op: 'M', to: toCanvas(rx, 0) },
+        { op: 'C', cp1: toCanvas(rx, ky), cp2: toCanvas(kx, ry), to: toCanvas(0, ry) },
+        { op: 'C', cp1: toCanvas(-kx, ry), cp2: toCanvas(-rx, ky), to: toCanvas(-rx, 0) },
+        { op: 'C', cp1: toCanvas(-rx, -ky), cp2: toCanvas(-kx, -ry), to: toCanvas(0, -ry) },
+        { op: 'C', cp1: toCanvas(kx, -ry), cp2: toCanvas(rx, -ky), to: toCanvas(rx, 0) },
+        { op: 'Z' }
+      ];
+    }
+    return null;
+  }
+
+  /**
+   * Fabric keeps path data simplified to absolute M, L, C, Q and Z commands.
+   */
+  private getPathCommandOps(path: Path, toCanvas: (x: number, y: number) => Point): PathOp[] {
+    const offset = path.pathOffset;
+    const local = (x: number, y: number) => toCanvas(x - offset.x, y - offset.y);
+    const ops: PathOp[] = [];
+    let current: Point | null = null;
+    let subpathStart: Point | null = null;
+
+    for (const segment of path.path ?? []) {
+      const cmd = segment[0] as string;
+      const args = segment.slice(1) as number[];
+
+      if (cmd === 'M') {
+        current = local(args[0], args[1]);
+        subpathStart = current;
+        ops.push({ op: 'M', to: current });
+      } else if (cmd === 'L' && current) {
+        current = local(args[0], args[1]);
+        ops.push({ op: 'L', to: current });
+      } else if (cmd === 'C' && current) {
+        current = local(args[4], args[5]);
+        ops.push({ op: 'C', cp1: local(args[0], args[1]), cp2: local(args[2], args[3]), to: current });
+      } else if (cmd === 'Q' && current) {
+        // Degree elevation: the cubic handles sit 2/3 of the way to the quadratic control point
+        const control = local(args[0], args[1]);
+        const end = local(args[2], args[3]);
+        ops.push({
+          op: 'C',
+          cp1: current.add(control.subtract(current).scalarMultiply(2 / 3)),
+          cp2: end.add(control.subtract(end).scalarMultiply(2 / 3)),
+          to: end
+        });
+        current = end;
+      } else if ((cmd === 'Z' || cmd === 'z') && subpathStart) {
+        ops.push({ op: 'Z' });
+        current = subpathStart;
+      }
+    }
+    return ops;
+  }
+
+  // --- Painting ---
+
+  private drawPath(obj: FabricObject, ops: PathOp[]): void {
+    const stroke = this.parseColor(obj.stroke);
+    const fill = this.parseColor(obj.fill);
+    const strokeWidth = obj.strokeWidth ?? 0;
+    const hasStroke = !!stroke && strokeWidth > 0;
+    if ((!hasStroke && !fill) || ops.length < 2) return;
+
+    const pdf = this.pdf;
+    const matrix = obj.calcTransformMatrix();
+    // Non-uniform strokes scale with the object; use the geometric mean of its scale
+    const strokeScale = obj.strokeUniform ? 1 : Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+    const widthOnPage = strokeWidth * strokeScale * this.mapping.scale;
+    const opacity = this.getOpacity(obj);
+
+    pdf.saveGraphicsState();
+    pdf.setGState(new GState({
+      opacity: (fill?.a ?? 1) * opacity,
+      'stroke-opacity': (stroke?.a ?? 1) * opacity
+    }));
+
+    if (hasStroke && stroke) {
+      pdf.setDrawColor(stroke.r, stroke.g, stroke.b);
+      pdf.setLineWidth(widthOnPage);
+      const dash = (obj.strokeDashArray ?? []).map((d) => d * strokeScale * this.mapping.scale);
+      pdf.setLineDashPattern(dash, 0);
+      pdf.setLineCap(obj.strokeLineCap ?? 'butt');
+      pdf.setLineJoin(obj.strokeLineJoin ?? 'miter');
+    }
+    if (fill) {
+      pdf.setFillColor(fill.r, fill.g, fill.b);
+    }
+
+    for (const item of ops) {
+      if (item.op === 'Z') {
+        pdf.close();
+        continue;
+      }
+      const to = this.toPage(item.to);
+      if (item.op === 'M') {
+        pdf.moveTo(to.x, to.y);
+      } else if (item.op === 'L') {
+        pdf.lineTo(to.x, to.y);
+      } else if (item.op === 'C') {
+        const cp1 = this.toPage(item.cp1);
+        const cp2 = this.toPage(item.cp2);
+        pdf.curveTo(cp1.x, cp1.y, cp2.x, cp2.y, to.x, to.y);
+      }
+    }
+
+    if (fill && hasStroke) {
+      pdf.fillStroke();
+    } else if (fill) {
+      pdf.fill();
+    } else {
+      pdf.stroke();
+    }
+
+    pdf.restoreGraphicsState();
+  }
+
+  /**
+   * Text is set line by line in the closest standard PDF font. Per-character
+   * styles are not carried over; the object's own font, size and color apply.
+   */
+  private drawText(text: FabricText): void {
+    const fill = this.parseColor(text.fill);
+    if (!fill || !text.text) return;
+
+    const pdf = this.pdf;
+    const matrix = text.calcTransformMatrix();
+    const { angle, scaleX, scaleY } = util.qrDecompose(matrix);
+    const fontSizeMm = (text.fontSize ?? 16) * Math.abs(scaleY) * this.mapping.scale;
+    if (fontSizeMm <= 0) return;
+
+    pdf.saveGraphicsState();
+    pdf.setGState(new GState({ opacity: fill.a * this.getOpacity(text) }));
+    pdf.setTextColor(fill.r, fill.g, fill.b);
+    pdf.setFont(this.getFontName(text.fontFamily), this.getFontStyle(text));
+    pdf.setFontSize(fontSizeMm * PT_PER_MM);
+
+    const width = text.width ?? 0;
+    const horizontalScale = scaleY !== 0 ? Math.abs(scaleX / scaleY) : 1;
+    let lineTop = -(text.height ?? 0) / 2;
+
+    text.textLines.forEach((line, i) => {
+      const lineHeight = text.getHeightOfLine(i);
+      const lineWidth = text.getLineWidth(i);
+      const align = text.textAlign ?? 'left';
+      const leftOffset =
+        align === 'center' ? (width - lineWidth) / 2 : align === 'right' ? width - lineWidth : 0;
+      const baseline = lineTop + (lineHeight / (text.lineHeight ?? 1)) * (1 - FONT_SIZE_FRACTION);
+      lineTop += lineHeight;
+
+      if (!line.trim()) return;
+      const anchor = this.toPage(util.transformPoint(new Point(-width / 2 + leftOffset, baseline), matrix));
+      pdf.text(line, anchor.x, anchor.y, {
+        angle: -angle,
+        baseline: 'alphabetic',
+        ...(Math.abs(horizontalScale - 1) > 1e-3 ? { horizontalScale } : {})
+      });
+    });
+
+    pdf.restoreGraphicsState();
+  }
+
+  /**
+   * Embed an object as an image covering its bounding box, at the export DPI
+   * but no finer than the source image.
+   */
+  private drawRaster(obj: FabricObject): void {
+    const rect = obj.getBoundingRect();
+    if (rect.width <= 0 || rect.height <= 0) return;
+
+    const pxPerCanvasPx = (this.mapping.scale / MM_PER_INCH) * this.rasterDpi;
+    const nativeLimit = obj instanceof FabricImage ? 1 / Math.max(Math.abs(obj.scaleX ?? 1), 1e-6) : pxPerCanvasPx;
+    const areaLimit = Math.sqrt(MAX_RASTER_PIXELS / (rect.width * rect.height));
+    const multiplier = Math.max(0.1, Math.min(pxPerCanvasPx, nativeLimit, areaLimit));
+
+    const element = obj.toCanvasElement({ multiplier });
+    const topLeft = this.toPage(new Point(rect.left, rect.top));
+    this.pdf.saveGraphicsState();
+    // toCanvasElement already applies the object's own opacity
+    const opacity = this.getOpacity(obj) / (obj.opacity || 1);
+    if (opacity < 1) {
+      this.pdf.setGState(new GState({ opacity }));
+    }
+    this.pdf.addImage(
+      element,
+      'PNG',
+      topLeft.x,
+      topLeft.y,
+      rect.width * this.mapping.scale,
+      rect.height * this.mapping.scale,
+      undefined,
+      'FAST'
+    );
+    this.pdf.restoreGraphicsState();
+  }
+
+  // --- Helpers ---
+
+  private toPage(pt: Point): { x: number; y: number } {
+    return {
+      x: pt.x * this.mapping.scale + this.mapping.offsetX,
+      y: pt.y * this.mapping.scale + this.mapping.offsetY
+    };
+  }
+
+  /**
+   * Object opacity including every group it sits in and its layer.
+   */
+  private getOpacity(obj: FabricObject): number {
+    let opacity = obj.opacity ?? 1;
+    let root = obj;
+    for (let group = obj.group; group; group = group.group) {
+      opacity *= group.opacity ?? 1;
+      root = group;
+    }
+    return opacity * layerManager.getObjectOpacity(root);
+  }
+
+  private parseColor(value: unknown): RGBA | null {
+    if (typeof value !== 'string' || value === '' || value === 'none' || value === 'transparent') return null;
+    const [r, g, b, a] = new Color(value).getSource();
+    return a > 0 ? { r, g, b, a } : null;
+  }
+
+  private getFontName(fontFamily: string | undefined): string {
+    const family = (fontFamily ?? '').toLowerCase();
+    if (/mono|courier|consol/.test(family)) return 'courier';
+    if (/times|georgia|garamond|serif/.test(family) && !family.includes('sans')) return 'times';
+    return 'helvetica';
+  }
+
+  private getFontStyle(text: FabricText): string {
+    const weight = text.fontWeight;
+    const bold = weight === 'bold' || (typeof weight === 'number' && weight >= 600) || Number(weight) >= 600;
+    const italic = text.fontStyle === 'italic' || text.fontStyle === 'oblique';
+    if (bold && italic) return 'bolditalic';
+    if (bold) return 'bold';
+    if (italic) return 'italic';
+    return 'normal';
+  }
+}
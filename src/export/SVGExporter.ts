@@ -0,0 +1,160 @@
+import { Color } from 'fabric';
+import type { Canvas, FabricObject } from 'fabric';
+import type { ExportOptions, ExportResult, SVGGrouping } from '@/types';
+import { isExportableObject } from '@/canvas';
+import { layerManager } from '@/utils';
+import { getExportRegion, type ExportRegion } from './exportRegion';
+
+interface SVGGroup {
+  label: string;
+  markup: string[];
+  /** Layer opacity, when the group is a layer */
+  opacity: number;
+}
+
+const TEXT_TYPES = new Set(['text', 'i-text', 'textbox']);
+const BASE_MAP_LABEL = 'Base map';
+
+export class SVGExporter {
+  export(canvas: Canvas, options: ExportOptions, projectName: string = 'Untitled'): ExportResult {
+    try {
+      const includeBaseMap = options.includeBaseMap ?? true;
+      const objects = canvas
+        .getObjects()
+        .filter((obj) => isExportableObject(obj) && layerManager.isObjectVisible(obj))
+        .filter((obj) => includeBaseMap || !layerManager.isBaseMap(obj));
+
+      if (objects.length === 0) {
+        return { success: false, filename: '', error: 'There is nothing to export' };
+      }
+
+      const viewBox = getExportRegion(objects);
+      const groups = this.groupObjects(objects, options.svgGrouping ?? 'layer');
+      const svg = this.buildDocument(groups, viewBox, options.backgroundColor, projectName);
+
+      const blob = new Blob([svg], { type: 'image/svg+xml' });
+      return {
+        success: true,
+        data: blob,
+        filename: `${projectName.toLowerCase().replace(/\s+/g, '-')}.svg`
+      };
+    } catch (error) {
+      return {
+        success: false,
+        filename: '',
+        error: error instanceof Error ? error.message : 'SVG export failed'
+      };
+    }
+  }
+
+  /**
+   * Collect objects into named groups. Groups appear in the order their first
+   * object is stacked, with the base map always at the bottom, so grouping by
+   * color can lift an object above one drawn after it. Grouping by layer
+   * follows the layers panel, names and opacity included.
+   */
+  private groupObjects(objects: FabricObject[], grouping: SVGGrouping): SVGGroup[] {
+    const groups = new Map<string, SVGGroup>();
+    for (const obj of objects) {
+      const layerId = layerManager.getObjectLayerId(obj);
+      const layerOpacity = layerManager.getObjectOpacity(obj);
+      const key = grouping === 'layer' ? layerId : this.getGroupLabel(obj, grouping);
+      let group = groups.get(key);
+      if (!group) {
+        group = grouping === 'layer'
+          ? { label: layerManager.getLayer(layerId)?.name ?? 'Layer', markup: [], opacity: layerOpacity }
+          : { label: key, markup: [], opacity: 1 };
+        groups.set(key, group);
+      }
+
+      const markup = obj.toSVG();
+      group.markup.push(
+        grouping !== 'layer' && layerOpacity < 1 ? `<g opacity="${Number(layerOpacity.toFixed(3))}">${markup}</g>` : markup
+      );
+    }
+
+    const ordered = Array.from(groups.values());
+    if (grouping === 'layer') return ordered;
+
+    const baseMap = ordered.findIndex((group) => group.label === BASE_MAP_LABEL);
+    if (baseMap > 0) {
+      ordered.unshift(...ordered.splice(baseMap, 1));
+    }
+    return ordered;
+  }
+
+  private getGroupLabel(obj: FabricObject, grouping: Exclude<SVGGrouping, 'layer'>): string {
+    if (grouping === 'none') return 'Drawing';
+    if (layerManager.isBaseMap(obj)) return BASE_MAP_LABEL;
+
+    const color = this.getObjectColor(obj);
+    return color ? `Color ${color}` : 'No color';
+  }
+
+  /**
+   * Stroke color for outlines, falling back to fill for text and filled shapes.
+   */
+  private getObjectColor(obj: FabricObject): string | null {
+    const candidates = TEXT_TYPES.has(obj.type) ? [obj.fill, obj.stroke] : [obj.stroke, obj.fill];
+    for (const value of candidates) {
+      if (typeof value !== 'string' || value === '' || value === 'transparent') continue;
+      const color = new Color(value);
+      if (color.getAlpha() === 0) continue;
+      return `#${color.toHex().toLowerCase()}`;
+    }
+    return null;
+  }
+
+  private buildDocument(groups: SVGGroup[], viewBox: ExportRegion, background: string | undefined, title: string): string {
+    const format = (value: number) => Number(value.toFixed(3));
+    const { left, top, width, height } = viewBox;
+    const usedIds = new Set<string>();
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" version="1.1" ` +
+        `width="${format(width)}" height="${format(height)}" ` +
+        `viewBox="${format(left)} ${format(top)} ${format(width)} ${format(height)}">`,
+      `<title>${this.escape(title)}</title>`
+    ];
+
+    if (background) {
+      lines.push(
+        `<rect x="${format(left)}" y="${format(top)}" width="${format(width)}" height="${format(height)}" ` +
+          `fill="${this.escape(background)}" />`
+      );
+    }
+
+    for (const group of groups) {
+      const id = this.getUniqueId(group.label, usedIds);
+      const label = this.escape(group.label);
+      // Illustrator names layers from id/data-name, Inkscape from its own attributes
+      const opacity = group.opacity < 1 ? ` opacity="${Number(group.opacity.toFixed(3))}"` : '';
+      lines.push(`<g id="${id}" data-name="${label}" inkscape:groupmode="layer" inkscape:label="${label}"${opacity}>`);
+      lines.push(...group.markup);
+      lines.push('</g>');
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n');
+  }
+
+  private getUniqueId(label: string, used: Set<string>): string {
+    const base = label.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^([^A-Za-z_])/, '_$1') || 'group';
+    let id = base;
+    for (let i = 2; used.has(id); i++) {
+      id = `${base}_${i}`;
+    }
+    used.add(id);
+    return id;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,39 @@
+import type { FabricObject } from 'fabric';
+import { canvasLockManager } from '@/canvas';
+
+export interface ExportRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Padding around the drawing when there is no locked region to crop to
+const UNLOCKED_MARGIN = 20;
+
+/**
+ * Canvas area covered by vector exports: the locked region, or the bounds of
+ * the exported objects plus a small margin when the canvas isn't locked.
+ */
+export function getExportRegion(objects: FabricObject[]): ExportRegion {
+  const locked = canvasLockManager.getExportOptions();
+  if (locked) return locked;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const obj of objects) {
+    const rect = obj.getBoundingRect();
+    minX = Math.min(minX, rect.left);
+    minY = Math.min(minY, rect.top);
+    maxX = Math.max(maxX, rect.left + rect.width);
+    maxY = Math.max(maxY, rect.top + rect.height);
+  }
+  return {
+    left: minX - UNLOCKED_MARGIN,
+    top: minY - UNLOCKED_MARGIN,
+    width: maxX - minX + UNLOCKED_MARGIN * 2,
+    height: maxY - minY + UNLOCKED_MARGIN * 2
+  };
+}
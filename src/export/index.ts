@@ -1,4 +1,14 @@
 export { ExportManager } from './ExportManager';
 export { ImageExporter } from './ImageExporter';
-export { PDFExporter } from './PDFExporter';
-export { JSONExporter } from './JSONExporter';
+export { PDFExporter, DEFAULT_PDF_MARGIN_MM } from './PDFExporter';
+export { PDFVectorRenderer } from './PDFVectorRenderer';
+export type { PageMapping, PageRect } from './PDFVectorRenderer';
+export { getExportRegion } from './exportRegion';
+export type { ExportRegion } from './exportRegion';
+export { LayoutExporter } from './LayoutExporter';
+export { PDFSheetPainter, CanvasSheetPainter } from './layoutPainters';
+export type { SheetPainter, SheetShapeStyle, SheetTextStyle } from './layoutPainters';
+export { JSONExporter, createProjectData } from './JSONExporter';
+export { BundleExporter } from './BundleExporter';
+export { GeoJSONExporter } from './GeoJSONExporter';
+export { SVGExporter } from './SVGExporter';
@@ -0,0 +1,198 @@
+import { Color } from 'fabric';
+import type { Canvas, FabricObject, Group } from 'fabric';
+import type { jsPDF } from 'jspdf';
+import { MM_PER_INCH } from '@/utils';
+import { PDFVectorRenderer, type PageMapping, type PageRect } from './PDFVectorRenderer';
+
+export interface SheetShapeStyle {
+  stroke?: string;
+  fill?: string;
+  /** Line width in millimetres */
+  lineWidth?: number;
+}
+
+export interface SheetTextStyle {
+  /** Font size in millimetres */
+  size: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+  baseline?: 'top' | 'middle' | 'alphabetic' | 'bottom';
+}
+
+/**
+ * Drawing surface for a print layout sheet, in millimetres from the top-left
+ * corner. Implemented for PDF output and for raster previews and PNG export.
+ */
+export interface SheetPainter {
+  rect(rect: PageRect, style: SheetShapeStyle): void;
+  polygon(points: Array<{ x: number; y: number }>, style: SheetShapeStyle): void;
+  text(text: string, x: number, y: number, style: SheetTextStyle): void;
+  measureText(text: string, style: SheetTextStyle): number;
+  /** Draw canvas objects through `mapping`, clipped to `clip` */
+  drawMap(canvas: Canvas, objects: FabricObject[], mapping: PageMapping, clip: PageRect): void;
+  /** Draw a group that isn't on the canvas, e.g. a legend, through `mapping` */
+  drawGroup(group: Group, mapping: PageMapping, clip: PageRect): void;
+}
+
+const PT_PER_MM = 72 / MM_PER_INCH;
+const SHEET_FONT = 'Helvetica, Arial, sans-serif';
+
+function toRGB(value: string): [number, number, number] {
+  const [r, g, b] = new Color(value).getSource();
+  return [r, g, b];
+}
+
+export class PDFSheetPainter implements SheetPainter {
+  constructor(private pdf: jsPDF, private rasterDpi: number) {}
+
+  rect(rect: PageRect, style: SheetShapeStyle): void {
+    const mode = this.applyShapeStyle(style);
+    if (mode) this.pdf.rect(rect.x, rect.y, rect.width, rect.height, mode);
+  }
+
+  polygon(points: Array<{ x: number; y: number }>, style: SheetShapeStyle): void {
+    const mode = this.applyShapeStyle(style);
+    if (!mode || points.length < 3) return;
+    this.pdf.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach((pt) => this.pdf.lineTo(pt.x, pt.y));
+    this.pdf.close();
+    if (mode === 'FD') this.pdf.fillStroke();
+    else if (mode === 'F') this.pdf.fill();
+    else this.pdf.stroke();
+  }
+
+  text(text: string, x: number, y: number, style: SheetTextStyle): void {
+    this.applyTextStyle(style);
+    this.pdf.setTextColor(...toRGB(style.color ?? '#000000'));
+    this.pdf.text(text, x, y, { align: style.align ?? 'left', baseline: style.baseline ?? 'alphabetic' });
+  }
+
+  measureText(text: string, style: SheetTextStyle): number {
+    this.applyTextStyle(style);
+    return this.pdf.getTextWidth(text);
+  }
+
+  drawMap(_canvas: Canvas, objects: FabricObject[], mapping: PageMapping, clip: PageRect): void {
+    new PDFVectorRenderer(this.pdf, mapping, this.rasterDpi).drawObjects(objects, clip);
+  }
+
+  drawGroup(group: Group, mapping: PageMapping, clip: PageRect): void {
+    new PDFVectorRenderer(this.pdf, mapping, this.rasterDpi).drawObjects([group], clip);
+  }
+
+  private applyTextStyle(style: SheetTextStyle): void {
+    this.pdf.setFont('helvetica', style.bold ? 'bold' : 'normal');
+    this.pdf.setFontSize(style.size * PT_PER_MM);
+  }
+
+  private applyShapeStyle(style: SheetShapeStyle): 'S' | 'F' | 'FD' | null {
+    this.pdf.setLineDashPattern([], 0);
+    if (style.stroke) {
+      this.pdf.setDrawColor(...toRGB(style.stroke));
+      this.pdf.setLineWidth(style.lineWidth ?? 0.3);
+    }
+    if (style.fill) {
+      this.pdf.setFillColor(...toRGB(style.fill));
+    }
+    if (style.stroke && style.fill) return 'FD';
+    if (style.fill) return 'F';
+    if (style.stroke) return 'S';
+    return null;
+  }
+}
+
+export class CanvasSheetPainter implements SheetPainter {
+  constructor(private ctx: CanvasRenderingContext2D, private pxPerMm: number) {}
+
+  rect(rect: PageRect, style: SheetShapeStyle): void {
+    const k = this.pxPerMm;
+    if (style.fill) {
+      this.ctx.fillStyle = style.fill;
+      this.ctx.fillRect(rect.x * k, rect.y * k, rect.width * k, rect.height * k);
+    }
+    if (style.stroke) {
+      this.applyStroke(style);
+      this.ctx.strokeRect(rect.x * k, rect.y * k, rect.width * k, rect.height * k);
+    }
+  }
+
+  polygon(points: Array<{ x: number; y: number }>, style: SheetShapeStyle): void {
+    if (points.length < 3) return;
+    const k = this.pxPerMm;
+    this.ctx.beginPath();
+    this.ctx.moveTo(points[0].x * k, points[0].y * k);
+    points.slice(1).forEach((pt) => this.ctx.lineTo(pt.x * k, pt.y * k));
+    this.ctx.closePath();
+    if (style.fill) {
+      this.ctx.fillStyle = style.fill;
+      this.ctx.fill();
+    }
+    if (style.stroke) {
+      this.applyStroke(style);
+      this.ctx.stroke();
+    }
+  }
+
+  text(text: string, x: number, y: number, style: SheetTextStyle): void {
+    this.applyTextStyle(style);
+    this.ctx.fillStyle = style.color ?? '#000000';
+    this.ctx.textAlign = style.align ?? 'left';
+    this.ctx.textBaseline = style.baseline ?? 'alphabetic';
+    this.ctx.fillText(text, x * this.pxPerMm, y * this.pxPerMm);
+  }
+
+  measureText(text: string, style: SheetTextStyle): number {
+    this.applyTextStyle(style);
+    return this.ctx.measureText(text).width / this.pxPerMm;
+  }
+
+  /**
+   * Renders the clipped part of the canvas through fabric so the preview and
+   * PNG match what is on screen, at the sheet's resolution.
+   */
+  drawMap(canvas: Canvas, objects: FabricObject[], mapping: PageMapping, clip: PageRect): void {
+    const included = new Set(objects);
+    // toCanvasElement crops in screen space, so undo the current pan and zoom
+    // rather than resetting the viewport and re-rendering the live canvas
+    const vpt = canvas.viewportTransform;
+    const zoom = canvas.getZoom();
+    const element = canvas.toCanvasElement((mapping.scale * this.pxPerMm) / zoom, {
+      left: ((clip.x - mapping.offsetX) / mapping.scale) * zoom + vpt[4],
+      top: ((clip.y - mapping.offsetY) / mapping.scale) * zoom + vpt[5],
+      width: (clip.width / mapping.scale) * zoom,
+      height: (clip.height / mapping.scale) * zoom,
+      filter: (obj) => included.has(obj as FabricObject)
+    });
+    const k = this.pxPerMm;
+    this.ctx.drawImage(element, clip.x * k, clip.y * k, clip.width * k, clip.height * k);
+  }
+
+  drawGroup(group: Group, mapping: PageMapping, clip: PageRect): void {
+    const rect = group.getBoundingRect();
+    const element = group.toCanvasElement({ multiplier: mapping.scale * this.pxPerMm });
+    const k = this.pxPerMm;
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(clip.x * k, clip.y * k, clip.width * k, clip.height * k);
+    this.ctx.clip();
+    this.ctx.drawImage(
+      element,
+      (rect.left * mapping.scale + mapping.offsetX) * k,
+      (rect.top * mapping.scale + mapping.offsetY) * k,
+      rect.width * mapping.scale * k,
+      rect.height * mapping.scale * k
+    );
+    this.ctx.restore();
+  }
+
+  private applyTextStyle(style: SheetTextStyle): void {
+    this.ctx.font = `${style.bold ? 'bold ' : ''}${style.size * this.pxPerMm}px ${SHEET_FONT}`;
+  }
+
+  private applyStroke(style: SheetShapeStyle): void {
+    this.ctx.strokeStyle = style.stroke ?? '#000000';
+    this.ctx.lineWidth = (style.lineWidth ?? 0.3) * this.pxPerMm;
+    this.ctx.setLineDash([]);
+  }
+}
@@ -0,0 +1,85 @@
+import { strFromU8, unzipSync } from 'fflate';
+import type { Canvas } from 'fabric';
+import type { ProjectBundleManifest, ProjectData } from '@/types';
+import { sourceStore } from '@/storage';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_MANIFEST_PATH,
+  BUNDLE_MEDIA_PREFIX,
+  BUNDLE_VERSION,
+  bytesToDataUrl,
+  forEachImageJSON,
+  needsProjectMigration,
+  ProjectVersionError
+} from '@/utils';
+import { JSONImporter } from './JSONImporter';
+
+/**
+ * Reads `.elmap` bundles written by BundleExporter: puts the images back into
+ * the scene and keeps the original files for re-rendering.
+ */
+export class BundleImporter {
+  private jsonImporter = new JSONImporter();
+
+  async import(canvas: Canvas, file: File): Promise<ProjectData | null> {
+    try {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      const manifest = this.readManifest(entries);
+
+      const sceneBytes = entries[manifest.scene];
+      if (!sceneBytes) throw new Error(`Bundle is missing ${manifest.scene}`);
+      const scene = JSON.parse(strFromU8(sceneBytes)) as ProjectData;
+      // Check before keeping sources from a bundle that won't load
+      needsProjectMigration(scene);
+
+      const mimeTypes = new Map(manifest.media.map((entry) => [entry.path, entry.mimeType]));
+      forEachImageJSON(scene.canvas ?? {}, (json) => {
+        if (typeof json.src !== 'string' || !json.src.startsWith(BUNDLE_MEDIA_PREFIX)) return;
+        const path = json.src.slice(BUNDLE_MEDIA_PREFIX.length);
+        const bytes = entries[path];
+        if (!bytes) throw new Error(`Bundle is missing ${path}`);
+        json.src = bytesToDataUrl(bytes, mimeTypes.get(path) ?? 'image/png');
+      });
+
+      await this.keepSources(manifest, entries);
+      return await this.jsonImporter.load(canvas, scene);
+    } catch (error) {
+      if (error instanceof ProjectVersionError) throw error;
+      console.error('Bundle import failed:', error);
+      return null;
+    }
+  }
+
+  private readManifest(entries: Record<string, Uint8Array>): ProjectBundleManifest {
+    const bytes = entries[BUNDLE_MANIFEST_PATH];
+    if (!bytes) throw new Error('Not a project bundle: no manifest');
+
+    const manifest = JSON.parse(strFromU8(bytes)) as ProjectBundleManifest;
+    if (manifest?.format !== BUNDLE_FORMAT || typeof manifest.version !== 'number') {
+      throw new Error('Not a project bundle: unknown manifest');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+      throw new ProjectVersionError(String(manifest.version));
+    }
+    if (typeof manifest.scene !== 'string' || !Array.isArray(manifest.media)) {
+      throw new Error('Invalid project bundle manifest');
+    }
+    return manifest;
+  }
+
+  /**
+   * Store the original files so images keep their `__elsSource` link. A
+   * missing or unstorable source only loses the option to re-render.
+   */
+  private async keepSources(manifest: ProjectBundleManifest, entries: Record<string, Uint8Array>): Promise<void> {
+    for (const source of manifest.sources ?? []) {
+      const bytes = entries[source.path];
+      if (!bytes) continue;
+      try {
+        await sourceStore.put(new Blob([bytes], { type: source.mimeType }), source.name, source.mimeType);
+      } catch (error) {
+        console.warn(`Could not keep source ${source.name}:`, error);
+      }
+    }
+  }
+}
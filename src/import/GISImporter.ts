@@ -0,0 +1,541 @@
+import { Path, Point, Polygon, Polyline, util } from 'fabric';
+import type { Canvas, FabricObject } from 'fabric';
+import type { GeoTransform, ObjectAttributes } from '@/types';
+import { canvasLockManager } from '@/canvas';
+import {
+  buildRegionPathString,
+  closePathShape,
+  getPathShapeArea,
+  isSamePoint,
+  reversePathShape,
+  setObjectAttributes,
+  settingsManager,
+  type PathShape
+} from '@/utils';
+
+export type GISFileFormat = 'geojson' | 'kml';
+
+/**
+ * How imported features were positioned: through the project's georeference,
+ * at the base image pixels they were exported from, or scaled into the view.
+ */
+export type VectorPlacement = 'georeferenced' | 'pixels' | 'fitted';
+
+export interface VectorImportResult {
+  count: number;
+  placement: VectorPlacement;
+}
+
+type Position = [number, number];
+type CoordinateSpace = 'geographic' | 'projected' | 'pixels';
+
+interface VectorRing {
+  positions: Position[];
+  closed: boolean;
+  /** Interior rings of a polygon, cut out of it */
+  holes: Position[][];
+}
+
+interface VectorStyle {
+  stroke?: string;
+  strokeWidth?: number;
+  dashed?: boolean;
+  fill?: string;
+}
+
+interface VectorFeature {
+  rings: VectorRing[];
+  attributes: ObjectAttributes;
+  style: VectorStyle;
+}
+
+interface ParsedVectorFile {
+  features: VectorFeature[];
+  space: CoordinateSpace;
+  crs: string | null;
+}
+
+interface Projection {
+  placement: VectorPlacement;
+  toCanvas: (position: Position) => Point;
+}
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: unknown;
+}
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry?: unknown;
+  properties?: unknown;
+}
+
+interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features?: unknown;
+}
+
+// Properties written by GeoJSONExporter that describe the drawing rather than the feature
+const GEOJSON_STYLE_KEYS = new Set([
+  'kind', 'shape', 'stroke', 'stroke-width', 'strokeWidth', 'dashed', 'fill', 'coordinateSpace', 'note'
+]);
+
+const FIT_MARGIN = 0.1;
+const DASH_PATTERN = [8, 6];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGeometry(value: unknown): value is GeoJSONGeometry {
+  return isRecord(value) && typeof value.type === 'string';
+}
+
+function isFeature(value: unknown): value is GeoJSONFeature {
+  return isRecord(value) && value.type === 'Feature';
+}
+
+function isFeatureCollection(value: unknown): value is GeoJSONFeatureCollection {
+  return isRecord(value) && value.type === 'FeatureCollection';
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toRingShape(points: Point[]): PathShape {
+  return closePathShape({
+    start: points[0],
+    segments: points.slice(1).map((end) => ({ cp1: end, cp2: end, end }))
+  });
+}
+
+/**
+ * An outline and its holes as closed rings, with the holes wound against the
+ * outline the way shapes combined on the canvas are. Files don't reliably
+ * follow the right-hand rule.
+ */
+function toRegion(outline: Point[], holes: Point[][]): PathShape[] {
+  const outer = toRingShape(outline);
+  const clockwise = getPathShapeArea(outer) > 0;
+  return [
+    outer,
+    ...holes.map((points) => {
+      const hole = toRingShape(points);
+      return getPathShapeArea(hole) > 0 === clockwise ? reversePathShape(hole) : hole;
+    })
+  ];
+}
+
+export class GISImporter {
+  async import(canvas: Canvas, file: File, format: GISFileFormat): Promise<VectorImportResult | null> {
+    try {
+      const text = await file.text();
+      const parsed = format === 'kml' ? this.parseKML(text) : this.parseGeoJSON(text);
+      if (parsed.features.length === 0) {
+        throw new Error('No line or polygon geometry found');
+      }
+
+      const projection = this.createProjection(canvas, parsed);
+      const objects = parsed.features.flatMap((feature) => this.createObjects(feature, projection));
+      if (objects.length === 0) {
+        throw new Error('No line or polygon geometry found');
+      }
+
+      canvas.add(...objects);
+      canvas.requestRenderAll();
+
+      return { count: objects.length, placement: projection.placement };
+    } catch (error) {
+      console.error('Vector import failed:', error);
+      return null;
+    }
+  }
+
+  // --- GeoJSON ---
+
+  private parseGeoJSON(text: string): ParsedVectorFile {
+    const root: unknown = JSON.parse(text);
+    if (!isGeometry(root)) {
+      throw new Error('Invalid GeoJSON file');
+    }
+
+    const toEntry = (feature: unknown) => ({
+      geometry: isFeature(feature) ? feature.geometry : undefined,
+      properties: isFeature(feature) && isRecord(feature.properties) ? feature.properties : {}
+    });
+    const entries: Array<{ geometry: unknown; properties: Record<string, unknown> }> =
+      isFeatureCollection(root)
+        ? asArray(root.features).map(toEntry)
+        : isFeature(root)
+          ? [toEntry(root)]
+          : [{ geometry: root, properties: {} }];
+
+    const features: VectorFeature[] = [];
+    for (const { geometry, properties } of entries) {
+      const rings = this.getGeoJSONRings(geometry);
+      if (rings.length === 0) continue;
+      features.push({
+        rings,
+        attributes: this.toAttributes(properties, GEOJSON_STYLE_KEYS),
+        style: this.getGeoJSONStyle(properties)
+      });
+    }
+
+    const crs = this.getGeoJSONCrs(root);
+    const exportedAsPixels = entries.some((entry) => entry.properties?.coordinateSpace === 'pixels');
+    let space: CoordinateSpace = exportedAsPixels ? 'pixels' : crs ? 'projected' : 'geographic';
+
+    // Pre-RFC 7946 files often carry projected coordinates without naming a CRS
+    if (space === 'geographic' && !this.looksGeographic(features)) {
+      space = 'projected';
+    }
+
+    return { features, space, crs };
+  }
+
+  private getGeoJSONRings(geometry: unknown): VectorRing[] {
+    if (!isGeometry(geometry)) return [];
+
+    const line = (coords: unknown): VectorRing[] => {
+      const positions = this.toPositions(coords);
+      return positions.length >= 2 ? [{ positions, closed: false, holes: [] }] : [];
+    };
+    // The first ring is the outline, any further rings are holes in it
+    const polygon = (coords: unknown): VectorRing[] => {
+      const [outer, ...holes] = asArray(coords).map((ring) => this.toPositions(ring));
+      return outer && outer.length >= 2 ? [{ positions: outer, closed: true, holes }] : [];
+    };
+
+    switch (geometry.type) {
+      case 'LineString':
+        return line(geometry.coordinates);
+      case 'MultiLineString':
+        return asArray(geometry.coordinates).flatMap((coords) => line(coords));
+      case 'Polygon':
+        return polygon(geometry.coordinates);
+      case 'MultiPolygon':
+        return asArray(geometry.coordinates).flatMap((coords) => polygon(coords));
+      case 'GeometryCollection':
+        return asArray(geometry.geometries).flatMap((child) => this.getGeoJSONRings(child));
+      default:
+        return [];
+    }
+  }
+
+  private toPositions(coords: unknown): Position[] {
+    if (!Array.isArray(coords)) return [];
+    return coords
+      .filter((c): c is number[] => Array.isArray(c) && Number.isFinite(c[0]) && Number.isFinite(c[1]))
+      .map((c) => [c[0], c[1]] as Position);
+  }
+
+  private getGeoJSONStyle(properties: Record<string, unknown>): VectorStyle {
+    const strokeWidth = properties.strokeWidth ?? properties['stroke-width'];
+    return {
+      stroke: typeof properties.stroke === 'string' ? properties.stroke : undefined,
+      strokeWidth: typeof strokeWidth === 'number' && strokeWidth > 0 ? strokeWidth : undefined,
+      dashed: properties.dashed === true,
+      fill: typeof properties.fill === 'string' ? properties.fill : undefined
+    };
+  }
+
+  /**
+   * EPSG code from a named `crs` member, or null for WGS84 lon/lat.
+   */
+  private getGeoJSONCrs(root: unknown): string | null {
+    const crs = isRecord(root) ? root.crs : undefined;
+    const name = isRecord(crs) && isRecord(crs.properties) ? crs.properties.name : undefined;
+    if (typeof name !== 'string' || /CRS84$/i.test(name)) return null;
+    const match = name.match(/EPSG:{1,2}(\d+)$/i);
+    if (match && match[1] === '4326') return null;
+    return match ? `EPSG:${match[1]}` : name;
+  }
+
+  // --- KML ---
+
+  private parseKML(text: string): ParsedVectorFile {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid KML file');
+    }
+
+    const styles = this.getKMLStyles(doc);
+    const features: VectorFeature[] = [];
+
+    for (const placemark of this.findAll(doc, 'Placemark')) {
+      const rings: VectorRing[] = [];
+      for (const lineString of this.findAll(placemark, 'LineString')) {
+        const positions = this.parseKMLCoordinates(lineString);
+        if (positions.length >= 2) rings.push({ positions, closed: false, holes: [] });
+      }
+      const polygonRings = new Set<Element>();
+      for (const polygon of this.findAll(placemark, 'Polygon')) {
+        const boundary = (localName: string) =>
+          this.findAll(polygon, localName).flatMap((element) => this.findAll(element, 'LinearRing'));
+        const [outer] = boundary('outerBoundaryIs');
+        const inner = boundary('innerBoundaryIs');
+        [outer, ...inner].forEach((ring) => ring && polygonRings.add(ring));
+
+        const positions = outer ? this.parseKMLCoordinates(outer) : [];
+        if (positions.length >= 3) {
+          rings.push({ positions, closed: true, holes: inner.map((ring) => this.parseKMLCoordinates(ring)) });
+        }
+      }
+      for (const ring of this.findAll(placemark, 'LinearRing')) {
+        if (polygonRings.has(ring)) continue;
+        const positions = this.parseKMLCoordinates(ring);
+        if (positions.length >= 3) rings.push({ positions, closed: true, holes: [] });
+      }
+      if (rings.length === 0) continue;
+
+      const inlineStyle = this.findChild(placemark, 'Style');
+      const styleUrl = this.getChildText(placemark, 'styleUrl')?.replace(/^#/, '');
+      features.push({
+        rings,
+        attributes: this.getKMLAttributes(placemark),
+        style: inlineStyle ? this.parseKMLStyle(inlineStyle) : (styleUrl && styles.get(styleUrl)) || {}
+      });
+    }
+
+    return { features, space: 'geographic', crs: null };
+  }
+
+  private parseKMLCoordinates(element: Element): Position[] {
+    const text = this.getChildText(element, 'coordinates') ?? '';
+    return text
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => tuple.split(',').map(Number))
+      .filter((c) => c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]))
+      .map((c) => [c[0], c[1]] as Position);
+  }
+
+  /**
+   * Shared styles by id, with StyleMaps resolved to their "normal" style.
+   */
+  private getKMLStyles(doc: Document): Map<string, VectorStyle> {
+    const styles = new Map<string, VectorStyle>();
+    for (const style of this.findAll(doc, 'Style')) {
+      const id = style.getAttribute('id');
+      if (id) styles.set(id, this.parseKMLStyle(style));
+    }
+    for (const styleMap of this.findAll(doc, 'StyleMap')) {
+      const id = styleMap.getAttribute('id');
+      if (!id) continue;
+      const normal = this.findAll(styleMap, 'Pair').find((pair) => this.getChildText(pair, 'key') === 'normal');
+      const target = normal ? this.getChildText(normal, 'styleUrl')?.replace(/^#/, '') : null;
+      const resolved = target ? styles.get(target) : undefined;
+      if (resolved) styles.set(id, resolved);
+    }
+    return styles;
+  }
+
+  private parseKMLStyle(style: Element): VectorStyle {
+    const lineStyle = this.findChild(style, 'LineStyle');
+    if (!lineStyle) return {};
+    const color = this.getChildText(lineStyle, 'color');
+    const width = Number(this.getChildText(lineStyle, 'width'));
+    return {
+      stroke: color ? this.parseKMLColor(color) ?? undefined : undefined,
+      strokeWidth: Number.isFinite(width) && width > 0 ? width : undefined
+    };
+  }
+
+  /**
+   * KML colors are aabbggrr hex.
+   */
+  private parseKMLColor(value: string): string | null {
+    const hex = value.trim().replace(/^#/, '');
+    if (!/^[0-9a-f]{8}$/i.test(hex)) return null;
+    const alpha = parseInt(hex.slice(0, 2), 16) / 255;
+    const rgb = `#${hex.slice(6, 8)}${hex.slice(4, 6)}${hex.slice(2, 4)}`.toLowerCase();
+    if (alpha >= 1) return rgb;
+    const [r, g, b] = [6, 4, 2].map((i) => parseInt(hex.slice(i, i + 2), 16));
+    return `rgba(${r}, ${g}, ${b}, ${Number(alpha.toFixed(2))})`;
+  }
+
+  private getKMLAttributes(placemark: Element): ObjectAttributes {
+    const properties: Record<string, unknown> = {};
+    const name = this.getChildText(placemark, 'name');
+    if (name) properties.name = name;
+
+    for (const data of this.findAll(placemark, 'Data')) {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = this.getChildText(data, 'value') ?? '';
+    }
+    for (const data of this.findAll(placemark, 'SimpleData')) {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent?.trim() ?? '';
+    }
+
+    return this.toAttributes(properties);
+  }
+
+  private findAll(root: Document | Element, localName: string): Element[] {
+    return Array.from(root.getElementsByTagNameNS('*', localName));
+  }
+
+  private findChild(element: Element, localName: string): Element | null {
+    return Array.from(element.children).find((child) => child.localName === localName) ?? null;
+  }
+
+  private getChildText(element: Element, localName: string): string | null {
+    const text = this.findChild(element, localName)?.textContent?.trim();
+    return text ? text : null;
+  }
+
+  // --- Placement ---
+
+  private toAttributes(properties: Record<string, unknown>, skip?: Set<string>): ObjectAttributes {
+    const attributes: ObjectAttributes = {};
+    for (const [key, value] of Object.entries(properties ?? {})) {
+      if (skip?.has(key) || value === undefined) continue;
+      if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        attributes[key] = value;
+      } else {
+        attributes[key] = JSON.stringify(value);
+      }
+    }
+    return attributes;
+  }
+
+  private looksGeographic(features: VectorFeature[]): boolean {
+    return features.every((feature) =>
+      feature.rings.every((ring) =>
+        ring.positions.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90)
+      )
+    );
+  }
+
+  private createProjection(canvas: Canvas, parsed: ParsedVectorFile): Projection {
+    if (parsed.space === 'pixels') {
+      const lock = canvasLockManager.getLockedState();
+      const offsetX = lock.locked ? lock.offsetX : 0;
+      const offsetY = lock.locked ? lock.offsetY : 0;
+      return {
+        placement: 'pixels',
+        toCanvas: ([x, y]) => new Point(x + offsetX, y + offsetY)
+      };
+    }
+
+    const georeference = canvasLockManager.getGeoreference();
+    if (georeference && this.matchesGeoreference(georeference, parsed)) {
+      const first = parsed.features[0].rings[0].positions[0];
+      if (canvasLockManager.worldToCanvas({ x: first[0], y: first[1] })) {
+        return {
+          placement: 'georeferenced',
+          toCanvas: ([x, y]) => {
+            const pt = canvasLockManager.worldToCanvas({ x, y })!;
+            return new Point(pt.x, pt.y);
+          }
+        };
+      }
+    }
+
+    return this.createFitProjection(canvas, parsed);
+  }
+
+  private matchesGeoreference(georeference: GeoTransform, parsed: ParsedVectorFile): boolean {
+    if (georeference.mode === 'geographic') {
+      return parsed.space === 'geographic';
+    }
+    if (parsed.space !== 'projected') return false;
+    if (!parsed.crs || !georeference.crs) return true;
+    return parsed.crs.toUpperCase() === georeference.crs.trim().toUpperCase();
+  }
+
+  /**
+   * Scale the features' bounding box into the visible canvas area with north
+   * up. Longitudes are shrunk by cos(latitude) so shapes keep their proportions.
+   */
+  private createFitProjection(canvas: Canvas, parsed: ParsedVectorFile): Projection {
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const feature of parsed.features) {
+      for (const ring of feature.rings) {
+        for (const [x, y] of ring.positions) {
+          minX = Math.min(minX, x);
+          maxX = Math.max(maxX, x);
+          minY = Math.min(minY, y);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    const midY = (minY + maxY) / 2;
+    const xScale = parsed.space === 'geographic' ? Math.cos((midY * Math.PI) / 180) : 1;
+    minX *= xScale;
+    maxX *= xScale;
+
+    const inverse = util.invertTransform(canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]);
+    const topLeft = util.transformPoint(new Point(0, 0), inverse);
+    const bottomRight = util.transformPoint(new Point(canvas.getWidth(), canvas.getHeight()), inverse);
+    const viewWidth = (bottomRight.x - topLeft.x) * (1 - 2 * FIT_MARGIN);
+    const viewHeight = (bottomRight.y - topLeft.y) * (1 - 2 * FIT_MARGIN);
+    const center = topLeft.midPointFrom(bottomRight);
+
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const scales = [width > 0 ? viewWidth / width : Infinity, height > 0 ? viewHeight / height : Infinity];
+    const fitScale = Math.min(...scales);
+    const scale = Number.isFinite(fitScale) && fitScale > 0 ? fitScale : 1;
+    const midX = (minX + maxX) / 2;
+
+    return {
+      placement: 'fitted',
+      toCanvas: ([x, y]) => new Point(center.x + (x * xScale - midX) * scale, center.y - (y - midY) * scale)
+    };
+  }
+
+  private createObjects(feature: VectorFeature, projection: Projection): FabricObject[] {
+    const style = feature.style;
+    const shapeOptions = {
+      stroke: style.stroke ?? settingsManager.getDefaultStrokeColor(),
+      strokeWidth: style.strokeWidth ?? settingsManager.getDefaultStrokeWidth(),
+      strokeDashArray: style.dashed ? DASH_PATTERN : [],
+      fill: style.fill ?? 'transparent',
+      selectable: true,
+      evented: true
+    };
+
+    const objects: FabricObject[] = [];
+    for (const ring of feature.rings) {
+      const points = this.toCanvasPoints(ring.positions, ring.closed, projection);
+      if (points.length < (ring.closed ? 3 : 2)) continue;
+
+      // Holes are subpaths of one shape, filled even-odd so they stay open
+      const holes = ring.holes
+        .map((hole) => this.toCanvasPoints(hole, true, projection))
+        .filter((hole) => hole.length >= 3);
+      const shape = holes.length > 0
+        ? new Path(buildRegionPathString(toRegion(points, holes)), { ...shapeOptions, fillRule: 'evenodd' })
+        : ring.closed
+          ? new Polygon(points, shapeOptions)
+          : new Polyline(points, shapeOptions);
+      setObjectAttributes(shape, feature.attributes);
+      objects.push(shape);
+    }
+    return objects;
+  }
+
+  private toCanvasPoints(positions: Position[], closed: boolean, projection: Projection): Point[] {
+    const points: Point[] = [];
+    for (const position of positions) {
+      const pt = projection.toCanvas(position);
+      if (points.length === 0 || !isSamePoint(points[points.length - 1], pt)) {
+        points.push(pt);
+      }
+    }
+
+    const closesOnItself = points.length > 2 && isSamePoint(points[0], points[points.length - 1]);
+    if (closed && closesOnItself) {
+      points.pop();
+    }
+    return points;
+  }
+}
@@ -1,6 +1,8 @@
 import { FabricImage, type Canvas } from 'fabric';
 import type { ImportOptions } from '@/types';
 import { canvasLockManager } from '@/canvas';
+import { sourceStore } from '@/storage';
+import { setImageSource } from '@/utils';
 import { convertToGrayscale } from './grayscaleUtils';
 
 export class ImageImporter {
@@ -19,6 +21,7 @@ export class ImageImporter {
 
       const img = await FabricImage.fromURL(dataUrl);
       canvasLockManager.ensureImageId(img);
+      await this.keepSource(img, file, options?.grayscale ?? false);
 
       if (options?.maxWidth || options?.maxHeight) {
         this.scaleImage(img, options);
@@ -48,6 +51,20 @@ export class ImageImporter {
     }
   }
 
+  /**
+   * Keep the original file alongside the project. Losing it only means the
+   * image can't be re-rendered later, so a failure doesn't stop the import.
+   */
+  private async keepSource(img: FabricImage, file: File, grayscale: boolean): Promise<void> {
+    try {
+      const mimeType = file.type || 'application/octet-stream';
+      const id = await sourceStore.put(file, file.name, mimeType);
+      setImageSource(img, { id, kind: 'image', name: file.name, mimeType, ...(grayscale ? { grayscale } : {}) });
+    } catch (error) {
+      console.warn('Could not keep the original image file:', error);
+    }
+  }
+
   private fileToDataUrl(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -1,7 +1,10 @@
 import type { Canvas } from 'fabric';
 import type { ImportOptions, ProjectData } from '@/types';
+import { ProjectVersionError } from '@/utils';
 import { ImageImporter } from './ImageImporter';
 import { JSONImporter } from './JSONImporter';
+import { BundleImporter } from './BundleImporter';
+import { GISImporter, type VectorImportResult } from './GISImporter';
 import type { PDFImporter, PDFImportOptions } from './PDFImporter';
 
 export interface ImportColorOptions {
@@ -13,12 +16,16 @@ export type ImportOptionsCallback = () => Promise<ImportColorOptions | null>;
 export class ImportManager {
   private imageImporter: ImageImporter;
   private jsonImporter: JSONImporter;
+  private bundleImporter: BundleImporter;
+  private gisImporter: GISImporter;
   private pdfImporter: PDFImporter | null = null;
   private getImportOptions: ImportOptionsCallback | null = null;
 
   constructor() {
     this.imageImporter = new ImageImporter();
     this.jsonImporter = new JSONImporter();
+    this.bundleImporter = new BundleImporter();
+    this.gisImporter = new GISImporter();
     // PDFImporter is lazy-loaded to avoid loading the 2MB worker at startup
   }
 
@@ -38,8 +45,28 @@ export class ImportManager {
     canvas: Canvas,
     file: File,
     options?: ImportOptions
-  ): Promise<{ success: boolean; projectData?: ProjectData }> {
-    const fileType = this.getFileType(file);
+  ): Promise<{ success: boolean; projectData?: ProjectData; vectorImport?: VectorImportResult; error?: string }> {
+    try {
+      return await this.importFile(canvas, file, options);
+    } catch (error) {
+      // Project files from a newer app version are refused with an explanation
+      if (error instanceof ProjectVersionError) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private async importFile(
+    canvas: Canvas,
+    file: File,
+    options?: ImportOptions
+  ): Promise<{ success: boolean; projectData?: ProjectData; vectorImport?: VectorImportResult }> {
+    let fileType = this.getFileType(file);
+    // GeoJSON is often saved with a plain .json extension
+    if (fileType === 'json' && (await this.isGeoJSON(file))) {
+      fileType = 'geojson';
+    }
 
     switch (fileType) {
       case 'image': {
@@ -61,6 +88,17 @@ export class ImportManager {
         const projectData = await this.jsonImporter.import(canvas, file);
         return { success: projectData !== null, projectData: projectData ?? undefined };
 
+      case 'bundle': {
+        const bundleData = await this.bundleImporter.import(canvas, file);
+        return { success: bundleData !== null, projectData: bundleData ?? undefined };
+      }
+
+      case 'geojson':
+      case 'kml': {
+        const vectorImport = await this.gisImporter.import(canvas, file, fileType);
+        return { success: vectorImport !== null, vectorImport: vectorImport ?? undefined };
+      }
+
       case 'pdf': {
         // Get import options (color/B&W) from callback
         let grayscale = false;
@@ -181,14 +219,42 @@ export class ImportManager {
     });
   }
 
-  private getFileType(file: File): 'image' | 'json' | 'pdf' | 'unknown' {
+  /**
+   * Whether a .json file holds GeoJSON features rather than a project.
+   */
+  private async isGeoJSON(file: File): Promise<boolean> {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      if (typeof parsed !== 'object' || parsed === null) return false;
+      const type = (parsed as { type?: unknown }).type;
+      return type === 'FeatureCollection' || type === 'Feature';
+    } catch {
+      // Leave unreadable files to the project importer, which reports the error
+      return false;
+    }
+  }
+
+  private getFileType(file: File): 'image' | 'json' | 'bundle' | 'geojson' | 'kml' | 'pdf' | 'unknown' {
     const mimeType = file.type.toLowerCase();
     const extension = file.name.split('.').pop()?.toLowerCase();
 
+    if (extension === 'elmap') {
+      return 'bundle';
+    }
+
     if (mimeType.startsWith('image/') || ['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(extension ?? '')) {
       return 'image';
     }
 
+    // Checked before JSON since browsers often report .geojson as application/json
+    if (mimeType === 'application/geo+json' || extension === 'geojson') {
+      return 'geojson';
+    }
+
+    if (mimeType === 'application/vnd.google-earth.kml+xml' || extension === 'kml') {
+      return 'kml';
+    }
+
     if (mimeType === 'application/json' || extension === 'json') {
       return 'json';
     }
@@ -206,7 +272,7 @@ export class ImportManager {
   ): HTMLInputElement {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*,.json,.elmap.json,.pdf,application/pdf';
+    input.accept = 'image/*,.json,.elmap.json,.elmap,.geojson,.kml,.pdf,application/pdf';
 
     input.addEventListener('change', async () => {
       const file = input.files?.[0];
@@ -1,24 +1,51 @@
 import type { Canvas } from 'fabric';
 import type { ProjectData } from '@/types';
-import { applyPostLoadVisualState, restoreCanvasLockState } from '@/utils';
+import {
+  applyPostLoadVisualState,
+  restoreCanvasLockState,
+  migrateProject,
+  ProjectVersionError,
+  printLayoutManager,
+  layerManager
+} from '@/utils';
 
+/**
+ * Project files from older versions of the app are upgraded as they load;
+ * the file itself is left as it was. A file from a newer version throws
+ * ProjectVersionError instead of loading partly.
+ */
 export class JSONImporter {
   async import(canvas: Canvas, file: File): Promise<ProjectData | null> {
     try {
       const text = await file.text();
-      const data = JSON.parse(text) as ProjectData;
+      return await this.load(canvas, JSON.parse(text));
+    } catch (error) {
+      if (error instanceof ProjectVersionError) throw error;
+      console.error('JSON import failed:', error);
+      return null;
+    }
+  }
 
-      if (!this.validateProjectData(data)) {
+  /**
+   * Load parsed project data onto the canvas, e.g. the scene of a bundle.
+   */
+  async load(canvas: Canvas, parsed: unknown): Promise<ProjectData | null> {
+    try {
+      if (!this.validateProjectData(parsed)) {
         throw new Error('Invalid project file format');
       }
+      const data = migrateProject(parsed);
 
       await canvas.loadFromJSON(data.canvas);
       applyPostLoadVisualState(canvas);
       restoreCanvasLockState(canvas, data.lockState);
+      printLayoutManager.restore(data.layout);
+      layerManager.restore(data.layers);
 
       return data;
     } catch (error) {
-      console.error('JSON import failed:', error);
+      if (error instanceof ProjectVersionError) throw error;
+      console.error('Project load failed:', error);
       return null;
     }
   }
@@ -1,6 +1,8 @@
 import { FabricImage, type Canvas } from 'fabric';
 import * as pdfjsLib from 'pdfjs-dist';
 import { canvasLockManager } from '@/canvas';
+import { sourceStore } from '@/storage';
+import { setImageSource } from '@/utils';
 import { convertCanvasToGrayscale } from './grayscaleUtils';
 
 // Set up the worker
@@ -23,8 +25,10 @@ export interface PDFPageInfo {
 
 export class PDFImporter {
   private currentPdf: pdfjsLib.PDFDocumentProxy | null = null;
+  private currentFile: File | null = null;
 
   async loadPDF(file: File): Promise<{ numPages: number; pages: PDFPageInfo[] }> {
+    this.currentFile = file;
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     this.currentPdf = pdf;
@@ -88,6 +92,7 @@ export class PDFImporter {
       const dataUrl = renderCanvas.toDataURL('image/png', 1.0);
       const img = await FabricImage.fromURL(dataUrl);
       canvasLockManager.ensureImageId(img);
+      await this.keepSource(img, pageNumber, scale, options.grayscale ?? false);
 
       // Center on canvas
       const canvasCenter = canvas.getCenterPoint();
@@ -123,6 +128,29 @@ export class PDFImporter {
     }
   }
 
+  /**
+   * Keep the PDF and the page it was rendered from, so the page can be
+   * rendered again at another DPI. Failing to store it doesn't stop the import.
+   */
+  private async keepSource(img: FabricImage, page: number, scale: number, grayscale: boolean): Promise<void> {
+    if (!this.currentFile) return;
+    try {
+      const name = this.currentFile.name;
+      const id = await sourceStore.put(this.currentFile, name, 'application/pdf');
+      setImageSource(img, {
+        id,
+        kind: 'pdf',
+        name,
+        mimeType: 'application/pdf',
+        page,
+        scale,
+        ...(grayscale ? { grayscale } : {})
+      });
+    } catch (error) {
+      console.warn('Could not keep the original PDF:', error);
+    }
+  }
+
   getNumPages(): number {
     return this.currentPdf?.numPages ?? 0;
   }
@@ -130,5 +158,6 @@ export class PDFImporter {
   dispose(): void {
     this.currentPdf?.destroy();
     this.currentPdf = null;
+    this.currentFile = null;
   }
 }
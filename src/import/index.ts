@@ -2,6 +2,9 @@ export { ImportManager } from './ImportManager';
 export type { ImportColorOptions, ImportOptionsCallback } from './ImportManager';
 export { ImageImporter } from './ImageImporter';
 export { JSONImporter } from './JSONImporter';
+export { BundleImporter } from './BundleImporter';
+export { GISImporter } from './GISImporter';
+export type { GISFileFormat, VectorImportResult, VectorPlacement } from './GISImporter';
 // PDFImporter is lazy-loaded via ImportManager to avoid loading 2MB worker at startup
 export { ClipboardManager } from './ClipboardManager';
 export type { ClipboardImportOptions } from './ClipboardManager';
@@ -0,0 +1,225 @@
+import { bytesToDataUrl, dataUrlToBytes, hashBytes, isDataUrl } from '@/utils';
+import { BLOB_STORE, IndexedDBAdapter } from './IndexedDBAdapter';
+
+type ObjectJSON = Record<string, any>;
+
+/**
+ * Image `__elsImageId` → content hash, stored on a record in place of the
+ * images' data URLs.
+ */
+export type ImageBlobRefs = Record<string, string>;
+
+interface StoredBlob {
+  data: Blob;
+  mimeType: string;
+  /** Keys of the records using this blob; its reference count */
+  owners: string[];
+}
+
+// Recently hashed data URLs, so unchanged base maps aren't re-hashed on every
+// autosave. Keyed by the string itself, which the canvas keeps alive anyway.
+const HASH_CACHE_SIZE = 16;
+
+function isImageJSON(value: ObjectJSON): boolean {
+  return String(value.type).toLowerCase() === 'image';
+}
+
+/**
+ * Visit every object in a JSON value, e.g. a project record or a saved undo
+ * history, and return a copy with `replace` applied to images. Parts without
+ * replaced images are shared with the input, which is never modified.
+ */
+function mapImages(value: unknown, replace: (json: ObjectJSON) => ObjectJSON | null): unknown {
+  if (Array.isArray(value)) {
+    let changed = false;
+    const mapped = value.map((item) => {
+      const next = mapImages(item, replace);
+      if (next !== item) changed = true;
+      return next;
+    });
+    return changed ? mapped : value;
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Blob) return value;
+
+  const source = value as ObjectJSON;
+  let result = (isImageJSON(source) && replace(source)) || source;
+  Object.keys(result).forEach((key) => {
+    const next = mapImages(result[key], replace);
+    if (next === result[key]) return;
+    if (result === source) result = { ...source };
+    result[key] = next;
+  });
+  return result;
+}
+
+/**
+ * Base map images stored once by SHA-256 in their own object store, instead
+ * of as data URLs inside every autosave, project, version and saved history.
+ * Each blob lists the records using it and is deleted when the last one lets
+ * go of it.
+ */
+export class BlobStore {
+  private indexedDB = new IndexedDBAdapter(BLOB_STORE);
+  private hashCache = new Map<string, string>();
+  // Reference counts are read-modify-write; run updates one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Move image data out of `value` into the store. Images are matched up by
+   * `__elsImageId`; ones without an id, or sharing an id with a different
+   * image, stay inline. Call `retain` once the returned record is saved.
+   */
+  async pack<T extends object>(value: T): Promise<{ record: T & { imageBlobs?: ImageBlobRefs }; hashes: string[] }> {
+    const sources = new Map<string, string>();
+    const conflicts = new Set<string>();
+    mapImages(value, (json) => {
+      const id = json.__elsImageId;
+      if (typeof id !== 'string' || !isDataUrl(json.src)) return null;
+      const existing = sources.get(id);
+      if (existing !== undefined && existing !== json.src) conflicts.add(id);
+      else sources.set(id, json.src);
+      return null;
+    });
+    conflicts.forEach((id) => sources.delete(id));
+    if (sources.size === 0) return { record: value, hashes: [] };
+
+    const refs: ImageBlobRefs = {};
+    for (const [id, src] of sources) {
+      refs[id] = await this.store(src);
+    }
+
+    const packed = mapImages(value, (json) => {
+      if (!(json.__elsImageId in refs) || json.src !== sources.get(json.__elsImageId)) return null;
+      const { src: _src, ...rest } = json;
+      return rest;
+    }) as T;
+
+    return { record: { ...packed, imageBlobs: refs }, hashes: Array.from(new Set(Object.values(refs))) };
+  }
+
+  /**
+   * Put the image data back into a record written by `pack`. Images whose
+   * blob is missing are left without a source.
+   */
+  async unpack<T>(record: T): Promise<T> {
+    const refs = (record as { imageBlobs?: ImageBlobRefs } | null)?.imageBlobs;
+    if (!refs) return record;
+
+    const dataUrls = new Map<string, string>();
+    for (const hash of new Set(Object.values(refs))) {
+      const blob = await this.indexedDB.get<StoredBlob>(hash);
+      if (!blob) {
+        console.warn(`Missing image blob ${hash}`);
+        continue;
+      }
+      const dataUrl = bytesToDataUrl(new Uint8Array(await blob.data.arrayBuffer()), blob.mimeType);
+      dataUrls.set(hash, dataUrl);
+      this.remember(dataUrl, hash);
+    }
+
+    const { imageBlobs: _refs, ...rest } = record as T & { imageBlobs?: ImageBlobRefs };
+    return mapImages(rest, (json) => {
+      const src = dataUrls.get(refs[json.__elsImageId]);
+      return src && json.src === undefined ? { ...json, src } : null;
+    }) as T;
+  }
+
+  /**
+   * Make `owner` reference exactly `hashes`, releasing whatever it used
+   * before. Blobs left without owners are deleted.
+   */
+  retain(owner: string, hashes: string[]): Promise<void> {
+    return this.enqueue(async () => {
+      const wanted = new Set(hashes);
+      for (const hash of await this.indexedDB.getAllKeys()) {
+        const blob = await this.indexedDB.get<StoredBlob>(hash);
+        if (!blob) continue;
+
+        const owns = blob.owners.includes(owner);
+        if (owns === wanted.has(hash)) continue;
+
+        const owners = owns ? blob.owners.filter((o) => o !== owner) : [...blob.owners, owner];
+        if (owners.length === 0) {
+          await this.indexedDB.remove(hash);
+        } else {
+          await this.indexedDB.set(hash, { ...blob, owners });
+        }
+      }
+    });
+  }
+
+  async list(): Promise<Array<{ hash: string; mimeType: string; bytes: number; owners: string[] }>> {
+    const blobs = [];
+    for (const hash of await this.indexedDB.getAllKeys()) {
+      const blob = await this.indexedDB.get<StoredBlob>(hash);
+      if (blob) blobs.push({ hash, mimeType: blob.mimeType, bytes: blob.data.size, owners: blob.owners });
+    }
+    return blobs;
+  }
+
+  release(owner: string): Promise<void> {
+    return this.retain(owner, []);
+  }
+
+  /**
+   * Delete blobs no live record uses, e.g. left behind by a save that
+   * failed halfway.
+   */
+  collectGarbage(isLiveOwner: (owner: string) => boolean): Promise<number> {
+    return this.enqueue(async () => {
+      let removed = 0;
+      for (const hash of await this.indexedDB.getAllKeys()) {
+        const blob = await this.indexedDB.get<StoredBlob>(hash);
+        if (!blob) continue;
+        const owners = blob.owners.filter(isLiveOwner);
+        if (owners.length === 0) {
+          await this.indexedDB.remove(hash);
+          removed += 1;
+        } else if (owners.length !== blob.owners.length) {
+          await this.indexedDB.set(hash, { ...blob, owners });
+        }
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Store a data URL's bytes unless they're already stored, and return the
+   * hash. New blobs start without owners until `retain` is called.
+   */
+  private async store(dataUrl: string): Promise<string> {
+    const cached = this.hashCache.get(dataUrl);
+    if (cached) {
+      this.remember(dataUrl, cached);
+      if (await this.indexedDB.get(cached)) return cached;
+    }
+
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const hash = cached ?? (await hashBytes(bytes));
+    this.remember(dataUrl, hash);
+
+    await this.enqueue(async () => {
+      if (await this.indexedDB.get(hash)) return;
+      const blob: StoredBlob = { data: new Blob([bytes], { type: mimeType }), mimeType, owners: [] };
+      await this.indexedDB.set(hash, blob);
+    });
+    return hash;
+  }
+
+  private remember(dataUrl: string, hash: string): void {
+    this.hashCache.delete(dataUrl);
+    this.hashCache.set(dataUrl, hash);
+    if (this.hashCache.size > HASH_CACHE_SIZE) {
+      this.hashCache.delete(this.hashCache.keys().next().value!);
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const blobStore = new BlobStore();
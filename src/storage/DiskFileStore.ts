@@ -0,0 +1,191 @@
+import type { RecentDiskFile } from '@/types';
+import { IndexedDBAdapter } from './IndexedDBAdapter';
+
+const RECENT_FILES_KEY = 'recent-files';
+const MAX_RECENT_FILES = 8;
+const PROJECT_FILE_EXTENSION = '.elmap.json';
+// How long after the page regains focus a file input's change event may still arrive
+const INPUT_CANCEL_DELAY_MS = 500;
+
+// The File System Access API isn't in the DOM typings yet
+interface FilePickerOptions {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+  excludeAcceptAllOption?: boolean;
+  /** Lets the browser reopen the picker in the folder used last time */
+  id?: string;
+}
+
+interface FilePickerWindow {
+  showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+}
+
+interface PermissionedHandle {
+  queryPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+}
+
+const PICKER_OPTIONS: FilePickerOptions = {
+  id: 'elmap-projects',
+  types: [{ description: 'Els Maps project', accept: { 'application/json': [PROJECT_FILE_EXTENSION, '.json'] } }]
+};
+
+export interface DiskFile {
+  file: File;
+  /** Null where the browser can't write back to the file */
+  handle: FileSystemFileHandle | null;
+}
+
+function getPickerWindow(): FilePickerWindow {
+  return window as unknown as FilePickerWindow;
+}
+
+function isAbort(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Project files on disk, e.g. on a shared drive. Where the browser supports
+ * the File System Access API, a file stays linked to the project so saving
+ * writes back to it; elsewhere saving downloads a copy.
+ */
+class DiskFileStore {
+  private indexedDB = new IndexedDBAdapter();
+
+  isSupported(): boolean {
+    const pickers = getPickerWindow();
+    return typeof pickers.showSaveFilePicker === 'function' && typeof pickers.showOpenFilePicker === 'function';
+  }
+
+  /**
+   * Write `data` to `handle`, or to a file the user picks when there's no
+   * handle. Resolves the handle written to, null when the browser downloaded
+   * the file instead, or undefined when the user cancelled.
+   */
+  async save(data: Blob, suggestedName: string, handle: FileSystemFileHandle | null = null): Promise<FileSystemFileHandle | null | undefined> {
+    if (!this.isSupported()) {
+      this.download(data, suggestedName);
+      return null;
+    }
+
+    try {
+      const target = handle ?? (await getPickerWindow().showSaveFilePicker!({ ...PICKER_OPTIONS, suggestedName }));
+      if (!(await this.ensurePermission(target, 'readwrite'))) {
+        throw new DOMException(`No permission to write ${target.name}`, 'NotAllowedError');
+      }
+      const writable = await target.createWritable();
+      await writable.write(data);
+      await writable.close();
+      await this.remember(target);
+      return target;
+    } catch (error) {
+      if (isAbort(error)) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Let the user pick a project file. Resolves null when cancelled. Call
+   * `remember` once it has opened as a project.
+   */
+  async open(): Promise<DiskFile | null> {
+    if (!this.isSupported()) {
+      const file = await this.pickWithInput();
+      return file ? { file, handle: null } : null;
+    }
+
+    try {
+      const [handle] = await getPickerWindow().showOpenFilePicker!(PICKER_OPTIONS);
+      if (!handle) return null;
+      return { file: await handle.getFile(), handle };
+    } catch (error) {
+      if (isAbort(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Open a recent file again. The browser may ask to allow access, so call
+   * this from a click.
+   */
+  async reopen(id: string): Promise<DiskFile | null> {
+    const recent = (await this.listRecent()).find((entry) => entry.id === id);
+    if (!recent) return null;
+    if (!(await this.ensurePermission(recent.handle, 'readwrite'))) return null;
+    return { file: await recent.handle.getFile(), handle: recent.handle };
+  }
+
+  /** Most recently opened or saved first */
+  async listRecent(): Promise<RecentDiskFile[]> {
+    const recent = await this.indexedDB.get<RecentDiskFile[]>(RECENT_FILES_KEY);
+    return [...(recent ?? [])].sort((a, b) => b.openedAt - a.openedAt);
+  }
+
+  async removeRecent(id: string): Promise<void> {
+    const recent = await this.listRecent();
+    await this.indexedDB.set(
+      RECENT_FILES_KEY,
+      recent.filter((entry) => entry.id !== id)
+    );
+  }
+
+  /** Put a file at the top of the recent files */
+  async remember(handle: FileSystemFileHandle): Promise<void> {
+    const recent = await this.listRecent();
+    const others: RecentDiskFile[] = [];
+    for (const entry of recent) {
+      if (!(await entry.handle.isSameEntry(handle))) others.push(entry);
+    }
+    const entry: RecentDiskFile = {
+      id: `file-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: handle.name,
+      openedAt: Date.now(),
+      handle
+    };
+    await this.indexedDB.set(RECENT_FILES_KEY, [entry, ...others].slice(0, MAX_RECENT_FILES));
+  }
+
+  private async ensurePermission(handle: FileSystemFileHandle, mode: 'read' | 'readwrite'): Promise<boolean> {
+    const permissioned = handle as FileSystemFileHandle & PermissionedHandle;
+    if (!permissioned.queryPermission || !permissioned.requestPermission) return true;
+    if ((await permissioned.queryPermission({ mode })) === 'granted') return true;
+    return (await permissioned.requestPermission({ mode })) === 'granted';
+  }
+
+  private pickWithInput(): Promise<File | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = `${PROJECT_FILE_EXTENSION},.json,application/json`;
+      let settled = false;
+      const settle = (file: File | null) => {
+        if (settled) return;
+        settled = true;
+        window.removeEventListener('focus', handleFocus);
+        resolve(file);
+      };
+      // Browsers that don't fire `cancel` only show the dialog closed by
+      // focusing the page again, slightly before any change event
+      const handleFocus = () => setTimeout(() => settle(input.files?.[0] ?? null), INPUT_CANCEL_DELAY_MS);
+
+      input.onchange = () => settle(input.files?.[0] ?? null);
+      input.addEventListener('cancel', () => settle(null));
+      input.click();
+      window.addEventListener('focus', handleFocus);
+    });
+  }
+
+  private download(data: Blob, filename: string): void {
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const diskFileStore = new DiskFileStore();
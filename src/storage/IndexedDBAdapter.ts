@@ -1,46 +1,122 @@
 const DB_NAME = 'elsmaps-db';
-const DB_VERSION = 1;
-const STORE_NAME = 'projects';
+const PROJECTS_STORE = 'projects';
+/** Image data stored once by content hash, see BlobStore */
+export const BLOB_STORE = 'blobs';
+/** Copies of records from before they were migrated to a newer format */
+export const BACKUP_STORE = 'backups';
+
+interface DBMigration {
+  version: number;
+  /**
+   * Runs inside the upgrade transaction. A step that rewrites records should
+   * first copy them to BACKUP_STORE.
+   */
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Schema changes in order. Opening the database runs every step newer than
+ * the version it was left at, so a browser that skipped releases catches up.
+ */
+const DB_MIGRATIONS: DBMigration[] = [
+  { version: 1, upgrade: (db) => db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' }) },
+  { version: 2, upgrade: (db) => db.createObjectStore(BLOB_STORE, { keyPath: 'id' }) },
+  { version: 3, upgrade: (db) => db.createObjectStore(BACKUP_STORE, { keyPath: 'id' }) }
+];
+
+const DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+/**
+ * Thrown when a write doesn't fit in the browser's storage quota, so callers
+ * can tell the user how to free space instead of just failing.
+ */
+export class StorageQuotaError extends Error {
+  constructor(message: string = 'Browser storage is full') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * The database was upgraded by a newer version of the app, e.g. in another
+ * tab, and can't be opened by this one.
+ */
+export class DatabaseVersionError extends Error {
+  constructor() {
+    super('Saved projects were upgraded by a newer version of the app. Reload the page to use it.');
+    this.name = 'DatabaseVersionError';
+  }
+}
+
+function isQuotaError(error: DOMException | null | undefined): boolean {
+  return error?.name === 'QuotaExceededError';
+}
 
 export class IndexedDBAdapter {
   private db: IDBDatabase | null = null;
+  private openError: Error | null = null;
+
+  constructor(private storeName: string = PROJECTS_STORE) {}
 
   async init(): Promise<boolean> {
     return new Promise((resolve) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
 
       request.onerror = () => {
-        console.error('IndexedDB init failed');
+        this.openError = request.error?.name === 'VersionError' ? new DatabaseVersionError() : request.error;
+        console.error('IndexedDB init failed:', this.openError);
         resolve(false);
       };
 
       request.onsuccess = () => {
         this.db = request.result;
+        this.openError = null;
+        // Let a newer version of the app in another tab upgrade the database
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         resolve(true);
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const db = request.result;
+        const transaction = request.transaction!;
 
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        }
+        DB_MIGRATIONS.filter((migration) => migration.version > event.oldVersion).forEach((migration) => {
+          migration.upgrade(db, transaction);
+        });
       };
     });
   }
 
+  /** Why the database couldn't be opened, if it couldn't */
+  getOpenError(): Error | null {
+    return this.openError;
+  }
+
+  /**
+   * Resolves once the write is committed. Rejects with StorageQuotaError when
+   * it doesn't fit, which browsers may only report at commit.
+   */
   async set(id: string, data: unknown): Promise<boolean> {
     if (!this.db) await this.init();
     if (!this.db) return false;
 
-    return new Promise((resolve) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
 
-      const request = store.put({ id, data, updatedAt: Date.now() });
+      store.put({ id, data, updatedAt: Date.now() });
 
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => resolve(false);
+      transaction.oncomplete = () => resolve(true);
+      transaction.onabort = () => {
+        if (isQuotaError(transaction.error)) {
+          reject(new StorageQuotaError());
+        } else {
+          resolve(false);
+        }
+      };
     });
   }
 
@@ -49,8 +125,8 @@ export class IndexedDBAdapter {
     if (!this.db) return null;
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const store = transaction.objectStore(this.storeName);
 
       const request = store.get(id);
 
@@ -68,8 +144,8 @@ export class IndexedDBAdapter {
     if (!this.db) return false;
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
 
       const request = store.delete(id);
 
@@ -83,8 +159,8 @@ export class IndexedDBAdapter {
     if (!this.db) return [];
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = this.db!.transaction([this.storeName], 'readonly');
+      const store = transaction.objectStore(this.storeName);
 
       const request = store.getAllKeys();
 
@@ -101,8 +177,8 @@ export class IndexedDBAdapter {
     if (!this.db) return false;
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = this.db!.transaction([this.storeName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
 
       const request = store.clear();
 
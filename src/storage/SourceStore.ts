@@ -0,0 +1,69 @@
+import { hashBytes } from '@/utils';
+import { IndexedDBAdapter } from './IndexedDBAdapter';
+
+const SOURCE_KEY_PREFIX = 'source:';
+
+export interface StoredSource {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: Blob;
+}
+
+/**
+ * Ids of the original files that images anywhere in `value` refer to through
+ * `__elsSource`, e.g. in a project record or a saved undo history.
+ */
+export function findSourceIds(value: unknown, ids: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => findSourceIds(item, ids));
+  } else if (value && typeof value === 'object' && !(value instanceof Blob)) {
+    const source = (value as { __elsSource?: { id?: unknown } }).__elsSource;
+    if (typeof source?.id === 'string') ids.add(source.id);
+    Object.values(value).forEach((child) => findSourceIds(child, ids));
+  }
+  return ids;
+}
+
+/**
+ * Original files that base map images were rendered from (PDFs, full-size
+ * photos), stored once per distinct content in IndexedDB and referenced from
+ * images by id. Files nothing refers to any more are removed by
+ * `collectGarbage`.
+ */
+class SourceStore {
+  private indexedDB = new IndexedDBAdapter();
+
+  /**
+   * Store a file unless identical content is already stored, and return
+   * its id.
+   */
+  async put(data: Blob, name: string, mimeType: string = data.type): Promise<string> {
+    const id = await hashBytes(new Uint8Array(await data.arrayBuffer()));
+    const key = SOURCE_KEY_PREFIX + id;
+    if (!(await this.indexedDB.get(key))) {
+      const source: StoredSource = { id, name, mimeType, data };
+      await this.indexedDB.set(key, source);
+    }
+    return id;
+  }
+
+  async get(id: string): Promise<StoredSource | null> {
+    return this.indexedDB.get<StoredSource>(SOURCE_KEY_PREFIX + id);
+  }
+
+  /**
+   * Delete every stored file whose id `isUsed` rejects. Returns the number
+   * deleted.
+   */
+  async collectGarbage(isUsed: (id: string) => boolean): Promise<number> {
+    let removed = 0;
+    for (const key of await this.indexedDB.getAllKeys()) {
+      if (!key.startsWith(SOURCE_KEY_PREFIX) || isUsed(key.slice(SOURCE_KEY_PREFIX.length))) continue;
+      if (await this.indexedDB.remove(key)) removed += 1;
+    }
+    return removed;
+  }
+}
+
+export const sourceStore = new SourceStore();
@@ -1,21 +1,114 @@
 import type { Canvas } from 'fabric';
 import { LocalStorageAdapter } from './LocalStorageAdapter';
-import { IndexedDBAdapter } from './IndexedDBAdapter';
-import { canvasLockManager } from '@/canvas';
+import { BACKUP_STORE, IndexedDBAdapter, StorageQuotaError } from './IndexedDBAdapter';
+import { blobStore } from './BlobStore';
+import { findSourceIds, sourceStore } from './SourceStore';
+import { canvasLockManager, isExportableObject } from '@/canvas';
+import type {
+  LayerState,
+  LockedCanvasState,
+  PrintLayout,
+  ProjectStorageUsage,
+  ProjectVersion,
+  StorageReport
+} from '@/types';
 import {
   applyPostLoadVisualState,
+  compressPreview,
+  getImageSource,
+  getProjectVersion,
+  migrateProject,
+  needsProjectMigration,
+  ProjectVersionError,
+  PROJECT_VERSION,
+  type VersionedProject,
   restoreCanvasLockState,
+  printLayoutManager,
+  layerManager,
+  historyManager,
   CANVAS_OBJECT_PROPS
 } from '@/utils';
 
 const AUTOSAVE_KEY = 'autosave';
+// Undo history is stored beside each entry under this prefix, so listing and
+// loading projects don't read it
+const HISTORY_KEY_PREFIX = 'history:';
 const AUTOSAVE_INTERVAL = 30000; // 30 seconds
+const COMPRESSED_PREVIEW_SIZE = 320;
+// Image blob owner names of backups, which live in their own store
+const BACKUP_OWNER_PREFIX = 'backup:';
+
+export type SaveKind = 'autosave' | 'project';
+type QuotaExceededCallback = (kind: SaveKind) => void;
+
+/**
+ * The parts of a project a version keeps. Each version is stored under its
+ * own key; `versions:{projectId}` lists them without loading their canvases.
+ */
+interface ProjectSnapshot {
+  version?: string;
+  canvas: object;
+  lockState?: LockedCanvasState | null;
+  layout?: PrintLayout | null;
+  layers?: LayerState | null;
+}
+
+function versionKey(projectId: string, versionId: string): string {
+  return `version:${projectId}:${versionId}`;
+}
+
+function versionsKey(projectId: string): string {
+  return `versions:${projectId}`;
+}
+
+function createVersionId(): string {
+  return `version-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
 
+// Stored size of a record, near enough for comparing projects
+function estimateSize(value: unknown): number {
+  return value ? JSON.stringify(value).length : 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Length of a record's inline preview data URL
+function previewSize(value: unknown): number {
+  return isRecord(value) && typeof value.preview === 'string' ? value.preview.length : 0;
+}
+
+/**
+ * The project a record key belongs to: `project:{id}`, `history:project:{id}`
+ * or `version:{id}:{versionId}`. Null for the autosave and anything else.
+ */
+function getRecordProjectId(key: string): string | null {
+  if (key.startsWith(HISTORY_KEY_PREFIX)) return getRecordProjectId(key.slice(HISTORY_KEY_PREFIX.length));
+  if (key.startsWith('project:')) return key.slice('project:'.length);
+  if (key.startsWith('version:')) return key.slice('version:'.length).split(':')[0];
+  return null;
+}
+
+/**
+ * The record a blob owner stands for. Backups own blobs as
+ * `backup:{key}@{format}`; other owners are record keys already.
+ */
+function getOwnerRecordKey(owner: string): string {
+  return owner.startsWith(BACKUP_OWNER_PREFIX) ? owner.slice(BACKUP_OWNER_PREFIX.length).replace(/@[^@]*$/, '') : owner;
+}
+
+function describeVersion(version: ProjectVersion): string {
+  return version.comment ? `"${version.comment}"` : `from ${new Date(version.savedAt).toLocaleString()}`;
+}
 export class StorageManager {
   private localStorage: LocalStorageAdapter;
   private indexedDB: IndexedDBAdapter;
+  private backups = new IndexedDBAdapter(BACKUP_STORE);
   private autosaveTimer: ReturnType<typeof setInterval> | null = null;
   private canvas: Canvas | null = null;
+  private storageFull = false;
+  private quotaListeners: Set<QuotaExceededCallback> = new Set();
 
   constructor() {
     this.localStorage = new LocalStorageAdapter();
@@ -25,6 +118,25 @@ export class StorageManager {
   async init(canvas: Canvas): Promise<void> {
     this.canvas = canvas;
     await this.indexedDB.init();
+
+    // Drop image blobs left behind by records deleted without releasing them
+    try {
+      const live = new Set(await this.indexedDB.getAllKeys());
+      (await this.backups.getAllKeys()).forEach((key) => live.add(BACKUP_OWNER_PREFIX + key));
+      await blobStore.collectGarbage((owner) => live.has(owner));
+    } catch (error) {
+      console.warn('Image blob cleanup failed:', error);
+    }
+    try {
+      await this.removeUnusedSources();
+    } catch (error) {
+      console.warn('Original file cleanup failed:', error);
+    }
+  }
+
+  /** Why saved projects are unavailable, e.g. a DatabaseVersionError */
+  getOpenError(): Error | null {
+    return this.indexedDB.getOpenError();
   }
 
   startAutosave(): void {
@@ -51,21 +163,31 @@ export class StorageManager {
         return false;
       }
 
+      // Captured first: it flushes pending history and assigns object ids
+      // that the canvas data then carries
+      const history = historyManager.getPersistedState();
       const data = this.canvas.toObject([...CANVAS_OBJECT_PROPS]);
       const preview = this.canvas.toDataURL({
         format: 'png',
         quality: 0.6,
-        multiplier: 0.2
+        multiplier: 0.2,
+        filter: isExportableObject
       });
-      await this.indexedDB.set(AUTOSAVE_KEY, {
+      await this.putRecord(AUTOSAVE_KEY, {
+        version: PROJECT_VERSION,
         canvas: data,
         lockState: canvasLockManager.getLockedState(),
+        layout: printLayoutManager.getLayout(),
+        layers: layerManager.getState(),
         preview,
         savedAt: Date.now()
       });
+      await this.putRecord(HISTORY_KEY_PREFIX + AUTOSAVE_KEY, history);
+      this.storageFull = false;
       return true;
     } catch (error) {
       console.error('Autosave failed:', error);
+      this.handleSaveError(error, 'autosave');
       return false;
     }
   }
@@ -74,9 +196,11 @@ export class StorageManager {
     if (!this.canvas) return false;
 
     try {
-      const data = await this.indexedDB.get<{
+      const data = await this.getProjectRecord<{
         canvas: object;
         lockState?: ReturnType<typeof canvasLockManager.getLockedState>;
+        layout?: PrintLayout | null;
+        layers?: LayerState | null;
         preview?: string;
         savedAt: number;
       }>(
@@ -88,8 +212,12 @@ export class StorageManager {
       await this.canvas.loadFromJSON(data.canvas);
       applyPostLoadVisualState(this.canvas);
       restoreCanvasLockState(this.canvas, data.lockState ?? null);
+      printLayoutManager.restore(data.layout);
+      layerManager.restore(data.layers);
+      historyManager.restore(await this.getRecord(HISTORY_KEY_PREFIX + AUTOSAVE_KEY));
       return true;
     } catch (error) {
+      if (error instanceof ProjectVersionError) throw error;
       console.error('Load autosave failed:', error);
       return false;
     }
@@ -110,7 +238,9 @@ export class StorageManager {
   }
 
   async clearAutosave(): Promise<boolean> {
-    return this.indexedDB.remove(AUTOSAVE_KEY);
+    await this.removeRecord(HISTORY_KEY_PREFIX + AUTOSAVE_KEY);
+    await this.removeBackups((key) => key.startsWith(`${AUTOSAVE_KEY}@`));
+    return this.removeRecord(AUTOSAVE_KEY);
   }
 
   savePreference(key: string, value: unknown): boolean {
@@ -122,15 +252,21 @@ export class StorageManager {
     return value ?? defaultValue;
   }
 
-  async saveProject(id: string, name: string): Promise<boolean> {
+  /**
+   * Save the project and keep a copy of it as a new version.
+   */
+  async saveProject(id: string, name: string, comment?: string): Promise<boolean> {
     if (!this.canvas) return false;
 
     try {
+      const history = historyManager.getPersistedState();
+
       // Generate a small preview image
       const preview = this.canvas.toDataURL({
         format: 'png',
         quality: 0.8,
-        multiplier: 0.25 // Small preview
+        multiplier: 0.25, // Small preview
+        filter: isExportableObject
       });
 
       // Check if project already exists to preserve createdAt
@@ -139,8 +275,11 @@ export class StorageManager {
       }>(`project:${id}`);
 
       const data = {
+        version: PROJECT_VERSION,
         canvas: this.canvas.toObject([...CANVAS_OBJECT_PROPS]),
         lockState: canvasLockManager.getLockedState(),
+        layout: printLayoutManager.getLayout(),
+        layers: layerManager.getState(),
         preview,
         metadata: {
           name,
@@ -149,10 +288,30 @@ export class StorageManager {
         }
       };
 
-      await this.indexedDB.set(`project:${id}`, data);
+      await this.putRecord(`project:${id}`, data);
+      await this.putRecord(`${HISTORY_KEY_PREFIX}project:${id}`, history);
+      await this.addVersion(
+        {
+          id: createVersionId(),
+          projectId: id,
+          name,
+          ...(comment ? { comment } : {}),
+          savedAt: data.metadata.modifiedAt,
+          preview
+        },
+        {
+          version: data.version,
+          canvas: data.canvas,
+          lockState: data.lockState,
+          layout: data.layout,
+          layers: data.layers
+        }
+      );
+      this.storageFull = false;
       return true;
     } catch (error) {
       console.error('Save project failed:', error);
+      this.handleSaveError(error, 'project');
       return false;
     }
   }
@@ -161,9 +320,11 @@ export class StorageManager {
     if (!this.canvas) return false;
 
     try {
-      const data = await this.indexedDB.get<{
+      const data = await this.getProjectRecord<{
         canvas: object;
         lockState?: ReturnType<typeof canvasLockManager.getLockedState>;
+        layout?: PrintLayout | null;
+        layers?: LayerState | null;
         metadata: { name: string; createdAt: number; modifiedAt: number };
       }>(`project:${id}`);
 
@@ -172,8 +333,12 @@ export class StorageManager {
       await this.canvas.loadFromJSON(data.canvas);
       applyPostLoadVisualState(this.canvas);
       restoreCanvasLockState(this.canvas, data.lockState ?? null);
+      printLayoutManager.restore(data.layout);
+      layerManager.restore(data.layers);
+      historyManager.restore(await this.getRecord(`${HISTORY_KEY_PREFIX}project:${id}`));
       return true;
     } catch (error) {
+      if (error instanceof ProjectVersionError) throw error;
       console.error('Load project failed:', error);
       return false;
     }
@@ -207,7 +372,350 @@ export class StorageManager {
   }
 
   async deleteProject(id: string): Promise<boolean> {
-    return this.indexedDB.remove(`project:${id}`);
+    const versions = await this.listVersions(id);
+    for (const version of versions) {
+      await this.removeRecord(versionKey(id, version.id));
+    }
+    await this.indexedDB.remove(versionsKey(id));
+    await this.removeRecord(`${HISTORY_KEY_PREFIX}project:${id}`);
+    await this.removeBackups((key) => key.startsWith(`project:${id}@`) || key.startsWith(`version:${id}:`));
+    const removed = await this.removeRecord(`project:${id}`);
+    await this.removeUnusedSources();
+    return removed;
+  }
+
+  /**
+   * Delete original files that no saved record, backup, undo step or image
+   * on the canvas refers to. Returns the number deleted.
+   */
+  async removeUnusedSources(): Promise<number> {
+    const used = new Set<string>();
+    for (const key of await this.indexedDB.getAllKeys()) {
+      if (!key.startsWith('source:')) findSourceIds(await this.indexedDB.get<unknown>(key), used);
+    }
+    for (const key of await this.backups.getAllKeys()) {
+      findSourceIds(await this.backups.get<unknown>(key), used);
+    }
+    this.canvas?.getObjects().forEach((obj) => {
+      const source = getImageSource(obj);
+      if (source) used.add(source.id);
+    });
+    findSourceIds(historyManager.getPersistedState(), used);
+
+    return sourceStore.collectGarbage((id) => used.has(id));
+  }
+
+  /**
+   * Saved versions of a project, newest first.
+   */
+  async listVersions(projectId: string): Promise<ProjectVersion[]> {
+    const versions = await this.indexedDB.get<ProjectVersion[]>(versionsKey(projectId));
+    return [...(versions ?? [])].sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * The canvas JSON of a version, for previews.
+   */
+  async getVersionCanvas(projectId: string, versionId: string): Promise<object | null> {
+    const snapshot = await this.getProjectRecord<ProjectSnapshot>(versionKey(projectId, versionId));
+    return snapshot?.canvas ?? null;
+  }
+
+  /**
+   * Put a version back on the canvas as an undoable step. The project itself
+   * is unchanged until it is saved again, which adds a new version.
+   */
+  async restoreVersion(projectId: string, versionId: string): Promise<boolean> {
+    try {
+      const version = (await this.listVersions(projectId)).find((v) => v.id === versionId);
+      const snapshot = await this.getProjectRecord<ProjectSnapshot>(versionKey(projectId, versionId));
+      if (!version || !snapshot) return false;
+
+      return historyManager.replaceCanvas(
+        snapshot.canvas,
+        snapshot.lockState ?? null,
+        `Restored version ${describeVersion(version)}`,
+        () => {
+          printLayoutManager.restore(snapshot.layout);
+          layerManager.restore(snapshot.layers);
+        }
+      );
+    } catch (error) {
+      console.error('Restore version failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Copy a version into a new project named `name`. Returns the new
+   * project's id.
+   */
+  async forkVersion(projectId: string, versionId: string, name: string): Promise<string | null> {
+    try {
+      const version = (await this.listVersions(projectId)).find((v) => v.id === versionId);
+      const snapshot = await this.getProjectRecord<ProjectSnapshot>(versionKey(projectId, versionId));
+      if (!version || !snapshot) return null;
+
+      const id = `project-${Date.now()}`;
+      const now = Date.now();
+      await this.putRecord(`project:${id}`, {
+        ...snapshot,
+        preview: version.preview,
+        metadata: { name, createdAt: now, modifiedAt: now }
+      });
+      await this.addVersion(
+        {
+          id: createVersionId(),
+          projectId: id,
+          name,
+          comment: `Forked from "${version.name}" version ${describeVersion(version)}`,
+          savedAt: now,
+          preview: version.preview
+        },
+        snapshot
+      );
+      return id;
+    } catch (error) {
+      console.error('Fork version failed:', error);
+      return null;
+    }
+  }
+
+  private async addVersion(version: ProjectVersion, snapshot: ProjectSnapshot): Promise<void> {
+    await this.putRecord(versionKey(version.projectId, version.id), snapshot);
+    const versions = (await this.indexedDB.get<ProjectVersion[]>(versionsKey(version.projectId))) ?? [];
+    await this.indexedDB.set(versionsKey(version.projectId), [...versions, version]);
+  }
+
+  /**
+   * Called when a save fails because browser storage is full. Autosave only
+   * reports the first failure in a row, not one every 30 seconds.
+   */
+  onQuotaExceeded(callback: QuotaExceededCallback): () => void {
+    this.quotaListeners.add(callback);
+    return () => this.quotaListeners.delete(callback);
+  }
+
+  /** The last save failed because browser storage is full */
+  isStorageFull(): boolean {
+    return this.storageFull;
+  }
+
+  private handleSaveError(error: unknown, kind: SaveKind): void {
+    if (!(error instanceof StorageQuotaError)) return;
+    const alreadyFull = this.storageFull;
+    this.storageFull = true;
+    if (kind === 'autosave' && alreadyFull) return;
+    this.quotaListeners.forEach((callback) => callback(kind));
+  }
+
+  /**
+   * What is using browser storage: the overall estimate, then each project,
+   * the autosave and every stored image.
+   */
+  async getStorageReport(): Promise<StorageReport> {
+    const estimate = await navigator.storage?.estimate?.().catch(() => null);
+    const persisted = (await navigator.storage?.persisted?.().catch(() => null)) ?? null;
+
+    const projects = new Map<string, ProjectStorageUsage>();
+    const getProject = (id: string): ProjectStorageUsage => {
+      let usage = projects.get(id);
+      if (!usage) {
+        usage = { id, name: id, projectBytes: 0, historyBytes: 0, versionsBytes: 0, versionCount: 0, previewBytes: 0 };
+        projects.set(id, usage);
+      }
+      return usage;
+    };
+
+    let autosaveBytes = 0;
+    let sourcesBytes = 0;
+    // Sized as stored: images are kept apart in the blob store and listed below
+    for (const key of await this.indexedDB.getAllKeys()) {
+      const data = await this.indexedDB.get<unknown>(key);
+      if (!data) continue;
+
+      if (key === AUTOSAVE_KEY || key === HISTORY_KEY_PREFIX + AUTOSAVE_KEY) {
+        autosaveBytes += estimateSize(data);
+      } else if (key.startsWith('project:')) {
+        const usage = getProject(key.slice('project:'.length));
+        const metadata = isRecord(data) ? data.metadata : null;
+        if (isRecord(metadata) && typeof metadata.name === 'string') {
+          usage.name = metadata.name;
+        }
+        usage.projectBytes += estimateSize(data);
+        usage.previewBytes += previewSize(data);
+      } else if (key.startsWith(`${HISTORY_KEY_PREFIX}project:`)) {
+        getProject(key.slice(`${HISTORY_KEY_PREFIX}project:`.length)).historyBytes += estimateSize(data);
+      } else if (key.startsWith('versions:')) {
+        const usage = getProject(key.slice('versions:'.length));
+        const versions: unknown[] = Array.isArray(data) ? data : [];
+        usage.versionsBytes += estimateSize(data);
+        usage.versionCount += versions.length;
+        versions.forEach((version) => {
+          usage.previewBytes += previewSize(version);
+        });
+      } else if (key.startsWith('version:')) {
+        getProject(key.split(':')[1]).versionsBytes += estimateSize(data);
+      } else if (key.startsWith('source:')) {
+        // Original files are Blobs, which don't stringify
+        sourcesBytes += isRecord(data) && data.data instanceof Blob ? data.data.size : 0;
+      }
+    }
+
+    let backupsBytes = 0;
+    for (const key of await this.backups.getAllKeys()) {
+      backupsBytes += estimateSize(await this.backups.get(key));
+    }
+
+    const images = (await blobStore.list()).map((blob) => ({
+      hash: blob.hash,
+      mimeType: blob.mimeType,
+      bytes: blob.bytes,
+      usedBy: Array.from(
+        new Set(
+          blob.owners.map((owner) => {
+            const key = getOwnerRecordKey(owner);
+            if (key === AUTOSAVE_KEY || key === HISTORY_KEY_PREFIX + AUTOSAVE_KEY) return 'Autosave';
+            const id = getRecordProjectId(key);
+            return id === null ? owner : projects.get(id)?.name ?? id;
+          })
+        )
+      )
+    }));
+
+    return {
+      usage: estimate?.usage ?? null,
+      quota: estimate?.quota ?? null,
+      persisted,
+      autosaveBytes,
+      projects: Array.from(projects.values()).sort(
+        (a, b) =>
+          b.projectBytes + b.historyBytes + b.versionsBytes - (a.projectBytes + a.historyBytes + a.versionsBytes)
+      ),
+      images: images.sort((a, b) => b.bytes - a.bytes),
+      sourcesBytes,
+      backupsBytes
+    };
+  }
+
+  /**
+   * Re-encode the previews of projects, versions and the autosave as small
+   * JPEGs. Returns the number of bytes saved.
+   */
+  async compressPreviews(): Promise<number> {
+    let saved = 0;
+    const compress = async (preview: string | undefined): Promise<string | undefined> => {
+      // Already compressed
+      if (!preview || preview.startsWith('data:image/jpeg')) return preview;
+      const compressed = await compressPreview(preview, COMPRESSED_PREVIEW_SIZE);
+      saved += preview.length - compressed.length;
+      return compressed;
+    };
+
+    for (const key of await this.indexedDB.getAllKeys()) {
+      if (key === AUTOSAVE_KEY || key.startsWith('project:')) {
+        // Records are rewritten as stored; their image blobs are unchanged
+        const data = await this.indexedDB.get<{ preview?: string }>(key);
+        if (!data?.preview) continue;
+        const preview = await compress(data.preview);
+        if (preview !== data.preview) await this.indexedDB.set(key, { ...data, preview });
+      } else if (key.startsWith('versions:')) {
+        const versions = (await this.indexedDB.get<ProjectVersion[]>(key)) ?? [];
+        const compressed: ProjectVersion[] = [];
+        for (const version of versions) {
+          compressed.push({ ...version, preview: await compress(version.preview) });
+        }
+        await this.indexedDB.set(key, compressed);
+      }
+    }
+    return saved;
+  }
+
+  /**
+   * Delete all but the newest `keep` versions of every project. Returns the
+   * number of versions deleted.
+   */
+  async purgeVersions(keep: number): Promise<number> {
+    let removed = 0;
+    for (const key of await this.indexedDB.getAllKeys()) {
+      if (!key.startsWith('versions:')) continue;
+      const projectId = key.slice('versions:'.length);
+      const versions = await this.listVersions(projectId);
+      const stale = versions.slice(Math.max(keep, 0));
+      if (stale.length === 0) continue;
+
+      for (const version of stale) {
+        await this.removeRecord(versionKey(projectId, version.id));
+      }
+      await this.indexedDB.set(key, versions.slice(0, Math.max(keep, 0)));
+      removed += stale.length;
+    }
+    return removed;
+  }
+
+  /**
+   * Ask the browser not to evict this site's storage when the device runs
+   * low on space. Resolves whether storage is now persistent.
+   */
+  async requestPersistentStorage(): Promise<boolean> {
+    try {
+      return (await navigator.storage?.persist?.()) ?? false;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Write a record with its images moved to the blob store, then point the
+   * blobs at it. Blobs it no longer uses are released.
+   */
+  private async putRecord(key: string, value: object | null): Promise<void> {
+    const { record, hashes } = value ? await blobStore.pack(value) : { record: null, hashes: [] };
+    if (!(await this.indexedDB.set(key, record))) {
+      throw new Error(`Could not save ${key}`);
+    }
+    await blobStore.retain(key, hashes);
+  }
+
+  private async getRecord<T>(key: string): Promise<T | null> {
+    return blobStore.unpack(await this.indexedDB.get<T>(key));
+  }
+
+  /**
+   * Read a project, autosave or version record, upgrading it to the current
+   * format. The record as it was is first copied to the backup store, and the
+   * upgraded one is written back so this happens once.
+   */
+  private async getProjectRecord<T extends object>(key: string): Promise<T | null> {
+    const stored = await this.indexedDB.get<VersionedProject>(key);
+    if (!stored || !needsProjectMigration(stored)) {
+      return (await blobStore.unpack(stored)) as T | null;
+    }
+
+    const backupKey = `${key}@${getProjectVersion(stored)}`;
+    if (!(await this.backups.get(backupKey))) {
+      if (!(await this.backups.set(backupKey, stored))) {
+        throw new Error(`Could not back up ${key} before upgrading it`);
+      }
+      await blobStore.retain(BACKUP_OWNER_PREFIX + backupKey, Object.values(stored.imageBlobs ?? {}));
+    }
+
+    const migrated = migrateProject(await blobStore.unpack(stored));
+    await this.putRecord(key, migrated);
+    return migrated as T;
+  }
+
+  private async removeRecord(key: string): Promise<boolean> {
+    const removed = await this.indexedDB.remove(key);
+    if (removed) await blobStore.release(key);
+    return removed;
+  }
+
+  private async removeBackups(matches: (key: string) => boolean): Promise<void> {
+    for (const key of await this.backups.getAllKeys()) {
+      if (!matches(key)) continue;
+      if (await this.backups.remove(key)) await blobStore.release(BACKUP_OWNER_PREFIX + key);
+    }
   }
 
   async renameProject(id: string, name: string): Promise<boolean> {
@@ -215,6 +723,8 @@ export class StorageManager {
       const data = await this.indexedDB.get<{
         canvas: object;
         lockState?: ReturnType<typeof canvasLockManager.getLockedState>;
+        layout?: PrintLayout | null;
+        layers?: LayerState | null;
         preview?: string;
         metadata: { name: string; createdAt: number; modifiedAt: number };
       }>(`project:${id}`);
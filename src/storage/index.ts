@@ -1,3 +1,10 @@
 export { StorageManager } from './StorageManager';
+export type { SaveKind } from './StorageManager';
 export { LocalStorageAdapter } from './LocalStorageAdapter';
-export { IndexedDBAdapter } from './IndexedDBAdapter';
+export { IndexedDBAdapter, StorageQuotaError, DatabaseVersionError } from './IndexedDBAdapter';
+export { sourceStore } from './SourceStore';
+export type { StoredSource } from './SourceStore';
+export { blobStore } from './BlobStore';
+export type { ImageBlobRefs } from './BlobStore';
+export { diskFileStore } from './DiskFileStore';
+export type { DiskFile } from './DiskFileStore';
@@ -2,7 +2,8 @@ import { Circle, Line, Path, Polyline, Polygon, Point } from 'fabric';
 import type { FabricObject, TMat2D, Canvas } from 'fabric';
 import { ToolType } from '@/types';
 import type { TouchPoint } from '@/types';
-import { historyManager, snapManager } from '@/utils';
+import { historyManager, nearestPointOnBezier, snapManager, splitBezier } from '@/utils';
+import type { BezierPoints } from '@/utils';
 import { BaseTool } from './BaseTool';
 
 // ============================================================================
@@ -47,6 +48,14 @@ interface MarkerStyle {
 
 type EditableObject = Path | Polyline;
 
+interface SegmentHit {
+  /** Path: index of the segment's command. Polyline: index of the segment's end point */
+  index: number;
+  t: number;
+  /** The segment's control points in the object's own coordinates */
+  points: BezierPoints;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -80,6 +89,8 @@ const HANDLE_LINE_STYLE = {
 };
 
 const HIT_TOLERANCE = 8;
+// Clicks this close to an end of a segment don't add a point on top of the anchor
+const MIN_INSERT_T = 0.001;
 const NUDGE_AMOUNT = 1;
 const NUDGE_AMOUNT_SHIFT = 10;
 
@@ -723,8 +734,9 @@ export class EditTool extends BaseTool {
     const point = new Point(pointer.x, pointer.y);
     this.lastPointer = point;
 
+    // Clicking a segment away from the markers adds an anchor there and grabs it
     const preferType = event.altKey ? PointType.CONTROL : PointType.ANCHOR;
-    const clickedPoint = this.hitTester?.findPointAt(point, preferType);
+    const clickedPoint = this.hitTester?.findPointAt(point, preferType) ?? this.insertPointAt(point);
 
     if (!clickedPoint) return;
 
@@ -880,7 +892,11 @@ export class EditTool extends BaseTool {
       this.hoveredPoint = hovered;
     }
 
-    this.setCursor(hovered ? 'pointer' : 'default');
+    if (hovered) {
+      this.setCursor('pointer');
+    } else {
+      this.setCursor(this.selectedObject && this.findSegmentAt(this.selectedObject, point) ? 'copy' : 'default');
+    }
   }
 
   onMouseUp(_point: Point, _event: MouseEvent): void {
@@ -900,7 +916,7 @@ export class EditTool extends BaseTool {
       this.canvas?.requestRenderAll();
 
       if (this.hasChanges) {
-        historyManager.saveState();
+        this.saveEdit('Moved point');
         this.hasChanges = false;
       }
     }
@@ -953,7 +969,7 @@ export class EditTool extends BaseTool {
     this.activePoint = null;
 
     if (this.hasChanges) {
-      historyManager.saveState();
+      this.saveEdit('Moved point');
       this.hasChanges = false;
     }
   }
@@ -1007,9 +1023,9 @@ export class EditTool extends BaseTool {
       const newPos = new Point(currentPos.x + dx, currentPos.y + dy);
       this.movePoint(pointToNudge, newPos);
 
-      if (!this.hasChanges) {
-        this.hasChanges = true;
-      }
+      // Each press is saved right away; a run of presses becomes one undo step
+      this.saveEdit('Nudged point', 'nudge');
+      this.hasChanges = false;
     }
   }
 
@@ -1051,6 +1067,15 @@ export class EditTool extends BaseTool {
     this.canvas?.requestRenderAll();
   }
 
+  /** Record an edit of the selected object's points as an undo step */
+  private saveEdit(label: string, coalesceKey?: string): void {
+    historyManager.saveState({
+      label,
+      coalesceKey,
+      objects: this.selectedObject ? [this.selectedObject] : undefined
+    });
+  }
+
   private movePoint(editPoint: EditPoint, newPos: Point): void {
     if (!this.selectedObject || !this.canvas || !this.markerManager) return;
 
@@ -1485,6 +1510,152 @@ export class EditTool extends BaseTool {
     this.finalizePointDeletionWithClear();
   }
 
+  // -------------------------------------------------------------------------
+  // Point Insertion
+  // -------------------------------------------------------------------------
+
+  /**
+   * Split the segment of the selected object under `position` with a new
+   * anchor. Curves are split at the exact parameter, so their shape doesn't
+   * change. Returns the new anchor's edit point.
+   */
+  private insertPointAt(position: Point): EditPoint | null {
+    const obj = this.selectedObject;
+    if (!obj || !this.canvas || !this.markerManager) return null;
+
+    const hit = this.findSegmentAt(obj, position);
+    if (!hit) return null;
+
+    const [before, after] = splitBezier(hit.points, hit.t);
+    const inserted = before[before.length - 1];
+
+    if (obj instanceof Polyline) {
+      const points = obj.points ?? [];
+      const anchorBefore = this.getPointInParentPlane(obj, points[0]);
+      points.splice(hit.index, 0, new Point(inserted.x, inserted.y));
+      obj.set({ points: [...points] });
+      this.updateObjectDimensions(obj);
+
+      const diff = this.getPointInParentPlane(obj, points[0]).subtract(anchorBefore);
+      obj.left = (obj.left ?? 0) - diff.x;
+      obj.top = (obj.top ?? 0) - diff.y;
+    } else if (obj.path) {
+      const anchor = this.getPathAnchorRef(obj);
+      const anchorBefore = anchor ? this.getPathAnchorWorldPos(obj, anchor) : null;
+
+      const command = obj.path[hit.index][0];
+      if (command === 'Z') {
+        // The closing segment is implied; an explicit line to the new point comes first
+        obj.path.splice(hit.index, 0, ['L', inserted.x, inserted.y]);
+      } else {
+        obj.path.splice(hit.index, 1, this.toPathCommand(before), this.toPathCommand(after));
+      }
+      obj.set({ path: [...obj.path] });
+      this.updateObjectDimensions(obj);
+
+      if (anchorBefore && anchor) {
+        const diff = this.getPathAnchorWorldPos(obj, anchor).subtract(anchorBefore);
+        obj.left = (obj.left ?? 0) - diff.x;
+        obj.top = (obj.top ?? 0) - diff.y;
+      }
+    }
+
+    obj.dirty = true;
+    obj.setCoords();
+    this.editedSinceSelect = true;
+
+    // Indices after the new point have shifted; rebuild the markers
+    const editPoints = this.markerManager.createMarkersForObject(obj);
+    this.hitTester?.setEditPoints(editPoints);
+    this.buildLinkedAnchors();
+    this.hoveredPoint = null;
+    this.selectedPoint = null;
+
+    this.saveEdit('Added point');
+    this.canvas.requestRenderAll();
+
+    return editPoints.find((ep) =>
+      ep.type === PointType.ANCHOR &&
+      (obj instanceof Polyline ? ep.index === hit.index : ep.segmentIndex === hit.index)
+    ) ?? null;
+  }
+
+  /**
+   * Find the segment of `obj` nearest to a canvas position, within the hit
+   * tolerance of its stroke.
+   */
+  private findSegmentAt(obj: EditableObject, position: Point): SegmentHit | null {
+    if (!this.canvas) return null;
+
+    const matrix = obj.calcTransformMatrix();
+    const pathOffset = getPathOffset(obj);
+    const toCanvas = (pt: Point) => transformPoint(pt.x - pathOffset.x, pt.y - pathOffset.y, matrix);
+    const tolerance = HIT_TOLERANCE / this.canvas.getZoom() + (obj.strokeWidth ?? 0) / 2;
+
+    let best: (SegmentHit & { distance: number }) | null = null;
+    for (const segment of this.getLocalSegments(obj)) {
+      // Affine transforms keep Bézier curves, so the parameter found on the
+      // canvas applies to the object's own control points too
+      const hit = nearestPointOnBezier(segment.points.map(toCanvas), position);
+      if (hit.distance <= tolerance && (!best || hit.distance < best.distance)) {
+        best = { ...segment, t: hit.t, distance: hit.distance };
+      }
+    }
+
+    if (!best || best.t < MIN_INSERT_T || best.t > 1 - MIN_INSERT_T) return null;
+    return { index: best.index, t: best.t, points: best.points };
+  }
+
+  private getLocalSegments(obj: EditableObject): Array<{ index: number; points: BezierPoints }> {
+    const segments: Array<{ index: number; points: BezierPoints }> = [];
+
+    if (obj instanceof Polyline) {
+      const points = (obj.points ?? []).map((pt) => new Point(pt.x, pt.y));
+      for (let i = 1; i < points.length; i++) {
+        segments.push({ index: i, points: [points[i - 1], points[i]] });
+      }
+      if (obj instanceof Polygon && points.length > 2) {
+        segments.push({ index: points.length, points: [points[points.length - 1], points[0]] });
+      }
+      return segments;
+    }
+
+    let current: Point | null = null;
+    let subpathStart: Point | null = null;
+    (obj.path ?? []).forEach((segment, index) => {
+      const command = segment[0];
+      const coords = segment.slice(1) as number[];
+      const pts: Point[] = [];
+      for (let i = 0; i + 1 < coords.length; i += 2) {
+        pts.push(new Point(coords[i], coords[i + 1]));
+      }
+
+      if (command === 'M') {
+        current = subpathStart = pts[0];
+        return;
+      }
+      if (!current) return;
+
+      if (command === 'L' || command === 'C' || command === 'Q') {
+        segments.push({ index, points: [current, ...pts] });
+        current = pts[pts.length - 1];
+      } else if (command === 'Z' && subpathStart) {
+        if (!current.eq(subpathStart)) {
+          segments.push({ index, points: [current, subpathStart] });
+        }
+        current = subpathStart;
+      }
+    });
+    return segments;
+  }
+
+  private toPathCommand(points: BezierPoints): NonNullable<Path['path']>[number] {
+    const [, ...rest] = points;
+    if (rest.length === 1) return ['L', rest[0].x, rest[0].y];
+    if (rest.length === 2) return ['Q', rest[0].x, rest[0].y, rest[1].x, rest[1].y];
+    return ['C', rest[0].x, rest[0].y, rest[1].x, rest[1].y, rest[2].x, rest[2].y];
+  }
+
   private finalizePointDeletionWithClear(): void {
     if (!this.canvas) return;
 
@@ -1499,7 +1670,7 @@ export class EditTool extends BaseTool {
     this.hasChanges = false;
     this.editedSinceSelect = false;
 
-    historyManager.saveState();
+    historyManager.saveState({ label: 'Deleted point' });
     this.canvas.requestRenderAll();
   }
 
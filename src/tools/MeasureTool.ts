@@ -0,0 +1,394 @@
+import { Line, Circle, FabricText, Group, Polyline, Point } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { ToolType } from '@/types';
+import type { TouchPoint } from '@/types';
+import { BaseTool } from './BaseTool';
+import { LAYOUT } from '@/constants';
+import { canvasLockManager } from '@/canvas';
+import {
+  snapManager,
+  historyManager,
+  distance,
+  midpoint,
+  pixelsToUnits,
+  formatDistance,
+  getAzimuth,
+  formatBearing
+} from '@/utils';
+
+const MEASURE_COLOR = '#c47c28';
+const LABEL_FONT_SIZE = 12;
+
+/**
+ * Measures distances and bearings along a chain of clicked points.
+ * Everything drawn while measuring is a helper overlay; Enter turns the
+ * measurement into a permanent dimension annotation.
+ */
+export class MeasureTool extends BaseTool {
+  type = ToolType.MEASURE;
+  name = 'Measure';
+  icon = 'ruler';
+
+  private points: Point[] = [];
+  private overlay: FabricObject[] = [];
+  private ghostObjects: FabricObject[] = [];
+  private finished: boolean = false;
+
+  protected setupEventListeners(): void {
+    if (!this.canvas) return;
+
+    this.canvas.selection = false;
+    this.canvas.skipTargetFind = true;
+    this.canvas.discardActiveObject();
+    this.canvas.forEachObject((obj) => {
+      obj.selectable = false;
+      obj.evented = false;
+    });
+
+    snapManager.setCanvas(this.canvas);
+  }
+
+  protected cleanupEventListeners(): void {
+    // Re-enable object interaction when deactivating the tool
+    if (this.canvas) {
+      this.canvas.selection = true;
+      this.canvas.skipTargetFind = false;
+      this.canvas.forEachObject((obj) => {
+        obj.selectable = true;
+        obj.evented = true;
+      });
+    }
+
+    snapManager.hideSnapIndicator();
+  }
+
+  onMouseDown(point: Point, event: MouseEvent): void {
+    if (event.button === 2) {
+      this.finishMeasurement();
+      return;
+    }
+    if (event.button !== 0) return;
+
+    this.addPoint(point);
+  }
+
+  onMouseMove(point: Point, _event: MouseEvent): void {
+    this.updateGhost(point);
+  }
+
+  onTouchStart(point: TouchPoint): void {
+    this.addPoint(new Point(point.x, point.y));
+
+    if (this.isMobile) {
+      this.context?.updateReticle(point.x, point.y - LAYOUT.reticleOffset, true);
+    }
+  }
+
+  onTouchMove(point: TouchPoint): void {
+    this.updateGhost(new Point(point.x, point.y));
+
+    if (this.isMobile) {
+      this.context?.updateReticle(point.x, point.y - LAYOUT.reticleOffset, true);
+    }
+  }
+
+  onTouchEnd(_point: TouchPoint): void {
+    if (this.isMobile) {
+      this.context?.updateReticle(0, 0, false);
+    }
+  }
+
+  onKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      this.clearMeasurement();
+    } else if (event.key === 'Enter') {
+      this.commitAnnotation();
+    } else if (event.key === 'Backspace') {
+      event.preventDefault();
+      this.removeLastPoint();
+    }
+  }
+
+  onActionConfirm(): void {
+    this.commitAnnotation();
+  }
+
+  onActionCancel(): void {
+    this.clearMeasurement();
+  }
+
+  private snapPoint(point: Point): Point {
+    const snapResult = snapManager.findNearestEndpoint(point);
+    if (snapResult.snapped && snapResult.snapPoint) {
+      snapManager.showSnapIndicator(snapResult.snapPoint.x, snapResult.snapPoint.y);
+      return snapResult.point;
+    }
+    snapManager.hideSnapIndicator();
+    return point;
+  }
+
+  private addPoint(point: Point): void {
+    if (!this.canvas) return;
+
+    // A click after a finished measurement starts a new one
+    if (this.finished) {
+      this.clearMeasurement();
+    }
+
+    const finalPoint = this.snapPoint(point);
+    const last = this.points[this.points.length - 1];
+    if (last && distance(last.x, last.y, finalPoint.x, finalPoint.y) < 0.5) return;
+
+    if (!this.drawing) {
+      this.drawing = true;
+      if (this.isMobile) {
+        this.context?.showActionButton('both');
+      }
+    }
+
+    this.points.push(finalPoint);
+    this.renderOverlay();
+  }
+
+  private removeLastPoint(): void {
+    if (this.points.length === 0) return;
+    this.points.pop();
+    this.finished = false;
+
+    if (this.points.length === 0) {
+      this.clearMeasurement();
+      return;
+    }
+    this.renderOverlay();
+  }
+
+  private finishMeasurement(): void {
+    if (this.points.length < 2) {
+      this.clearMeasurement();
+      return;
+    }
+    this.finished = true;
+    this.drawing = false;
+    this.clearGhost();
+    snapManager.hideSnapIndicator();
+    this.canvas?.requestRenderAll();
+  }
+
+  private clearMeasurement(): void {
+    this.clearGhost();
+    this.clearOverlay();
+    this.points = [];
+    this.finished = false;
+    this.drawing = false;
+    snapManager.hideSnapIndicator();
+    this.context?.hideActionButton();
+    this.context?.updateReticle(0, 0, false);
+    this.canvas?.requestRenderAll();
+  }
+
+  // --------------------------------------------------------------------------
+  // Overlay rendering
+  // --------------------------------------------------------------------------
+
+  private renderOverlay(): void {
+    if (!this.canvas) return;
+
+    this.clearOverlay();
+    this.overlay = this.buildMeasurementObjects(this.points, this.getZoom());
+    this.overlay.forEach((obj) => {
+      this.markHelper(obj);
+      this.canvas!.add(obj);
+    });
+    this.canvas.requestRenderAll();
+  }
+
+  private updateGhost(point: Point): void {
+    if (!this.canvas) return;
+
+    const displayPoint = this.snapPoint(point);
+    this.clearGhost();
+    if (this.finished || this.points.length === 0) {
+      this.canvas.requestRenderAll();
+      return;
+    }
+
+    const zoom = this.getZoom();
+    const last = this.points[this.points.length - 1];
+    const ghostLine = new Line([last.x, last.y, displayPoint.x, displayPoint.y], {
+      stroke: MEASURE_COLOR,
+      strokeWidth: 1.5 / zoom,
+      strokeDashArray: [5 / zoom, 5 / zoom],
+      opacity: 0.7
+    });
+
+    const segmentPx = distance(last.x, last.y, displayPoint.x, displayPoint.y);
+    const totalPx = this.getTotalPixels(this.points) + segmentPx;
+    const label = this.createLabel(
+      `${this.formatLength(segmentPx)}  ${formatBearing(getAzimuth(last, displayPoint))}\nTotal ${this.formatLength(totalPx)}`,
+      new Point(displayPoint.x + 12 / zoom, displayPoint.y + 12 / zoom),
+      zoom,
+      'left'
+    );
+
+    this.ghostObjects = [ghostLine, label];
+    this.ghostObjects.forEach((obj) => {
+      this.markHelper(obj);
+      this.canvas!.add(obj);
+    });
+    this.canvas.requestRenderAll();
+  }
+
+  private clearOverlay(): void {
+    if (this.canvas) {
+      this.overlay.forEach((obj) => this.canvas!.remove(obj));
+    }
+    this.overlay = [];
+  }
+
+  private clearGhost(): void {
+    if (this.canvas) {
+      this.ghostObjects.forEach((obj) => this.canvas!.remove(obj));
+    }
+    this.ghostObjects = [];
+  }
+
+  private markHelper(obj: FabricObject): void {
+    obj.set({ selectable: false, evented: false, excludeFromExport: true });
+    (obj as any).isHelper = true;
+  }
+
+  /**
+   * Build the line, vertex markers and labels for a measured chain of points.
+   * Shared by the live overlay and the permanent annotation.
+   */
+  private buildMeasurementObjects(points: Point[], zoom: number): FabricObject[] {
+    const objects: FabricObject[] = [];
+    if (points.length === 0) return objects;
+
+    if (points.length > 1) {
+      objects.push(
+        new Polyline(
+          points.map((pt) => ({ x: pt.x, y: pt.y })),
+          {
+            stroke: MEASURE_COLOR,
+            strokeWidth: 1.5 / zoom,
+            fill: 'transparent',
+            objectCaching: false
+          }
+        )
+      );
+    }
+
+    points.forEach((pt) => {
+      objects.push(
+        new Circle({
+          left: pt.x,
+          top: pt.y,
+          radius: 3 / zoom,
+          fill: MEASURE_COLOR,
+          stroke: '#000000',
+          strokeWidth: 1 / zoom,
+          originX: 'center',
+          originY: 'center'
+        })
+      );
+    });
+
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1];
+      const to = points[i];
+      const segmentPx = distance(from.x, from.y, to.x, to.y);
+      const mid = midpoint(from.x, from.y, to.x, to.y);
+      objects.push(
+        this.createLabel(
+          `${this.formatLength(segmentPx)}\n${formatBearing(getAzimuth(from, to))}`,
+          new Point(mid.x, mid.y),
+          zoom,
+          'center'
+        )
+      );
+    }
+
+    if (points.length > 2) {
+      const last = points[points.length - 1];
+      objects.push(
+        this.createLabel(
+          `Total ${this.formatLength(this.getTotalPixels(points))}`,
+          new Point(last.x + 10 / zoom, last.y - 10 / zoom),
+          zoom,
+          'left'
+        )
+      );
+    }
+
+    return objects;
+  }
+
+  private createLabel(text: string, position: Point, zoom: number, originX: 'left' | 'center'): FabricText {
+    return new FabricText(text, {
+      left: position.x,
+      top: position.y,
+      originX,
+      originY: 'center',
+      fontSize: LABEL_FONT_SIZE / zoom,
+      fontFamily: this.config?.fontFamily ?? 'IBM Plex Sans',
+      fill: '#ffffff',
+      textAlign: originX === 'center' ? 'center' : 'left',
+      textBackgroundColor: 'rgba(0, 0, 0, 0.65)'
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Annotation
+  // --------------------------------------------------------------------------
+
+  private commitAnnotation(): void {
+    if (!this.canvas || this.points.length < 2) {
+      this.clearMeasurement();
+      return;
+    }
+
+    const points = [...this.points];
+    const zoom = this.getZoom();
+    this.clearMeasurement();
+
+    const annotation = new Group(this.buildMeasurementObjects(points, zoom), {
+      selectable: true,
+      evented: true
+    });
+    this.canvas.add(annotation);
+    this.canvas.requestRenderAll();
+    historyManager.saveState({ label: 'Added dimension', objects: [annotation] });
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  private getTotalPixels(points: Point[]): number {
+    let total = 0;
+    for (let i = 1; i < points.length; i++) {
+      total += distance(points[i - 1].x, points[i - 1].y, points[i].x, points[i].y);
+    }
+    return total;
+  }
+
+  private formatLength(pixels: number): string {
+    const scale = canvasLockManager.getScale();
+    if (!scale) return `${pixels.toFixed(1)} px`;
+    return formatDistance(pixelsToUnits(pixels, scale), scale.unit);
+  }
+
+  private getZoom(): number {
+    return this.canvas?.getZoom() ?? 1;
+  }
+
+  cancel(): void {
+    this.clearMeasurement();
+    super.cancel();
+  }
+
+  getPreview(): FabricObject | null {
+    return this.ghostObjects[0] ?? null;
+  }
+}
@@ -1,10 +1,22 @@
-import { Polyline, Polygon, Line, Circle, Point } from 'fabric';
+import { Polyline, Polygon, Line, Circle, Path, Point } from 'fabric';
 import type { FabricObject } from 'fabric';
 import { ToolType } from '@/types';
 import type { TouchPoint } from '@/types';
 import { BaseTool } from './BaseTool';
 import { LAYOUT } from '@/constants';
-import { snapManager, type SnapResult, type SnapPoint } from '@/utils';
+import {
+  snapManager,
+  buildPathString,
+  getPathEnd,
+  placeTraverseShape,
+  type SnapResult,
+  type SnapPoint,
+  type PathSegment,
+  type PathShape
+} from '@/utils';
+
+// Traverse ends closer than this to the point of beginning are closed exactly
+const TRAVERSE_CLOSE_TOLERANCE = 0.5;
 
 export class PolylineTool extends BaseTool {
   type = ToolType.POLYLINE;
@@ -18,6 +30,8 @@ export class PolylineTool extends BaseTool {
   private keydownHandler: ((e: KeyboardEvent) => void) | null = null;
   private startSnap: { type: 'start' | 'end'; object: FabricObject } | null = null;
   private endSnap: { type: 'start' | 'end'; object: FabricObject } | null = null;
+  private pendingTraverse: PathShape | null = null;
+  private traversePreview: Path | null = null;
 
   protected setupEventListeners(): void {
     if (!this.canvas) return;
@@ -31,7 +45,11 @@ export class PolylineTool extends BaseTool {
 
     snapManager.setCanvas(this.canvas);
 
-    this.keydownHandler = (e: KeyboardEvent) => this.onKeyDown(e);
+    this.keydownHandler = (e: KeyboardEvent) => {
+      // Keys typed into a dialog (e.g. the bearings list) are not drawing commands
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      this.onKeyDown(e);
+    };
     window.addEventListener('keydown', this.keydownHandler);
   }
 
@@ -56,14 +74,28 @@ export class PolylineTool extends BaseTool {
 
   onMouseDown(point: Point, event: MouseEvent): void {
     if (event.button === 2) {
+      if (this.pendingTraverse) {
+        this.clearPendingTraverse();
+        return;
+      }
       this.finishDrawing();
       return;
     }
 
+    if (this.pendingTraverse) {
+      this.placePendingTraverse(point);
+      return;
+    }
+
     this.addPoint(point);
   }
 
   onMouseMove(point: Point, _event: MouseEvent): void {
+    if (this.pendingTraverse) {
+      this.updateTraversePreview(point);
+      return;
+    }
+
     // Show snap indicator even before drawing starts
     if (!this.drawing) {
       const snapResult = snapManager.findNearestEndpoint(point);
@@ -83,6 +115,10 @@ export class PolylineTool extends BaseTool {
 
   onTouchStart(point: TouchPoint): void {
     const fabricPoint = new Point(point.x, point.y);
+    if (this.pendingTraverse) {
+      this.placePendingTraverse(fabricPoint);
+      return;
+    }
     this.addPoint(fabricPoint);
 
     if (this.isMobile) {
@@ -115,7 +151,36 @@ export class PolylineTool extends BaseTool {
       this.finishDrawing();
     } else if (event.key === 'z' && (event.ctrlKey || event.metaKey)) {
       this.undoLastPoint();
+    } else if (event.key.toLowerCase() === 'b' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      // Stop the key from being typed into the dialog once it takes focus
+      event.preventDefault();
+      this.context?.openMetesAndBounds();
+    }
+  }
+
+  /**
+   * Add a boundary entered as bearings and distances. `shape` is in canvas
+   * pixels relative to its point of beginning. It continues from the last
+   * point of a line in progress, otherwise it is placed on the next click.
+   * Returns true when the boundary was drawn immediately.
+   */
+  placeTraverse(shape: PathShape): boolean {
+    if (!this.canvas) return false;
+    this.clearPendingTraverse();
+
+    if (this.drawing && this.points.length > 0) {
+      const origin = this.points[this.points.length - 1];
+      if (this.points.length >= 2) {
+        this.finishDrawing();
+      } else {
+        this.cancelDrawing();
+      }
+      this.addTraverse(placeTraverseShape(shape, 1, origin));
+      return true;
     }
+
+    this.pendingTraverse = shape;
+    return false;
   }
 
   onActionConfirm(): void {
@@ -327,8 +392,112 @@ export class PolylineTool extends BaseTool {
     this.resetState();
   }
 
+  private placePendingTraverse(point: Point): void {
+    if (!this.pendingTraverse) return;
+
+    const snapResult = snapManager.findNearestEndpoint(point);
+    const origin = snapResult.snapped ? snapResult.point : point;
+    const shape = placeTraverseShape(this.pendingTraverse, 1, origin);
+
+    this.clearPendingTraverse();
+    this.addTraverse(shape);
+  }
+
+  private updateTraversePreview(point: Point): void {
+    if (!this.canvas || !this.pendingTraverse) return;
+
+    const snapResult = snapManager.findNearestEndpoint(point);
+    const origin = snapResult.snapped ? snapResult.point : point;
+    if (snapResult.snapped && snapResult.snapPoint) {
+      this.updateSnapIndicator(snapResult.snapPoint.x, snapResult.snapPoint.y);
+    } else {
+      this.clearSnapIndicator();
+    }
+
+    if (this.traversePreview) {
+      this.canvas.remove(this.traversePreview);
+    }
+
+    this.traversePreview = new Path(buildPathString(placeTraverseShape(this.pendingTraverse, 1, origin)), {
+      stroke: this.config?.strokeColor ?? '#ffffff',
+      strokeWidth: this.config?.strokeWidth ?? 2,
+      strokeDashArray: [5, 5],
+      fill: 'transparent',
+      selectable: false,
+      evented: false,
+      opacity: 0.6
+    });
+    (this.traversePreview as any).isHelper = true;
+
+    this.canvas.add(this.traversePreview);
+    this.canvas.requestRenderAll();
+  }
+
+  private clearPendingTraverse(): void {
+    this.pendingTraverse = null;
+    if (this.traversePreview && this.canvas) {
+      this.canvas.remove(this.traversePreview);
+      this.canvas.requestRenderAll();
+    }
+    this.traversePreview = null;
+    this.clearSnapIndicator();
+  }
+
+  private addTraverse(shape: PathShape): void {
+    if (!this.canvas || shape.segments.length === 0) return;
+
+    const end = getPathEnd(shape);
+    const closed =
+      shape.segments.length >= 2 &&
+      Math.hypot(end.x - shape.start.x, end.y - shape.start.y) <= TRAVERSE_CLOSE_TOLERANCE;
+    const segments = closed ? this.snapLastSegmentTo(shape.segments, shape.start) : shape.segments;
+
+    const shapeOptions = {
+      stroke: this.config?.strokeColor ?? '#ffffff',
+      strokeWidth: this.config?.strokeWidth ?? 2,
+      strokeDashArray: this.config?.strokeDashed ? [8, 6] : [],
+      fill: 'transparent',
+      selectable: true,
+      evented: true
+    };
+
+    // Straight calls stay an editable polyline; curve calls need a cubic path
+    const isStraight = shape.segments.every((seg) => seg.cp1.eq(seg.end) && seg.cp2.eq(seg.end));
+    let boundary: FabricObject;
+    if (isStraight) {
+      const points = [shape.start, ...segments.map((seg) => seg.end)];
+      boundary = closed
+        ? new Polygon(points.slice(0, -1), shapeOptions)
+        : new Polyline(points, shapeOptions);
+    } else {
+      const pathData = buildPathString({ start: shape.start, segments }) + (closed ? ' Z' : '');
+      boundary = new Path(pathData, shapeOptions);
+    }
+
+    this.canvas.add(boundary);
+    this.canvas.requestRenderAll();
+  }
+
+  /**
+   * Move the final segment's end (and its trailing handle) onto `target`.
+   */
+  private snapLastSegmentTo(segments: PathSegment[], target: Point): PathSegment[] {
+    const last = segments[segments.length - 1];
+    const dx = target.x - last.end.x;
+    const dy = target.y - last.end.y;
+    return [
+      ...segments.slice(0, -1),
+      {
+        cp1: last.cp1.eq(last.end) ? target : last.cp1,
+        cp2: new Point(last.cp2.x + dx, last.cp2.y + dy),
+        end: target
+      }
+    ];
+  }
+
   private cancelDrawing(): void {
     this.clearTemporaryObjects();
+    this.clearPendingTraverse();
 
     // Remove committed lines too
     if (this.canvas) {
@@ -0,0 +1,222 @@
+import { Circle, Path, Polyline, Point } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { ToolType } from '@/types';
+import type { TouchPoint } from '@/types';
+import { BaseTool } from './BaseTool';
+import {
+  buildPathString,
+  copyCanvasObjectProps,
+  getObjectPathShape,
+  getStrokeStyle,
+  historyManager,
+  layerManager,
+  nearestPointOnPathShape,
+  splitPathShape
+} from '@/utils';
+import type { PathShape } from '@/utils';
+
+const CUT_COLOR = '#e53935';
+const MARKER_RADIUS = 5;
+// Screen pixels around a stroke, and around an anchor to cut exactly at it
+const HIT_TOLERANCE = 8;
+
+type CuttableObject = Path | Polyline;
+
+interface CutTarget {
+  object: CuttableObject;
+  shape: PathShape;
+  closed: boolean;
+  segmentIndex: number;
+  t: number;
+  point: Point;
+}
+
+/**
+ * Cuts a line or curve in two where it's clicked, at an anchor or anywhere
+ * along a segment. Closed shapes are opened at the cut instead. The pieces
+ * keep the original's style, layer, and attributes.
+ */
+export class ScissorsTool extends BaseTool {
+  type = ToolType.SCISSORS;
+  name = 'Scissors';
+  icon = 'scissors';
+
+  private marker: Circle | null = null;
+
+  protected setupEventListeners(): void {
+    if (!this.canvas) return;
+
+    this.canvas.selection = false;
+    this.canvas.skipTargetFind = true;
+    this.canvas.discardActiveObject();
+    this.canvas.forEachObject((obj) => {
+      obj.selectable = false;
+      obj.evented = false;
+    });
+  }
+
+  protected cleanupEventListeners(): void {
+    this.clearMarker();
+
+    if (this.canvas) {
+      this.canvas.selection = true;
+      this.canvas.skipTargetFind = false;
+      this.canvas.forEachObject((obj) => {
+        obj.selectable = true;
+        obj.evented = true;
+      });
+    }
+  }
+
+  onMouseDown(point: Point, event: MouseEvent): void {
+    if (event.button !== 0) return;
+    this.cutAt(point);
+  }
+
+  onMouseMove(point: Point, _event: MouseEvent): void {
+    this.showMarker(this.findCut(point));
+  }
+
+  onTouchStart(point: TouchPoint): void {
+    this.cutAt(new Point(point.x, point.y));
+  }
+
+  onKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      this.clearMarker();
+    }
+  }
+
+  cancel(): void {
+    this.clearMarker();
+    super.cancel();
+  }
+
+  private cutAt(point: Point): void {
+    if (!this.canvas) return;
+
+    const target = this.findCut(point);
+    if (!target) return;
+
+    const pieces = splitPathShape(target.shape, target.closed, target.segmentIndex, target.t);
+    if (!pieces) return;
+
+    const source = target.object;
+    const index = this.canvas.getObjects().indexOf(source);
+    const objects = pieces.map((shape, i) => this.createPiece(source, shape, target.closed, i === 0));
+
+    this.clearMarker();
+    this.canvas.remove(source);
+    this.canvas.insertAt(index, ...objects);
+    // Pieces stay out of reach like everything else while cutting
+    objects.forEach((obj) => {
+      obj.selectable = false;
+      obj.evented = false;
+    });
+
+    historyManager.saveState({ label: target.closed ? 'Opened shape' : 'Split path', objects });
+    this.canvas.requestRenderAll();
+  }
+
+  /**
+   * Find where a click at `point` would cut the topmost line or curve under
+   * it, snapped to an anchor when one is close.
+   */
+  private findCut(point: Point): CutTarget | null {
+    if (!this.canvas) return null;
+
+    const tolerance = HIT_TOLERANCE / this.canvas.getZoom();
+    const objects = this.canvas.getObjects();
+
+    for (let i = objects.length - 1; i >= 0; i--) {
+      const obj = objects[i];
+      if (!this.isCuttable(obj)) continue;
+
+      const outline = getObjectPathShape(obj);
+      if (!outline) continue;
+
+      const hit = nearestPointOnPathShape(outline.shape, point);
+      if (!hit || hit.distance > tolerance + (obj.strokeWidth ?? 0) / 2) continue;
+
+      const seg = outline.shape.segments[hit.segmentIndex];
+      const segStart = hit.segmentIndex === 0 ? outline.shape.start : outline.shape.segments[hit.segmentIndex - 1].end;
+      let { t, point: cutPoint } = hit;
+      if (cutPoint.distanceFrom(segStart) <= tolerance) {
+        t = 0;
+        cutPoint = segStart;
+      } else if (cutPoint.distanceFrom(seg.end) <= tolerance) {
+        t = 1;
+        cutPoint = seg.end;
+      }
+
+      return { object: obj, ...outline, segmentIndex: hit.segmentIndex, t, point: cutPoint };
+    }
+
+    return null;
+  }
+
+  private isCuttable(obj: FabricObject): obj is CuttableObject {
+    if (!(obj instanceof Path || obj instanceof Polyline)) return false;
+    if ((obj as any).isHelper || !layerManager.isObjectVisible(obj)) return false;
+    return !layerManager.getLayer(layerManager.getObjectLayerId(obj))?.locked;
+  }
+
+  private createPiece(source: CuttableObject, shape: PathShape, wasClosed: boolean, keepId: boolean): CuttableObject {
+    const options = {
+      ...getStrokeStyle(source),
+      // An opened shape has nothing left to fill
+      fill: wasClosed ? 'transparent' : source.fill,
+      selectable: true,
+      evented: true
+    };
+
+    const piece = source instanceof Polyline
+      ? new Polyline([shape.start, ...shape.segments.map((seg) => seg.end)], options)
+      : new Path(buildPathString(shape), options);
+
+    copyCanvasObjectProps(source, piece, keepId);
+    return piece;
+  }
+
+  private showMarker(target: CutTarget | null): void {
+    if (!this.canvas) return;
+
+    if (!target) {
+      this.clearMarker();
+      return;
+    }
+
+    const zoomScale = 1 / this.canvas.getZoom();
+    if (!this.marker) {
+      this.marker = new Circle({
+        fill: '#ffffff',
+        stroke: CUT_COLOR,
+        originX: 'center',
+        originY: 'center',
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+        excludeFromExport: true
+      });
+      (this.marker as any).isHelper = true;
+      this.canvas.add(this.marker);
+    }
+
+    this.marker.set({
+      left: target.point.x,
+      top: target.point.y,
+      radius: MARKER_RADIUS * zoomScale,
+      strokeWidth: 2 * zoomScale
+    });
+    this.canvas.bringObjectToFront(this.marker);
+    this.canvas.requestRenderAll();
+  }
+
+  private clearMarker(): void {
+    if (this.marker && this.canvas) {
+      this.canvas.remove(this.marker);
+      this.canvas.requestRenderAll();
+    }
+    this.marker = null;
+  }
+}
@@ -49,7 +49,7 @@ export class SelectionTool extends BaseTool {
         activeObjects.forEach((obj) => this.canvas!.remove(obj));
         this.canvas.discardActiveObject();
         this.canvas.requestRenderAll();
-        historyManager.saveState();
+        historyManager.saveState({ objects: activeObjects });
       }
     }
 
@@ -2,6 +2,7 @@ import type { Canvas, Point } from 'fabric';
 import type { ITool, ToolConfig, ToolContext, ToolType } from '@/types';
 import type { TouchPoint, ActionButtonMode } from '@/types';
 import { TOOL_DEFAULTS } from '@/constants';
+import { layerManager } from '@/utils';
 import { SelectionTool } from './SelectionTool';
 import { EditTool } from './EditTool';
 import { PanTool } from './PanTool';
@@ -12,6 +13,8 @@ import { TSplineTool } from './TSplineTool';
 import { RectangleTool } from './RectangleTool';
 import { EllipseTool } from './EllipseTool';
 import { TextTool } from './TextTool';
+import { MeasureTool } from './MeasureTool';
+import { ScissorsTool } from './ScissorsTool';
 
 type ToolEventType = 'tool:changed' | 'drawing:started' | 'drawing:ended';
 type ToolEventCallback = (tool: ITool) => void;
@@ -20,6 +23,7 @@ export interface ToolManagerCallbacks {
   showActionButton: (mode: ActionButtonMode) => void;
   hideActionButton: () => void;
   updateReticle: (x: number, y: number, visible: boolean) => void;
+  openMetesAndBounds: () => void;
 }
 
 export class ToolManager {
@@ -46,6 +50,8 @@ export class ToolManager {
     this.registerTool(new RectangleTool());
     this.registerTool(new EllipseTool());
     this.registerTool(new TextTool());
+    this.registerTool(new MeasureTool());
+    this.registerTool(new ScissorsTool());
   }
 
   setCanvas(canvas: Canvas): void {
@@ -70,10 +76,13 @@ export class ToolManager {
       isMobile: this.isMobile,
       showActionButton: this.callbacks.showActionButton,
       hideActionButton: this.callbacks.hideActionButton,
-      updateReticle: this.callbacks.updateReticle
+      updateReticle: this.callbacks.updateReticle,
+      openMetesAndBounds: this.callbacks.openMetesAndBounds
     };
 
     tool.activate(context);
+    // Tools reset every object's interactivity; keep locked and hidden layers out of reach
+    layerManager.applyToCanvas();
     this.activeTool = tool;
     this.emit('tool:changed', tool);
   }
@@ -100,7 +109,8 @@ export class ToolManager {
         isMobile: this.isMobile,
         showActionButton: this.callbacks.showActionButton,
         hideActionButton: this.callbacks.hideActionButton,
-        updateReticle: this.callbacks.updateReticle
+        updateReticle: this.callbacks.updateReticle,
+        openMetesAndBounds: this.callbacks.openMetesAndBounds
       };
       (this.activeTool as any).context = context;
     }
@@ -9,5 +9,7 @@ export { TSplineTool } from './TSplineTool';
 export { RectangleTool } from './RectangleTool';
 export { EllipseTool } from './EllipseTool';
 export { TextTool } from './TextTool';
+export { MeasureTool } from './MeasureTool';
+export { ScissorsTool } from './ScissorsTool';
 export { ToolManager } from './ToolManager';
 export type { ToolManagerCallbacks } from './ToolManager';
@@ -15,6 +15,56 @@ export interface CanvasState {
   isDirty: boolean;
 }
 
+export type MeasurementUnit = 'm' | 'km' | 'ft' | 'yd' | 'mi' | 'ch';
+
+export type AreaUnit = 'm2' | 'ha' | 'ac';
+
+/** Attributes stored on a drawn object and carried through GIS import/export */
+export type ObjectAttributes = Record<string, string | number | boolean | null>;
+
+/**
+ * Real-world scale of the locked base image, calibrated from a known distance.
+ * imageWidth/imageHeight record the base image size at calibration time so the
+ * scale can be adjusted if the image is later resized.
+ */
+export interface MapScale {
+  pixelsPerUnit: number;
+  unit: MeasurementUnit;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export type GeoTransformKind = 'affine' | 'helmert';
+
+/** Easting/northing in a projected system, or longitude/latitude in degrees */
+export type GeoCoordinateMode = 'projected' | 'geographic';
+
+export interface GeoControlPoint {
+  /** Position on the base image, in pixels from the locked region's top-left */
+  image: { x: number; y: number };
+  /** Easting/northing, or longitude/latitude for geographic coordinates */
+  world: { x: number; y: number };
+}
+
+/**
+ * Georeference of the locked base image, solved from control points.
+ * `coefficients` [a, b, c, d, e, f] map image pixels to the solving plane:
+ *   X = a·x + b·y + c,  Y = d·x + e·y + f
+ * For geographic coordinates the plane is a local tangent plane in metres
+ * centred on `origin`; for projected coordinates it is the world system itself.
+ */
+export interface GeoTransform {
+  kind: GeoTransformKind;
+  mode: GeoCoordinateMode;
+  coefficients: [number, number, number, number, number, number];
+  origin?: { lon: number; lat: number };
+  controlPoints: GeoControlPoint[];
+  /** Optional coordinate reference system label, e.g. EPSG:27700 */
+  crs?: string;
+  imageWidth: number;
+  imageHeight: number;
+}
+
 export interface LockedCanvasState {
   locked: boolean;
   width: number;
@@ -22,6 +72,44 @@ export interface LockedCanvasState {
   imageId: string | null;
   offsetX: number;
   offsetY: number;
+  scale?: MapScale | null;
+  georeference?: GeoTransform | null;
+}
+
+/**
+ * The original file a base map image was rendered from, kept on the image as
+ * `__elsSource` so it can be rendered again, e.g. a PDF page at a higher DPI.
+ */
+export interface ImageSourceRef {
+  /** SHA-256 of the original file, which is stored under this id */
+  id: string;
+  kind: 'image' | 'pdf';
+  name: string;
+  mimeType: string;
+  /** 1-based page of a PDF source */
+  page?: number;
+  /** Render scale of a PDF page, 1 = 72 DPI */
+  scale?: number;
+  grayscale?: boolean;
+}
+
+/**
+ * A named layer of drawn objects. Objects reference it by id through their
+ * `__elsLayer` property.
+ */
+export interface MapLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  /** 0-1, applied on top of each object's own opacity */
+  opacity: number;
+}
+
+export interface LayerState {
+  /** Bottom to top */
+  layers: MapLayer[];
+  activeLayerId: string;
 }
 
 export interface ViewportBounds {
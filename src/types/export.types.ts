@@ -2,14 +2,63 @@ export enum ExportFormat {
   PNG = 'png',
   JPEG = 'jpeg',
   PDF = 'pdf',
-  JSON = 'json'
+  JSON = 'json',
+  GEOJSON = 'geojson',
+  SVG = 'svg',
+  BUNDLE = 'elmap'
 }
 
+/** How objects are collected into top-level SVG groups (Illustrator/Inkscape layers) */
+export type SVGGrouping = 'none' | 'layer' | 'color';
+
+export type PaperSize = 'a4' | 'a3' | 'a2' | 'a1' | 'a0' | 'letter' | 'tabloid';
+
+export type PaperOrientation = 'portrait' | 'landscape';
+
 export interface ExportOptions {
   format: ExportFormat;
   quality?: number;
   scale?: number;
   backgroundColor?: string;
+  /** Maximum deviation in canvas pixels when flattening curves for vector formats */
+  flattenTolerance?: number;
+  /** Embed the base map image in vector output */
+  includeBaseMap?: boolean;
+  svgGrouping?: SVGGrouping;
+  paperSize?: PaperSize;
+  orientation?: PaperOrientation;
+  marginMm?: number;
+  /** Print at 1:N on paper; omitted or null fits the map to the page */
+  scaleDenominator?: number | null;
+}
+
+export type LayoutElementKind = 'map' | 'title' | 'legend' | 'northArrow' | 'scaleBar' | 'notes';
+
+/** A box on the layout sheet, in millimetres from the sheet's top-left corner */
+export interface LayoutElement {
+  kind: LayoutElementKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visible: boolean;
+}
+
+export interface PrintLayout {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  /** Print the map frame at 1:N; null fits the locked region to the frame */
+  scaleDenominator: number | null;
+  /** Resolution for PNG export and for the base map image in PDF export */
+  dpi: number;
+  title: string;
+  subtitle: string;
+  drawnBy: string;
+  date: string;
+  notes: string;
+  /** Null uses the legend placed on the map, or one built from the drawing's colors */
+  legend: import('@/components/controls/LegendModal').LegendConfig | null;
+  elements: LayoutElement[];
 }
 
 export interface ExportResult {
@@ -30,9 +79,92 @@ export interface ProjectData {
   version: string;
   canvas: object;
   lockState?: import('./canvas.types').LockedCanvasState;
+  scale?: import('./canvas.types').MapScale | null;
+  georeference?: import('./canvas.types').GeoTransform | null;
+  layers?: import('./canvas.types').LayerState | null;
+  layout?: PrintLayout | null;
   metadata: {
     createdAt: string;
     modifiedAt: string;
     name: string;
   };
 }
+
+/**
+ * An immutable copy of a project, written on every explicit save.
+ */
+export interface ProjectVersion {
+  id: string;
+  projectId: string;
+  /** Project name when the version was saved */
+  name: string;
+  comment?: string;
+  savedAt: number;
+  preview?: string;
+}
+
+/**
+ * A project file on disk opened or saved through the File System Access API.
+ * The handle lets it be opened again, or saved over, without a file picker.
+ */
+export interface RecentDiskFile {
+  id: string;
+  name: string;
+  openedAt: number;
+  handle: FileSystemFileHandle;
+}
+
+/**
+ * Space a saved project takes in browser storage, in bytes. Images shared
+ * through the blob store are counted under StorageReport.images instead.
+ */
+export interface ProjectStorageUsage {
+  id: string;
+  name: string;
+  projectBytes: number;
+  historyBytes: number;
+  versionsBytes: number;
+  versionCount: number;
+  /** Part of the above taken by preview images */
+  previewBytes: number;
+}
+
+export interface ImageStorageUsage {
+  hash: string;
+  mimeType: string;
+  bytes: number;
+  /** Names of the projects using the image, and "Autosave" */
+  usedBy: string[];
+}
+
+export interface StorageReport {
+  /** From navigator.storage.estimate(), when the browser supports it */
+  usage: number | null;
+  quota: number | null;
+  persisted: boolean | null;
+  autosaveBytes: number;
+  projects: ProjectStorageUsage[];
+  images: ImageStorageUsage[];
+  /** Original files kept for re-rendering base maps */
+  sourcesBytes: number;
+  /** Records as they were before being upgraded to a newer format */
+  backupsBytes: number;
+}
+
+/**
+ * `manifest.json` at the root of an `.elmap` bundle: a zip holding the scene
+ * as ProjectData, each distinct image once under `media/`, the original files
+ * images were rendered from, and a preview.
+ */
+export interface ProjectBundleManifest {
+  format: 'elmap';
+  version: number;
+  name: string;
+  createdAt: string;
+  /** Path of the ProjectData JSON, whose image sources point at media entries */
+  scene: string;
+  preview?: string;
+  media: Array<{ path: string; mimeType: string; size: number }>;
+  /** Original files, by the id images reference them with in `__elsSource` */
+  sources: Array<{ id: string; path: string; name: string; mimeType: string }>;
+}
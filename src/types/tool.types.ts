@@ -11,7 +11,9 @@ export enum ToolType {
   TSPLINE = 'tspline',
   RECTANGLE = 'rectangle',
   ELLIPSE = 'ellipse',
-  TEXT = 'text'
+  TEXT = 'text',
+  MEASURE = 'measure',
+  SCISSORS = 'scissors'
 }
 
 export interface ToolState {
@@ -37,6 +39,7 @@ export interface ToolContext {
   showActionButton: (mode: 'confirm' | 'cancel' | 'both') => void;
   hideActionButton: () => void;
   updateReticle: (x: number, y: number, visible: boolean) => void;
+  openMetesAndBounds: () => void;
 }
 
 export interface ITool {
@@ -1,41 +1,297 @@
+import { ActiveSelection, util } from 'fabric';
 import type { Canvas, FabricObject } from 'fabric';
 import type { LockedCanvasState } from '@/types';
-import { canvasLockManager } from '@/canvas';
+import { canvasLockManager, isExportableObject } from '@/canvas';
 import { applyPostLoadVisualState, restoreCanvasLockState, CANVAS_OBJECT_PROPS } from './canvasPersistence';
+import { layerManager } from './LayerManager';
+
+type ObjectJSON = Record<string, any>;
+
+type TrackedObject = FabricObject & { __elsId?: string };
+
+/**
+ * One change to a canvas object, keyed by its `__elsId`. Add and remove keep
+ * the object's position among the tracked objects so undo can put it back.
+ */
+export type HistoryOperation =
+  | { type: 'add'; id: string; index: number; json: ObjectJSON }
+  | { type: 'remove'; id: string; index: number; json: ObjectJSON }
+  | { type: 'modify'; id: string; before: ObjectJSON; after: ObjectJSON };
+
+export interface HistoryEntry {
+  /** Short description shown in the history panel, e.g. "Added polyline" */
+  label: string;
+  operations: HistoryOperation[];
+  /** Stacking order before and after, kept only when objects were reordered */
+  orderBefore?: string[];
+  orderAfter?: string[];
+  lockBefore: LockedCanvasState;
+  lockAfter: LockedCanvasState;
+  timestamp: number;
+  coalesceKey?: string;
+  /** Small preview of the canvas after large steps */
+  thumbnail?: string;
+  /** Set when the step is pinned as a checkpoint */
+  checkpointId?: string;
+}
 
-export interface HistoryState {
+/**
+ * A pinned state kept in full, so it can be restored after the steps leading
+ * to it have dropped off the end of the history.
+ */
+export interface HistoryCheckpoint {
+  id: string;
+  name: string;
+  createdAt: number;
+  thumbnail?: string;
   json: object;
+  lockState: LockedCanvasState;
+}
+
+/**
+ * A row of the history list. Position 0 is the state before the oldest kept
+ * step; position n is the state after step n.
+ */
+export interface HistoryStep {
+  position: number;
+  label: string;
   timestamp: number;
-  lockState?: LockedCanvasState;
+  thumbnail?: string;
+  checkpointName?: string;
+}
+
+/**
+ * History as stored next to a project, so undo survives reloads. `objectIds`
+ * is the stacking order of the canvas it was saved with; the entries only
+ * apply to that canvas.
+ */
+export interface PersistedHistory {
+  version: 1;
+  entries: HistoryEntry[];
+  position: number;
+  checkpoints: HistoryCheckpoint[];
+  objectIds: string[];
+}
+
+type HistoryChangeCallback = () => void;
+
+export interface SaveStateOptions {
+  /** Describe the step instead of deriving a label from what changed */
+  label?: string;
+  /**
+   * Fold this change into the previous step when both share the key, only
+   * modified the same objects and happened moments apart, e.g. arrow-key
+   * nudges or a drag followed by another drag.
+   */
+  coalesceKey?: string;
+  /**
+   * The objects the change touched, when the caller knows them. Only these
+   * are serialized again and the rest keep their committed state; objects
+   * added or removed since the last save are picked up either way.
+   */
+  objects?: FabricObject[];
+}
+
+interface ObjectRecord {
+  json: ObjectJSON;
+  /** Serialized properties for comparison, without the image source */
+  key: string;
+  src?: unknown;
+}
+
+interface CanvasSnapshot {
+  records: Map<string, ObjectRecord>;
+  order: string[];
+  lock: LockedCanvasState;
+  lockKey: string;
+}
+
+const MAX_HISTORY_SIZE = 2000;
+const COALESCE_WINDOW_MS = 1000;
+// Steps touching at least this many objects, or any image, get a thumbnail
+const THUMBNAIL_MIN_OBJECTS = 5;
+const THUMBNAIL_WIDTH = 96;
+// Default budget for history stored with a project
+const MAX_PERSISTED_HISTORY_BYTES = 16 * 1024 * 1024;
+
+// Properties set() can't apply to a live object; changing them rebuilds it
+const REBUILD_PROPS = new Set(['type', 'path', 'points', 'src', 'objects', 'filters', 'resizeFilter', 'clipPath']);
+
+function createObjectId(): string {
+  return `obj_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function createRecord(json: ObjectJSON): ObjectRecord {
+  // Base map images carry their pixels as a data URL; compare it by identity
+  // instead of re-serializing megabytes on every change
+  const { src, ...rest } = json;
+  return { json, key: JSON.stringify(rest), src };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getChangedProps(from: ObjectJSON, to: ObjectJSON): ObjectJSON {
+  const changed: ObjectJSON = {};
+  new Set([...Object.keys(from), ...Object.keys(to)]).forEach((key) => {
+    if (!isSameValue(from[key], to[key])) changed[key] = to[key];
+  });
+  return changed;
+}
+
+function needsRebuild(from: ObjectJSON, to: ObjectJSON): boolean {
+  return Object.entries(getChangedProps(from, to)).some(
+    ([key, value]) =>
+      REBUILD_PROPS.has(key) ||
+      (value !== null && typeof value === 'object' && !Array.isArray(value)) ||
+      (from[key] !== null && typeof from[key] === 'object' && !Array.isArray(from[key]))
+  );
+}
+
+// Serialized entry sizes, so repeated saves don't re-measure old steps
+const entrySizes = new WeakMap<HistoryEntry, number>();
+
+function getEntrySize(entry: HistoryEntry): number {
+  let size = entrySizes.get(entry);
+  if (size === undefined) {
+    size = JSON.stringify(entry).length;
+    entrySizes.set(entry, size);
+  }
+  return size;
+}
+
+function isPersistedHistory(value: unknown): value is PersistedHistory {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as PersistedHistory;
+  return (
+    data.version === 1 &&
+    Array.isArray(data.entries) &&
+    Array.isArray(data.checkpoints) &&
+    Array.isArray(data.objectIds) &&
+    typeof data.position === 'number'
+  );
+}
+
+function isImageJSON(json: ObjectJSON): boolean {
+  return String(json.type).toLowerCase() === 'image';
 }
 
+const OBJECT_NAMES: Record<string, [string, string]> = {
+  polyline: ['polyline', 'polylines'],
+  path: ['curve', 'curves'],
+  line: ['line', 'lines'],
+  rect: ['rectangle', 'rectangles'],
+  ellipse: ['ellipse', 'ellipses'],
+  circle: ['circle', 'circles'],
+  text: ['label', 'labels'],
+  'i-text': ['label', 'labels'],
+  itext: ['label', 'labels'],
+  textbox: ['label', 'labels'],
+  image: ['image', 'images'],
+  group: ['group', 'groups']
+};
+
+function describeObjects(objects: ObjectJSON[]): string {
+  const names = objects.map((json) =>
+    json.__elsLegend ? ['legend', 'legends'] : OBJECT_NAMES[String(json.type).toLowerCase()] ?? ['object', 'objects']
+  );
+  if (names.length === 1) return names[0][0];
+  const plural = names.every((name) => name[0] === names[0][0]) ? names[0][1] : 'objects';
+  return `${names.length} ${plural}`;
+}
+
+const PROPERTY_LABELS: Array<[string[], string]> = [
+  [['stroke'], 'Changed stroke color'],
+  [['fill'], 'Changed fill color'],
+  [['strokeWidth'], 'Changed stroke width'],
+  [['strokeDashArray'], 'Changed line style'],
+  [['fontSize', 'fontFamily'], 'Changed font'],
+  [['text'], 'Edited text'],
+  [['path', 'points'], 'Edited shape'],
+  [['__elsAttributes'], 'Edited attributes'],
+  [['__elsLayer'], 'Moved to layer'],
+  [['__elsLocked'], 'Changed image lock']
+];
+
+const TRANSFORM_PROPS = new Set(['left', 'top']);
+
+function describeLockChange(before: LockedCanvasState, after: LockedCanvasState): string {
+  if (before.locked !== after.locked) return after.locked ? 'Locked canvas to image' : 'Unlocked canvas';
+  if (JSON.stringify(before.georeference) !== JSON.stringify(after.georeference)) return 'Georeferenced map';
+  if (JSON.stringify(before.scale) !== JSON.stringify(after.scale)) return 'Calibrated scale';
+  return 'Changed canvas lock';
+}
+
+/**
+ * Derive a label such as "Added polyline" or "Moved 3 rectangles" from what a
+ * step changed.
+ */
+function describeEntry(entry: Omit<HistoryEntry, 'label'>): string {
+  const added = entry.operations.filter((op) => op.type === 'add').map((op) => op.json);
+  const removed = entry.operations.filter((op) => op.type === 'remove').map((op) => op.json);
+  const modified = entry.operations.filter(
+    (op): op is Extract<HistoryOperation, { type: 'modify' }> => op.type === 'modify'
+  );
+
+  if (added.length > 0 && removed.length > 0) return `Edited ${describeObjects(removed)}`;
+  if (added.length > 0) return `Added ${describeObjects(added)}`;
+  if (removed.length > 0) return `Deleted ${describeObjects(removed)}`;
+
+  if (modified.length > 0) {
+    const changed = new Set(modified.flatMap((op) => Object.keys(getChangedProps(op.before, op.after))));
+    const subject = describeObjects(modified.map((op) => op.after));
+    const property = PROPERTY_LABELS.find(([keys]) => keys.some((key) => changed.has(key)));
+    if (property) return property[1];
+    if ([...changed].every((key) => TRANSFORM_PROPS.has(key))) return `Moved ${subject}`;
+    return `Transformed ${subject}`;
+  }
+
+  if (entry.orderAfter) return 'Reordered objects';
+  return describeLockChange(entry.lockBefore, entry.lockAfter);
+}
+
+/**
+ * Undo history as a list of per-object changes. Each save compares the canvas
+ * with the last committed state and records only the objects that were added,
+ * removed or modified, so undo and redo touch just those objects and thousands
+ * of steps fit in memory. Saves that know which objects changed, including the
+ * ones triggered by canvas events, only serialize those.
+ */
 export class HistoryManager {
   private canvas: Canvas | null = null;
-  private history: HistoryState[] = [];
-  private currentIndex: number = -1;
-  private maxHistorySize: number = 50;
+  private history: HistoryEntry[] = [];
+  /** Number of entries currently applied; entries after it can be redone */
+  private position: number = 0;
+  private committed: CanvasSnapshot | null = null;
+  private maxHistorySize: number = MAX_HISTORY_SIZE;
   private isDirty: boolean = false;
   private isRestoring: boolean = false;
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pendingCoalesceKey: string | undefined;
+  /** Targets of the events since the last save, or null when one had none */
+  private pendingObjects: Set<FabricObject> | null = new Set();
+  private checkpoints: HistoryCheckpoint[] = [];
+  private listeners: Set<HistoryChangeCallback> = new Set();
 
   private readonly handleObjectAdded = (event: { target?: FabricObject }): void => {
     if (this.shouldTrack(event?.target)) {
       this.markDirty();
-      this.scheduleSave();
+      this.scheduleSave(event?.target);
     }
   };
 
   private readonly handleObjectModified = (event: { target?: FabricObject }): void => {
     if (this.shouldTrack(event?.target)) {
       this.markDirty();
-      this.scheduleSave();
+      this.scheduleSave(event?.target, 'transform');
     }
   };
 
   private readonly handleObjectRemoved = (event: { target?: FabricObject }): void => {
     if (this.shouldTrack(event?.target)) {
       this.markDirty();
-      this.scheduleSave();
+      this.scheduleSave(event?.target);
     }
   };
 
@@ -49,10 +305,9 @@ export class HistoryManager {
     this.canvas = canvas;
     this.attachCanvasListeners();
     this.clear();
-    this.saveState();
   }
 
-  saveState(): void {
+  saveState(options: SaveStateOptions = {}): void {
     if (!this.canvas || this.isRestoring) return;
 
     // A direct save supersedes any pending debounced save, so we never push the
@@ -62,44 +317,51 @@ export class HistoryManager {
       this.saveTimeout = null;
     }
 
-    // Serialize entire canvas state
-    const json = this.canvas.toObject([...CANVAS_OBJECT_PROPS]);
+    const next = this.capture(this.takeTouchedObjects(options.objects));
+    const previous = this.committed;
+    this.committed = next;
+    if (!previous) return;
 
-    // Skip no-op saves: if the canvas is identical to the current state there is
-    // nothing new to undo to.
-    const current = this.history[this.currentIndex];
-    if (current && JSON.stringify(current.json) === JSON.stringify(json)) {
-      return;
-    }
+    // Skip no-op saves: nothing changed, so there is nothing new to undo to
+    const entry = this.diff(previous, next, options);
+    if (!entry) return;
 
     // Remove any redo history if we're in the middle
-    if (this.currentIndex < this.history.length - 1) {
-      this.history = this.history.slice(0, this.currentIndex + 1);
+    if (this.position < this.history.length) {
+      this.history = this.history.slice(0, this.position);
     }
 
-    this.history.push({
-      json,
-      timestamp: Date.now(),
-      lockState: canvasLockManager.getLockedState()
-    });
+    const last = this.history[this.history.length - 1];
+    if (last && this.canCoalesce(last, entry)) {
+      this.history[this.history.length - 1] = this.coalesce(last, entry);
+      this.position = this.history.length;
+      this.notifyListeners();
+      return;
+    }
+
+    if (this.isLargeEntry(entry)) {
+      entry.thumbnail = this.createThumbnail();
+    }
+    this.history.push(entry);
 
-    // Limit history size
+    // Limit history size; pinned checkpoints keep their own copy of the canvas
     if (this.history.length > this.maxHistorySize) {
-      const overflow = this.history.length - this.maxHistorySize;
-      this.history.splice(0, overflow);
+      this.history.splice(0, this.history.length - this.maxHistorySize);
     }
 
-    this.currentIndex = this.history.length - 1;
+    this.position = this.history.length;
+    this.notifyListeners();
   }
 
   async undo(): Promise<boolean> {
-    if (!this.canvas || this.currentIndex <= 0) return false;
+    if (!this.canvas || this.position <= 0) return false;
 
-    this.currentIndex -= 1;
-    const state = this.history[this.currentIndex];
-    if (!state) return false;
+    const entry = this.history[this.position - 1];
+    if (!entry) return false;
 
-    await this.restoreState(state);
+    this.position -= 1;
+    await this.applyEntry(entry, 'undo');
+    this.notifyListeners();
     return true;
   }
 
@@ -107,64 +369,547 @@ export class HistoryManager {
     if (!this.canvas) return false;
 
     // Can only redo if we're behind the latest state
-    if (this.currentIndex >= this.history.length - 1) return false;
+    if (this.position >= this.history.length) return false;
+
+    const entry = this.history[this.position];
+    if (!entry) return false;
+
+    this.position += 1;
+    await this.applyEntry(entry, 'redo');
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Undo or redo until the canvas is at `position` (see HistoryStep).
+   */
+  async goTo(position: number): Promise<void> {
+    const target = Math.min(Math.max(position, 0), this.history.length);
+    while (this.position > target && (await this.undo()));
+    while (this.position < target && (await this.redo()));
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getSteps(): HistoryStep[] {
+    const first = this.history[0];
+    const steps: HistoryStep[] = [
+      { position: 0, label: 'Start', timestamp: first ? first.timestamp : Date.now() }
+    ];
+    this.history.forEach((entry, index) => {
+      steps.push({
+        position: index + 1,
+        label: entry.label,
+        timestamp: entry.timestamp,
+        thumbnail: entry.thumbnail,
+        checkpointName: this.checkpoints.find((c) => c.id === entry.checkpointId)?.name
+      });
+    });
+    return steps;
+  }
+
+  getCheckpoints(): HistoryCheckpoint[] {
+    return [...this.checkpoints];
+  }
+
+  /**
+   * Pin the state at `position` as a named checkpoint. The canvas briefly
+   * jumps there to capture it and then returns.
+   */
+  async pinCheckpoint(position: number, name: string): Promise<HistoryCheckpoint | null> {
+    if (!this.canvas) return null;
+    const canvas = this.canvas;
+    const current = this.position;
+
+    await this.goTo(position);
+    const checkpoint: HistoryCheckpoint = {
+      id: `checkpoint_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      createdAt: Date.now(),
+      thumbnail: this.createThumbnail(),
+      json: canvas.toObject([...CANVAS_OBJECT_PROPS]),
+      lockState: canvasLockManager.getLockedState()
+    };
+    const entry = this.history[this.position - 1];
+    if (entry) entry.checkpointId = checkpoint.id;
+    await this.goTo(current);
+
+    this.checkpoints.push(checkpoint);
+    this.notifyListeners();
+    return checkpoint;
+  }
+
+  renameCheckpoint(id: string, name: string): void {
+    const checkpoint = this.checkpoints.find((c) => c.id === id);
+    if (!checkpoint || checkpoint.name === name) return;
+    checkpoint.name = name;
+    this.notifyListeners();
+  }
+
+  removeCheckpoint(id: string): void {
+    this.checkpoints = this.checkpoints.filter((c) => c.id !== id);
+    this.history.forEach((entry) => {
+      if (entry.checkpointId === id) delete entry.checkpointId;
+    });
+    this.notifyListeners();
+  }
+
+  /**
+   * Bring back a checkpoint's canvas as a new, undoable step.
+   */
+  async restoreCheckpoint(id: string): Promise<boolean> {
+    const checkpoint = this.checkpoints.find((c) => c.id === id);
+    if (!checkpoint) return false;
+    return this.replaceCanvas(checkpoint.json, checkpoint.lockState, `Restored "${checkpoint.name}"`);
+  }
+
+  /**
+   * Load saved canvas JSON as a single undoable step, e.g. a checkpoint or an
+   * earlier version of the project. `onLoaded` runs before the step is
+   * recorded, for state that travels with the canvas such as its layers.
+   */
+  async replaceCanvas(
+    json: object,
+    lockState: LockedCanvasState | null,
+    label: string,
+    onLoaded?: () => void
+  ): Promise<boolean> {
+    if (!this.canvas) return false;
 
-    this.currentIndex += 1;
-    const state = this.history[this.currentIndex];
-    if (!state) return false;
+    this.isRestoring = true;
+    try {
+      await this.canvas.loadFromJSON(json);
+      applyPostLoadVisualState(this.canvas);
+      restoreCanvasLockState(this.canvas, lockState);
+      onLoaded?.();
+      layerManager.applyToCanvas();
+    } catch (error) {
+      console.error('Failed to replace canvas:', error);
+      return false;
+    } finally {
+      this.isRestoring = false;
+    }
 
-    await this.restoreState(state);
+    this.markDirty();
+    this.saveState({ label });
     return true;
   }
 
+  subscribe(callback: HistoryChangeCallback): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
   canUndo(): boolean {
-    return this.currentIndex > 0;
+    return this.position > 0;
   }
 
   canRedo(): boolean {
-    return this.currentIndex < this.history.length - 1;
+    return this.position < this.history.length;
   }
 
+  /**
+   * Drop all history and treat the canvas as it is now as the starting point,
+   * e.g. after loading a project.
+   */
   clear(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    this.pendingObjects = new Set();
     this.history = [];
-    this.currentIndex = -1;
+    this.position = 0;
+    this.checkpoints = [];
+    this.committed = this.canvas ? this.capture() : null;
     this.isDirty = false;
+    this.notifyListeners();
   }
 
-  private async restoreState(state: HistoryState): Promise<void> {
+  /**
+   * The history for storing with the project, trimmed to about `maxBytes`.
+   * Checkpoints are always kept; the oldest undo steps go first, then redo
+   * steps from the far end.
+   */
+  getPersistedState(maxBytes: number = MAX_PERSISTED_HISTORY_BYTES): PersistedHistory | null {
+    if (!this.canvas) return null;
+    // Flush a pending save so the stored steps match the stored canvas
+    this.saveState();
+    if (!this.committed) return null;
+
+    let start = 0;
+    let end = this.history.length;
+    let size = this.checkpoints.reduce((total, c) => total + JSON.stringify(c).length, 0);
+    size += this.history.reduce((total, entry) => total + getEntrySize(entry), 0);
+
+    while (size > maxBytes && start < this.position) {
+      size -= getEntrySize(this.history[start]);
+      start += 1;
+    }
+    while (size > maxBytes && end > this.position) {
+      end -= 1;
+      size -= getEntrySize(this.history[end]);
+    }
+
+    return {
+      version: 1,
+      entries: this.history.slice(start, end),
+      position: this.position - start,
+      checkpoints: [...this.checkpoints],
+      objectIds: [...this.committed.order]
+    };
+  }
+
+  /**
+   * Bring back history saved with `getPersistedState` after the project's canvas has
+   * been loaded. Steps are dropped if the canvas no longer matches the one
+   * they were saved with; checkpoints hold full copies and are always kept.
+   * Returns whether the steps were restored.
+   */
+  restore(data: unknown): boolean {
+    this.clear();
+    if (!isPersistedHistory(data) || !this.committed) return false;
+
+    this.checkpoints = [...data.checkpoints];
+    const order = this.committed.order;
+    const matches =
+      data.objectIds.length === order.length && data.objectIds.every((id, index) => id === order[index]);
+
+    if (matches) {
+      this.history = [...data.entries];
+      this.position = Math.min(Math.max(data.position, 0), this.history.length);
+    }
+
+    this.notifyListeners();
+    return matches;
+  }
+
+  markDirty(): void {
+    this.isDirty = true;
+  }
+
+  getIsDirty(): boolean {
+    return this.isDirty;
+  }
+
+  markClean(): void {
+    this.isDirty = false;
+  }
+
+  private async applyEntry(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<void> {
     if (!this.canvas) return;
+    const canvas = this.canvas;
+    const undo = direction === 'undo';
+
+    const removals = entry.operations.filter((op) => op.type === (undo ? 'add' : 'remove'));
+    const inserts = entry.operations
+      .filter((op): op is Extract<HistoryOperation, { type: 'add' | 'remove' }> => op.type === (undo ? 'remove' : 'add'))
+      .sort((a, b) => a.index - b.index);
+    const modifications = entry.operations.filter(
+      (op): op is Extract<HistoryOperation, { type: 'modify' }> => op.type === 'modify'
+    );
 
     this.isRestoring = true;
     try {
-      await this.canvas.loadFromJSON(state.json);
-      if (this.canvas) {
-        applyPostLoadVisualState(this.canvas);
-        restoreCanvasLockState(this.canvas, state.lockState ?? null);
+      const objects = this.getObjectsById();
+      const rebuilds = modifications.filter((op) => {
+        const from = undo ? op.after : op.before;
+        const to = undo ? op.before : op.after;
+        return !objects.has(op.id) || needsRebuild(from, to);
+      });
+
+      // Build everything that needs enlivening before touching the canvas, so
+      // it never shows a half-applied step
+      const enlivened = await util.enlivenObjects<FabricObject>([
+        ...inserts.map((op) => op.json),
+        ...rebuilds.map((op) => (undo ? op.before : op.after))
+      ]);
+
+      canvas.discardActiveObject();
+
+      removals.forEach((op) => {
+        const obj = objects.get(op.id);
+        if (obj) canvas.remove(obj);
+      });
+
+      modifications.forEach((op) => {
+        const obj = objects.get(op.id);
+        const rebuildIndex = rebuilds.indexOf(op);
+        if (rebuildIndex >= 0) {
+          const replacement = enlivened[inserts.length + rebuildIndex];
+          if (obj) {
+            const index = canvas.getObjects().indexOf(obj);
+            canvas.remove(obj);
+            canvas.insertAt(index, replacement);
+          } else {
+            canvas.add(replacement);
+          }
+          return;
+        }
+
+        obj?.set(getChangedProps(undo ? op.after : op.before, undo ? op.before : op.after));
+        obj?.setCoords();
+      });
+
+      inserts.forEach((op, i) => this.insertAtTrackedIndex(enlivened[i], op.index));
+
+      const order = undo ? entry.orderBefore : entry.orderAfter;
+      if (order) this.applyOrder(order);
+
+      const lock = undo ? entry.lockBefore : entry.lockAfter;
+      const touchesImage = entry.operations.some((op) =>
+        op.type === 'modify' ? isImageJSON(op.before) || isImageJSON(op.after) : isImageJSON(op.json)
+      );
+      applyPostLoadVisualState(canvas);
+      if (touchesImage || JSON.stringify(entry.lockBefore) !== JSON.stringify(entry.lockAfter)) {
+        restoreCanvasLockState(canvas, lock);
       }
+      // Entries hold each object's layer but not the layers themselves, which
+      // may have changed since
+      layerManager.applyToCanvas();
+
+      this.recommit(entry, lock);
     } catch (error) {
       console.error('Failed to restore canvas state:', error);
+      // Fall back to whatever is on the canvas now as the committed state
+      this.committed = this.capture();
     } finally {
       this.isRestoring = false;
     }
   }
 
-  markDirty(): void {
-    this.isDirty = true;
+  /**
+   * Update the committed state for the objects an entry touched, without
+   * re-serializing the rest of the canvas.
+   */
+  private recommit(entry: HistoryEntry, lock: LockedCanvasState): void {
+    if (!this.committed) return;
+    const objects = this.getObjectsById();
+    entry.operations.forEach((op) => {
+      const obj = objects.get(op.id);
+      if (obj) {
+        this.committed!.records.set(op.id, createRecord(this.serialize(obj)));
+      } else {
+        this.committed!.records.delete(op.id);
+      }
+    });
+    this.committed.order = Array.from(objects.keys());
+    this.committed.lock = lock;
+    this.committed.lockKey = JSON.stringify(lock);
   }
 
-  getIsDirty(): boolean {
-    return this.isDirty;
+  /**
+   * Snapshot the canvas. With `touched`, every other object that was already
+   * committed keeps its record instead of being serialized again.
+   */
+  private capture(touched: Set<FabricObject> | null = null): CanvasSnapshot {
+    const committed = touched ? this.committed?.records : undefined;
+    const records = new Map<string, ObjectRecord>();
+    this.getTrackedObjects().forEach((obj) => {
+      // Copies made with clone() share the original's id; give them their own
+      if (!obj.__elsId || records.has(obj.__elsId)) {
+        obj.__elsId = createObjectId();
+      }
+      const record = touched?.has(obj) ? undefined : committed?.get(obj.__elsId);
+      records.set(obj.__elsId, record ?? createRecord(this.serialize(obj)));
+    });
+
+    const lock = canvasLockManager.getLockedState();
+    return { records, order: Array.from(records.keys()), lock, lockKey: JSON.stringify(lock) };
   }
 
-  markClean(): void {
-    this.isDirty = false;
+  private diff(previous: CanvasSnapshot, next: CanvasSnapshot, options: SaveStateOptions): HistoryEntry | null {
+    const operations: HistoryOperation[] = [];
+
+    previous.order.forEach((id, index) => {
+      if (!next.records.has(id)) {
+        operations.push({ type: 'remove', id, index, json: previous.records.get(id)!.json });
+      }
+    });
+
+    next.order.forEach((id, index) => {
+      const after = next.records.get(id)!;
+      const before = previous.records.get(id);
+      if (!before) {
+        operations.push({ type: 'add', id, index, json: after.json });
+      } else if (before.key !== after.key || before.src !== after.src) {
+        operations.push({ type: 'modify', id, before: before.json, after: after.json });
+      }
+    });
+
+    // Adds and removes restore their own positions; only keep the full order
+    // when objects that exist on both sides were restacked
+    const kept = previous.order.filter((id) => next.records.has(id));
+    const reordered = next.order.filter((id) => previous.records.has(id)).some((id, i) => id !== kept[i]);
+
+    if (operations.length === 0 && !reordered && previous.lockKey === next.lockKey) {
+      return null;
+    }
+
+    const entry = {
+      operations,
+      ...(reordered ? { orderBefore: previous.order, orderAfter: next.order } : {}),
+      lockBefore: previous.lock,
+      lockAfter: next.lock,
+      timestamp: Date.now(),
+      coalesceKey: options.coalesceKey
+    };
+    return { ...entry, label: options.label ?? describeEntry(entry) };
   }
 
-  private scheduleSave(): void {
-    if (this.saveTimeout || this.isRestoring) return;
+  private canCoalesce(previous: HistoryEntry, entry: HistoryEntry): boolean {
+    if (!entry.coalesceKey || previous.coalesceKey !== entry.coalesceKey) return false;
+    if (previous.checkpointId) return false;
+    if (entry.timestamp - previous.timestamp > COALESCE_WINDOW_MS) return false;
+    if (previous.orderAfter || entry.orderAfter) return false;
+
+    const isModifyOnly = (e: HistoryEntry) => e.operations.every((op) => op.type === 'modify');
+    if (!isModifyOnly(previous) || !isModifyOnly(entry)) return false;
+
+    const ids = new Set(previous.operations.map((op) => op.id));
+    return entry.operations.length === ids.size && entry.operations.every((op) => ids.has(op.id));
+  }
+
+  private coalesce(previous: HistoryEntry, entry: HistoryEntry): HistoryEntry {
+    const after = new Map(entry.operations.map((op) => [op.id, op]));
+    return {
+      ...entry,
+      operations: previous.operations.map((op) => {
+        const next = after.get(op.id);
+        return op.type === 'modify' && next?.type === 'modify' ? { ...op, after: next.after } : op;
+      }),
+      label: previous.label,
+      lockBefore: previous.lockBefore
+    };
+  }
+
+  private isLargeEntry(entry: HistoryEntry): boolean {
+    return (
+      entry.operations.length >= THUMBNAIL_MIN_OBJECTS ||
+      entry.operations.some((op) => op.type !== 'modify' && isImageJSON(op.json))
+    );
+  }
+
+  private createThumbnail(): string | undefined {
+    if (!this.canvas) return undefined;
+    try {
+      return this.canvas.toDataURL({
+        format: 'jpeg',
+        quality: 0.6,
+        multiplier: THUMBNAIL_WIDTH / Math.max(this.canvas.getWidth(), 1),
+        filter: isExportableObject
+      });
+    } catch {
+      return undefined;
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((callback) => callback());
+  }
+
+  /**
+   * Objects to serialize for a save: the caller's and those of the events
+   * since the last save, or null to compare the whole canvas when either is
+   * unknown.
+   */
+  private takeTouchedObjects(objects?: FabricObject[]): Set<FabricObject> | null {
+    const pending = this.pendingObjects;
+    this.pendingObjects = new Set();
+    if (!objects || !pending) return null;
+    objects.forEach((obj) => this.addTouchedObject(pending, obj));
+    return pending;
+  }
+
+  private addTouchedObject(touched: Set<FabricObject>, obj: FabricObject): void {
+    if (obj instanceof ActiveSelection) {
+      obj.getObjects().forEach((member) => touched.add(member));
+    } else {
+      touched.add(obj);
+    }
+  }
+
+  /**
+   * Objects inside an active selection are stored at their real position
+   * rather than relative to the selection, as the canvas itself saves them.
+   */
+  private serialize(obj: FabricObject): ObjectJSON {
+    const selection = obj.group;
+    if (!(selection instanceof ActiveSelection)) {
+      return obj.toObject([...CANVAS_OBJECT_PROPS]);
+    }
+
+    const { left, top, angle, scaleX, scaleY, skewX, skewY, flipX, flipY } = obj;
+    util.addTransformToObject(obj, selection.calcOwnMatrix());
+    try {
+      return obj.toObject([...CANVAS_OBJECT_PROPS]);
+    } finally {
+      obj.set({ left, top, angle, scaleX, scaleY, skewX, skewY, flipX, flipY });
+    }
+  }
+
+  private getTrackedObjects(): TrackedObject[] {
+    return (this.canvas?.getObjects() ?? []).filter((obj) => isExportableObject(obj)) as TrackedObject[];
+  }
+
+  private getObjectsById(): Map<string, TrackedObject> {
+    const objects = new Map<string, TrackedObject>();
+    this.getTrackedObjects().forEach((obj) => {
+      if (obj.__elsId && !objects.has(obj.__elsId)) objects.set(obj.__elsId, obj);
+    });
+    return objects;
+  }
+
+  private insertAtTrackedIndex(obj: FabricObject, index: number): void {
+    if (!this.canvas) return;
+    const anchor = this.getTrackedObjects()[index];
+    if (anchor) {
+      this.canvas.insertAt(this.canvas.getObjects().indexOf(anchor), obj);
+    } else {
+      this.canvas.add(obj);
+    }
+  }
+
+  /**
+   * Restack tracked objects to match `order`, leaving helpers where they are.
+   */
+  private applyOrder(order: string[]): void {
+    if (!this.canvas) return;
+    const canvas = this.canvas;
+    const rank = new Map(order.map((id, index) => [id, index]));
+    const objects = canvas.getObjects();
+    const slots: number[] = [];
+    const tracked: TrackedObject[] = [];
+    objects.forEach((obj, index) => {
+      if (!isExportableObject(obj)) return;
+      slots.push(index);
+      tracked.push(obj as TrackedObject);
+    });
+
+    tracked
+      .sort((a, b) => (rank.get(a.__elsId ?? '') ?? Infinity) - (rank.get(b.__elsId ?? '') ?? Infinity))
+      .forEach((obj, i) => canvas.moveObjectTo(obj, slots[i]));
+  }
+
+  private scheduleSave(target: FabricObject | undefined, coalesceKey?: string): void {
+    if (this.isRestoring) return;
+    if (!target) {
+      this.pendingObjects = null;
+    } else if (this.pendingObjects) {
+      this.addTouchedObject(this.pendingObjects, target);
+    }
+
+    if (this.saveTimeout) {
+      // Only keep the key when every change in this batch asked for it
+      if (this.pendingCoalesceKey !== coalesceKey) this.pendingCoalesceKey = undefined;
+      return;
+    }
+    this.pendingCoalesceKey = coalesceKey;
     this.saveTimeout = setTimeout(() => {
       this.saveTimeout = null;
-      this.saveState();
+      this.saveState({ coalesceKey: this.pendingCoalesceKey, objects: [] });
     }, 0);
   }
 
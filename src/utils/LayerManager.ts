@@ -0,0 +1,332 @@
+import type { Canvas, FabricObject } from 'fabric';
+import type { LayerState, MapLayer } from '@/types';
+import { canvasLockManager } from '@/canvas';
+
+type LayerChangeCallback = (state: LayerState) => void;
+
+type LayeredObject = FabricObject & { __elsLayer?: string; isHelper?: boolean };
+
+/**
+ * Base map and boundaries layers for new projects and for files saved before
+ * layers existed.
+ */
+export function createDefaultLayerState(): LayerState {
+  return {
+    layers: [
+      { id: 'base-map', name: 'Base map', visible: true, locked: false, opacity: 1 },
+      { id: 'boundaries', name: 'Boundaries', visible: true, locked: false, opacity: 1 }
+    ],
+    activeLayerId: 'boundaries'
+  };
+}
+
+export function isValidLayerState(value: unknown): value is LayerState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as LayerState;
+  return (
+    Array.isArray(state.layers) &&
+    state.layers.length > 0 &&
+    state.layers.every(
+      (layer) =>
+        layer &&
+        typeof layer.id === 'string' &&
+        typeof layer.name === 'string' &&
+        typeof layer.visible === 'boolean' &&
+        typeof layer.locked === 'boolean' &&
+        typeof layer.opacity === 'number' &&
+        Number.isFinite(layer.opacity)
+    ) &&
+    state.layers.some((layer) => layer.id === state.activeLayerId)
+  );
+}
+
+class LayerManager {
+  private canvas: Canvas | null = null;
+  private state: LayerState = createDefaultLayerState();
+  private listeners: Set<LayerChangeCallback> = new Set();
+
+  private readonly handleObjectAdded = (event: { target?: FabricObject }): void => {
+    const obj = event?.target as LayeredObject | undefined;
+    if (!obj || obj.isHelper) return;
+
+    // Objects loaded from a file keep their layer even if it isn't known yet;
+    // restore() resolves them once the file's layers are in place
+    if (!obj.__elsLayer) {
+      obj.__elsLayer = this.getDefaultLayerId(obj);
+    }
+    this.applyObjectState(obj);
+    this.restack();
+  };
+
+  setCanvas(canvas: Canvas): void {
+    if (this.canvas === canvas) return;
+    this.canvas?.off('object:added', this.handleObjectAdded);
+    this.canvas = canvas;
+    this.canvas.on('object:added', this.handleObjectAdded);
+    this.applyToCanvas();
+  }
+
+  getState(): LayerState {
+    return this.clone(this.state);
+  }
+
+  getLayers(): MapLayer[] {
+    return this.state.layers.map((layer) => ({ ...layer }));
+  }
+
+  getLayer(id: string | undefined): MapLayer | null {
+    const layer = this.findLayer(id);
+    return layer ? { ...layer } : null;
+  }
+
+  getActiveLayerId(): string {
+    return this.state.activeLayerId;
+  }
+
+  setActiveLayer(id: string): void {
+    if (!this.findLayer(id) || this.state.activeLayerId === id) return;
+    this.state.activeLayerId = id;
+    this.notifyListeners();
+  }
+
+  /**
+   * Add a layer above the active one and make it active.
+   */
+  addLayer(name: string): MapLayer {
+    const layer: MapLayer = {
+      id: `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      visible: true,
+      locked: false,
+      opacity: 1
+    };
+    const activeIndex = this.state.layers.findIndex((l) => l.id === this.state.activeLayerId);
+    this.state.layers.splice(activeIndex + 1, 0, layer);
+    this.state.activeLayerId = layer.id;
+    this.notifyListeners();
+    return { ...layer };
+  }
+
+  renameLayer(id: string, name: string): void {
+    const layer = this.findLayer(id);
+    const trimmed = name.trim();
+    if (!layer || !trimmed || layer.name === trimmed) return;
+    layer.name = trimmed;
+    this.notifyListeners();
+  }
+
+  /**
+   * Remove a layer, moving its objects to the layer beneath it (or above it
+   * for the bottom layer). The last layer can't be removed.
+   */
+  removeLayer(id: string): boolean {
+    const index = this.state.layers.findIndex((l) => l.id === id);
+    if (index < 0 || this.state.layers.length <= 1) return false;
+
+    const target = this.state.layers[index > 0 ? index - 1 : 1];
+    this.getLayerObjects(id).forEach((obj) => {
+      obj.__elsLayer = target.id;
+    });
+    this.state.layers.splice(index, 1);
+    if (this.state.activeLayerId === id) {
+      this.state.activeLayerId = target.id;
+    }
+
+    this.applyToCanvas();
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Move a layer up (positive offset) or down the stack.
+   */
+  moveLayer(id: string, offset: number): void {
+    const index = this.state.layers.findIndex((l) => l.id === id);
+    const next = Math.min(Math.max(index + offset, 0), this.state.layers.length - 1);
+    if (index < 0 || next === index) return;
+
+    const [layer] = this.state.layers.splice(index, 1);
+    this.state.layers.splice(next, 0, layer);
+    this.restack();
+    this.canvas?.requestRenderAll();
+    this.notifyListeners();
+  }
+
+  setLayerVisible(id: string, visible: boolean): void {
+    this.updateLayer(id, { visible });
+  }
+
+  setLayerLocked(id: string, locked: boolean): void {
+    this.updateLayer(id, { locked });
+  }
+
+  setLayerOpacity(id: string, opacity: number): void {
+    this.updateLayer(id, { opacity: Math.min(Math.max(opacity, 0), 1) });
+  }
+
+  moveObjectsToLayer(objects: FabricObject[], id: string): void {
+    if (!this.findLayer(id)) return;
+    objects.forEach((obj) => {
+      const layered = obj as LayeredObject;
+      if (layered.isHelper) return;
+      layered.__elsLayer = id;
+      this.applyObjectState(layered);
+    });
+    this.restack();
+    this.canvas?.requestRenderAll();
+    this.notifyListeners();
+  }
+
+  getObjectLayerId(obj: FabricObject): string {
+    const id = (obj as LayeredObject).__elsLayer;
+    return this.findLayer(id) ? id! : this.getDefaultLayerId(obj);
+  }
+
+  /**
+   * Whether an object is a base map: the image the canvas is locked to, or
+   * an image on the bottom layer where imported maps go. Stamps such as
+   * north pointers are images too, so the type alone doesn't say.
+   */
+  isBaseMap(obj: FabricObject): boolean {
+    if (obj.type !== 'image') return false;
+    return canvasLockManager.isLockedImage(obj) || this.getObjectLayerId(obj) === this.state.layers[0].id;
+  }
+
+  /**
+   * Whether an object is shown: its own visibility and its layer's.
+   */
+  isObjectVisible(obj: FabricObject): boolean {
+    if (obj.visible === false) return false;
+    return this.findLayer((obj as LayeredObject).__elsLayer)?.visible ?? true;
+  }
+
+  /**
+   * Opacity of the layer a top-level canvas object sits in, applied on top
+   * of the object's own opacity when rendering and exporting.
+   */
+  getObjectOpacity(obj: FabricObject): number {
+    return this.findLayer((obj as LayeredObject).__elsLayer)?.opacity ?? 1;
+  }
+
+  /**
+   * Replace the layers from saved project data, falling back to the defaults
+   * for files without valid layers.
+   */
+  restore(state: unknown): void {
+    this.state = isValidLayerState(state) ? this.clone(state) : createDefaultLayerState();
+    this.applyToCanvas();
+    this.notifyListeners();
+  }
+
+  /**
+   * Re-apply layer visibility and locking to every object, assign objects
+   * without a known layer, and restore the stacking order. Needed after the
+   * canvas is reloaded and after tools reset object interactivity.
+   */
+  applyToCanvas(): void {
+    if (!this.canvas) return;
+    this.canvas.getObjects().forEach((obj) => {
+      const layered = obj as LayeredObject;
+      if (layered.isHelper) return;
+      if (!this.findLayer(layered.__elsLayer)) {
+        layered.__elsLayer = this.getDefaultLayerId(layered);
+      }
+      this.applyObjectState(layered);
+    });
+    this.restack();
+    this.canvas.requestRenderAll();
+  }
+
+  subscribe(callback: LayerChangeCallback): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private updateLayer(id: string, changes: Partial<Omit<MapLayer, 'id'>>): void {
+    const layer = this.findLayer(id);
+    if (!layer) return;
+    Object.assign(layer, changes);
+
+    const objects = this.getLayerObjects(id);
+    objects.forEach((obj) => this.applyObjectState(obj, true));
+
+    // Don't leave a hidden or locked object selected
+    const active = this.canvas?.getActiveObjects() ?? [];
+    if (active.some((obj) => objects.includes(obj as LayeredObject) && (layer.locked || !layer.visible))) {
+      this.canvas?.discardActiveObject();
+    }
+
+    this.canvas?.requestRenderAll();
+    this.notifyListeners();
+  }
+
+  /**
+   * Hidden and locked layers can't be picked. When `restore` is set, objects
+   * on an editable layer go back to the interactivity of the current tool,
+   * which is reflected in whether the canvas allows selection.
+   */
+  private applyObjectState(obj: LayeredObject, restore = false): void {
+    const layer = this.findLayer(obj.__elsLayer);
+    if (!layer) return;
+
+    obj.visible = layer.visible;
+    if (layer.locked || !layer.visible) {
+      obj.selectable = false;
+      obj.evented = false;
+    } else if (restore && this.canvas) {
+      obj.selectable = this.canvas.selection;
+      obj.evented = this.canvas.selection;
+    }
+  }
+
+  /**
+   * Keep objects stacked by layer, preserving their order within a layer and
+   * leaving tool helpers on top.
+   */
+  private restack(): void {
+    if (!this.canvas) return;
+    const canvas = this.canvas;
+    const order = new Map(this.state.layers.map((layer, index) => [layer.id, index]));
+    const activeRank = order.get(this.state.activeLayerId) ?? 0;
+    const entries = canvas.getObjects().map((obj, index) => {
+      const layered = obj as LayeredObject;
+      const rank = layered.isHelper ? order.size : order.get(layered.__elsLayer ?? '') ?? activeRank;
+      return { obj, index, rank };
+    });
+
+    entries.sort((a, b) => a.rank - b.rank || a.index - b.index);
+    if (entries.every((entry, index) => entry.index === index)) return;
+    entries.forEach(({ obj }, index) => canvas.moveObjectTo(obj, index));
+  }
+
+  /**
+   * Images go to the bottom layer so imported base maps sit under the
+   * drawing; everything else goes to the active layer.
+   */
+  private getDefaultLayerId(obj: FabricObject): string {
+    return obj.type === 'image' ? this.state.layers[0].id : this.state.activeLayerId;
+  }
+
+  private getLayerObjects(id: string): LayeredObject[] {
+    if (!this.canvas) return [];
+    return (this.canvas.getObjects() as LayeredObject[]).filter((obj) => !obj.isHelper && obj.__elsLayer === id);
+  }
+
+  private findLayer(id: string | undefined): MapLayer | undefined {
+    return id ? this.state.layers.find((layer) => layer.id === id) : undefined;
+  }
+
+  private clone(state: LayerState): LayerState {
+    return {
+      layers: state.layers.map((layer) => ({ ...layer })),
+      activeLayerId: state.activeLayerId
+    };
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach((callback) => callback(state));
+  }
+}
+
+export const layerManager = new LayerManager();
@@ -0,0 +1,170 @@
+import type { LayoutElement, LayoutElementKind, PaperOrientation, PaperSize, PrintLayout } from '@/types';
+import { getPaperDimensions, getPrintArea, isPaperSize } from './paper';
+
+type PrintLayoutChangeCallback = (layout: PrintLayout | null) => void;
+
+export const LAYOUT_ELEMENT_LABELS: Record<LayoutElementKind, string> = {
+  map: 'Map frame',
+  title: 'Title block',
+  legend: 'Legend',
+  northArrow: 'North arrow',
+  scaleBar: 'Scale bar',
+  notes: 'Notes'
+};
+
+export const LAYOUT_DPI_OPTIONS = [150, 200, 300, 600];
+
+const LAYOUT_MARGIN_MM = 10;
+const LAYOUT_GAP_MM = 5;
+
+/**
+ * A sheet with the map filling the left and a side column holding the north
+ * arrow, legend, notes, scale bar and title block.
+ */
+export function createDefaultPrintLayout(
+  paperSize: PaperSize = 'a3',
+  orientation: PaperOrientation = 'landscape'
+): PrintLayout {
+  const area = getPrintArea(getPaperDimensions(paperSize, orientation), LAYOUT_MARGIN_MM);
+  const columnWidth = Math.max(50, Math.round(area.width * 0.24));
+  const columnX = area.x + area.width - columnWidth;
+  const column = (y: number, height: number) => ({ x: columnX, y, width: columnWidth, height });
+
+  const titleHeight = Math.min(60, area.height * 0.28);
+  const scaleBarHeight = 16;
+  const northHeight = 24;
+  const notesHeight = Math.min(45, area.height * 0.2);
+  const legendHeight = Math.max(
+    20,
+    area.height - titleHeight - scaleBarHeight - northHeight - notesHeight - LAYOUT_GAP_MM * 4
+  );
+
+  let y = area.y;
+  const next = (height: number) => {
+    const top = y;
+    y += height + LAYOUT_GAP_MM;
+    return top;
+  };
+
+  const elements: LayoutElement[] = [
+    { kind: 'map', x: area.x, y: area.y, width: columnX - area.x - LAYOUT_GAP_MM, height: area.height, visible: true },
+    { kind: 'northArrow', ...column(next(northHeight), northHeight), width: 16, visible: true },
+    { kind: 'legend', ...column(next(legendHeight), legendHeight), visible: true },
+    { kind: 'notes', ...column(next(notesHeight), notesHeight), visible: true },
+    { kind: 'scaleBar', ...column(next(scaleBarHeight), scaleBarHeight), visible: true },
+    { kind: 'title', ...column(next(titleHeight), titleHeight), visible: true }
+  ];
+
+  return {
+    paperSize,
+    orientation,
+    scaleDenominator: null,
+    dpi: 300,
+    title: 'Untitled Plan',
+    subtitle: '',
+    drawnBy: '',
+    date: new Date().toISOString().slice(0, 10),
+    notes: '',
+    legend: null,
+    elements
+  };
+}
+
+/**
+ * Move a layout onto another sheet, keeping each box's relative position and size.
+ */
+export function resizePrintLayout(layout: PrintLayout, paperSize: PaperSize, orientation: PaperOrientation): PrintLayout {
+  const from = getPaperDimensions(layout.paperSize, layout.orientation);
+  const to = getPaperDimensions(paperSize, orientation);
+  const sx = to.width / from.width;
+  const sy = to.height / from.height;
+
+  return {
+    ...layout,
+    paperSize,
+    orientation,
+    elements: layout.elements.map((el) => ({
+      ...el,
+      x: el.x * sx,
+      y: el.y * sy,
+      width: el.width * sx,
+      height: el.height * sy
+    }))
+  };
+}
+
+export function getLayoutElement(layout: PrintLayout, kind: LayoutElementKind): LayoutElement | null {
+  return layout.elements.find((el) => el.kind === kind) ?? null;
+}
+
+function isLayoutElementKind(value: unknown): value is LayoutElementKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LAYOUT_ELEMENT_LABELS, value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+export function isValidPrintLayout(value: unknown): value is PrintLayout {
+  if (!value || typeof value !== 'object') return false;
+  const layout = value as PrintLayout;
+  return (
+    isPaperSize(layout.paperSize) &&
+    (layout.orientation === 'portrait' || layout.orientation === 'landscape') &&
+    (layout.scaleDenominator === null || isPositiveNumber(layout.scaleDenominator)) &&
+    isPositiveNumber(layout.dpi) &&
+    [layout.title, layout.subtitle, layout.drawnBy, layout.date, layout.notes].every((text) => typeof text === 'string') &&
+    (layout.legend === null || typeof layout.legend === 'object') &&
+    Array.isArray(layout.elements) &&
+    layout.elements.every(
+      (el) =>
+        el && isLayoutElementKind(el.kind) &&
+        typeof el.visible === 'boolean' &&
+        [el.x, el.y, el.width, el.height].every((n) => typeof n === 'number' && Number.isFinite(n))
+    )
+  );
+}
+
+class PrintLayoutManager {
+  private layout: PrintLayout | null = null;
+  private listeners: Set<PrintLayoutChangeCallback> = new Set();
+
+  getLayout(): PrintLayout | null {
+    return this.layout ? this.clone(this.layout) : null;
+  }
+
+  /**
+   * The saved layout, or a fresh default one when the project has none yet.
+   */
+  getOrCreateLayout(): PrintLayout {
+    return this.getLayout() ?? createDefaultPrintLayout();
+  }
+
+  setLayout(layout: PrintLayout | null): void {
+    this.layout = layout ? this.clone(layout) : null;
+    this.notifyListeners();
+  }
+
+  /**
+   * Replace the layout from saved project data, dropping anything malformed.
+   */
+  restore(layout: unknown): void {
+    this.setLayout(isValidPrintLayout(layout) ? layout : null);
+  }
+
+  subscribe(callback: PrintLayoutChangeCallback): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private clone(layout: PrintLayout): PrintLayout {
+    return JSON.parse(JSON.stringify(layout));
+  }
+
+  private notifyListeners(): void {
+    const layout = this.getLayout();
+    this.listeners.forEach((callback) => callback(layout));
+  }
+}
+
+export const printLayoutManager = new PrintLayoutManager();
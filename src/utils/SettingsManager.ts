@@ -1,9 +1,16 @@
+import type { AreaUnit } from '@/types';
+
 export type FontFamily = 'IBM Plex Sans' | 'Comic Sans MS' | 'Arial' | 'Times New Roman';
 
 export interface AppSettings {
   defaultStrokeColor: string;
   defaultStrokeWidth: number;
   defaultFont: FontFamily;
+  areaUnit: AreaUnit;
+  /** Curve flattening tolerance in canvas pixels for GIS exports */
+  curveTolerance: number;
+  /** Widest gap in canvas pixels that joining lines bridges */
+  joinTolerance: number;
 }
 
 type SettingsChangeCallback = (settings: AppSettings) => void;
@@ -11,7 +18,10 @@ type SettingsChangeCallback = (settings: AppSettings) => void;
 const DEFAULT_SETTINGS: AppSettings = {
   defaultStrokeColor: '#ffffff',
   defaultStrokeWidth: 2,
-  defaultFont: 'IBM Plex Sans'
+  defaultFont: 'IBM Plex Sans',
+  areaUnit: 'm2',
+  curveTolerance: 0.5,
+  joinTolerance: 10
 };
 
 class SettingsManager {
@@ -81,6 +91,41 @@ class SettingsManager {
     this.notifyListeners();
   }
 
+  getAreaUnit(): AreaUnit {
+    return this.settings.areaUnit;
+  }
+
+  setAreaUnit(unit: AreaUnit): void {
+    if (this.settings.areaUnit === unit) return;
+    this.settings.areaUnit = unit;
+    this.saveSettings();
+    this.notifyListeners();
+  }
+
+  getCurveTolerance(): number {
+    return this.settings.curveTolerance;
+  }
+
+  setCurveTolerance(tolerance: number): void {
+    const clamped = Math.max(0.05, Math.min(10, tolerance));
+    if (this.settings.curveTolerance === clamped) return;
+    this.settings.curveTolerance = clamped;
+    this.saveSettings();
+    this.notifyListeners();
+  }
+
+  getJoinTolerance(): number {
+    return this.settings.joinTolerance;
+  }
+
+  setJoinTolerance(tolerance: number): void {
+    const clamped = Math.max(0, Math.min(500, tolerance));
+    if (this.settings.joinTolerance === clamped) return;
+    this.settings.joinTolerance = clamped;
+    this.saveSettings();
+    this.notifyListeners();
+  }
+
   private notifyListeners(): void {
     this.listeners.forEach(callback => callback(this.getSettings()));
   }
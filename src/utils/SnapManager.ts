@@ -1,4 +1,5 @@
 import { Path, Polyline, Line, Point, type Canvas, type FabricObject } from 'fabric';
+import { layerManager } from './LayerManager';
 
 export interface SnapPoint {
   x: number;
@@ -93,6 +94,7 @@ export class SnapManager {
     for (const obj of objects) {
       if (excludeObject && obj === excludeObject) continue;
       if ((obj as any).isHelper) continue;
+      if (!layerManager.isObjectVisible(obj)) continue;
       // Include all objects, not just selectable ones (tools disable selectability)
       
       const id = (obj as any).id || String(objects.indexOf(obj));
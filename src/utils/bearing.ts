@@ -0,0 +1,30 @@
+import type { Point } from 'fabric';
+
+/**
+ * Azimuth in degrees clockwise from north, treating canvas "up" as north.
+ */
+export function getAzimuth(from: Point, to: Point): number {
+  const degrees = (Math.atan2(to.x - from.x, from.y - to.y) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+function formatDegreesMinutes(degrees: number): string {
+  let whole = Math.floor(degrees);
+  let minutes = Math.round((degrees - whole) * 60);
+  if (minutes === 60) {
+    whole += 1;
+    minutes = 0;
+  }
+  return `${whole}°${String(minutes).padStart(2, '0')}'`;
+}
+
+/**
+ * Format an azimuth as a surveyor's quadrant bearing, e.g. N 45°30' E.
+ */
+export function formatBearing(azimuth: number): string {
+  const az = ((azimuth % 360) + 360) % 360;
+  if (az <= 90) return `N ${formatDegreesMinutes(az)} E`;
+  if (az <= 180) return `S ${formatDegreesMinutes(180 - az)} E`;
+  if (az <= 270) return `S ${formatDegreesMinutes(az - 180)} W`;
+  return `N ${formatDegreesMinutes(360 - az)} W`;
+}
@@ -0,0 +1,56 @@
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'application/json': 'json'
+};
+
+/**
+ * Hex SHA-256 of some bytes, used to store identical files once.
+ */
+export async function hashBytes(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function isDataUrl(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('data:');
+}
+
+/**
+ * Decode a data URL into its bytes and MIME type.
+ */
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mimeType: string } {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(5, comma);
+  const payload = dataUrl.slice(comma + 1);
+  const mimeType = header.split(';')[0] || 'application/octet-stream';
+
+  if (!header.endsWith(';base64')) {
+    return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType };
+  }
+
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, mimeType };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  // Build the string in chunks; spreading megabytes into one call overflows the stack
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+export function getExtensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[mimeType] ?? 'bin';
+}
@@ -1,10 +1,62 @@
 import { Pattern } from 'fabric';
-import type { Canvas, FabricImage } from 'fabric';
+import type { Canvas, FabricImage, FabricObject } from 'fabric';
 import { canvasLockManager } from '@/canvas';
-import type { LockedCanvasState } from '@/types';
+import type { ImageSourceRef, LockedCanvasState, ObjectAttributes } from '@/types';
 import { themeManager } from '@/utils/ThemeManager';
 
-export const CANVAS_OBJECT_PROPS = ['__elsImageId', '__elsLocked', '__elsLegend', '__elsLegendConfig'] as const;
+export const CANVAS_OBJECT_PROPS = ['__elsImageId', '__elsLocked', '__elsLegend', '__elsLegendConfig', '__elsAttributes', '__elsLayer', '__elsId', '__elsSource'] as const;
+
+/**
+ * Stroke and fill settings of a line or shape, for building an object that
+ * replaces it.
+ */
+export function getStrokeStyle(source: FabricObject) {
+  return {
+    stroke: source.stroke,
+    strokeWidth: source.strokeWidth,
+    strokeDashArray: source.strokeDashArray ? [...source.strokeDashArray] : [],
+    strokeLineCap: source.strokeLineCap,
+    strokeLineJoin: source.strokeLineJoin,
+    strokeUniform: source.strokeUniform,
+    opacity: source.opacity,
+    fill: source.fill
+  };
+}
+
+/**
+ * Carry the saved custom properties of an object over to one that replaces
+ * it, e.g. a piece of a split path. Only one replacement should keep the
+ * original's `__elsId`, so the undo history sees it as the same object.
+ */
+export function copyCanvasObjectProps(source: FabricObject, target: FabricObject, keepId: boolean = true): void {
+  CANVAS_OBJECT_PROPS.forEach((prop) => {
+    const value = (source as any)[prop];
+    if (value === undefined || (prop === '__elsId' && !keepId)) return;
+    (target as any)[prop] = value && typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value;
+  });
+}
+
+/**
+ * Free-form attributes attached to a drawn object, e.g. a parcel ID.
+ */
+export function getObjectAttributes(obj: FabricObject): ObjectAttributes {
+  const attributes = (obj as FabricObject & { __elsAttributes?: ObjectAttributes }).__elsAttributes;
+  return attributes && typeof attributes === 'object' ? { ...attributes } : {};
+}
+
+export function setObjectAttributes(obj: FabricObject, attributes: ObjectAttributes): void {
+  (obj as FabricObject & { __elsAttributes?: ObjectAttributes }).__elsAttributes =
+    Object.keys(attributes).length > 0 ? { ...attributes } : undefined;
+}
+
+export function getImageSource(obj: FabricObject): ImageSourceRef | null {
+  const source = (obj as FabricObject & { __elsSource?: ImageSourceRef }).__elsSource;
+  return source && typeof source.id === 'string' ? source : null;
+}
+
+export function setImageSource(obj: FabricObject, source: ImageSourceRef): void {
+  (obj as FabricObject & { __elsSource?: ImageSourceRef }).__elsSource = { ...source };
+}
 
 const GRID_SIZE = 40;
 
@@ -109,7 +161,7 @@ export function restoreCanvasLockState(
 
   const image = findImageById(canvas, lockState.imageId);
   if (image) {
-    canvasLockManager.lockToImage(image);
+    canvasLockManager.lockToImage(image, lockState.scale ?? null, lockState.georeference ?? null);
   } else {
     canvasLockManager.unlock();
   }
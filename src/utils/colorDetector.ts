@@ -1,4 +1,5 @@
 import type { Canvas, FabricObject } from 'fabric';
+import { layerManager } from './LayerManager';
 
 export interface DetectedColor {
   color: string;
@@ -14,8 +15,9 @@ export function detectCanvasColors(canvas: Canvas): DetectedColor[] {
   const colorMap = new Map<string, number>();
 
   canvas.forEachObject((obj: FabricObject) => {
-    // Skip helper objects and legend groups
+    // Skip helper objects, legend groups and anything on a hidden layer
     if ((obj as any).isHelper || (obj as any).__elsLegend) return;
+    if (!layerManager.isObjectVisible(obj)) return;
 
     // Get stroke color
     const stroke = obj.stroke;
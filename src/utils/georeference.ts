@@ -0,0 +1,305 @@
+import type { GeoControlPoint, GeoCoordinateMode, GeoTransform, GeoTransformKind } from '@/types';
+
+export const MIN_CONTROL_POINTS = 3;
+
+// WGS84 equatorial radius, used for the local tangent plane of geographic fits
+const EARTH_RADIUS = 6378137;
+const DEG_TO_RAD = Math.PI / 180;
+
+export const GEO_TRANSFORM_KINDS: Array<{ value: GeoTransformKind; label: string }> = [
+  { value: 'affine', label: 'Affine (6 parameter)' },
+  { value: 'helmert', label: 'Helmert (similarity)' }
+];
+
+export const GEO_COORDINATE_MODES: Array<{ value: GeoCoordinateMode; label: string; axes: [string, string] }> = [
+  { value: 'projected', label: 'Easting / Northing', axes: ['Easting', 'Northing'] },
+  { value: 'geographic', label: 'Longitude / Latitude', axes: ['Longitude', 'Latitude'] }
+];
+
+export interface ControlPointResidual {
+  dx: number;
+  dy: number;
+  error: number;
+}
+
+interface XY {
+  x: number;
+  y: number;
+}
+
+function toPlane(world: XY, origin?: { lon: number; lat: number }): XY {
+  if (!origin) return { x: world.x, y: world.y };
+  return {
+    x: EARTH_RADIUS * Math.cos(origin.lat * DEG_TO_RAD) * (world.x - origin.lon) * DEG_TO_RAD,
+    y: EARTH_RADIUS * (world.y - origin.lat) * DEG_TO_RAD
+  };
+}
+
+function fromPlane(plane: XY, origin?: { lon: number; lat: number }): XY {
+  if (!origin) return { x: plane.x, y: plane.y };
+  return {
+    x: origin.lon + plane.x / (EARTH_RADIUS * Math.cos(origin.lat * DEG_TO_RAD) * DEG_TO_RAD),
+    y: origin.lat + plane.y / (EARTH_RADIUS * DEG_TO_RAD)
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Least-squares fit of X = p·x + q·y + r on centred data.
+ * Returns null when the image points are collinear.
+ */
+function fitPlane(xs: number[], ys: number[], targets: number[]): [number, number, number] | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  const mt = mean(targets);
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let sxt = 0;
+  let syt = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    const dt = targets[i] - mt;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    sxt += dx * dt;
+    syt += dy * dt;
+  }
+
+  const det = sxx * syy - sxy * sxy;
+  if (Math.abs(det) <= 1e-9 * Math.max(1, sxx * syy)) return null;
+
+  const p = (sxt * syy - syt * sxy) / det;
+  const q = (syt * sxx - sxt * sxy) / det;
+  return [p, q, mt - p * mx - q * my];
+}
+
+function solveAffine(image: XY[], plane: XY[]): GeoTransform['coefficients'] | null {
+  const xs = image.map((pt) => pt.x);
+  const ys = image.map((pt) => pt.y);
+  const rowX = fitPlane(xs, ys, plane.map((pt) => pt.x));
+  const rowY = fitPlane(xs, ys, plane.map((pt) => pt.y));
+  if (!rowX || !rowY) return null;
+  return [...rowX, ...rowY];
+}
+
+/**
+ * Similarity fit (scale, rotation, translation). Image y points down while
+ * northing points up, so the fit runs on (x, -y) and is folded back into the
+ * general coefficient form.
+ */
+function solveHelmert(image: XY[], plane: XY[]): GeoTransform['coefficients'] | null {
+  const mx = mean(image.map((pt) => pt.x));
+  const my = mean(image.map((pt) => -pt.y));
+  const mX = mean(plane.map((pt) => pt.x));
+  const mY = mean(plane.map((pt) => pt.y));
+
+  let denom = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < image.length; i++) {
+    const x = image[i].x - mx;
+    const y = -image[i].y - my;
+    const X = plane[i].x - mX;
+    const Y = plane[i].y - mY;
+    denom += x * x + y * y;
+    sumA += x * X + y * Y;
+    sumB += x * Y - y * X;
+  }
+  if (denom <= 1e-9) return null;
+
+  const a = sumA / denom;
+  const b = sumB / denom;
+  if (Math.hypot(a, b) <= 0) return null;
+
+  const c = mX - a * mx + b * my;
+  const d = mY - b * mx - a * my;
+  return [a, b, c, b, -a, d];
+}
+
+/**
+ * Solve a georeference from control points. Returns null with fewer than
+ * MIN_CONTROL_POINTS points or when the points don't define a transform
+ * (e.g. all image points on one line).
+ */
+export function solveGeoTransform(
+  controlPoints: GeoControlPoint[],
+  kind: GeoTransformKind,
+  mode: GeoCoordinateMode,
+  imageWidth: number,
+  imageHeight: number,
+  crs?: string
+): GeoTransform | null {
+  if (controlPoints.length < MIN_CONTROL_POINTS) return null;
+
+  const origin =
+    mode === 'geographic'
+      ? {
+          lon: mean(controlPoints.map((pt) => pt.world.x)),
+          lat: mean(controlPoints.map((pt) => pt.world.y))
+        }
+      : undefined;
+
+  const image = controlPoints.map((pt) => pt.image);
+  const plane = controlPoints.map((pt) => toPlane(pt.world, origin));
+  const coefficients = kind === 'helmert' ? solveHelmert(image, plane) : solveAffine(image, plane);
+  if (!coefficients || coefficients.some((v) => !Number.isFinite(v))) return null;
+
+  return {
+    kind,
+    mode,
+    coefficients,
+    ...(origin ? { origin } : {}),
+    controlPoints: controlPoints.map(cloneControlPoint),
+    ...(crs ? { crs } : {}),
+    imageWidth,
+    imageHeight
+  };
+}
+
+function applyCoefficients(transform: GeoTransform, point: XY): XY {
+  const [a, b, c, d, e, f] = transform.coefficients;
+  return {
+    x: a * point.x + b * point.y + c,
+    y: d * point.x + e * point.y + f
+  };
+}
+
+/**
+ * Convert a position on the base image (pixels from the locked region's
+ * top-left) to world coordinates.
+ */
+export function imageToWorld(transform: GeoTransform, point: XY): XY {
+  return fromPlane(applyCoefficients(transform, point), transform.origin);
+}
+
+export function worldToImage(transform: GeoTransform, world: XY): XY | null {
+  const [a, b, c, d, e, f] = transform.coefficients;
+  const det = a * e - b * d;
+  if (det === 0) return null;
+
+  const plane = toPlane(world, transform.origin);
+  const px = plane.x - c;
+  const py = plane.y - f;
+  return {
+    x: (e * px - b * py) / det,
+    y: (a * py - d * px) / det
+  };
+}
+
+/**
+ * Misfit of each control point, in the solving plane: world units for
+ * projected coordinates, metres for geographic ones.
+ */
+export function getControlPointResiduals(transform: GeoTransform): ControlPointResidual[] {
+  return transform.controlPoints.map((pt) => {
+    const fitted = applyCoefficients(transform, pt.image);
+    const target = toPlane(pt.world, transform.origin);
+    const dx = fitted.x - target.x;
+    const dy = fitted.y - target.y;
+    return { dx, dy, error: Math.hypot(dx, dy) };
+  });
+}
+
+export function getRmsError(residuals: ControlPointResidual[]): number {
+  if (residuals.length === 0) return 0;
+  return Math.sqrt(residuals.reduce((sum, r) => sum + r.error * r.error, 0) / residuals.length);
+}
+
+/**
+ * Ground distance covered by one image pixel, in the solving plane's units.
+ */
+export function getGeoPixelSize(transform: GeoTransform): number {
+  const [a, b, , d, e] = transform.coefficients;
+  return Math.sqrt(Math.abs(a * e - b * d));
+}
+
+export function getResidualUnitLabel(mode: GeoCoordinateMode): string {
+  return mode === 'geographic' ? 'm' : 'units';
+}
+
+export function formatWorldCoordinate(value: number, mode: GeoCoordinateMode): string {
+  return mode === 'geographic' ? value.toFixed(7) : value.toFixed(3);
+}
+
+export function formatGeoTransform(transform: GeoTransform): string {
+  const kind = transform.kind === 'helmert' ? 'Helmert' : 'Affine';
+  const rms = getRmsError(getControlPointResiduals(transform));
+  const crs = transform.crs ? `${transform.crs}, ` : '';
+  return `${crs}${kind}, RMS ${rms.toFixed(3)} ${getResidualUnitLabel(transform.mode)}`;
+}
+
+function cloneControlPoint(pt: GeoControlPoint): GeoControlPoint {
+  return { image: { ...pt.image }, world: { ...pt.world } };
+}
+
+export function cloneGeoTransform(transform: GeoTransform): GeoTransform {
+  return {
+    ...transform,
+    coefficients: [...transform.coefficients] as GeoTransform['coefficients'],
+    ...(transform.origin ? { origin: { ...transform.origin } } : {}),
+    controlPoints: transform.controlPoints.map(cloneControlPoint)
+  };
+}
+
+/**
+ * Adjust a georeference for a base image that has been resized since it was solved.
+ */
+export function rescaleGeoTransform(transform: GeoTransform, imageWidth: number, imageHeight: number): GeoTransform {
+  if (transform.imageWidth <= 0 || transform.imageHeight <= 0) {
+    return { ...cloneGeoTransform(transform), imageWidth, imageHeight };
+  }
+
+  const ratioX = imageWidth / transform.imageWidth;
+  const ratioY = imageHeight / transform.imageHeight;
+  if (Math.abs(ratioX - 1) < 1e-6 && Math.abs(ratioY - 1) < 1e-6) {
+    return cloneGeoTransform(transform);
+  }
+
+  const [a, b, c, d, e, f] = transform.coefficients;
+  return {
+    ...cloneGeoTransform(transform),
+    coefficients: [a / ratioX, b / ratioY, c, d / ratioX, e / ratioY, f],
+    controlPoints: transform.controlPoints.map((pt) => ({
+      image: { x: pt.image.x * ratioX, y: pt.image.y * ratioY },
+      world: { ...pt.world }
+    })),
+    imageWidth,
+    imageHeight
+  };
+}
+
+function isXY(value: unknown): value is XY {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return Number.isFinite(obj.x) && Number.isFinite(obj.y);
+}
+
+export function isValidGeoTransform(value: unknown): value is GeoTransform {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    (obj.kind === 'affine' || obj.kind === 'helmert') &&
+    (obj.mode === 'projected' || obj.mode === 'geographic') &&
+    Array.isArray(obj.coefficients) &&
+    obj.coefficients.length === 6 &&
+    obj.coefficients.every((v) => Number.isFinite(v)) &&
+    (obj.mode === 'projected' ||
+      (typeof obj.origin === 'object' &&
+        obj.origin !== null &&
+        Number.isFinite((obj.origin as Record<string, unknown>).lon) &&
+        Number.isFinite((obj.origin as Record<string, unknown>).lat))) &&
+    Array.isArray(obj.controlPoints) &&
+    obj.controlPoints.every(
+      (pt) => typeof pt === 'object' && pt !== null && isXY(pt.image) && isXY(pt.world)
+    ) &&
+    typeof obj.imageWidth === 'number' &&
+    typeof obj.imageHeight === 'number'
+  );
+}
@@ -1,9 +1,26 @@
 export * from './mathUtils';
+export * from './units';
+export * from './paper';
+export * from './bearing';
+export * from './georeference';
 export * from './SnapManager';
 export * from './HistoryManager';
 export * from './ThemeManager';
 export * from './SettingsManager';
+export * from './PrintLayoutManager';
+export * from './LayerManager';
 export * from './pathMerge';
+export * from './pathGeometry';
+export * from './pathJoin';
+export * from './pathBoolean';
+export * from './pathOffset';
+export * from './measurement';
+export * from './outline';
+export * from './metesAndBounds';
 export * from './canvasPersistence';
+export * from './projectMigrations';
+export * from './binary';
+export * from './projectBundle';
 export * from './colorDetector';
 export * from './legendBuilder';
+export * from './projectPreview';
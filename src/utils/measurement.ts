@@ -0,0 +1,270 @@
+import { Ellipse, Circle, Path, Point, Polygon, Rect, util } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { getPathShapeFromObject, getPathShapesFromObject, getPathEnd, isSamePoint, type PathSegment, type PathShape } from './pathMerge';
+
+export interface ShapeMeasurement {
+  /** Total outline length in canvas pixels (perimeter for closed shapes) */
+  length: number;
+  /** Enclosed area in square canvas pixels, null for open shapes */
+  area: number | null;
+  closed: boolean;
+}
+
+// 16-point Gauss-Legendre nodes and weights on [-1, 1]
+const GAUSS_NODES = [
+  -0.0950125098376374, 0.0950125098376374, -0.2816035507792589, 0.2816035507792589,
+  -0.4580167776572274, 0.4580167776572274, -0.6178762444026438, 0.6178762444026438,
+  -0.7554044083550030, 0.7554044083550030, -0.8656312023878318, 0.8656312023878318,
+  -0.9445750230732326, 0.9445750230732326, -0.9894009349916499, 0.9894009349916499
+];
+const GAUSS_WEIGHTS = [
+  0.1894506104550685, 0.1894506104550685, 0.1826034150449236, 0.1826034150449236,
+  0.1691565193950025, 0.1691565193950025, 0.1495959888165767, 0.1495959888165767,
+  0.1246289712555339, 0.1246289712555339, 0.0951585116824928, 0.0951585116824928,
+  0.0622535239386479, 0.0622535239386479, 0.0271524594117541, 0.0271524594117541
+];
+
+const ARC_LENGTH_TOLERANCE = 1e-6;
+const ARC_LENGTH_MAX_DEPTH = 10;
+
+function isLineSegment(from: Point, seg: PathSegment): boolean {
+  const onEndpoint = (pt: Point) => isSamePoint(pt, from) || isSamePoint(pt, seg.end);
+  return onEndpoint(seg.cp1) && onEndpoint(seg.cp2);
+}
+
+function cubicDerivative(p0: Point, seg: PathSegment, t: number): Point {
+  const mt = 1 - t;
+  const a = 3 * mt * mt;
+  const b = 6 * mt * t;
+  const c = 3 * t * t;
+  return new Point(
+    a * (seg.cp1.x - p0.x) + b * (seg.cp2.x - seg.cp1.x) + c * (seg.end.x - seg.cp2.x),
+    a * (seg.cp1.y - p0.y) + b * (seg.cp2.y - seg.cp1.y) + c * (seg.end.y - seg.cp2.y)
+  );
+}
+
+function cubicPoint(p0: Point, seg: PathSegment, t: number): Point {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return new Point(
+    a * p0.x + b * seg.cp1.x + c * seg.cp2.x + d * seg.end.x,
+    a * p0.y + b * seg.cp1.y + c * seg.cp2.y + d * seg.end.y
+  );
+}
+
+function gaussArcLength(p0: Point, seg: PathSegment, t0: number, t1: number): number {
+  const half = (t1 - t0) / 2;
+  const mid = (t1 + t0) / 2;
+  let sum = 0;
+  for (let i = 0; i < GAUSS_NODES.length; i++) {
+    const d = cubicDerivative(p0, seg, mid + half * GAUSS_NODES[i]);
+    sum += GAUSS_WEIGHTS[i] * Math.hypot(d.x, d.y);
+  }
+  return sum * half;
+}
+
+function adaptiveArcLength(
+  p0: Point,
+  seg: PathSegment,
+  t0: number,
+  t1: number,
+  whole: number,
+  depth: number
+): number {
+  const tm = (t0 + t1) / 2;
+  const left = gaussArcLength(p0, seg, t0, tm);
+  const right = gaussArcLength(p0, seg, tm, t1);
+  const split = left + right;
+
+  if (depth >= ARC_LENGTH_MAX_DEPTH || Math.abs(split - whole) <= ARC_LENGTH_TOLERANCE * Math.max(1, split)) {
+    return split;
+  }
+
+  return (
+    adaptiveArcLength(p0, seg, t0, tm, left, depth + 1) +
+    adaptiveArcLength(p0, seg, tm, t1, right, depth + 1)
+  );
+}
+
+/**
+ * Arc length of a cubic bezier segment starting at p0.
+ * Straight segments (control points on the endpoints) return the chord length.
+ */
+export function cubicArcLength(p0: Point, seg: PathSegment): number {
+  if (isLineSegment(p0, seg)) {
+    return Math.hypot(seg.end.x - p0.x, seg.end.y - p0.y);
+  }
+  const whole = gaussArcLength(p0, seg, 0, 1);
+  return adaptiveArcLength(p0, seg, 0, 1, whole, 0);
+}
+
+/**
+ * Signed area contribution (1/2 ∮ x dy - y dx) of a cubic segment.
+ * The integrand is a degree-5 polynomial, so 3-point Gauss-Legendre is exact.
+ */
+function cubicAreaContribution(p0: Point, seg: PathSegment): number {
+  const nodes = [-Math.sqrt(3 / 5), 0, Math.sqrt(3 / 5)];
+  const weights = [5 / 9, 8 / 9, 5 / 9];
+  let sum = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    const t = 0.5 + 0.5 * nodes[i];
+    const p = cubicPoint(p0, seg, t);
+    const d = cubicDerivative(p0, seg, t);
+    sum += weights[i] * (p.x * d.y - p.y * d.x);
+  }
+  return sum * 0.25;
+}
+
+export function getPathShapeLength(shape: PathShape): number {
+  let total = 0;
+  let current = shape.start;
+  for (const seg of shape.segments) {
+    total += cubicArcLength(current, seg);
+    current = seg.end;
+  }
+  return total;
+}
+
+/**
+ * Signed area enclosed by a path shape, closing it with a straight chord
+ * from its end back to its start. Positive when the outline runs clockwise
+ * on screen (y pointing down).
+ */
+export function getPathShapeArea(shape: PathShape): number {
+  let total = 0;
+  let current = shape.start;
+  for (const seg of shape.segments) {
+    total += cubicAreaContribution(current, seg);
+    current = seg.end;
+  }
+  // Closing chord
+  total += (current.x * shape.start.y - shape.start.x * current.y) / 2;
+  return total;
+}
+
+export function isPathShapeClosed(shape: PathShape): boolean {
+  return shape.segments.length >= 2 && isSamePoint(getPathEnd(shape), shape.start);
+}
+
+export function isPathObjectClosed(path: Path): boolean {
+  return (path.path ?? []).some((segment) => {
+    const cmd = segment[0] as string;
+    return cmd === 'Z' || cmd === 'z';
+  });
+}
+
+export function closePathShape(shape: PathShape): PathShape {
+  if (isSamePoint(getPathEnd(shape), shape.start)) return shape;
+  const start = shape.start;
+  return {
+    start,
+    segments: [...shape.segments, { cp1: getPathEnd(shape), cp2: start, end: start }]
+  };
+}
+
+/**
+ * Corners of a rectangle in canvas coordinates, clockwise from its top-left.
+ */
+export function getRectCorners(rect: Rect): Point[] {
+  const matrix = rect.calcTransformMatrix();
+  const w = (rect.width ?? 0) / 2;
+  const h = (rect.height ?? 0) / 2;
+  return [
+    new Point(-w, -h),
+    new Point(w, -h),
+    new Point(w, h),
+    new Point(-w, h)
+  ].map((pt) => util.transformPoint(pt, matrix));
+}
+
+function measureRect(rect: Rect): ShapeMeasurement {
+  const corners = getRectCorners(rect);
+
+  const shape = closePathShape({
+    start: corners[0],
+    segments: corners.slice(1).map((end) => ({ cp1: end, cp2: end, end }))
+  });
+
+  return {
+    length: getPathShapeLength(shape),
+    area: Math.abs(getPathShapeArea(shape)),
+    closed: true
+  };
+}
+
+/**
+ * Ramanujan's second approximation for the perimeter of an ellipse.
+ */
+function ellipsePerimeter(a: number, b: number): number {
+  if (a + b === 0) return 0;
+  const h = ((a - b) * (a - b)) / ((a + b) * (a + b));
+  return Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+}
+
+function measureEllipse(obj: Ellipse | Circle): ShapeMeasurement {
+  const rx = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).rx ?? 0;
+  const ry = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).ry ?? 0;
+  const m = obj.calcTransformMatrix();
+
+  // The transformed ellipse has semi-axes equal to the singular values of M · diag(rx, ry)
+  const a11 = m[0] * rx;
+  const a21 = m[1] * rx;
+  const a12 = m[2] * ry;
+  const a22 = m[3] * ry;
+  const sumSquares = a11 * a11 + a12 * a12 + a21 * a21 + a22 * a22;
+  const det = Math.abs(a11 * a22 - a12 * a21);
+  const disc = Math.sqrt(Math.max(0, sumSquares * sumSquares - 4 * det * det));
+  const major = Math.sqrt((sumSquares + disc) / 2);
+  const minor = Math.sqrt(Math.max(0, (sumSquares - disc) / 2));
+
+  return {
+    length: ellipsePerimeter(major, minor),
+    area: Math.PI * det,
+    closed: true
+  };
+}
+
+/**
+ * Measure the outline of a Polyline, Polygon, Path, Rect, Ellipse or Circle in canvas units.
+ * Returns null for objects that have no measurable outline.
+ */
+export function measureObject(obj: FabricObject): ShapeMeasurement | null {
+  if (obj instanceof Rect) {
+    return measureRect(obj);
+  }
+  if (obj instanceof Ellipse || obj instanceof Circle) {
+    return measureEllipse(obj);
+  }
+
+  const explicitlyClosed =
+    obj instanceof Polygon || (obj instanceof Path && isPathObjectClosed(obj));
+
+  // A shape with holes: outlines and holes wind opposite ways, so their
+  // signed areas add up to the area between them
+  const subpaths = getPathShapesFromObject(obj).filter((subpath) => subpath.segments.length > 0);
+  if (explicitlyClosed && subpaths.length > 1) {
+    const rings = subpaths.map(closePathShape);
+    return {
+      length: rings.reduce((sum, ring) => sum + getPathShapeLength(ring), 0),
+      area: Math.abs(rings.reduce((sum, ring) => sum + getPathShapeArea(ring), 0)),
+      closed: true
+    };
+  }
+
+  let shape = getPathShapeFromObject(obj);
+  if (!shape) return null;
+
+  if (explicitlyClosed) {
+    shape = closePathShape(shape);
+  }
+
+  const closed = explicitlyClosed || isPathShapeClosed(shape);
+  return {
+    length: getPathShapeLength(shape),
+    area: closed ? Math.abs(getPathShapeArea(shape)) : null,
+    closed
+  };
+}
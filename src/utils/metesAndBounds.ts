@@ -0,0 +1,317 @@
+import { Point } from 'fabric';
+import type { MeasurementUnit } from '@/types';
+import type { PathSegment, PathShape } from './pathMerge';
+import { convertDistance } from './units';
+import { getAzimuth } from './bearing';
+
+export type TraverseCall =
+  | {
+      kind: 'line';
+      line: number;
+      azimuth: number;
+      distance: number;
+    }
+  | {
+      kind: 'curve';
+      line: number;
+      radius: number;
+      delta: number; // central angle in degrees
+      chordAzimuth: number;
+      direction: 'left' | 'right';
+    };
+
+export interface ParsedCalls {
+  calls: TraverseCall[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface TraverseResult {
+  /** Outline in the call unit, starting at (0, 0) with y pointing south */
+  shape: PathShape;
+  unit: MeasurementUnit;
+  totalLength: number;
+  closureError: number;
+  /** Azimuth of the misclosure, from the traverse end back to its start */
+  closureAzimuth: number | null;
+  /** Total length divided by closure error; Infinity for a perfect closure */
+  precision: number;
+  hasCurves: boolean;
+}
+
+const UNIT_ALIASES: Record<string, MeasurementUnit> = {
+  "'": 'ft',
+  ft: 'ft',
+  foot: 'ft',
+  feet: 'ft',
+  m: 'm',
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+  km: 'km',
+  yd: 'yd',
+  yds: 'yd',
+  yard: 'yd',
+  yards: 'yd',
+  ch: 'ch',
+  chain: 'ch',
+  chains: 'ch',
+  mi: 'mi',
+  mile: 'mi',
+  miles: 'mi'
+};
+
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?|\.\d+)`;
+const UNIT = String.raw`(feet|foot|ft|metres|metre|meters|meter|m|km|yards|yard|yds|yd|chains|chain|ch|miles|mile|mi|')?`;
+const ANGLE_CHARS = String.raw`[\d\s.°º'’"”:\-]`;
+const QUADRANT_BEARING = String.raw`([NS])\s*(${ANGLE_CHARS}*?)\s*([EW])`;
+
+function parseNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+function parseUnit(text: string | undefined, fallback: MeasurementUnit): MeasurementUnit {
+  if (!text) return fallback;
+  return UNIT_ALIASES[text.toLowerCase()] ?? fallback;
+}
+
+/**
+ * Parse degrees-minutes-seconds written as 45°30'15", 45-30-15, 45 30 15 or 45.5.
+ */
+export function parseAngle(text: string): number | null {
+  const parts = text.match(/\d+(?:\.\d+)?/g);
+  if (!parts || parts.length === 0 || parts.length > 3) return null;
+
+  const [deg, min = '0', sec = '0'] = parts;
+  const minutes = parseFloat(min);
+  const seconds = parseFloat(sec);
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  return parseFloat(deg) + minutes / 60 + seconds / 3600;
+}
+
+/**
+ * Parse a bearing into an azimuth in degrees clockwise from north.
+ * Accepts quadrant bearings (N 45°30' E), "Az 123°30'" and cardinal
+ * directions (North, Due East, ...).
+ */
+export function parseBearing(text: string): number | null {
+  const input = text.trim().toUpperCase();
+
+  const cardinal = input.match(/^(?:DUE\s+)?(NORTH|SOUTH|EAST|WEST)$/);
+  if (cardinal) {
+    return { NORTH: 0, EAST: 90, SOUTH: 180, WEST: 270 }[cardinal[1]] ?? null;
+  }
+
+  const azimuth = input.match(new RegExp(String.raw`^AZ(?:IMUTH)?\.?\s*(${ANGLE_CHARS}+)$`));
+  if (azimuth) {
+    const value = parseAngle(azimuth[1]);
+    return value !== null && value < 360 ? value : null;
+  }
+
+  const quadrant = input.match(new RegExp(`^${QUADRANT_BEARING}$`));
+  if (!quadrant) return null;
+
+  const angle = quadrant[2].trim() === '' ? 0 : parseAngle(quadrant[2]);
+  if (angle === null || angle > 90) return null;
+
+  const [ns, ew] = [quadrant[1], quadrant[3]];
+  if (ns === 'N' && ew === 'E') return angle;
+  if (ns === 'S' && ew === 'E') return 180 - angle;
+  if (ns === 'S' && ew === 'W') return 180 + angle;
+  return (360 - angle) % 360;
+}
+
+function parseLineCall(text: string, line: number, unit: MeasurementUnit): TraverseCall | string {
+  const match = text.match(
+    new RegExp(
+      String.raw`^((?:DUE\s+)?(?:NORTH|SOUTH|EAST|WEST)|AZ(?:IMUTH)?\.?\s*${ANGLE_CHARS}+?|${QUADRANT_BEARING})\s*,?\s+${NUMBER}\s*${UNIT}\s*$`,
+      'i'
+    )
+  );
+  if (!match) return 'Expected a bearing followed by a distance, e.g. N 45°30\' E 120.5 ft';
+
+  const azimuth = parseBearing(match[1]);
+  if (azimuth === null) return `Could not read bearing "${match[1].trim()}"`;
+
+  const distance = parseNumber(match[5]);
+  if (!(distance > 0)) return 'Distance must be greater than zero';
+
+  return {
+    kind: 'line',
+    line,
+    azimuth,
+    distance: convertDistance(distance, parseUnit(match[6], unit), unit)
+  };
+}
+
+function parseCurveCall(text: string, line: number, unit: MeasurementUnit): TraverseCall | string {
+  const upper = text.toUpperCase();
+
+  const radiusMatch = upper.match(new RegExp(String.raw`\b(?:R|RAD|RADIUS)\s*[=:]?\s*${NUMBER}\s*${UNIT}`, 'i'));
+  if (!radiusMatch) return 'Curve is missing a radius (R=...)';
+  const radius = convertDistance(parseNumber(radiusMatch[1]), parseUnit(radiusMatch[2], unit), unit);
+  if (!(radius > 0)) return 'Curve radius must be greater than zero';
+
+  const chordMatch = upper.match(
+    new RegExp(String.raw`\b(?:CB|CHB|CH\.?\s*BRG|CHORD(?:\s*BEARING)?)\s*[=:]?\s*(${QUADRANT_BEARING}|AZ\S*\s*${ANGLE_CHARS}+)`)
+  );
+  if (!chordMatch) return 'Curve is missing a chord bearing (CB=...)';
+  const chordAzimuth = parseBearing(chordMatch[1]);
+  if (chordAzimuth === null) return `Could not read chord bearing "${chordMatch[1].trim()}"`;
+
+  let delta: number | null = null;
+  const arcMatch = upper.match(new RegExp(String.raw`\b(?:L|ARC(?:\s*LENGTH)?|LENGTH)\s*[=:]?\s*${NUMBER}\s*${UNIT}`, 'i'));
+  if (arcMatch) {
+    const arcLength = convertDistance(parseNumber(arcMatch[1]), parseUnit(arcMatch[2], unit), unit);
+    delta = (arcLength / radius) * (180 / Math.PI);
+  } else {
+    const deltaMatch = upper.match(new RegExp(String.raw`(?:\bDELTA|Δ)\s*[=:]?\s*(${ANGLE_CHARS}+)`));
+    if (deltaMatch) {
+      delta = parseAngle(deltaMatch[1]);
+    }
+  }
+  if (delta === null) return 'Curve needs an arc length (L=...) or delta angle (DELTA=...)';
+  if (!(delta > 0) || delta >= 360) return 'Curve angle must be between 0° and 360°';
+
+  const direction = /\b(LEFT|CCW)\b/.test(upper) ? 'left' : 'right';
+
+  return { kind: 'curve', line, radius, delta, chordAzimuth, direction };
+}
+
+/**
+ * Parse one bearing/distance call per line. Blank lines and lines starting
+ * with # are ignored; lines starting with C or CURVE are curve calls.
+ */
+export function parseMetesAndBounds(text: string, unit: MeasurementUnit): ParsedCalls {
+  const calls: TraverseCall[] = [];
+  const errors: ParsedCalls['errors'] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/^\s*\d+[.)]\s+/, '').trim();
+    if (!content || content.startsWith('#')) return;
+
+    const isCurve = /^(?:C|CURVE)\b/i.test(content);
+    const result = isCurve
+      ? parseCurveCall(content.replace(/^(?:C|CURVE)\b\s*/i, ''), line, unit)
+      : parseLineCall(content, line, unit);
+
+    if (typeof result === 'string') {
+      errors.push({ line, message: result });
+    } else {
+      calls.push(result);
+    }
+  });
+
+  return { calls, errors };
+}
+
+function directionVector(azimuth: number): Point {
+  const rad = (azimuth * Math.PI) / 180;
+  // y points south on the canvas
+  return new Point(Math.sin(rad), -Math.cos(rad));
+}
+
+function offset(point: Point, azimuth: number, length: number): Point {
+  const dir = directionVector(azimuth);
+  return new Point(point.x + dir.x * length, point.y + dir.y * length);
+}
+
+/**
+ * Approximate a circular arc with cubic segments of at most 90° each.
+ */
+function arcSegments(start: Point, call: Extract<TraverseCall, { kind: 'curve' }>): PathSegment[] {
+  const sign = call.direction === 'right' ? 1 : -1;
+  const pieces = Math.max(1, Math.ceil(call.delta / 90));
+  const theta = call.delta / pieces;
+  const thetaRad = (theta * Math.PI) / 180;
+  const handle = (4 / 3) * Math.tan(thetaRad / 4) * call.radius;
+  const pieceChord = 2 * call.radius * Math.sin(thetaRad / 2);
+
+  const segments: PathSegment[] = [];
+  let tangent = call.chordAzimuth - (sign * call.delta) / 2;
+  let current = start;
+
+  for (let i = 0; i < pieces; i++) {
+    const nextTangent = tangent + sign * theta;
+    const end = offset(current, tangent + (sign * theta) / 2, pieceChord);
+    segments.push({
+      cp1: offset(current, tangent, handle),
+      cp2: offset(end, nextTangent + 180, handle),
+      end
+    });
+    current = end;
+    tangent = nextTangent;
+  }
+
+  // Land exactly on the chord end to avoid accumulating rounding error
+  const deltaRad = (call.delta * Math.PI) / 180;
+  const chordEnd = offset(start, call.chordAzimuth, 2 * call.radius * Math.sin(deltaRad / 2));
+  const last = segments[segments.length - 1];
+  segments[segments.length - 1] = {
+    cp1: last.cp1,
+    cp2: new Point(last.cp2.x + chordEnd.x - last.end.x, last.cp2.y + chordEnd.y - last.end.y),
+    end: chordEnd
+  };
+
+  return segments;
+}
+
+/**
+ * Run the calls from a point of beginning at (0, 0) and report the closure.
+ */
+export function computeTraverse(calls: TraverseCall[], unit: MeasurementUnit): TraverseResult {
+  const start = new Point(0, 0);
+  const segments: PathSegment[] = [];
+  let current = start;
+  let totalLength = 0;
+  let hasCurves = false;
+
+  for (const call of calls) {
+    if (call.kind === 'line') {
+      const end = offset(current, call.azimuth, call.distance);
+      segments.push({ cp1: end, cp2: end, end });
+      totalLength += call.distance;
+      current = end;
+    } else {
+      const arc = arcSegments(current, call);
+      segments.push(...arc);
+      totalLength += call.radius * ((call.delta * Math.PI) / 180);
+      current = arc[arc.length - 1].end;
+      hasCurves = true;
+    }
+  }
+
+  const closureError = Math.hypot(current.x - start.x, current.y - start.y);
+  return {
+    shape: { start, segments },
+    unit,
+    totalLength,
+    closureError,
+    closureAzimuth: closureError > 0 ? getAzimuth(current, start) : null,
+    precision: closureError > 0 ? totalLength / closureError : Infinity,
+    hasCurves
+  };
+}
+
+/**
+ * Scale a traverse outline from map units to canvas pixels and move its point
+ * of beginning to `origin`.
+ */
+export function placeTraverseShape(shape: PathShape, pixelsPerUnit: number, origin: Point): PathShape {
+  const place = (pt: Point) => new Point(origin.x + pt.x * pixelsPerUnit, origin.y + pt.y * pixelsPerUnit);
+  return {
+    start: place(shape.start),
+    segments: shape.segments.map((seg) => ({
+      cp1: place(seg.cp1),
+      cp2: place(seg.cp2),
+      end: place(seg.end)
+    }))
+  };
+}
+
+export function formatPrecision(precision: number): string {
+  if (!Number.isFinite(precision)) return 'Closed exactly';
+  return `1:${Math.round(precision).toLocaleString()}`;
+}
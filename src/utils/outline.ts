@@ -0,0 +1,162 @@
+import { Circle, Ellipse, Path, Point, Polygon, Rect, util } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { getPathShapeFromObject, getPathShapesFromObject, isSamePoint, type PathSegment, type PathShape } from './pathMerge';
+import { getRectCorners, isPathObjectClosed } from './measurement';
+
+export interface ObjectOutline {
+  /** Outline vertices in canvas coordinates; closed outlines don't repeat the first point */
+  points: Point[];
+  /** Holes in a closed outline, e.g. an easement cut out of a parcel, without repeated first points */
+  holes: Point[][];
+  closed: boolean;
+}
+
+export const DEFAULT_FLATTEN_TOLERANCE = 0.5;
+
+const MAX_FLATTEN_DEPTH = 16;
+const MIN_ELLIPSE_STEPS = 8;
+const MAX_ELLIPSE_STEPS = 1024;
+
+function distanceToChord(pt: Point, from: Point, to: Point): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(pt.x - from.x, pt.y - from.y);
+  return Math.abs((pt.x - from.x) * dy - (pt.y - from.y) * dx) / length;
+}
+
+function flattenCubic(p0: Point, seg: PathSegment, tolerance: number, out: Point[], depth: number): void {
+  const flat =
+    distanceToChord(seg.cp1, p0, seg.end) <= tolerance &&
+    distanceToChord(seg.cp2, p0, seg.end) <= tolerance;
+  if (flat || depth >= MAX_FLATTEN_DEPTH) {
+    out.push(seg.end);
+    return;
+  }
+
+  // de Casteljau split at t = 0.5
+  const p01 = p0.midPointFrom(seg.cp1);
+  const p12 = seg.cp1.midPointFrom(seg.cp2);
+  const p23 = seg.cp2.midPointFrom(seg.end);
+  const p012 = p01.midPointFrom(p12);
+  const p123 = p12.midPointFrom(p23);
+  const mid = p012.midPointFrom(p123);
+
+  flattenCubic(p0, { cp1: p01, cp2: p012, end: mid }, tolerance, out, depth + 1);
+  flattenCubic(mid, { cp1: p123, cp2: p23, end: seg.end }, tolerance, out, depth + 1);
+}
+
+/**
+ * Approximate a path shape with straight segments that stay within
+ * `tolerance` canvas pixels of the curve.
+ */
+export function flattenPathShape(shape: PathShape, tolerance: number = DEFAULT_FLATTEN_TOLERANCE): Point[] {
+  const points: Point[] = [shape.start];
+  let current = shape.start;
+  for (const seg of shape.segments) {
+    flattenCubic(current, seg, Math.max(tolerance, 1e-3), points, 0);
+    current = seg.end;
+  }
+  return points;
+}
+
+function flattenEllipse(obj: Ellipse | Circle, tolerance: number): Point[] {
+  const rx = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).rx ?? 0;
+  const ry = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).ry ?? 0;
+  const matrix = obj.calcTransformMatrix();
+
+  // Sagitta of each chord stays under the tolerance on the largest transformed radius
+  const radius = Math.max(rx * Math.hypot(matrix[0], matrix[1]), ry * Math.hypot(matrix[2], matrix[3]));
+  const ratio = Math.max(-1, 1 - Math.max(tolerance, 1e-3) / Math.max(radius, 1e-6));
+  const steps = Math.min(
+    MAX_ELLIPSE_STEPS,
+    Math.max(MIN_ELLIPSE_STEPS, Math.ceil(Math.PI / Math.acos(ratio)))
+  );
+
+  const points: Point[] = [];
+  for (let i = 0; i < steps; i++) {
+    const t = (i / steps) * Math.PI * 2;
+    points.push(util.transformPoint(new Point(rx * Math.cos(t), ry * Math.sin(t)), matrix));
+  }
+  return points;
+}
+
+function ringArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    area += points[i].x * next.y - next.x * points[i].y;
+  }
+  return area / 2;
+}
+
+/**
+ * Outline of a closed path with several subpaths: the largest ring is the
+ * outline and the rings inside it are its holes.
+ */
+function getRingsOutline(subpaths: PathShape[], tolerance: number): ObjectOutline | null {
+  const rings = subpaths
+    .map((subpath) => {
+      const points = flattenPathShape(subpath, tolerance);
+      // A close command after the ring already returned to its start repeats it
+      while (points.length > 2 && isSamePoint(points[0], points[points.length - 1])) {
+        points.pop();
+      }
+      return points;
+    })
+    .filter((points) => points.length >= 3)
+    .sort((a, b) => Math.abs(ringArea(b)) - Math.abs(ringArea(a)));
+
+  const [points, ...others] = rings;
+  if (!points) return null;
+  const holes = others.filter((ring) => isPointInPolygon(ring[0], points));
+  return { points, holes, closed: true };
+}
+
+/**
+ * Straight-segment outline of a Polyline, Polygon, Path, Rect, Ellipse or
+ * Circle in canvas coordinates, or null for objects without an outline.
+ */
+export function getObjectOutline(
+  obj: FabricObject,
+  tolerance: number = DEFAULT_FLATTEN_TOLERANCE
+): ObjectOutline | null {
+  if (obj instanceof Rect) {
+    return { points: getRectCorners(obj), holes: [], closed: true };
+  }
+  if (obj instanceof Ellipse || obj instanceof Circle) {
+    return { points: flattenEllipse(obj, tolerance), holes: [], closed: true };
+  }
+
+  const explicitlyClosed = obj instanceof Polygon || (obj instanceof Path && isPathObjectClosed(obj));
+  const subpaths = getPathShapesFromObject(obj).filter((subpath) => subpath.segments.length > 0);
+  if (explicitlyClosed && subpaths.length > 1) {
+    return getRingsOutline(subpaths, tolerance);
+  }
+
+  const shape = getPathShapeFromObject(obj);
+  if (!shape) return null;
+
+  const points = flattenPathShape(shape, tolerance);
+  const endsAtStart = points.length > 2 && isSamePoint(points[0], points[points.length - 1]);
+  if (endsAtStart) {
+    points.pop();
+  }
+
+  return { points, holes: [], closed: (explicitlyClosed || endsAtStart) && points.length >= 3 };
+}
+
+/**
+ * Even-odd point-in-polygon test.
+ */
+export function isPointInPolygon(point: { x: number; y: number }, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
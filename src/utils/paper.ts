@@ -0,0 +1,80 @@
+import type { MapScale, PaperOrientation, PaperSize } from '@/types';
+import { convertDistance } from './units';
+
+export interface PaperDimensions {
+  /** Sheet width in millimetres for the requested orientation */
+  width: number;
+  height: number;
+}
+
+export interface PrintArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Portrait sheet sizes in millimetres */
+export const PAPER_SIZES: Array<{ value: PaperSize; label: string; width: number; height: number }> = [
+  { value: 'a4', label: 'A4', width: 210, height: 297 },
+  { value: 'a3', label: 'A3', width: 297, height: 420 },
+  { value: 'a2', label: 'A2', width: 420, height: 594 },
+  { value: 'a1', label: 'A1', width: 594, height: 841 },
+  { value: 'a0', label: 'A0', width: 841, height: 1189 },
+  { value: 'letter', label: 'Letter', width: 215.9, height: 279.4 },
+  { value: 'tabloid', label: 'Tabloid', width: 279.4, height: 431.8 }
+];
+
+export const PRINT_SCALE_PRESETS = [100, 200, 250, 500, 1000, 1250, 2500, 5000, 10000];
+
+export const MM_PER_INCH = 25.4;
+
+export function isPaperSize(value: unknown): value is PaperSize {
+  return PAPER_SIZES.some((size) => size.value === value);
+}
+
+export function getPaperDimensions(size: PaperSize, orientation: PaperOrientation): PaperDimensions {
+  const paper = PAPER_SIZES.find((p) => p.value === size) ?? PAPER_SIZES[0];
+  return orientation === 'landscape'
+    ? { width: paper.height, height: paper.width }
+    : { width: paper.width, height: paper.height };
+}
+
+/**
+ * Printable area inside equal margins, never smaller than 10 mm a side.
+ */
+export function getPrintArea(paper: PaperDimensions, marginMm: number): PrintArea {
+  const margin = Math.max(0, Math.min(marginMm, (Math.min(paper.width, paper.height) - 10) / 2));
+  return {
+    x: margin,
+    y: margin,
+    width: paper.width - margin * 2,
+    height: paper.height - margin * 2
+  };
+}
+
+/**
+ * Ground metres covered by one canvas pixel, or null without a calibrated scale.
+ */
+export function getMetresPerPixel(scale: MapScale | null): number | null {
+  if (!scale || scale.pixelsPerUnit <= 0) return null;
+  return convertDistance(1 / scale.pixelsPerUnit, scale.unit, 'm');
+}
+
+/**
+ * Paper millimetres per canvas pixel when printing at 1:`denominator`.
+ */
+export function getMmPerPixelAtScale(metresPerPixel: number, denominator: number): number {
+  return (metresPerPixel * 1000) / denominator;
+}
+
+/**
+ * Representative fraction denominator for a given paper millimetres per pixel.
+ */
+export function getScaleDenominator(metresPerPixel: number, mmPerPixel: number): number {
+  return (metresPerPixel * 1000) / mmPerPixel;
+}
+
+export function formatScaleRatio(denominator: number): string {
+  return `1:${Math.round(denominator)}`;
+}
@@ -0,0 +1,477 @@
+import { Circle, Ellipse, Point, Polygon, Rect, util } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { buildPathString, getPathShapesFromObject, isSamePoint, type PathSegment, type PathShape } from './pathMerge';
+import { closePathShape, getRectCorners } from './measurement';
+import { isPointInPolygon } from './outline';
+import { pointOnBezier, splitBezier, type BezierPoints } from './pathGeometry';
+
+export type BooleanOperation = 'union' | 'difference' | 'intersection' | 'exclusion';
+
+/** One piece of a result: its outline first, then any holes in it */
+export type ShapeRegion = PathShape[];
+
+type EdgeStatus = 'inside' | 'outside' | 'same' | 'opposite';
+type EdgeRule = Partial<Record<EdgeStatus, 'keep' | 'reverse'>>;
+
+/**
+ * A straight piece of a flattened outline, remembering which segment of the
+ * original outline it came from so curves can be rebuilt afterwards.
+ */
+interface Edge {
+  from: Point;
+  to: Point;
+  /** The original segment: two points for a line, four for a curve */
+  source: BezierPoints;
+  /** Curve parameters of `from` and `to` on the source segment */
+  t0: number;
+  t1: number;
+  /** Points where other outlines cross or touch this edge */
+  splits: EdgeSplit[];
+}
+
+interface EdgeSplit {
+  /** Position along the edge, 0 at `from` and 1 at `to` */
+  u: number;
+  point: Point;
+}
+
+interface Operand {
+  edges: Edge[];
+  /** Flattened rings for inside tests */
+  polygons: Point[][];
+}
+
+// Which edges of the subject and clip outlines bound the result
+const RULES: Record<BooleanOperation, [EdgeRule, EdgeRule]> = {
+  union: [{ outside: 'keep', same: 'keep' }, { outside: 'keep' }],
+  intersection: [{ inside: 'keep', same: 'keep' }, { inside: 'keep' }],
+  difference: [{ outside: 'keep', opposite: 'keep' }, { inside: 'reverse' }],
+  exclusion: [{ outside: 'keep', inside: 'reverse' }, { outside: 'keep', inside: 'reverse' }]
+};
+
+// Curves are flattened finely; only where outlines cross depends on it
+const FLATTEN_TOLERANCE = 0.05;
+const MAX_CURVE_STEPS = 256;
+// Points closer than this are the same point, e.g. corners of adjoining lots
+const EPSILON = 1e-3;
+// Rings smaller than this (in square pixels) are slivers left by rounding
+const MIN_RING_AREA = 0.01;
+// Handle length of a cubic quarter circle, relative to its radius
+const KAPPA = 0.5522847498;
+
+function cross(a: Point, b: Point): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function pointKey(point: Point): string {
+  return `${point.x},${point.y}`;
+}
+
+function lineShape(points: Point[]): PathShape {
+  return closePathShape({
+    start: points[0],
+    segments: points.slice(1).map((end) => ({ cp1: end, cp2: end, end }))
+  });
+}
+
+function ellipseShape(obj: Ellipse | Circle): PathShape {
+  const rx = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).rx ?? 0;
+  const ry = obj instanceof Circle ? obj.radius ?? 0 : (obj as Ellipse).ry ?? 0;
+  const matrix = obj.calcTransformMatrix();
+  const at = (x: number, y: number) => util.transformPoint(new Point(x, y), matrix);
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+
+  // Four quarter arcs, starting from the right
+  return {
+    start: at(rx, 0),
+    segments: [
+      { cp1: at(rx, ky), cp2: at(kx, ry), end: at(0, ry) },
+      { cp1: at(-kx, ry), cp2: at(-rx, ky), end: at(-rx, 0) },
+      { cp1: at(-rx, -ky), cp2: at(-kx, -ry), end: at(0, -ry) },
+      { cp1: at(kx, -ry), cp2: at(rx, -ky), end: at(rx, 0) }
+    ]
+  };
+}
+
+/**
+ * The closed outlines of a Polyline, Polygon, Path, Rect, Ellipse or Circle
+ * in canvas coordinates: one per subpath, so a shape with holes has several.
+ * Null when the object isn't a closed shape.
+ */
+export function getObjectRings(obj: FabricObject): PathShape[] | null {
+  if (obj instanceof Rect) {
+    return [lineShape(getRectCorners(obj))];
+  }
+  if (obj instanceof Ellipse || obj instanceof Circle) {
+    return [ellipseShape(obj)];
+  }
+
+  const rings = getPathShapesFromObject(obj)
+    .map((shape) => (obj instanceof Polygon ? closePathShape(shape) : shape))
+    .filter((shape) => shape.segments.length > 0);
+  const closed = rings.length > 0 && rings.every(
+    (ring) => ring.segments.length >= 2 && isSamePoint(ring.segments[ring.segments.length - 1].end, ring.start)
+  );
+  return closed ? rings : null;
+}
+
+function isStraight(from: Point, seg: PathSegment): boolean {
+  return (
+    (isSamePoint(seg.cp1, from) || isSamePoint(seg.cp1, seg.end)) &&
+    (isSamePoint(seg.cp2, from) || isSamePoint(seg.cp2, seg.end))
+  );
+}
+
+/**
+ * Steps for chords to stay within the flattening tolerance of a cubic, from
+ * the bound on its second derivative.
+ */
+function curveSteps(points: BezierPoints): number {
+  const [p0, p1, p2, p3] = points;
+  const bend = Math.max(
+    Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+    Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y)
+  );
+  return Math.min(MAX_CURVE_STEPS, Math.max(1, Math.ceil(Math.sqrt((0.75 * bend) / FLATTEN_TOLERANCE))));
+}
+
+function ringEdges(ring: PathShape): Edge[] {
+  const edges: Edge[] = [];
+  let current = ring.start;
+
+  ring.segments.forEach((seg, index) => {
+    // Make sure the ring ends exactly where it starts
+    const end = index === ring.segments.length - 1 ? ring.start : seg.end;
+    const source = isStraight(current, seg) ? [current, end] : [current, seg.cp1, seg.cp2, end];
+    const steps = source.length === 2 ? 1 : curveSteps(source);
+
+    let from = current;
+    let t0 = 0;
+    for (let step = 1; step <= steps; step++) {
+      const t1 = step / steps;
+      const to = step === steps ? end : pointOnBezier(source, t1);
+      if (from.distanceFrom(to) <= EPSILON && step < steps) continue;
+      if (from.distanceFrom(to) > 0) {
+        edges.push({ from, to, source, t0, t1, splits: [] });
+      }
+      from = to;
+      t0 = t1;
+    }
+    current = end;
+  });
+  return edges;
+}
+
+function reverseEdges(edges: Edge[]): Edge[] {
+  return [...edges].reverse().map((edge) => ({ ...edge, from: edge.to, to: edge.from, t0: edge.t1, t1: edge.t0 }));
+}
+
+/** Twice the signed area enclosed by a ring of edges */
+function edgesArea(edges: Edge[]): number {
+  return edges.reduce((sum, edge) => sum + cross(edge.from, edge.to), 0);
+}
+
+/**
+ * Flatten an outline's rings, oriented so the shape's inside is always on
+ * the same side of an edge: outlines one way round and holes the other.
+ */
+function toOperand(rings: PathShape[]): Operand {
+  const flattened = rings.map(ringEdges).filter((edges) => edges.length >= 2);
+  const polygons = flattened.map((edges) => edges.map((edge) => edge.from));
+
+  const oriented = flattened.map((edges, index) => {
+    const probe = edges[0].from.midPointFrom(edges[0].to);
+    const depth = polygons.filter((polygon, other) => other !== index && isPointInPolygon(probe, polygon)).length;
+    const isHole = depth % 2 === 1;
+    return (edgesArea(edges) > 0) === isHole ? reverseEdges(edges) : edges;
+  });
+
+  return { edges: oriented.flat(), polygons: oriented.map((edges) => edges.map((edge) => edge.from)) };
+}
+
+/**
+ * Move the clip's vertices onto subject vertices that are practically the
+ * same point, so outlines drawn against each other share corners exactly.
+ */
+function snapVertices(edges: Edge[], targets: Point[]): void {
+  const snap = (point: Point) => targets.find((target) => point.distanceFrom(target) <= EPSILON) ?? point;
+  for (const edge of edges) {
+    edge.from = snap(edge.from);
+    edge.to = snap(edge.to);
+  }
+}
+
+function distanceToLine(point: Point, edge: Edge): number {
+  const direction = edge.to.subtract(edge.from);
+  return Math.abs(cross(point.subtract(edge.from), direction)) / Math.hypot(direction.x, direction.y);
+}
+
+function distanceToEdge(point: Point, edge: Edge): number {
+  const direction = edge.to.subtract(edge.from);
+  const u = dot(point.subtract(edge.from), direction) / dot(direction, direction);
+  const nearest = edge.from.lerp(edge.to, Math.min(Math.max(u, 0), 1));
+  return point.distanceFrom(nearest);
+}
+
+/** Record that `point`, which lies on `edge`, splits it unless it's an end */
+function addSplit(edge: Edge, point: Point): void {
+  if (point.distanceFrom(edge.from) <= EPSILON || point.distanceFrom(edge.to) <= EPSILON) return;
+  const direction = edge.to.subtract(edge.from);
+  const u = dot(point.subtract(edge.from), direction) / dot(direction, direction);
+  if (u > 0 && u < 1) {
+    edge.splits.push({ u, point });
+  }
+}
+
+function intersectEdges(a: Edge, b: Edge): void {
+  if (
+    Math.max(a.from.x, a.to.x) + EPSILON < Math.min(b.from.x, b.to.x) ||
+    Math.max(b.from.x, b.to.x) + EPSILON < Math.min(a.from.x, a.to.x) ||
+    Math.max(a.from.y, a.to.y) + EPSILON < Math.min(b.from.y, b.to.y) ||
+    Math.max(b.from.y, b.to.y) + EPSILON < Math.min(a.from.y, a.to.y)
+  ) {
+    return;
+  }
+
+  // Overlapping edges split each other at their ends
+  if (distanceToLine(b.from, a) <= EPSILON && distanceToLine(b.to, a) <= EPSILON) {
+    addSplit(a, b.from);
+    addSplit(a, b.to);
+    addSplit(b, a.from);
+    addSplit(b, a.to);
+    return;
+  }
+
+  const r = a.to.subtract(a.from);
+  const s = b.to.subtract(b.from);
+  const denom = cross(r, s);
+  if (denom === 0) return;
+
+  const offset = b.from.subtract(a.from);
+  const u = cross(offset, s) / denom;
+  const v = cross(offset, r) / denom;
+  const slackU = EPSILON / Math.hypot(r.x, r.y);
+  const slackV = EPSILON / Math.hypot(s.x, s.y);
+  if (u < -slackU || u > 1 + slackU || v < -slackV || v > 1 + slackV) return;
+
+  // Crossings at a vertex use the vertex itself, so both outlines meet there exactly
+  const crossing = a.from.lerp(a.to, u);
+  const point = [a.from, a.to, b.from, b.to].find((end) => end.distanceFrom(crossing) <= EPSILON) ?? crossing;
+  addSplit(a, point);
+  addSplit(b, point);
+}
+
+/** Cut edges at their split points */
+function splitEdges(edges: Edge[]): Edge[] {
+  return edges.flatMap((edge) => {
+    if (edge.splits.length === 0) return [edge];
+
+    const splits = [...edge.splits].sort((a, b) => a.u - b.u);
+    const pieces: Edge[] = [];
+    let from = edge.from;
+    let t0 = edge.t0;
+    for (const split of splits) {
+      if (split.point.distanceFrom(from) <= EPSILON) continue;
+      const t1 = edge.t0 + (edge.t1 - edge.t0) * split.u;
+      pieces.push({ ...edge, from, to: split.point, t0, t1, splits: [] });
+      from = split.point;
+      t0 = t1;
+    }
+    pieces.push({ ...edge, from, t0, splits: [] });
+    return pieces;
+  });
+}
+
+function classifyEdge(edge: Edge, other: Operand, otherEdges: Edge[]): EdgeStatus {
+  const mid = edge.from.midPointFrom(edge.to);
+  const direction = edge.to.subtract(edge.from);
+
+  for (const candidate of otherEdges) {
+    if (distanceToEdge(mid, candidate) <= EPSILON) {
+      return dot(direction, candidate.to.subtract(candidate.from)) > 0 ? 'same' : 'opposite';
+    }
+  }
+
+  const inside = other.polygons.reduce((result, polygon) => result !== isPointInPolygon(mid, polygon), false);
+  return inside ? 'inside' : 'outside';
+}
+
+function selectEdges(edges: Edge[], other: Operand, otherEdges: Edge[], rule: EdgeRule): Edge[] {
+  const selected: Edge[] = [];
+  for (const edge of edges) {
+    const action = rule[classifyEdge(edge, other, otherEdges)];
+    if (action === 'keep') {
+      selected.push(edge);
+    } else if (action === 'reverse') {
+      selected.push(...reverseEdges([edge]));
+    }
+  }
+  return selected;
+}
+
+/**
+ * Chain edges into closed loops. Where several edges leave the same point,
+ * the one turning furthest left is taken.
+ */
+function linkLoops(edges: Edge[]): Edge[][] {
+  const outgoing = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    const key = pointKey(edge.from);
+    outgoing.set(key, [...(outgoing.get(key) ?? []), edge]);
+  }
+
+  const used = new Set<Edge>();
+  const loops: Edge[][] = [];
+  for (const first of edges) {
+    if (used.has(first)) continue;
+    used.add(first);
+
+    const loop = [first];
+    const startKey = pointKey(first.from);
+    let closed = false;
+    while (loop.length <= edges.length) {
+      const last = loop[loop.length - 1];
+      if (pointKey(last.to) === startKey) {
+        closed = true;
+        break;
+      }
+
+      const incoming = last.to.subtract(last.from);
+      let next: Edge | null = null;
+      let nextTurn = -Infinity;
+      for (const candidate of outgoing.get(pointKey(last.to)) ?? []) {
+        if (used.has(candidate)) continue;
+        const direction = candidate.to.subtract(candidate.from);
+        const turn = Math.atan2(cross(incoming, direction), dot(incoming, direction));
+        if (turn > nextTurn) {
+          next = candidate;
+          nextTurn = turn;
+        }
+      }
+      if (!next) break;
+      used.add(next);
+      loop.push(next);
+    }
+
+    if (closed && Math.abs(edgesArea(loop)) / 2 > MIN_RING_AREA) {
+      loops.push(loop);
+    }
+  }
+  return loops;
+}
+
+/** The part of a segment between two curve parameters, in that direction */
+function sliceBezier(points: BezierPoints, t0: number, t1: number): BezierPoints {
+  if (t0 > t1) return sliceBezier(points, t1, t0).reverse();
+  const [, tail] = splitBezier(points, t0);
+  if (t0 >= 1) return tail;
+  const [piece] = splitBezier(tail, (t1 - t0) / (1 - t0));
+  return piece;
+}
+
+function continues(previous: Edge, next: Edge): boolean {
+  return previous.source === next.source && previous.t1 === next.t0;
+}
+
+/**
+ * Turn a loop of edges back into a path shape, replacing each run of edges
+ * along one original segment with that part of the segment.
+ */
+function loopToShape(loop: Edge[]): PathShape {
+  // Start where one original segment ends so no run wraps around the start
+  const seam = loop.findIndex((edge, index) => !continues(loop[(index + loop.length - 1) % loop.length], edge));
+  const edges = seam > 0 ? [...loop.slice(seam), ...loop.slice(0, seam)] : loop;
+
+  const segments: PathSegment[] = [];
+  let runStart = 0;
+  edges.forEach((edge, index) => {
+    if (index < edges.length - 1 && continues(edge, edges[index + 1])) return;
+
+    const first = edges[runStart];
+    const end = edge.to;
+    if (edge.source.length === 2) {
+      segments.push({ cp1: end, cp2: end, end });
+    } else {
+      const [p0, cp1, cp2, p3] = sliceBezier(edge.source, first.t0, edge.t1);
+      // Crossings sit on the flattened outline, so nudge the ends onto them
+      segments.push({ cp1: cp1.add(first.from.subtract(p0)), cp2: cp2.add(end.subtract(p3)), end });
+    }
+    runStart = index + 1;
+  });
+
+  return { start: edges[0].from, segments };
+}
+
+function combinePair(subject: PathShape[], clip: PathShape[], operation: BooleanOperation): PathShape[] {
+  const a = toOperand(subject);
+  const b = toOperand(clip);
+  snapVertices(b.edges, a.edges.map((edge) => edge.from));
+  b.edges = b.edges.filter((edge) => edge.from !== edge.to);
+
+  for (const edgeA of a.edges) {
+    for (const edgeB of b.edges) {
+      intersectEdges(edgeA, edgeB);
+    }
+  }
+
+  const edgesA = splitEdges(a.edges);
+  const edgesB = splitEdges(b.edges);
+  const [ruleA, ruleB] = RULES[operation];
+  const selected = [
+    ...selectEdges(edgesA, b, edgesB, ruleA),
+    ...selectEdges(edgesB, a, edgesA, ruleB)
+  ];
+
+  return linkLoops(selected).map(loopToShape);
+}
+
+/**
+ * Sort rings into regions: each outline with the holes inside it.
+ */
+function groupRegions(rings: PathShape[]): ShapeRegion[] {
+  const entries = rings.map((ring) => {
+    const edges = ringEdges(ring);
+    return {
+      ring,
+      area: edgesArea(edges),
+      polygon: edges.map((edge) => edge.from),
+      probe: edges[0].from.midPointFrom(edges[0].to)
+    };
+  });
+
+  const outlines = entries.filter((entry) => entry.area > 0);
+  const regions = new Map(outlines.map((entry) => [entry, [entry.ring]]));
+  for (const hole of entries.filter((entry) => entry.area < 0)) {
+    // The smallest outline around a hole is the one it belongs to
+    const container = outlines
+      .filter((entry) => isPointInPolygon(hole.probe, entry.polygon))
+      .sort((a, b) => a.area - b.area)[0];
+    if (container) {
+      regions.get(container)!.push(hole.ring);
+    }
+  }
+  return [...regions.values()];
+}
+
+/**
+ * Combine closed shapes, each given as its rings (see getObjectRings), in
+ * order: the first is the subject and the rest are applied to it one by one,
+ * e.g. subtracted from it. Curves stay curves, cut where outlines cross.
+ */
+export function combineShapes(operands: PathShape[][], operation: BooleanOperation): ShapeRegion[] {
+  if (operands.length === 0) return [];
+  let rings = operands[0];
+  for (const clip of operands.slice(1)) {
+    rings = combinePair(rings, clip, operation);
+  }
+  return groupRegions(rings.filter((ring) => ring.segments.length >= 2));
+}
+
+export function buildRegionPathString(region: ShapeRegion): string {
+  return region.map((ring) => `${buildPathString(ring)} Z`).join(' ');
+}
@@ -0,0 +1,177 @@
+import { Path, Point, Polygon } from 'fabric';
+import type { FabricObject } from 'fabric';
+import { getPathShapeFromObject, isSamePoint, type PathSegment, type PathShape } from './pathMerge';
+import { closePathShape, isPathObjectClosed, isPathShapeClosed } from './measurement';
+
+/**
+ * Control points of one Bézier segment: two for a line, three for a
+ * quadratic, four for a cubic.
+ */
+export type BezierPoints = Point[];
+
+export interface BezierHit {
+  /** Curve parameter of the nearest point, 0 at the start and 1 at the end */
+  t: number;
+  point: Point;
+  distance: number;
+}
+
+export interface PathShapeHit extends BezierHit {
+  segmentIndex: number;
+}
+
+export interface ObjectPathShape {
+  shape: PathShape;
+  /** Closed shapes end where they start */
+  closed: boolean;
+}
+
+const NEAREST_SAMPLES = 24;
+const NEAREST_REFINE_STEPS = 24;
+
+/**
+ * Split a segment at `t` with de Casteljau's construction. Both halves keep
+ * the segment's degree and together trace exactly the same curve.
+ */
+export function splitBezier(points: BezierPoints, t: number): [BezierPoints, BezierPoints] {
+  const left: Point[] = [points[0]];
+  const right: Point[] = [points[points.length - 1]];
+  let level = points;
+  while (level.length > 1) {
+    const next: Point[] = [];
+    for (let i = 0; i < level.length - 1; i++) {
+      next.push(level[i].lerp(level[i + 1], t));
+    }
+    left.push(next[0]);
+    right.unshift(next[next.length - 1]);
+    level = next;
+  }
+  return [left, right];
+}
+
+export function pointOnBezier(points: BezierPoints, t: number): Point {
+  let level = points;
+  while (level.length > 1) {
+    const next: Point[] = [];
+    for (let i = 0; i < level.length - 1; i++) {
+      next.push(level[i].lerp(level[i + 1], t));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Find the point of a segment closest to `target`. Lines are solved exactly;
+ * curves are sampled, then the best sample is refined.
+ */
+export function nearestPointOnBezier(points: BezierPoints, target: Point): BezierHit {
+  const hitAt = (t: number): BezierHit => {
+    const point = pointOnBezier(points, t);
+    return { t, point, distance: point.distanceFrom(target) };
+  };
+
+  if (points.length === 2) {
+    const [from, to] = points;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return hitAt(0);
+    const t = ((target.x - from.x) * dx + (target.y - from.y) * dy) / lengthSq;
+    return hitAt(Math.min(Math.max(t, 0), 1));
+  }
+
+  let best = hitAt(0);
+  for (let i = 1; i <= NEAREST_SAMPLES; i++) {
+    const sample = hitAt(i / NEAREST_SAMPLES);
+    if (sample.distance < best.distance) best = sample;
+  }
+
+  // Narrow down around the best sample, keeping whichever side is closer
+  let step = 1 / NEAREST_SAMPLES;
+  for (let i = 0; i < NEAREST_REFINE_STEPS; i++) {
+    step /= 2;
+    const before = hitAt(Math.max(best.t - step, 0));
+    const after = hitAt(Math.min(best.t + step, 1));
+    if (before.distance < best.distance) best = before;
+    if (after.distance < best.distance) best = after;
+  }
+  return best;
+}
+
+/**
+ * Find the point of a path shape closest to `target`, with the segment it
+ * lies on.
+ */
+export function nearestPointOnPathShape(shape: PathShape, target: Point): PathShapeHit | null {
+  let best: PathShapeHit | null = null;
+  let current = shape.start;
+  shape.segments.forEach((seg, segmentIndex) => {
+    const hit = nearestPointOnBezier([current, seg.cp1, seg.cp2, seg.end], target);
+    if (!best || hit.distance < best.distance) best = { ...hit, segmentIndex };
+    current = seg.end;
+  });
+  return best;
+}
+
+/**
+ * Cut a path shape at `t` along one of its segments. An open shape becomes
+ * the parts before and after the cut; a closed one, which must end where it
+ * starts, is opened into one shape that starts and ends at the cut. Returns
+ * null when the cut falls on an end of an open shape.
+ */
+export function splitPathShape(shape: PathShape, closed: boolean, segmentIndex: number, t: number): PathShape[] | null {
+  const { segments } = shape;
+  if (segments.length === 0) return null;
+
+  // A cut at the end of a segment is a cut at the start of the next one
+  if (t >= 1) {
+    segmentIndex += 1;
+    t = 0;
+  }
+  if (closed) segmentIndex %= segments.length;
+
+  const starts = [shape.start, ...segments.map((seg) => seg.end)];
+  let before: PathSegment[] = segments.slice(0, segmentIndex);
+  let after: PathSegment[] = segments.slice(segmentIndex);
+  let cut = starts[segmentIndex];
+
+  if (t > 0) {
+    const seg = segments[segmentIndex];
+    const [left, right] = splitBezier([cut, seg.cp1, seg.cp2, seg.end], t);
+    before = [...before, { cp1: left[1], cp2: left[2], end: left[3] }];
+    after = [{ cp1: right[1], cp2: right[2], end: right[3] }, ...segments.slice(segmentIndex + 1)];
+    cut = left[3];
+  }
+
+  if (closed) return [{ start: cut, segments: [...after, ...before] }];
+  if (before.length === 0 || after.length === 0) return null;
+  return [
+    { start: shape.start, segments: before },
+    { start: cut, segments: after }
+  ];
+}
+
+/**
+ * A line or curve object as a path shape in canvas coordinates, without
+ * zero-length segments and with closed shapes ending where they start.
+ */
+export function getObjectPathShape(obj: FabricObject): ObjectPathShape | null {
+  const raw = getPathShapeFromObject(obj);
+  if (!raw) return null;
+
+  // e.g. a close command right after the path returned to its start
+  let current = raw.start;
+  const segments = raw.segments.filter((seg) => {
+    const empty = isSamePoint(current, seg.end) && isSamePoint(current, seg.cp1) && isSamePoint(current, seg.cp2);
+    current = seg.end;
+    return !empty;
+  });
+  let shape: PathShape = { start: raw.start, segments };
+
+  const explicitlyClosed = obj instanceof Polygon || (obj instanceof Path && isPathObjectClosed(obj));
+  if (explicitlyClosed) {
+    shape = closePathShape(shape);
+  }
+  return { shape, closed: explicitlyClosed || isPathShapeClosed(shape) };
+}
@@ -0,0 +1,145 @@
+import { Point } from 'fabric';
+import { getPathEnd, reversePathShape, type PathSegment, type PathShape } from './pathMerge';
+
+export interface JoinOptions {
+  /** Widest gap between two ends that is bridged with a straight segment */
+  tolerance: number;
+  /** Ends closer than this are merged into one anchor at their midpoint instead */
+  coincidentTolerance?: number;
+  /** Connect the two free ends of the result */
+  close: boolean;
+}
+
+export type JoinResult =
+  | { shape: PathShape; closed: boolean }
+  | { error: string };
+
+interface JoinCandidate {
+  /** Index into the shapes not joined yet */
+  index: number;
+  gap: number;
+  /** Add after the joined path's end rather than before its start */
+  append: boolean;
+  reverse: boolean;
+}
+
+const COINCIDENT_TOLERANCE = 0.5;
+const STRAIGHT_EPSILON = 1e-6;
+
+function lineSegment(end: Point): PathSegment {
+  return { cp1: end, cp2: end, end };
+}
+
+function distanceToLine(pt: Point, from: Point, to: Point): number {
+  const length = from.distanceFrom(to);
+  if (length === 0) return pt.distanceFrom(from);
+  return Math.abs((pt.x - from.x) * (to.y - from.y) - (pt.y - from.y) * (to.x - from.x)) / length;
+}
+
+/**
+ * Whether a segment is a straight line, whichever end its control points
+ * sit at (reversing a line moves them from its end to its start).
+ */
+function isStraight(start: Point, seg: PathSegment): boolean {
+  return (
+    distanceToLine(seg.cp1, start, seg.end) <= STRAIGHT_EPSILON &&
+    distanceToLine(seg.cp2, start, seg.end) <= STRAIGHT_EPSILON
+  );
+}
+
+/**
+ * Move the first anchor, dragging the handle leaving it along so curves
+ * keep their shape near the other end.
+ */
+export function movePathShapeStart(shape: PathShape, to: Point): PathShape {
+  const [first, ...rest] = shape.segments;
+  if (!first) return { start: to, segments: [] };
+  const delta = to.subtract(shape.start);
+  const moved = isStraight(shape.start, first)
+    ? lineSegment(first.end)
+    : { ...first, cp1: first.cp1.add(delta) };
+  return { start: to, segments: [moved, ...rest] };
+}
+
+/**
+ * Move the last anchor, dragging the handle arriving at it along.
+ */
+export function movePathShapeEnd(shape: PathShape, to: Point): PathShape {
+  const segments = [...shape.segments];
+  const last = segments.pop();
+  if (!last) return { start: to, segments: [] };
+  const lastStart = segments.length > 0 ? segments[segments.length - 1].end : shape.start;
+  const moved = isStraight(lastStart, last)
+    ? lineSegment(to)
+    : { ...last, cp2: last.cp2.add(to.subtract(last.end)), end: to };
+  return { start: shape.start, segments: [...segments, moved] };
+}
+
+/**
+ * Connect `head`'s end to `tail`'s start: merge them when they (nearly)
+ * touch, otherwise bridge the gap with a straight segment.
+ */
+function connect(head: PathShape, tail: PathShape, coincidentTolerance: number): PathShape {
+  const end = getPathEnd(head);
+  if (end.distanceFrom(tail.start) <= coincidentTolerance) {
+    const mid = end.midPointFrom(tail.start);
+    const movedHead = movePathShapeEnd(head, mid);
+    const movedTail = movePathShapeStart(tail, mid);
+    return { start: movedHead.start, segments: [...movedHead.segments, ...movedTail.segments] };
+  }
+  return { start: head.start, segments: [...head.segments, lineSegment(tail.start), ...tail.segments] };
+}
+
+/**
+ * Join open path shapes end to end into one. Starting from the first shape,
+ * the shape with an end nearest to either end of the joined path is added
+ * next, reversed where needed. Fails when a gap is wider than the tolerance.
+ */
+export function joinPathShapes(shapes: PathShape[], options: JoinOptions): JoinResult {
+  if (shapes.length < 2) return { error: 'Select two or more lines to join' };
+  const coincidentTolerance = options.coincidentTolerance ?? COINCIDENT_TOLERANCE;
+
+  let joined = shapes[0];
+  const remaining = shapes.slice(1);
+
+  while (remaining.length > 0) {
+    const start = joined.start;
+    const end = getPathEnd(joined);
+    let best: JoinCandidate | null = null;
+    for (let index = 0; index < remaining.length; index++) {
+      const shapeStart = remaining[index].start;
+      const shapeEnd = getPathEnd(remaining[index]);
+      const candidates: JoinCandidate[] = [
+        { index, gap: end.distanceFrom(shapeStart), append: true, reverse: false },
+        { index, gap: end.distanceFrom(shapeEnd), append: true, reverse: true },
+        { index, gap: start.distanceFrom(shapeEnd), append: false, reverse: false },
+        { index, gap: start.distanceFrom(shapeStart), append: false, reverse: true }
+      ];
+      for (const candidate of candidates) {
+        if (!best || candidate.gap < best.gap) best = candidate;
+      }
+    }
+
+    const next = best!;
+    if (next.gap > options.tolerance) {
+      return { error: `A gap of ${next.gap.toFixed(1)} px is wider than the ${options.tolerance} px allowed` };
+    }
+
+    const [shape] = remaining.splice(next.index, 1);
+    const oriented = next.reverse ? reversePathShape(shape) : shape;
+    joined = next.append
+      ? connect(joined, oriented, coincidentTolerance)
+      : connect(oriented, joined, coincidentTolerance);
+  }
+
+  if (!options.close) return { shape: joined, closed: false };
+
+  // Close on the start so the result is a loop ending where it begins
+  const end = getPathEnd(joined);
+  if (end.distanceFrom(joined.start) <= coincidentTolerance) {
+    const mid = end.midPointFrom(joined.start);
+    const moved = movePathShapeStart(movePathShapeEnd(joined, mid), mid);
+    return { shape: moved, closed: true };
+  }
+  return { shape: { start: joined.start, segments: [...joined.segments, lineSegment(joined.start)] }, closed: true };
+}
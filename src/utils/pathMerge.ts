@@ -36,23 +36,31 @@ function lineSegment(end: Point): PathSegment {
   return { cp1: end, cp2: end, end };
 }
 
-function getPathShapeFromPath(path: Path): PathShape | null {
-  if (!path.path || path.path.length === 0) return null;
+/**
+ * Each subpath of a path, i.e. each run of commands after a move, in canvas
+ * coordinates. A close command ends its subpath with a line back to the
+ * subpath's start.
+ */
+function getSubpathsFromPath(path: Path): PathShape[] {
+  if (!path.path || path.path.length === 0) return [];
 
   const matrix = path.calcTransformMatrix();
   const offset = getPathOffset(path);
+  const subpaths: PathShape[] = [];
   let start: Point | null = null;
   let current: Point | null = null;
-  const segments: PathSegment[] = [];
+  let segments: PathSegment[] = [];
 
   for (const segment of path.path) {
     const cmd = segment[0];
 
     if (cmd === 'M') {
       const p = transformPoint(segment[1] as number, segment[2] as number, matrix, offset);
-      if (!start) {
-        start = p;
+      if (start) {
+        subpaths.push({ start, segments });
       }
+      start = p;
+      segments = [];
       current = p;
       continue;
     }
@@ -100,8 +108,16 @@ function getPathShapeFromPath(path: Path): PathShape | null {
     }
   }
 
-  if (!start) return null;
-  return { start, segments };
+  if (start) {
+    subpaths.push({ start, segments });
+  }
+  return subpaths;
+}
+
+function getPathShapeFromPath(path: Path): PathShape | null {
+  const [first, ...rest] = getSubpathsFromPath(path);
+  if (!first) return null;
+  return { start: first.start, segments: [...first.segments, ...rest.flatMap((subpath) => subpath.segments)] };
 }
 
 function getPathShapeFromPolyline(polyline: Polyline): PathShape | null {
@@ -129,6 +145,18 @@ export function getPathShapeFromObject(obj: FabricObject): PathShape | null {
   return null;
 }
 
+/**
+ * Like getPathShapeFromObject, but with each subpath of a Path as its own
+ * shape, e.g. the outline and holes of a shape with holes.
+ */
+export function getPathShapesFromObject(obj: FabricObject): PathShape[] {
+  if (obj instanceof Path) {
+    return getSubpathsFromPath(obj);
+  }
+  const shape = getPathShapeFromObject(obj);
+  return shape ? [shape] : [];
+}
+
 export function buildPathString(shape: PathShape): string {
   if (shape.segments.length === 0) {
     return `M ${shape.start.x} ${shape.start.y}`;
@@ -0,0 +1,290 @@
+import { Point } from 'fabric';
+import { getPathEnd, isSamePoint, reversePathShape, type PathSegment, type PathShape } from './pathMerge';
+import { closePathShape } from './measurement';
+import { pointOnBezier, splitBezier, type BezierPoints } from './pathGeometry';
+import { movePathShapeEnd, movePathShapeStart } from './pathJoin';
+
+/** How offset segments meet where the original turns a corner */
+export type OffsetJoin = 'miter' | 'round' | 'bevel';
+
+/** Left and right of the direction the line was drawn in */
+export type OffsetSide = 'left' | 'right' | 'both';
+
+export interface OffsetOptions {
+  /** Canvas pixels from the original to the copy, on each side for 'both' */
+  distance: number;
+  side: OffsetSide;
+  join: OffsetJoin;
+}
+
+export interface OffsetResult {
+  /** One ring, or for a closed shape offset on both sides its outside and inside */
+  rings: PathShape[];
+  closed: boolean;
+}
+
+interface OffsetPiece {
+  shape: PathShape;
+  /** Offset from a straight segment, so it can be extended as a line */
+  straight: boolean;
+  /** The original's anchor the piece ends at */
+  corner: Point;
+  startTangent: Point;
+  endTangent: Point;
+}
+
+// Mitres longer than this many offset distances are bevelled instead
+const MITER_LIMIT = 4;
+// Canvas pixels an offset curve may stray from the true offset
+const OFFSET_TOLERANCE = 0.1;
+const MAX_SUBDIVISION_DEPTH = 8;
+const ERROR_SAMPLES = [0.25, 0.5, 0.75];
+
+function cross(a: Point, b: Point): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+function unit(vector: Point): Point | null {
+  const length = Math.hypot(vector.x, vector.y);
+  return length > 1e-9 ? vector.scalarDivide(length) : null;
+}
+
+/** The normal on the left when walking along `tangent`, on screen */
+function leftNormal(tangent: Point): Point {
+  return new Point(tangent.y, -tangent.x);
+}
+
+function lineSegment(end: Point): PathSegment {
+  return { cp1: end, cp2: end, end };
+}
+
+function isStraight(from: Point, seg: PathSegment): boolean {
+  return (
+    (isSamePoint(seg.cp1, from) || isSamePoint(seg.cp1, seg.end)) &&
+    (isSamePoint(seg.cp2, from) || isSamePoint(seg.cp2, seg.end))
+  );
+}
+
+/** Direction of a cubic at `t`, looking past handles that sit on their anchor */
+function tangentAt(points: BezierPoints, t: number): Point {
+  const [p0, p1, p2, p3] = points;
+  const mt = 1 - t;
+  const derivative = p1.subtract(p0).scalarMultiply(mt * mt)
+    .add(p2.subtract(p1).scalarMultiply(2 * mt * t))
+    .add(p3.subtract(p2).scalarMultiply(t * t));
+  return (
+    unit(derivative) ??
+    unit(t < 0.5 ? p2.subtract(p0) : p3.subtract(p1)) ??
+    unit(p3.subtract(p0)) ??
+    new Point(1, 0)
+  );
+}
+
+/**
+ * Signed curvature at an end of a cubic, positive where it bends towards its
+ * left normal.
+ */
+function endCurvature(anchor: Point, handle: Point, next: Point, atStart: boolean): number {
+  const arm = handle.subtract(anchor);
+  const length = Math.hypot(arm.x, arm.y);
+  if (length < 1e-9) return 0;
+  const turn = cross(arm, next.subtract(handle));
+  return ((atStart ? -2 : 2) / 3) * turn / (length * length * length);
+}
+
+/**
+ * Offset a cubic by moving its ends along their normals and scaling the
+ * handles by how much the curvature there changes the radius.
+ */
+function offsetCubic(points: BezierPoints, distance: number): BezierPoints {
+  const [p0, p1, p2, p3] = points;
+  const q0 = p0.add(leftNormal(tangentAt(points, 0)).scalarMultiply(distance));
+  const q3 = p3.add(leftNormal(tangentAt(points, 1)).scalarMultiply(distance));
+  const k0 = Math.max(0, 1 - distance * endCurvature(p0, p1, p2, true));
+  const k3 = Math.max(0, 1 - distance * endCurvature(p3, p2, p1, false));
+  return [q0, q0.add(p1.subtract(p0).scalarMultiply(k0)), q3.add(p2.subtract(p3).scalarMultiply(k3)), q3];
+}
+
+/**
+ * Offset a cubic, splitting it in half until each half's offset stays within
+ * the tolerance of the true offset curve.
+ */
+function offsetCurve(points: BezierPoints, distance: number, depth = 0): PathSegment[] {
+  const offset = offsetCubic(points, distance);
+  const accurate = ERROR_SAMPLES.every((t) => {
+    const expected = pointOnBezier(points, t).add(leftNormal(tangentAt(points, t)).scalarMultiply(distance));
+    return pointOnBezier(offset, t).distanceFrom(expected) <= OFFSET_TOLERANCE;
+  });
+
+  if (accurate || depth >= MAX_SUBDIVISION_DEPTH) {
+    return [{ cp1: offset[1], cp2: offset[2], end: offset[3] }];
+  }
+  const [left, right] = splitBezier(points, 0.5);
+  return [...offsetCurve(left, distance, depth + 1), ...offsetCurve(right, distance, depth + 1)];
+}
+
+function offsetSegment(from: Point, seg: PathSegment, distance: number): OffsetPiece {
+  if (isStraight(from, seg)) {
+    const tangent = unit(seg.end.subtract(from))!;
+    const shift = leftNormal(tangent).scalarMultiply(distance);
+    return {
+      shape: { start: from.add(shift), segments: [lineSegment(seg.end.add(shift))] },
+      straight: true,
+      corner: seg.end,
+      startTangent: tangent,
+      endTangent: tangent
+    };
+  }
+
+  const points = [from, seg.cp1, seg.cp2, seg.end];
+  const startTangent = tangentAt(points, 0);
+  return {
+    shape: { start: from.add(leftNormal(startTangent).scalarMultiply(distance)), segments: offsetCurve(points, distance) },
+    straight: false,
+    corner: seg.end,
+    startTangent,
+    endTangent: tangentAt(points, 1)
+  };
+}
+
+/** Where the lines through `a` along `da` and through `b` along `db` cross */
+function lineIntersection(a: Point, da: Point, b: Point, db: Point): { point: Point; along: number; alongOther: number } | null {
+  const denom = cross(da, db);
+  if (Math.abs(denom) < 1e-9) return null;
+  const offset = b.subtract(a);
+  const along = cross(offset, db) / denom;
+  return { point: a.add(da.scalarMultiply(along)), along, alongOther: cross(offset, da) / denom };
+}
+
+/** Cubic arcs around `center` from `from` to `to`, the short way round */
+function arcSegments(center: Point, from: Point, to: Point): PathSegment[] {
+  const start = from.subtract(center);
+  const end = to.subtract(center);
+  const radius = Math.hypot(start.x, start.y);
+  const sweep = Math.atan2(cross(start, end), start.x * end.x + start.y * end.y);
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  const step = sweep / count;
+  const handle = (4 / 3) * Math.tan(step / 4) * radius;
+  const startAngle = Math.atan2(start.y, start.x);
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const a0 = startAngle + step * i;
+    const a1 = a0 + step;
+    const p0 = center.add(new Point(Math.cos(a0), Math.sin(a0)).scalarMultiply(radius));
+    const p1 = i === count - 1 ? to : center.add(new Point(Math.cos(a1), Math.sin(a1)).scalarMultiply(radius));
+    segments.push({
+      cp1: p0.add(new Point(-Math.sin(a0), Math.cos(a0)).scalarMultiply(handle)),
+      cp2: p1.subtract(new Point(-Math.sin(a1), Math.cos(a1)).scalarMultiply(handle)),
+      end: p1
+    });
+  }
+  return segments;
+}
+
+function chordLength(shape: PathShape): number {
+  return shape.start.distanceFrom(getPathEnd(shape));
+}
+
+/**
+ * Connect two consecutive offset pieces. On the outside of a corner the gap
+ * is filled with the join; on the inside both pieces are trimmed to where
+ * they cross. Returns the segments between them.
+ */
+function joinPieces(before: OffsetPiece, after: OffsetPiece, distance: number, join: OffsetJoin): PathSegment[] {
+  const a = getPathEnd(before.shape);
+  const b = after.shape.start;
+  if (a.distanceFrom(b) <= 1e-6) {
+    after.shape = movePathShapeStart(after.shape, a);
+    return [];
+  }
+
+  const meeting = lineIntersection(a, before.endTangent, b, after.startTangent);
+  const outside = cross(before.endTangent, after.startTangent) * distance > 0;
+
+  if (!outside) {
+    // Trim only while the crossing lies within both pieces
+    if (meeting && meeting.along < 0 && -meeting.along < chordLength(before.shape) && meeting.alongOther > 0 && meeting.alongOther < chordLength(after.shape)) {
+      before.shape = movePathShapeEnd(before.shape, meeting.point);
+      after.shape = movePathShapeStart(after.shape, meeting.point);
+      return [];
+    }
+    return [lineSegment(b)];
+  }
+
+  if (join === 'round') {
+    return arcSegments(before.corner, a, b);
+  }
+  if (join === 'miter' && meeting && meeting.point.distanceFrom(before.corner) <= MITER_LIMIT * Math.abs(distance)) {
+    // Lines are extended to the mitre's tip; curves get a straight run to it
+    const segments: PathSegment[] = [];
+    if (before.straight) {
+      before.shape = movePathShapeEnd(before.shape, meeting.point);
+    } else {
+      segments.push(lineSegment(meeting.point));
+    }
+    if (after.straight) {
+      after.shape = movePathShapeStart(after.shape, meeting.point);
+    } else {
+      segments.push(lineSegment(b));
+    }
+    return segments;
+  }
+  return [lineSegment(b)];
+}
+
+/**
+ * Offset a path shape by `distance` canvas pixels to the left of its
+ * direction, or to the right for a negative distance. Closed shapes, which
+ * must end where they start, stay closed.
+ */
+function offsetOneSide(shape: PathShape, closed: boolean, distance: number, join: OffsetJoin): PathShape | null {
+  const pieces: OffsetPiece[] = [];
+  let current = shape.start;
+  for (const seg of shape.segments) {
+    const empty = isSamePoint(current, seg.end) && isSamePoint(current, seg.cp1) && isSamePoint(current, seg.cp2);
+    if (!empty) {
+      pieces.push(offsetSegment(current, seg, distance));
+    }
+    current = seg.end;
+  }
+  if (pieces.length === 0) return null;
+
+  const joins = pieces.map((piece, index) => {
+    const next = pieces[index + 1] ?? (closed ? pieces[0] : null);
+    return next ? joinPieces(piece, next, distance, join) : [];
+  });
+
+  const segments = pieces.flatMap((piece, index) => [...piece.shape.segments, ...joins[index]]);
+  const offset = { start: pieces[0].shape.start, segments };
+  return closed ? closePathShape(offset) : offset;
+}
+
+/**
+ * A parallel copy of a line or shape `distance` canvas pixels to one side,
+ * or on both sides as a closed strip. For a closed shape the strip is a
+ * ring: its outside with the inside as a hole.
+ */
+export function offsetPathShape(shape: PathShape, closed: boolean, options: OffsetOptions): OffsetResult | null {
+  const { distance, side, join } = options;
+  if (side !== 'both') {
+    const offset = offsetOneSide(shape, closed, side === 'left' ? distance : -distance, join);
+    return offset ? { rings: [offset], closed } : null;
+  }
+
+  const left = offsetOneSide(shape, closed, distance, join);
+  const right = offsetOneSide(shape, closed, -distance, join);
+  if (!left || !right) return null;
+
+  if (closed) {
+    return { rings: [left, reversePathShape(right)], closed: true };
+  }
+
+  // Square ends across the original's ends
+  const back = reversePathShape(right);
+  const strip = {
+    start: left.start,
+    segments: [...left.segments, lineSegment(back.start), ...back.segments]
+  };
+  return { rings: [closePathShape(strip)], closed: true };
+}
@@ -0,0 +1,24 @@
+export const BUNDLE_FORMAT = 'elmap';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.elmap';
+export const BUNDLE_MANIFEST_PATH = 'manifest.json';
+/** Image `src` values in a bundle's scene that point at a media entry */
+export const BUNDLE_MEDIA_PREFIX = 'elmap:';
+
+type ObjectJSON = Record<string, any>;
+
+/**
+ * Visit every serialized image in canvas JSON, including images inside
+ * groups and clip paths.
+ */
+export function forEachImageJSON(canvasJson: object, callback: (json: ObjectJSON) => void): void {
+  const visit = (json: unknown): void => {
+    if (!json || typeof json !== 'object') return;
+    const obj = json as ObjectJSON;
+    if (String(obj.type).toLowerCase() === 'image') callback(obj);
+    if (Array.isArray(obj.objects)) obj.objects.forEach(visit);
+    if (obj.clipPath) visit(obj.clipPath);
+  };
+  const objects = (canvasJson as { objects?: unknown[] }).objects;
+  if (Array.isArray(objects)) objects.forEach(visit);
+}
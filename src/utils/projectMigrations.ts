@@ -0,0 +1,100 @@
+import { isValidMapScale } from './units';
+import { isValidGeoTransform } from './georeference';
+
+/**
+ * Version of the project format this app writes, in exported files and in
+ * records saved to the browser. Bump it together with a new step in
+ * PROJECT_MIGRATIONS whenever the saved shape changes.
+ */
+export const PROJECT_VERSION = '1.1.0';
+
+// Records saved to the browser before they carried a version
+const UNVERSIONED_PROJECT_VERSION = '1.0.0';
+
+/**
+ * Project JSON at any version: an exported file (ProjectData) or a saved
+ * project, autosave or version record. Steps only touch fields these share.
+ */
+export type VersionedProject = Record<string, any> & { version?: string };
+
+interface ProjectMigration {
+  from: string;
+  to: string;
+  description: string;
+  /** Return an upgraded copy; the input must not be modified */
+  migrate: (data: VersionedProject) => VersionedProject;
+}
+
+/**
+ * Upgrade steps in order, each from the version the previous one produced.
+ */
+const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Keep the scale and georeference with the lock state',
+    migrate: (data) => {
+      if (!data.lockState) return { ...data };
+      // Prefer the copies stored with the lock state, falling back to the top-level ones
+      const scale = [data.lockState.scale, data.scale].find(isValidMapScale) ?? null;
+      const georeference = [data.lockState.georeference, data.georeference].find(isValidGeoTransform) ?? null;
+      return { ...data, lockState: { ...data.lockState, scale, georeference } };
+    }
+  }
+];
+
+/**
+ * Thrown for a project saved by a newer version of the app, which this one
+ * can't read without risking losing what it doesn't understand.
+ */
+export class ProjectVersionError extends Error {
+  constructor(readonly projectVersion: string) {
+    super(`This project was saved by a newer version of the app (format ${projectVersion}). Update the app to open it.`);
+    this.name = 'ProjectVersionError';
+  }
+}
+
+/**
+ * Compare dotted version strings numerically, e.g. '1.10.0' > '1.9.2'.
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((part) => Number(part) || 0);
+  const partsB = b.split('.').map((part) => Number(part) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function getProjectVersion(data: VersionedProject): string {
+  return typeof data.version === 'string' ? data.version : UNVERSIONED_PROJECT_VERSION;
+}
+
+/**
+ * Whether `data` is older than PROJECT_VERSION. Throws ProjectVersionError
+ * when it is newer.
+ */
+export function needsProjectMigration(data: VersionedProject): boolean {
+  const comparison = compareVersions(getProjectVersion(data), PROJECT_VERSION);
+  if (comparison > 0) throw new ProjectVersionError(getProjectVersion(data));
+  return comparison < 0;
+}
+
+/**
+ * Run every step between the version of `data` and PROJECT_VERSION. Returns
+ * a new object stamped with PROJECT_VERSION; `data` is left unchanged.
+ */
+export function migrateProject<T extends VersionedProject>(data: T): T {
+  if (!needsProjectMigration(data)) return data;
+
+  let version = getProjectVersion(data);
+  let migrated: VersionedProject = data;
+  while (version !== PROJECT_VERSION) {
+    const step = PROJECT_MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) throw new Error(`Unknown project format ${version}`);
+    migrated = { ...step.migrate(migrated), version: step.to };
+    version = step.to;
+  }
+  return migrated as T;
+}
@@ -0,0 +1,76 @@
+import { StaticCanvas, util, type FabricObject } from 'fabric';
+import { isExportableObject } from '@/canvas';
+
+/**
+ * Render saved canvases side by side in the same frame, so previews of two
+ * versions line up when one is laid over the other. Each image is at most
+ * `maxSize` pixels on its longer side, on a white background.
+ */
+export async function renderCanvasSnapshots(snapshots: object[], maxSize: number): Promise<HTMLCanvasElement[]> {
+  const objectSets = await Promise.all(
+    snapshots.map(async (json) => {
+      const objects = await util.enlivenObjects<FabricObject>((json as { objects?: object[] }).objects ?? []);
+      return objects.filter((obj) => isExportableObject(obj) && obj.visible !== false);
+    })
+  );
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  objectSets.flat().forEach((obj) => {
+    const rect = obj.getBoundingRect();
+    minX = Math.min(minX, rect.left);
+    minY = Math.min(minY, rect.top);
+    maxX = Math.max(maxX, rect.left + rect.width);
+    maxY = Math.max(maxY, rect.top + rect.height);
+  });
+  if (!Number.isFinite(minX)) {
+    minX = minY = 0;
+    maxX = maxY = 1;
+  }
+
+  const width = Math.max(maxX - minX, 1);
+  const height = Math.max(maxY - minY, 1);
+  const scale = maxSize / Math.max(width, height);
+
+  return objectSets.map((objects) => {
+    const preview = new StaticCanvas(document.createElement('canvas'), {
+      width: Math.max(Math.round(width * scale), 1),
+      height: Math.max(Math.round(height * scale), 1),
+      backgroundColor: '#ffffff',
+      renderOnAddRemove: false,
+      enableRetinaScaling: false
+    });
+    preview.setViewportTransform([scale, 0, 0, scale, -minX * scale, -minY * scale]);
+    objects.forEach((obj) => preview.add(obj));
+    preview.renderAll();
+    const element = preview.toCanvasElement();
+    void preview.dispose();
+    return element;
+  });
+}
+
+/**
+ * Re-encode a preview image as a JPEG at most `maxSize` pixels on its longer
+ * side. Returns the original when that wouldn't make it smaller.
+ */
+export async function compressPreview(dataUrl: string, maxSize: number, quality: number = 0.7): Promise<string> {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(Math.round(image.naturalWidth * scale), 1);
+  canvas.height = Math.max(Math.round(image.naturalHeight * scale), 1);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+
+  // JPEG has no transparency; previews are drawn on white like the canvas
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const compressed = canvas.toDataURL('image/jpeg', quality);
+  return compressed.length < dataUrl.length ? compressed : dataUrl;
+}
@@ -0,0 +1,134 @@
+import type { AreaUnit, MapScale, MeasurementUnit } from '@/types';
+
+export const MEASUREMENT_UNITS: Array<{ value: MeasurementUnit; label: string }> = [
+  { value: 'm', label: 'Metres' },
+  { value: 'km', label: 'Kilometres' },
+  { value: 'ft', label: 'Feet' },
+  { value: 'yd', label: 'Yards' },
+  { value: 'ch', label: 'Chains' },
+  { value: 'mi', label: 'Miles' }
+];
+
+export const AREA_UNITS: Array<{ value: AreaUnit; label: string; symbol: string }> = [
+  { value: 'm2', label: 'Square metres', symbol: 'm²' },
+  { value: 'ha', label: 'Hectares', symbol: 'ha' },
+  { value: 'ac', label: 'Acres', symbol: 'ac' }
+];
+
+const METRES_PER_UNIT: Record<MeasurementUnit, number> = {
+  m: 1,
+  km: 1000,
+  ft: 0.3048,
+  yd: 0.9144,
+  ch: 20.1168,
+  mi: 1609.344
+};
+
+const SQUARE_METRES_PER_AREA_UNIT: Record<AreaUnit, number> = {
+  m2: 1,
+  ha: 10000,
+  ac: 4046.8564224
+};
+
+export function isMeasurementUnit(value: unknown): value is MeasurementUnit {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(METRES_PER_UNIT, value);
+}
+
+export function convertDistance(value: number, from: MeasurementUnit, to: MeasurementUnit): number {
+  if (from === to) return value;
+  return (value * METRES_PER_UNIT[from]) / METRES_PER_UNIT[to];
+}
+
+/**
+ * Convert a canvas pixel distance to real-world units using the map scale.
+ */
+export function pixelsToUnits(pixels: number, scale: MapScale): number {
+  return pixels / scale.pixelsPerUnit;
+}
+
+/**
+ * Convert an area in square canvas pixels to the requested area unit.
+ */
+export function pixelAreaToUnits(pixelArea: number, scale: MapScale, unit: AreaUnit): number {
+  const squareUnits = pixelArea / (scale.pixelsPerUnit * scale.pixelsPerUnit);
+  const metresPerUnit = METRES_PER_UNIT[scale.unit];
+  return (squareUnits * metresPerUnit * metresPerUnit) / SQUARE_METRES_PER_AREA_UNIT[unit];
+}
+
+export function isAreaUnit(value: unknown): value is AreaUnit {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SQUARE_METRES_PER_AREA_UNIT, value);
+}
+
+export function formatArea(value: number, unit: AreaUnit): string {
+  const symbol = AREA_UNITS.find((u) => u.value === unit)?.symbol ?? unit;
+  const abs = Math.abs(value);
+  const decimals = unit === 'm2' ? (abs >= 100 ? 0 : 1) : abs >= 100 ? 2 : 3;
+  return `${value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${symbol}`;
+}
+
+export function unitsToPixels(value: number, scale: MapScale): number {
+  return value * scale.pixelsPerUnit;
+}
+
+export function formatDistance(value: number, unit: MeasurementUnit): string {
+  const abs = Math.abs(value);
+  const decimals = abs >= 1000 ? 0 : abs >= 100 ? 1 : 2;
+  return `${value.toFixed(decimals)} ${unit}`;
+}
+
+export function formatMapScale(scale: MapScale): string {
+  return `1 ${scale.unit} = ${scale.pixelsPerUnit.toFixed(2)} px`;
+}
+
+/**
+ * Build a scale calibrated so that `pixels` on the canvas equal `distance` units.
+ */
+export function createMapScale(
+  pixels: number,
+  distance: number,
+  unit: MeasurementUnit,
+  imageWidth: number,
+  imageHeight: number
+): MapScale | null {
+  if (!(pixels > 0) || !(distance > 0)) return null;
+  return {
+    pixelsPerUnit: pixels / distance,
+    unit,
+    imageWidth,
+    imageHeight
+  };
+}
+
+/**
+ * Adjust a scale for a base image that has been resized since calibration.
+ */
+export function rescaleMapScale(scale: MapScale, imageWidth: number, imageHeight: number): MapScale {
+  if (scale.imageWidth <= 0 || scale.imageHeight <= 0) {
+    return { ...scale, imageWidth, imageHeight };
+  }
+
+  const ratioX = imageWidth / scale.imageWidth;
+  const ratioY = imageHeight / scale.imageHeight;
+  if (Math.abs(ratioX - 1) < 1e-6 && Math.abs(ratioY - 1) < 1e-6) {
+    return { ...scale };
+  }
+
+  return {
+    ...scale,
+    pixelsPerUnit: scale.pixelsPerUnit * ((ratioX + ratioY) / 2),
+    imageWidth,
+    imageHeight
+  };
+}
+
+export function isValidMapScale(value: unknown): value is MapScale {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.pixelsPerUnit === 'number' &&
+    obj.pixelsPerUnit > 0 &&
+    isMeasurementUnit(obj.unit) &&
+    typeof obj.imageWidth === 'number' &&
+    typeof obj.imageHeight === 'number'
+  );
+}